@@ -1,47 +1,50 @@
-import React, { useState } from 'react';
+import { BrowserRouter, Navigate, Route, Routes, useNavigate, useParams } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { DataProvider } from './context/DataContext';
 import { LoginForm } from './components/LoginForm';
+import { SetPasswordForm } from './components/SetPasswordForm';
 import { Header } from './components/Layout/Header';
 import { Sidebar } from './components/Layout/Sidebar';
 import { ManagerDashboard } from './components/Dashboards/ManagerDashboard';
 import { EmployeeDashboard } from './components/Dashboards/EmployeeDashboard';
 import { ClientDashboard } from './components/Dashboards/ClientDashboard';
+import { TeamLeadDashboard } from './components/Dashboards/TeamLeadDashboard';
+import { FinanceDashboard } from './components/Dashboards/FinanceDashboard';
+import { StakeholderDashboard } from './components/Dashboards/StakeholderDashboard';
+import { SharePage } from './components/Share/SharePage';
+import { SHARE_LINK_ROUTE } from './utils/shareLinks';
+import { DEFAULT_VIEW, ROLE_PROJECT_LIST_VIEW, canAccessView, viewPath } from './utils/routes';
 
-function AppContent() {
-  const { isAuthenticated, user } = useAuth();
-  const [activeView, setActiveView] = useState('projects');
+function DashboardLayout({ projectRoute = false }: { projectRoute?: boolean }) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { view } = useParams<{ view: string }>();
 
-  // Update active view when user changes
-  React.useEffect(() => {
-    if (user?.role) {
-      switch (user.role) {
-        case 'manager':
-          setActiveView('dashboard');
-          break;
-        case 'employee':
-          setActiveView('dashboard');
-          break;
-        case 'client':
-          setActiveView('dashboard');
-          break;
-        default:
-          setActiveView('projects');
-      }
-    }
-  }, [user?.role]);
+  // Project detail pages keep the role's project list highlighted in the sidebar
+  const activeView = projectRoute && user ? ROLE_PROJECT_LIST_VIEW[user.role] : view || DEFAULT_VIEW;
 
-  if (!isAuthenticated) {
-    return <LoginForm />;
+  // Role guard: send users to their dashboard when the view isn't theirs
+  if (!projectRoute && !canAccessView(user?.role, activeView)) {
+    return <Navigate to={viewPath(DEFAULT_VIEW)} replace />;
   }
 
+  const handleViewChange = (nextView: string) => {
+    navigate(viewPath(nextView));
+  };
+
   const renderContent = () => {
     if (user?.role === 'manager') {
-      return <ManagerDashboard activeView={activeView} onViewChange={setActiveView} />;
+      return <ManagerDashboard activeView={activeView} onViewChange={handleViewChange} />;
+    } else if (user?.role === 'team_lead') {
+      return <TeamLeadDashboard activeView={activeView} onViewChange={handleViewChange} />;
     } else if (user?.role === 'employee') {
-      return <EmployeeDashboard activeView={activeView} onViewChange={setActiveView} />;
+      return <EmployeeDashboard activeView={activeView} onViewChange={handleViewChange} />;
     } else if (user?.role === 'client') {
-      return <ClientDashboard activeView={activeView} onViewChange={setActiveView} />;
+      return <ClientDashboard activeView={activeView} onViewChange={handleViewChange} />;
+    } else if (user?.role === 'finance') {
+      return <FinanceDashboard activeView={activeView} onViewChange={handleViewChange} />;
+    } else if (user?.role === 'stakeholder') {
+      return <StakeholderDashboard activeView={activeView} onViewChange={handleViewChange} />;
     } else {
       return (
         <div className="p-6">
@@ -58,7 +61,7 @@ function AppContent() {
     <div className="min-h-screen bg-gray-50">
       <Header />
       <div className="flex">
-        <Sidebar activeView={activeView} onViewChange={setActiveView} />
+        <Sidebar activeView={activeView} onViewChange={handleViewChange} />
         <main className="flex-1">
           {renderContent()}
         </main>
@@ -67,14 +70,55 @@ function AppContent() {
   );
 }
 
+function AppContent() {
+  const { isAuthenticated, isLoading, passwordChangeRequired } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Restoring your session...</p>
+      </div>
+    );
+  }
+
+  // The requested URL is kept while logging in, so deep links land after sign-in
+  if (!isAuthenticated) {
+    return <LoginForm />;
+  }
+
+  if (passwordChangeRequired) {
+    return <SetPasswordForm />;
+  }
+
+  return (
+    <Routes>
+      <Route path="/" element={<Navigate to={viewPath(DEFAULT_VIEW)} replace />} />
+      <Route path="/projects/:projectId/:tab?/:detail?" element={<DashboardLayout projectRoute />} />
+      <Route path="/:view" element={<DashboardLayout />} />
+      <Route path="*" element={<Navigate to={viewPath(DEFAULT_VIEW)} replace />} />
+    </Routes>
+  );
+}
+
 function App() {
   return (
-    <AuthProvider>
-      <DataProvider>
-        <AppContent />
-      </DataProvider>
-    </AuthProvider>
+    <BrowserRouter>
+      <Routes>
+        {/* Share links are opened by people without an account, so they skip sign-in */}
+        <Route path={`${SHARE_LINK_ROUTE}/:token`} element={<SharePage />} />
+        <Route
+          path="*"
+          element={
+            <AuthProvider>
+              <DataProvider>
+                <AppContent />
+              </DataProvider>
+            </AuthProvider>
+          }
+        />
+      </Routes>
+    </BrowserRouter>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
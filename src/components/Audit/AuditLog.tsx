@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { AuditEvent, AuditEntityType, AUDIT_ENTITY_TYPES, AUDIT_EVENT_LIMIT } from '../../types';
+import { toCsv, downloadCsv } from '../../utils/csv';
+import { Download, Filter, History, RefreshCw } from 'lucide-react';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: 'Project',
+  stage: 'Stage',
+  file: 'File',
+  folder: 'Folder',
+  share_link: 'Share Link',
+  retention_rule: 'Retention Rule',
+  comment: 'Comment',
+  task: 'Task',
+  meeting: 'Meeting',
+  brochure: 'Brochure',
+  brochure_page: 'Brochure Page',
+  lead: 'Lead',
+  invoice: 'Invoice',
+  user: 'User'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const isChange = (value: unknown): value is { from: unknown; to: unknown } =>
+  !!value && typeof value === 'object' && 'from' in value && 'to' in value;
+
+// One line per detail: changed fields as "field: old → new", anything else as "key: value"
+const describeDetails = (details: Record<string, unknown>) =>
+  Object.entries(details).map(([key, value]) =>
+    isChange(value) ? `${key}: ${formatValue(value.from)} → ${formatValue(value.to)}` : `${key}: ${formatValue(value)}`
+  );
+
+// Date inputs give local calendar days; widen them to cover the whole day
+const startOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+const endOfDay = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+export function AuditLog() {
+  const { projects, users, fetchAuditEvents } = useData();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [actorId, setActorId] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  // fetchAuditEvents is recreated on every render of the provider; only filter changes reload
+  const fetchAuditEventsRef = useRef(fetchAuditEvents);
+  fetchAuditEventsRef.current = fetchAuditEvents;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError('');
+
+    fetchAuditEventsRef.current({
+      project_id: projectId || undefined,
+      actor_id: actorId || undefined,
+      entity_type: entityType || undefined,
+      from: startOfDay(fromDate),
+      to: endOfDay(toDate)
+    })
+      .then(result => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch(error => {
+        console.error('Error loading audit log:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not load the audit log');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, actorId, entityType, fromDate, toDate, refreshKey]);
+
+  const getProjectTitle = (id?: string) =>
+    id ? projects.find(p => p.id === id)?.title || 'Deleted project' : '—';
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ['Time', 'Actor', 'Role', 'Action', 'Entity Type', 'Entity ID', 'Project', 'Details'],
+      events.map(event => [
+        new Date(event.created_at).toISOString(),
+        event.actor_name,
+        event.actor_role,
+        event.action,
+        event.entity_type,
+        event.entity_id,
+        getProjectTitle(event.project_id),
+        describeDetails(event.details).join('; ')
+      ])
+    );
+    downloadCsv(csv, `audit-log-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const hasFilters = !!(projectId || actorId || entityType || fromDate || toDate);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h2>
+          <p className="text-gray-600 text-lg">Who changed what across projects, files and approvals</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-xl font-semibold flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={events.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-xl font-semibold flex items-center space-x-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+        <div className="flex items-center space-x-2 mb-3 text-sm font-semibold text-gray-700">
+          <Filter className="w-4 h-4" />
+          <span>Filters</span>
+          {hasFilters && (
+            <button
+              onClick={() => { setProjectId(''); setActorId(''); setEntityType(''); setFromDate(''); setToDate(''); }}
+              className="ml-auto text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.title}</option>
+            ))}
+          </select>
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All users</option>
+            {users.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <select
+            value={entityType}
+            onChange={(e) => setEntityType(e.target.value as AuditEntityType | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All entity types</option>
+            {AUDIT_ENTITY_TYPES.map(type => (
+              <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {events.length >= AUDIT_EVENT_LIMIT && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+          Showing the latest {AUDIT_EVENT_LIMIT} events. Narrow the filters to see older entries.
+        </div>
+      )}
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{loadError}</div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Time</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Actor</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {events.map(event => (
+                <tr key={event.id} className="hover:bg-blue-50 transition-colors duration-150 align-top">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(event.created_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-semibold text-gray-900">{event.actor_name}</div>
+                    <div className="text-xs text-gray-500">{event.actor_role}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{event.action}</div>
+                    <div className="text-xs text-gray-500">{ENTITY_LABELS[event.entity_type] || event.entity_type}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{getProjectTitle(event.project_id)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {describeDetails(event.details).map(line => (
+                      <div key={line} className="break-all">{line}</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {!isLoading && events.length === 0 && !loadError && (
+        <div className="text-center py-12">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <History className="w-12 h-12 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No audit events</h3>
+          <p className="text-gray-600">{hasFilters ? 'Try widening your filters' : 'Changes will be recorded here as they happen'}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useData } from '../../context/DataContext';
 import { BrochurePage, BrochureProject } from '../../types';
 import { BrochurePageEditor } from './BrochurePageEditor';
 import { PageComments } from './PageComments';
+import { BrochureExportDialog } from './BrochureExportDialog';
+import { can, canOnAllProjects, getBrochurePermissionTarget } from '../../utils/permissions';
 import { 
   Plus, 
   Save, 
@@ -13,16 +15,19 @@ import {
   FileText,
   CheckCircle,
   Clock,
-  Trash2
+  Trash2,
+  FileDown
 } from 'lucide-react';
 
 interface BrochureDesignProps {
   initialBrochureProject?: BrochureProject;
   projectId?: string;
   onBack?: () => void;
+  pageNumber?: number;
+  onPageChange?: (pageNumber: number) => void;
 }
 
-export function BrochureDesign({ initialBrochureProject, projectId, onBack }: BrochureDesignProps = {}) {
+export function BrochureDesign({ initialBrochureProject, projectId, onBack, pageNumber, onPageChange }: BrochureDesignProps = {}) {
   const { user } = useAuth();
   const { 
     brochureProjects, 
@@ -38,11 +43,12 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
   } = useData();
 
   const [currentProject, setCurrentProject] = useState<BrochureProject | null>(initialBrochureProject || null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPageState] = useState(pageNumber || 1);
   // Live editor only (no preview mode)
   const [pageData, setPageData] = useState<BrochurePage['content']>({});
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'manual-saving'>('idle');
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   // If a projectId is provided, auto-select the brochure for that project (if present)
   useEffect(() => {
@@ -50,24 +56,39 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
     const byProject = brochureProjects.find(p => p.project_id === projectId);
     if (byProject && (!currentProject || currentProject.id !== byProject.id)) {
       setCurrentProject(byProject);
-      setCurrentPage(1);
+      setCurrentPageState(pageNumber || 1);
     }
   }, [projectId, brochureProjects]);
 
-  // Check if current user can edit this project
-  const canEdit = useMemo(() => {
-    if (!user || !currentProject) return false;
-    // Managers can edit all brochure projects
-    if (user.role === 'manager') return true;
-    // Clients can edit their own brochure projects
-    if (user.role === 'client' && currentProject.client_id === user.id) return true;
-    // Employees can edit brochure projects for clients they're assigned to work with
-    if (user.role === 'employee') {
-      const relatedProject = projects.find(p => p.client_id === currentProject.client_id);
-      return relatedProject && relatedProject.assigned_employees.includes(user.id);
+  // Follow the page in the URL (deep links, back/forward)
+  useEffect(() => {
+    if (pageNumber && pageNumber !== currentPage) {
+      setCurrentPageState(pageNumber);
     }
-    return false;
-  }, [user, currentProject, projects]);
+  }, [pageNumber]);
+
+  // Keep the URL in step with the page being edited
+  const setCurrentPage = (page: number) => {
+    setCurrentPageState(page);
+    onPageChange?.(page);
+  };
+
+  // The project a brochure belongs to decides who may work on it
+  const getParentProject = useCallback(
+    (brochure: BrochureProject) => getBrochurePermissionTarget(brochure, projects),
+    [projects]
+  );
+
+  // Check if current user can edit this project
+  const canEdit = useMemo(
+    () => !!currentProject && can(user, 'brochure.edit', getParentProject(currentProject)),
+    [user, currentProject, getParentProject]
+  );
+
+  const canExport = useMemo(
+    () => !!currentProject && can(user, 'brochure.export', getParentProject(currentProject)),
+    [user, currentProject, getParentProject]
+  );
 
   // Get client's brochure projects
   const accessibleProjects = useMemo(() => {
@@ -80,21 +101,8 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
       return brochureProjects.filter(bp => bp.project_id === projectId);
     }
     
-    if (user?.role === 'manager') {
-      // Managers can access all brochure projects
-      return brochureProjects;
-    } else if (user?.role === 'employee') {
-      // Employees can access brochure projects for clients they work with
-      const assignedProjects = projects
-        .filter(p => p.assigned_employees.includes(user.id))
-        .map(p => p.client_id);
-      return brochureProjects.filter(bp => assignedProjects.includes(bp.client_id));
-    } else if (user?.role === 'client') {
-      // Clients can only access their own brochure projects
-      return brochureProjects.filter(project => project.client_id === user.id);
-    }
-    return [];
-  }, [brochureProjects, projects, user, initialBrochureProject, projectId]);
+    return brochureProjects.filter(bp => can(user, 'project.view', getParentProject(bp)));
+  }, [brochureProjects, user, initialBrochureProject, projectId, getParentProject]);
 
   // Auto-save functionality with debounce
   const debouncedSave = useCallback(
@@ -169,25 +177,13 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
       }
     }
     
-    // Fallback: For managers and employees, create project for the first available client
-    if (user.role === 'manager' || user.role === 'employee') {
-      const firstProject = projects[0];
-      if (firstProject) {
-        const created = await createBrochureProject(firstProject.id, firstProject.client_id, firstProject.client_name);
-        if (created) {
-          setCurrentProject(created);
-          setCurrentPage(1);
-        }
-      }
-    } else if (user.role === 'client') {
-      // For clients, find their project
-      const clientProject = projects.find(p => p.client_id === user.id);
-      if (clientProject) {
-        const created = await createBrochureProject(clientProject.id, user.id, user.name);
-        if (created) {
-          setCurrentProject(created);
-          setCurrentPage(1);
-        }
+    // Fallback: create the brochure for the first project the user may create brochures in
+    const firstProject = projects.find(p => can(user, 'brochure.create', p));
+    if (firstProject) {
+      const created = await createBrochureProject(firstProject.id, firstProject.client_id, firstProject.client_name);
+      if (created) {
+        setCurrentProject(created);
+        setCurrentPage(1);
       }
     }
   };
@@ -208,8 +204,14 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
       updates.status = 'ready_for_design';
     }
     
-    updateBrochureProject(currentProject.id, updates);
-    setCurrentProject(prev => prev ? { ...prev, ...updates } : null);
+    updateBrochureProject(currentProject.id, updates)
+      .then(() => {
+        setCurrentProject(prev => prev ? { ...prev, ...updates } : null);
+      })
+      .catch((error) => {
+        console.error('Error updating brochure project:', error);
+        alert('Failed to update brochure status. Please try again.');
+      });
   };
 
   const handleManualSave = () => {
@@ -289,6 +291,9 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
         content: {},
         approval_status: 'pending',
         is_locked: false
+      }).catch((error) => {
+        console.error('Error adding page:', error);
+        alert('Failed to add page. Please try again.');
       });
     }
     
@@ -310,19 +315,24 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
     return pages.find(p => p.page_number === currentPage);
   };
 
-  const handleLockToggle = () => {
+  const handleLockToggle = async () => {
     const page = getCurrentPage();
     if (!page) return;
     
-    if (page.is_locked) {
-      unlockBrochurePage(page.id);
-    } else {
-      lockBrochurePage(page.id);
+    try {
+      if (page.is_locked) {
+        await unlockBrochurePage(page.id);
+      } else {
+        await lockBrochurePage(page.id);
+      }
+    } catch (error) {
+      console.error('Error toggling page lock:', error);
+      alert('Failed to update page lock. Please try again.');
     }
   };
 
   const isPageEditable = () => {
-    if (user?.role === 'manager' || user?.role === 'employee') return true; // Managers and employees can always edit
+    if (currentProject && can(user, 'brochure.editLocked', getParentProject(currentProject))) return true; // Locks don't apply
     const page = getCurrentPage();
     return !page?.is_locked; // Others can only edit if page is not locked
   };
@@ -340,7 +350,7 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
           <p className="text-gray-600">
             {user?.role === 'client' 
               ? 'Create and manage your brochure design projects'
-              : user?.role === 'manager'
+              : canOnAllProjects(user, 'project.view')
               ? 'Manage all brochure design projects'
               : 'Work on assigned brochure design projects'
             }
@@ -363,7 +373,7 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
                 : 'Create a new brochure project to get started'
               }
             </p>
-            {(user?.role === 'client' || user?.role === 'manager' || user?.role === 'employee') && (
+            {can(user, 'brochure.create') && (
               <button
                 onClick={handleCreateProject}
                 className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center space-x-2 mx-auto"
@@ -378,9 +388,9 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
             <div className="flex justify-between items-center">
               <h3 className="text-lg font-semibold text-gray-900">
                 {user?.role === 'client' ? 'Your Brochure Projects' : 
-                 user?.role === 'manager' ? 'All Brochure Projects' : 'Assigned Brochure Projects'}
+                 canOnAllProjects(user, 'project.view') ? 'All Brochure Projects' : 'Assigned Brochure Projects'}
               </h3>
-              {(user?.role === 'client' || user?.role === 'manager' || user?.role === 'employee') && (
+              {can(user, 'brochure.create') && (
                 <button
                   onClick={handleCreateProject}
                   className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
@@ -401,7 +411,7 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="font-medium text-gray-900">
                       {user?.role === 'client' ? 'Brochure Project' : 
-                       user?.role === 'manager' ? `${project.client_name}'s Brochure` :
+                       canOnAllProjects(user, 'project.view') ? `${project.client_name}'s Brochure` :
                        `Brochure for ${project.client_name}`}
                     </h4>
                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${
@@ -416,7 +426,7 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
                   <p className="text-sm text-gray-600">
                     Created: {new Date(project.created_at).toLocaleDateString()}
                   </p>
-                  {user?.role === 'manager' && (
+                  {canOnAllProjects(user, 'project.view') && (
                     <p className="text-sm text-gray-600">
                       Client: {project.client_name}
                     </p>
@@ -452,6 +462,19 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
             >
               ← {onBack ? 'Back to Project' : 'Back to Projects'}
             </button>
+            {canExport && (
+              <button
+                onClick={() => {
+                  // Export what is on screen, including edits still waiting to auto-save
+                  debouncedSave.flush();
+                  setShowExport(true);
+                }}
+                className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                <FileDown className="w-4 h-4" />
+                <span>Export PDF</span>
+              </button>
+            )}
             {canEdit && (
               <button
                 onClick={handleManualSave}
@@ -599,7 +622,7 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
         {/* Comments Sidebar */}
         <div className="lg:col-span-1">
           {/* Lock/Unlock Controls for Managers and Employees */}
-          {(user?.role === 'manager' || user?.role === 'employee') && getCurrentPage() && (
+          {can(user, 'brochure.lock', getParentProject(currentProject)) && getCurrentPage() && (
             <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
               <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
                 <span className="text-lg mr-2">{getCurrentPage()?.is_locked ? '🔒' : '🔓'}</span>
@@ -655,13 +678,19 @@ export function BrochureDesign({ initialBrochureProject, projectId, onBack }: Br
             </div>
           )}
 
-          <PageComments 
-            pageId={`${currentProject.id}-${currentPage}`}
-            projectId={currentProject.id}
-            pageNumber={currentPage}
-          />
+          {getCurrentPage() && (
+            <PageComments 
+              pageId={getCurrentPage()!.id}
+              projectId={currentProject.id}
+              pageNumber={currentPage}
+            />
+          )}
         </div>
       </div>
+
+      {showExport && (
+        <BrochureExportDialog brochure={currentProject} onClose={() => setShowExport(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,231 @@
+import { FormEvent, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { BrochureProject } from '../../types';
+import {
+  BROCHURE_BLEED_RANGE_MM,
+  BROCHURE_MARGIN_RANGE_MM,
+  BROCHURE_PAPER_SIZES,
+  BrochurePaperSize,
+  DEFAULT_BROCHURE_PDF_OPTIONS
+} from '../../utils/brochurePdf';
+import { AlertTriangle, FileDown, X } from 'lucide-react';
+
+interface BrochureExportDialogProps {
+  brochure: BrochureProject;
+  onClose: () => void;
+}
+
+// Print settings for exporting a brochure as a paginated PDF
+export function BrochureExportDialog({ brochure, onClose }: BrochureExportDialogProps) {
+  const { getBrochurePages, exportBrochurePdf } = useData();
+  const pages = getBrochurePages(brochure.id);
+  const cover = pages.find(page => page.page_number === 1)?.content || {};
+  const unapprovedCount = pages.filter(page => page.approval_status !== 'approved').length;
+
+  const [title, setTitle] = useState(cover.project_name || `${brochure.client_name}'s Brochure`);
+  const [paperSize, setPaperSize] = useState<BrochurePaperSize>(DEFAULT_BROCHURE_PDF_OPTIONS.paperSize);
+  const [orientation, setOrientation] = useState(DEFAULT_BROCHURE_PDF_OPTIONS.orientation);
+  const [bleedMm, setBleedMm] = useState(DEFAULT_BROCHURE_PDF_OPTIONS.bleedMm);
+  const [marginMm, setMarginMm] = useState(DEFAULT_BROCHURE_PDF_OPTIONS.marginMm);
+  const [cropMarks, setCropMarks] = useState(DEFAULT_BROCHURE_PDF_OPTIONS.cropMarks);
+  const [logoFile, setLogoFile] = useState<globalThis.File | null>(null);
+  const [logoOnEveryPage, setLogoOnEveryPage] = useState(DEFAULT_BROCHURE_PDF_OPTIONS.logoOnEveryPage);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const hasLogo = !!logoFile || !!cover.logo_url;
+
+  const handleExport = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    try {
+      const result = await exportBrochurePdf(brochure.id, {
+        title: title.trim() || `${brochure.client_name}'s Brochure`,
+        paperSize,
+        orientation,
+        bleedMm,
+        marginMm,
+        cropMarks,
+        logo: logoFile || undefined,
+        logoOnEveryPage,
+        footerText: `${brochure.client_name}'s Brochure`
+      });
+      const notes = [
+        result.failedImages.length > 0 && `${result.failedImages.length} image(s) could not be loaded and were left out.`,
+        result.skippedPages.length > 0 && `Empty page(s) ${result.skippedPages.join(', ')} were skipped.`
+      ].filter(Boolean);
+      if (notes.length > 0) alert(notes.join('\n'));
+      onClose();
+    } catch (error) {
+      console.error('Error exporting brochure:', error);
+      alert(error instanceof Error ? error.message : 'Error exporting brochure. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <FileDown className="w-5 h-5 text-gray-600" />
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">Export PDF</h3>
+              <p className="text-sm text-gray-600 truncate">
+                {brochure.client_name}'s Brochure • {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="p-6 space-y-4">
+          {unapprovedCount > 0 && (
+            <div className="flex items-start space-x-2 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{unapprovedCount} of {pages.length} pages are not approved yet and may still change.</span>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Paper size</label>
+              <select
+                value={paperSize}
+                onChange={(e) => setPaperSize(e.target.value as BrochurePaperSize)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(BROCHURE_PAPER_SIZES) as BrochurePaperSize[]).map(size => (
+                  <option key={size} value={size}>{BROCHURE_PAPER_SIZES[size].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Orientation</label>
+              <select
+                value={orientation}
+                onChange={(e) => setOrientation(e.target.value as 'portrait' | 'landscape')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bleed (mm)</label>
+              <input
+                type="number"
+                min={BROCHURE_BLEED_RANGE_MM.min}
+                max={BROCHURE_BLEED_RANGE_MM.max}
+                step={0.5}
+                value={bleedMm}
+                onChange={(e) => setBleedMm(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Margins (mm)</label>
+              <input
+                type="number"
+                min={BROCHURE_MARGIN_RANGE_MM.min}
+                max={BROCHURE_MARGIN_RANGE_MM.max}
+                value={marginMm}
+                onChange={(e) => setMarginMm(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={cropMarks && bleedMm > 0}
+              disabled={bleedMm <= 0}
+              onChange={(e) => setCropMarks(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Crop marks{bleedMm <= 0 && ' (needs bleed)'}</span>
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+            <div className="flex items-center space-x-3">
+              {logoFile ? (
+                <span className="text-sm text-gray-900 truncate">{logoFile.name}</span>
+              ) : cover.logo_url ? (
+                <img src={cover.logo_url} alt="Brochure logo" className="h-10 max-w-[8rem] object-contain" />
+              ) : (
+                <span className="text-sm text-gray-500">No logo on page 1</span>
+              )}
+              <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                {hasLogo ? 'Use another image' : 'Choose image'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    setLogoFile(e.target.files?.[0] || null);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {logoFile && (
+                <button
+                  type="button"
+                  onClick={() => setLogoFile(null)}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+            {hasLogo && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2">
+                <input
+                  type="checkbox"
+                  checked={logoOnEveryPage}
+                  onChange={(e) => setLogoOnEveryPage(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>Repeat the logo in the header of every page</span>
+              </label>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isExporting}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Export PDF'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
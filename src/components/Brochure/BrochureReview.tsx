@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useData } from '../../context/DataContext';
+import { can, getBrochurePermissionTarget } from '../../utils/permissions';
 import { BrochureProject, BrochurePage } from '../../types';
 import { BrochurePageViewer } from './BrochurePageViewer';
 import { PageComments } from './PageComments';
+import { BrochureExportDialog } from './BrochureExportDialog';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -14,7 +16,8 @@ import {
   Eye,
   MessageSquare,
   Calendar,
-  User
+  User,
+  FileDown
 } from 'lucide-react';
 
 export function BrochureReview() {
@@ -24,7 +27,8 @@ export function BrochureReview() {
     getBrochurePages, 
     approveBrochurePage,
     lockBrochurePage,
-    unlockBrochurePage
+    unlockBrochurePage,
+    projects: allProjects
   } = useData();
 
   const [selectedProject, setSelectedProject] = useState<BrochureProject | null>(null);
@@ -32,9 +36,11 @@ export function BrochureReview() {
   const [showApprovalModal, setShowApprovalModal] = useState(false);
   const [approvalAction, setApprovalAction] = useState<'approved' | 'rejected'>('approved');
   const [approvalComment, setApprovalComment] = useState('');
+  const [showExport, setShowExport] = useState(false);
 
   const projects = getBrochureProjectsForReview();
   const pages = selectedProject ? getBrochurePages(selectedProject.id) : [];
+  const permissionTarget = selectedProject ? getBrochurePermissionTarget(selectedProject, allProjects) : null;
   const currentPageData = pages.find(p => p.page_number === currentPage);
 
   // Get total pages dynamically
@@ -70,26 +76,36 @@ export function BrochureReview() {
     }
   };
 
-  const handleLockToggle = () => {
+  const handleLockToggle = async () => {
     if (!currentPageData) return;
     
-    if (currentPageData.is_locked) {
-      unlockBrochurePage(currentPageData.id);
-    } else {
-      lockBrochurePage(currentPageData.id);
+    try {
+      if (currentPageData.is_locked) {
+        await unlockBrochurePage(currentPageData.id);
+      } else {
+        await lockBrochurePage(currentPageData.id);
+      }
+    } catch (error) {
+      console.error('Error toggling page lock:', error);
+      alert('Failed to update page lock. Please try again.');
     }
   };
-  const handleApproval = () => {
+  const handleApproval = async () => {
     if (!currentPageData) return;
     
-    approveBrochurePage(
-      currentPageData.id, 
-      approvalAction, 
-      approvalComment.trim() || undefined
-    );
-    
-    setShowApprovalModal(false);
-    setApprovalComment('');
+    try {
+      await approveBrochurePage(
+        currentPageData.id, 
+        approvalAction, 
+        approvalComment.trim() || undefined
+      );
+      
+      setShowApprovalModal(false);
+      setApprovalComment('');
+    } catch (error) {
+      console.error('Error saving page approval:', error);
+      alert('Failed to save approval. Please try again.');
+    }
   };
 
   const getThemeColors = () => {
@@ -221,6 +237,15 @@ export function BrochureReview() {
           
           <div className="flex items-center space-x-3">
             <span className="text-sm text-gray-600">Client: {selectedProject.client_name}</span>
+            {can(user, 'brochure.export', permissionTarget) && (
+              <button
+                onClick={() => setShowExport(true)}
+                className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-3 py-1 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
+              >
+                <FileDown className="w-4 h-4" />
+                <span>Export PDF</span>
+              </button>
+            )}
             {currentPageData && (
               <span className={`px-3 py-1 rounded-full text-sm font-medium border ${getStatusColor(currentPageData.approval_status)}`}>
                 {getStatusIcon(currentPageData.approval_status)}
@@ -272,8 +297,8 @@ export function BrochureReview() {
             </div>
           )}
 
-          {/* Approval Actions - Manager Only */}
-          {user?.role === 'manager' && currentPageData && currentPageData.approval_status === 'pending' && (
+          {/* Approval Actions */}
+          {can(user, 'brochure.approve', permissionTarget) && currentPageData && currentPageData.approval_status === 'pending' && (
             <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h4 className="text-lg font-semibold text-gray-900 mb-4">Page Approval</h4>
               <div className="flex space-x-3">
@@ -342,7 +367,7 @@ export function BrochureReview() {
         {/* Comments Sidebar */}
         <div className="lg:col-span-1">
           {/* Lock/Unlock Controls */}
-          {currentPageData && (
+          {can(user, 'brochure.lock', permissionTarget) && currentPageData && (
             <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
               <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
                 <span className="text-lg mr-2">{currentPageData.is_locked ? '🔒' : '🔓'}</span>
@@ -461,6 +486,10 @@ export function BrochureReview() {
           </div>
         </div>
       )}
+
+      {showExport && (
+        <BrochureExportDialog brochure={selectedProject} onClose={() => setShowExport(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
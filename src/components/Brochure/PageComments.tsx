@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useData } from '../../context/DataContext';
+import { can, getBrochurePermissionTarget } from '../../utils/permissions';
 import { MessageSquare, Send, CheckCircle, User, Clock } from 'lucide-react';
 
 interface PageCommentsProps {
@@ -11,30 +12,44 @@ interface PageCommentsProps {
 
 export function PageComments({ pageId, projectId, pageNumber }: PageCommentsProps) {
   const { user } = useAuth();
-  const { addPageComment, getPageComments, markCommentDone } = useData();
+  const { addPageComment, getPageComments, markCommentDone, brochureProjects, projects } = useData();
   const [newComment, setNewComment] = useState('');
 
   const comments = getPageComments(pageId);
-  const canAddComments = user?.role === 'manager' || user?.role === 'employee';
+  const brochure = brochureProjects.find(bp => bp.id === projectId);
+  const permissionTarget = brochure ? getBrochurePermissionTarget(brochure, projects) : null;
+  const canAddComments = can(user, 'brochure.comment', permissionTarget);
+  const canResolveComments = can(user, 'brochure.resolveComment', permissionTarget);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim() || !user) return;
 
-    addPageComment({
-      page_id: pageId,
-      text: newComment.trim(),
-      added_by: user.id,
-      author_name: user.name,
-      author_role: user.role,
-      marked_done: false
-    });
+    try {
+      await addPageComment({
+        page_id: pageId,
+        text: newComment.trim(),
+        added_by: user.id,
+        author_name: user.name,
+        author_role: user.role,
+        marked_done: false,
+        action_type: 'comment'
+      });
 
-    setNewComment('');
+      setNewComment('');
+    } catch (error) {
+      console.error('Error adding page comment:', error);
+      alert('Failed to add comment. Please try again.');
+    }
   };
 
-  const handleMarkDone = (commentId: string) => {
-    markCommentDone(commentId);
+  const handleMarkDone = async (commentId: string) => {
+    try {
+      await markCommentDone(commentId);
+    } catch (error) {
+      console.error('Error marking comment done:', error);
+      alert('Failed to update comment. Please try again.');
+    }
   };
 
   const getRoleColor = (role: string) => {
@@ -42,6 +57,7 @@ export function PageComments({ pageId, projectId, pageNumber }: PageCommentsProp
       case 'manager': return 'bg-blue-100 text-blue-800';
       case 'employee': return 'bg-green-100 text-green-800';
       case 'client': return 'bg-red-100 text-red-800';
+      case 'team_lead': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -131,7 +147,7 @@ export function PageComments({ pageId, projectId, pageNumber }: PageCommentsProp
                 <span>{new Date(comment.timestamp).toLocaleString()}</span>
               </div>
               
-              {!comment.marked_done && user?.role !== 'client' && (
+              {!comment.marked_done && canResolveComments && (
                 <button
                   onClick={() => handleMarkDone(comment.id)}
                   className="text-green-600 hover:text-green-800 text-xs font-medium transition-colors"
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { can, filterByPermission } from '../../utils/permissions';
 import { MessageSquare, Send, User, Filter } from 'lucide-react';
 import { TaskCard } from '../Tasks/TaskCard';
 
@@ -11,33 +12,14 @@ export function CommentManager() {
   const [selectedProject, setSelectedProject] = useState('all');
   const [filterStatus, setFilterStatus] = useState('all');
 
-  const getAccessibleProjects = () => {
-    if (user?.role === 'manager') return projects;
-    if (user?.role === 'employee') {
-      return projects.filter(p => p.assigned_employees.includes(user.id));
-    }
-    if (user?.role === 'client') {
-      return projects.filter(p => p.client_id === user.id);
-    }
-    return [];
-  };
-
-  const accessibleProjects = getAccessibleProjects();
+  const accessibleProjects = filterByPermission(user, 'comment.create', projects);
+  // Some roles (clients) raise tasks for the team instead of posting plain comments
+  const raisesTasks = can(user, 'comment.raiseTask');
 
   const getFilteredCommentTasks = () => {
     let filtered = commentTasks.filter(task => {
       const project = projects.find(p => p.id === task.project_id);
-      if (!project) return false;
-      
-      // Role-based filtering
-      if (user?.role === 'employee' && !project.assigned_employees.includes(user.id)) {
-        return false;
-      }
-      if (user?.role === 'client' && project.client_id !== user.id) {
-        return false;
-      }
-      
-      return true;
+      return !!project && can(user, 'project.view', project);
     });
 
     if (selectedProject !== 'all') {
@@ -51,31 +33,36 @@ export function CommentManager() {
     return filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newComment.trim() || selectedProject === 'all') return;
-
-    // Client comments automatically become tasks
-    if (user?.role === 'client') {
-      addCommentTask({
-        project_id: selectedProject,
-        text: newComment.trim(),
-        added_by: user.id,
-        author_name: user.name,
-        author_role: user.role,
-        status: 'open'
-      });
-    } else {
-      addGlobalComment({
-        project_id: selectedProject,
-        text: newComment.trim(),
-        added_by: user.id,
-        author_name: user.name,
-        author_role: user.role
-      });
-    }
+    if (!user || !newComment.trim() || selectedProject === 'all') return;
+
+    try {
+      // Client comments automatically become tasks
+      if (raisesTasks) {
+        await addCommentTask({
+          project_id: selectedProject,
+          text: newComment.trim(),
+          added_by: user.id,
+          author_name: user.name,
+          author_role: user.role,
+          status: 'open'
+        });
+      } else {
+        await addGlobalComment({
+          project_id: selectedProject,
+          text: newComment.trim(),
+          added_by: user.id,
+          author_name: user.name,
+          author_role: user.role
+        });
+      }
 
-    setNewComment('');
+      setNewComment('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      alert('Error adding comment. Please try again.');
+    }
   };
 
   const filteredTasks = getFilteredCommentTasks();
@@ -85,7 +72,7 @@ export function CommentManager() {
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Comments & Tasks</h2>
         <p className="text-gray-600">
-          {user?.role === 'client' 
+          {raisesTasks
             ? 'Your comments automatically create tasks for the team'
             : 'Manage project communication and task assignments'
           }
@@ -113,7 +100,7 @@ export function CommentManager() {
           <textarea
             value={newComment}
             onChange={(e) => setNewComment(e.target.value)}
-            placeholder={user?.role === 'client' 
+            placeholder={raisesTasks
               ? "Describe what you need or any feedback (this will create a task for the team)..."
               : "Add a comment or create a task..."
             }
@@ -128,7 +115,7 @@ export function CommentManager() {
             className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
           >
             <Send className="w-4 h-4" />
-            <span>{user?.role === 'client' ? 'Create Task' : 'Add Comment'}</span>
+            <span>{raisesTasks ? 'Create Task' : 'Add Comment'}</span>
           </button>
         </form>
       </div>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
 import { MessageSquare, Send, CheckCircle, User } from 'lucide-react';
 
 interface CommentSectionProps {
@@ -9,20 +10,25 @@ interface CommentSectionProps {
 
 export function CommentSection({ stageId }: CommentSectionProps) {
   const { user } = useAuth();
-  const { commentTasks, addCommentTask, stages, updateCommentTaskStatus } = useData();
+  const { commentTasks, addCommentTask, stages, projects, updateCommentTaskStatus } = useData();
   const [newComment, setNewComment] = useState('');
 
+  const stageProject = projects.find(p => p.id === stages.find(s => s.id === stageId)?.project_id);
+  const canResolve = can(user, 'comment.resolve', stageProject);
+
   const stageComments = commentTasks.filter(comment => comment.stage_id === stageId)
                               .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim()) return;
 
     // Find the project ID for this stage
     const stage = stages.find(s => s.id === stageId);
-    if (stage) {
-      addCommentTask({
+    if (!stage) return;
+
+    try {
+      await addCommentTask({
         stage_id: stageId,
         project_id: stage.project_id,
         text: newComment.trim(),
@@ -31,8 +37,20 @@ export function CommentSection({ stageId }: CommentSectionProps) {
         author_role: user?.role || 'employee',
         status: 'open'
       });
+      setNewComment('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      alert('Error adding comment. Please try again.');
+    }
+  };
+
+  const handleMarkDone = async (commentId: string) => {
+    try {
+      await updateCommentTaskStatus(commentId, 'done');
+    } catch (error) {
+      console.error('Error updating comment status:', error);
+      alert('Error updating comment status. Please try again.');
     }
-    setNewComment('');
   };
 
   const getRoleColor = (role: string) => {
@@ -40,6 +58,7 @@ export function CommentSection({ stageId }: CommentSectionProps) {
       case 'manager': return 'text-blue-600 bg-blue-100';
       case 'employee': return 'text-green-600 bg-green-100';
       case 'client': return 'text-red-600 bg-red-100';
+      case 'team_lead': return 'text-purple-600 bg-purple-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -103,9 +122,9 @@ export function CommentSection({ stageId }: CommentSectionProps) {
             
             <p className="text-gray-700 mb-3">{comment.text}</p>
             
-            {user?.role === 'employee' && comment.status !== 'done' && comment.author_role !== 'employee' && (
+            {canResolve && comment.status !== 'done' && comment.author_role !== 'employee' && (
               <button
-                onClick={() => updateCommentTaskStatus(comment.id, 'done')}
+                onClick={() => handleMarkDone(comment.id)}
                 className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors flex items-center space-x-1"
               >
                 <CheckCircle className="w-3 h-3" />
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useData } from '../../context/DataContext';
+import { can } from '../../utils/permissions';
 import { Project } from '../../types';
 import { MessageSquare, Send, User, Clock } from 'lucide-react';
 
@@ -18,35 +19,27 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
     .filter(comment => comment.project_id === project.id)
     .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
-  // Check if user has access to this project
-  const hasAccess = () => {
-    if (!user) return false;
-    
-    // Manager has access to all projects
-    if (user.role === 'manager') return true;
-    
-    // Client has access if they are assigned to the project
-    if (user.role === 'client' && project.client_id === user.id) return true;
-    
-    // Employee has access if they are assigned to the project
-    if (user.role === 'employee' && project.assigned_employees.includes(user.id)) return true;
-    
-    return false;
-  };
+  // Viewers (e.g. stakeholders) can read the discussion without being able to post
+  const hasAccess = () => can(user, 'project.view', project);
+  const canComment = can(user, 'comment.create', project);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newComment.trim() || !user || !hasAccess()) return;
-
-    addGlobalComment({
-      project_id: project.id,
-      text: newComment.trim(),
-      added_by: user.id,
-      author_name: user.name,
-      author_role: user.role
-    });
+    if (!newComment.trim() || !user || !canComment) return;
 
-    setNewComment('');
+    try {
+      await addGlobalComment({
+        project_id: project.id,
+        text: newComment.trim(),
+        added_by: user.id,
+        author_name: user.name,
+        author_role: user.role
+      });
+      setNewComment('');
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      alert('Error posting comment. Please try again.');
+    }
   };
 
   const getRoleColor = (role: string) => {
@@ -54,6 +47,8 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
       case 'manager': return 'bg-blue-100 text-blue-800';
       case 'employee': return 'bg-green-100 text-green-800';
       case 'client': return 'bg-red-100 text-red-800';
+      case 'team_lead': return 'bg-purple-100 text-purple-800';
+      case 'finance': return 'bg-amber-100 text-amber-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -75,6 +70,11 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
         secondary: 'bg-red-50 border-red-200',
         focus: 'focus:ring-red-500 focus:border-red-500'
       };
+      case 'team_lead': return {
+        primary: 'bg-purple-600 hover:bg-purple-700',
+        secondary: 'bg-purple-50 border-purple-200',
+        focus: 'focus:ring-purple-500 focus:border-purple-500'
+      };
       default: return {
         primary: 'bg-gray-600 hover:bg-gray-700',
         secondary: 'bg-gray-50 border-gray-200',
@@ -108,6 +108,7 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
       </div>
 
       {/* Add Comment Form */}
+      {canComment && (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -136,6 +137,7 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
           </div>
         </form>
       </div>
+      )}
 
       {/* Comments List */}
       <div className="space-y-4">
@@ -171,7 +173,9 @@ export function ProjectCommentSection({ project }: ProjectCommentSectionProps) {
           <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
             <MessageSquare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No comments yet</h3>
-            <p className="text-gray-600">Be the first to share your thoughts about this project</p>
+            <p className="text-gray-600">
+              {canComment ? 'Be the first to share your thoughts about this project' : 'Comments from the project team will appear here'}
+            </p>
           </div>
         )}
       </div>
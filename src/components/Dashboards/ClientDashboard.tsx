@@ -3,10 +3,13 @@ import { useAuth } from '../../context/AuthContext';
 import { useData } from '../../context/DataContext';
 import { Project } from '../../types';
 import { StorageManager } from '../Storage/StorageManager';
+import { ProjectStages } from '../Stages/ProjectStages';
 import { CommentManager } from '../Comments/CommentManager';
 import { BrochureDesign } from '../Brochure/BrochureDesign';
 import { ProjectCommentSection } from '../Comments/ProjectCommentSection';
 import { ClientFeedbackReport } from '../Reports/ClientFeedbackReport';
+import { MeetingCalendar } from '../Meetings/MeetingCalendar';
+import { useProjectRoute } from '../../hooks/useProjectRoute';
 import { CheckSquare, Layers, Upload, MessageSquare, Eye, TrendingUp, Clock, CheckCircle, BarChart3, Briefcase, FileText, User, Calendar } from 'lucide-react';
 
 interface ClientDashboardProps {
@@ -17,14 +20,16 @@ interface ClientDashboardProps {
 export function ClientDashboard({ activeView, onViewChange }: ClientDashboardProps) {
   const { user } = useAuth();
   const { projects, stages, commentTasks, brochureProjects } = useData();
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [showProjectDetail, setShowProjectDetail] = useState(false);
-  const [projectDetailTab, setProjectDetailTab] = useState('stages');
+  const projectRoute = useProjectRoute();
+  const showProjectDetail = !!projectRoute.projectId;
+  const projectDetailTab = projectRoute.tab;
+  const setProjectDetailTab = projectRoute.setTab;
   const [showFeedbackReport, setShowFeedbackReport] = useState(false);
   const [selectedBrochureProject, setSelectedBrochureProject] = useState(null);
 
   // Get client's projects
   const clientProjects = projects.filter(project => project.client_id === user?.id);
+  const selectedProject = clientProjects.find(p => p.id === projectRoute.projectId) || null;
   
   // Show message if no projects assigned
   if (activeView === 'dashboard' && clientProjects.length === 0) {
@@ -57,9 +62,7 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
   const clientBrochureProjects = brochureProjects.filter(bp => bp.client_id === user?.id);
 
   const handleProjectClick = (project: Project) => {
-    setSelectedProject(project);
-    setShowProjectDetail(true);
-    setProjectDetailTab('brochure');
+    projectRoute.openProject(project.id, 'brochure');
   };
 
   const renderDashboard = () => (
@@ -290,7 +293,7 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <button
-              onClick={() => setShowProjectDetail(false)}
+              onClick={projectRoute.closeProject}
               className="text-gray-600 hover:text-gray-900 transition-colors"
             >
               ← Back to Project Overview
@@ -340,6 +343,7 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
           <nav className="flex space-x-8">
             {[
               { id: 'brochure', label: 'Brochure Design', icon: FileText },
+              { id: 'stages', label: 'Stages', icon: Layers },
               { id: 'storage', label: 'Storage', icon: Layers },
               { id: 'comments', label: 'Comments', icon: MessageSquare },
               { id: 'project-comments', label: 'Project Discussion', icon: MessageSquare }
@@ -368,10 +372,19 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
           {projectDetailTab === 'brochure' && (
             <BrochureDesign 
               projectId={selectedProject.id}
+              pageNumber={projectRoute.pageNumber}
+              onPageChange={projectRoute.setBrochurePage}
             />
           )}
+          {projectDetailTab === 'stages' && (
+            <ProjectStages project={selectedProject} />
+          )}
           {projectDetailTab === 'storage' && (
-            <StorageManager projectId={selectedProject.id} />
+            <StorageManager
+              projectId={selectedProject.id}
+              selectedFileId={projectRoute.fileId}
+              onSelectFile={projectRoute.selectFile}
+            />
           )}
           {projectDetailTab === 'comments' && <CommentManager />}
           {projectDetailTab === 'project-comments' && (
@@ -383,6 +396,24 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
   };
 
 
+  // Deep link to a project the user can't see (or that no longer exists)
+  if (showProjectDetail && !selectedProject) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+          <p className="text-gray-600 mb-4">It may have been removed or you may not have access to it</p>
+          <button
+            onClick={projectRoute.closeProject}
+            className="text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            ← Back to Project Overview
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show project detail if selected
   if (showProjectDetail && selectedProject) {
     return (
@@ -397,6 +428,7 @@ export function ClientDashboard({ activeView, onViewChange }: ClientDashboardPro
       {/* Content based on active section */}
       {activeView === 'dashboard' && renderDashboard()}
       {activeView === 'project-overview' && renderProjectOverview()}
+      {activeView === 'meetings' && <MeetingCalendar />}
       
       {/* Feedback Report Modal */}
       {showFeedbackReport && selectedBrochureProject && (
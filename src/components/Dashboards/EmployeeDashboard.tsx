@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
 import { useData } from '../../context/DataContext';
 import { ProjectCard } from '../Projects/ProjectCard';
 import { EmployeeTaskCard } from '../Tasks/EmployeeTaskCard';
@@ -7,6 +8,9 @@ import { ProjectCommentSection } from '../Comments/ProjectCommentSection';
 import { BrochureDesign } from '../Brochure/BrochureDesign';
 import { Project } from '../../types';
 import { StorageManager } from '../Storage/StorageManager';
+import { ProjectStages } from '../Stages/ProjectStages';
+import { MeetingCalendar } from '../Meetings/MeetingCalendar';
+import { useProjectRoute } from '../../hooks/useProjectRoute';
 import { 
   Briefcase, 
   Clock, 
@@ -17,6 +21,7 @@ import {
   Calendar,
   User,
   FolderOpen,
+  Layers,
   Search,
   Filter,
   Users,
@@ -34,13 +39,15 @@ interface EmployeeDashboardProps {
 export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboardProps) {
   const { user } = useAuth();
   const { projects, commentTasks, stages, tasks, brochureProjects, updateProject } = useData();
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterPriority, setFilterPriority] = useState('all');
   // const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [showProjectDetail, setShowProjectDetail] = useState(false);
-  const [projectDetailTab, setProjectDetailTab] = useState('tasks');
+  const projectRoute = useProjectRoute();
+  const selectedProject = projects.find(p => p.id === projectRoute.projectId) || null;
+  const showProjectDetail = !!projectRoute.projectId;
+  const projectDetailTab = projectRoute.tab;
+  const setProjectDetailTab = projectRoute.setTab;
 
   // Filter projects assigned to current employee
   const assignedProjects = projects.filter(project => 
@@ -75,9 +82,7 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
   const stats = getProjectStats();
 
   const handleProjectClick = (project: Project) => {
-    setSelectedProject(project);
-    setShowProjectDetail(true);
-    setProjectDetailTab('tasks');
+    projectRoute.openProject(project.id, 'tasks');
   };
 
   const renderMyTasks = () => (
@@ -186,7 +191,6 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
     const handleProgressUpdate = async (newProgress: number) => {
       try {
         await updateProject(selectedProject.id, { progress_percentage: newProgress });
-        setSelectedProject(prev => prev ? { ...prev, progress_percentage: newProgress } : null);
       } catch (error) {
         console.error('Error updating project progress:', error);
         alert('Error updating project progress. Please try again.');
@@ -198,7 +202,7 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <button
-              onClick={() => setShowProjectDetail(false)}
+              onClick={projectRoute.closeProject}
               className="text-gray-600 hover:text-gray-900 transition-colors"
             >
               ← Back to Projects
@@ -230,7 +234,7 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
             </div>
             <div>
               <h4 className="font-medium text-gray-900 mb-2">Progress</h4>
-              {user?.role === 'employee' ? (
+              {can(user, 'project.updateProgress', selectedProject) ? (
                 <div className="space-y-2">
                   <div className="flex items-center space-x-3">
                     <input
@@ -271,6 +275,7 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
           <nav className="flex space-x-8">
             {[
               { id: 'tasks', label: 'Tasks', icon: CheckSquare },
+              { id: 'stages', label: 'Stages', icon: Layers },
               { id: 'storage', label: 'Storage', icon: FolderOpen },
               { id: 'brochure', label: 'Brochure Design', icon: FileText },
               { id: 'comments', label: 'Comments', icon: MessageSquare }
@@ -310,8 +315,15 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
               )}
             </div>
           )}
+          {projectDetailTab === 'stages' && (
+            <ProjectStages project={selectedProject} />
+          )}
           {projectDetailTab === 'storage' && (
-            <StorageManager projectId={selectedProject.id} />
+            <StorageManager
+              projectId={selectedProject.id}
+              selectedFileId={projectRoute.fileId}
+              onSelectFile={projectRoute.selectFile}
+            />
           )}
           {projectDetailTab === 'brochure' && (() => {
             // Find the brochure project for this client
@@ -322,6 +334,8 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
                 initialBrochureProject={clientBrochureProject}
                 projectId={selectedProject.id}
                 onBack={() => setProjectDetailTab('tasks')}
+                pageNumber={projectRoute.pageNumber}
+                onPageChange={projectRoute.setBrochurePage}
               />
             );
           })()}
@@ -333,6 +347,24 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
     );
   };
 
+  // Deep link to a project the user can't see (or that no longer exists)
+  if (showProjectDetail && !selectedProject) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+          <p className="text-gray-600 mb-4">It may have been removed or you may not have access to it</p>
+          <button
+            onClick={projectRoute.closeProject}
+            className="text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            ← Back to Projects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show project detail if selected
   if (showProjectDetail && selectedProject) {
     return (
@@ -624,6 +656,7 @@ export function EmployeeDashboard({ activeView, onViewChange }: EmployeeDashboar
       )}
       {activeView === 'mytasks' && renderMyTasks()}
       {activeView === 'projects' && renderProjects()}
+      {activeView === 'meetings' && <MeetingCalendar />}
     </div>
   );
 }
\ No newline at end of file
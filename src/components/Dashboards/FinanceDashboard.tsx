@@ -0,0 +1,151 @@
+import { useData } from '../../context/DataContext';
+import { InvoiceManager } from '../Invoices/InvoiceManager';
+import { formatCurrency } from '../../utils/currency';
+import { DollarSign, Receipt, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface FinanceDashboardProps {
+  activeView: string;
+  onViewChange: (view: string) => void;
+}
+
+export function FinanceDashboard({ activeView, onViewChange }: FinanceDashboardProps) {
+  const { projects, invoices } = useData();
+
+  // Void invoices don't count against a budget; drafts do, since they are committed spend
+  const projectBudgets = projects.map(project => {
+    const projectInvoices = invoices.filter(inv => inv.project_id === project.id && inv.status !== 'void');
+    const invoiced = projectInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+    const paid = projectInvoices.filter(inv => inv.status === 'paid').reduce((sum, inv) => sum + inv.amount, 0);
+    const budget = project.budget ?? 0;
+    return { project, budget, invoiced, paid, remaining: budget - invoiced };
+  });
+
+  const totals = projectBudgets.reduce(
+    (acc, row) => ({
+      budget: acc.budget + row.budget,
+      invoiced: acc.invoiced + row.invoiced,
+      paid: acc.paid + row.paid
+    }),
+    { budget: 0, invoiced: 0, paid: 0 }
+  );
+  const overBudgetCount = projectBudgets.filter(row => row.budget > 0 && row.remaining < 0).length;
+
+  const renderDashboard = () => (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Budget Overview</h2>
+        <p className="text-gray-600 text-lg">Project budgets against invoiced and paid amounts</p>
+      </div>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-gradient-to-br from-amber-50 to-amber-100 rounded-xl shadow-sm border border-amber-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-amber-700">Total Budget</p>
+              <p className="text-2xl font-bold text-amber-800">{formatCurrency(totals.budget)}</p>
+            </div>
+            <div className="bg-amber-600 p-3 rounded-full">
+              <DollarSign className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl shadow-sm border border-blue-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-blue-700">Invoiced</p>
+              <p className="text-2xl font-bold text-blue-800">{formatCurrency(totals.invoiced)}</p>
+            </div>
+            <div className="bg-blue-600 p-3 rounded-full">
+              <Receipt className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-xl shadow-sm border border-green-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-green-700">Paid</p>
+              <p className="text-2xl font-bold text-green-800">{formatCurrency(totals.paid)}</p>
+            </div>
+            <div className="bg-green-600 p-3 rounded-full">
+              <CheckCircle className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-red-50 to-red-100 rounded-xl shadow-sm border border-red-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-red-700">Over Budget</p>
+              <p className="text-2xl font-bold text-red-800">{overBudgetCount}</p>
+            </div>
+            <div className="bg-red-600 p-3 rounded-full">
+              <AlertTriangle className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wider">Budget</th>
+                <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wider">Invoiced</th>
+                <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wider">Paid</th>
+                <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wider">Remaining</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {projectBudgets.map(({ project, budget, invoiced, paid, remaining }) => (
+                <tr key={project.id} className="hover:bg-amber-50 transition-colors duration-150">
+                  <td className="px-6 py-4">
+                    <div className="text-base font-bold text-gray-900">{project.title}</div>
+                    <div className="text-sm text-gray-600">{project.status}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{project.client_name}</td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">
+                    {project.budget !== undefined ? formatCurrency(budget) : <span className="text-gray-400">Not set</span>}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">{formatCurrency(invoiced)}</td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">{formatCurrency(paid)}</td>
+                  <td className={`px-6 py-4 text-right text-sm font-semibold ${remaining < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {project.budget !== undefined ? formatCurrency(remaining) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {projects.length === 0 && (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No projects yet</h3>
+          <p className="text-gray-600">Budgets appear here once projects are created</p>
+        </div>
+      )}
+
+      <div className="text-right">
+        <button
+          onClick={() => onViewChange('invoices')}
+          className="text-amber-700 hover:text-amber-900 font-semibold"
+        >
+          View all invoices →
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      {activeView === 'dashboard' && renderDashboard()}
+      {activeView === 'invoices' && <InvoiceManager />}
+    </div>
+  );
+}
@@ -1,17 +1,25 @@
 import React, { useState } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
 import { ProjectCard } from '../Projects/ProjectCard';
 import { ProjectModal } from '../Projects/ProjectModal';
 import { TaskCard } from '../Tasks/TaskCard';
 import { StorageManager } from '../Storage/StorageManager';
+import { ProjectStages } from '../Stages/ProjectStages';
 import { CommentManager } from '../Comments/CommentManager';
 import { BrochureReview } from '../Brochure/BrochureReview';
 import { DocumentDownloadCenter } from '../Documents/DocumentDownloadCenter';
 import { TaskManager } from '../Tasks/TaskManager';
 import { ProjectCommentSection } from '../Comments/ProjectCommentSection';
 import { BrochureDesign } from '../Brochure/BrochureDesign';
-import { Project, User, Lead } from '../../types';
+import { LeadBoard } from '../Leads/LeadBoard';
+import { MeetingCalendar } from '../Meetings/MeetingCalendar';
+import { InvoiceManager } from '../Invoices/InvoiceManager';
+import { AuditLog } from '../Audit/AuditLog';
+import { StorageUsageDashboard } from '../Storage/StorageUsageDashboard';
+import { useProjectRoute } from '../../hooks/useProjectRoute';
+import { Project, User, Lead, LeadStatus, LEAD_STATUSES, InvitableRole } from '../../types';
 import { 
   Plus, 
   Search, 
@@ -26,8 +34,6 @@ import {
   TrendingUp,
   Calendar,
   Eye,
-  Edit,
-  Trash2,
   X,
   DollarSign,
   Phone,
@@ -35,6 +41,14 @@ import {
   FileText
 } from 'lucide-react';
 
+const INVITABLE_ROLE_LABELS: Record<InvitableRole, string> = {
+  team_lead: 'Team Lead',
+  employee: 'Employee',
+  finance: 'Finance',
+  client: 'Client',
+  stakeholder: 'Stakeholder'
+};
+
 interface ManagerDashboardProps {
   activeView: string;
   onViewChange: (view: string) => void;
@@ -43,14 +57,16 @@ interface ManagerDashboardProps {
 export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardProps) {
   const { projects, stages, commentTasks, leads, users, brochureProjects, createLead, updateLead, deleteLead, createUserAccount, refreshUsers, loadProjects, updateProject } = useData();
   const { user } = useAuth();
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterEmployee, setFilterEmployee] = useState('all');
   const [filterPriority, setFilterPriority] = useState('all');
-  const [showProjectDetail, setShowProjectDetail] = useState(false);
-  const [projectDetailTab, setProjectDetailTab] = useState('brochure');
+  const projectRoute = useProjectRoute();
+  const selectedProject = projects.find(p => p.id === projectRoute.projectId) || null;
+  const showProjectDetail = !!projectRoute.projectId;
+  const projectDetailTab = projectRoute.tab;
+  const setProjectDetailTab = projectRoute.setTab;
   
   // Lead management state
   const [isLeadModalOpen, setIsLeadModalOpen] = useState(false);
@@ -59,14 +75,15 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
     name: '',
     contact_info: '',
     estimated_amount: 0,
-    notes: ''
+    notes: '',
+    status: 'new' as LeadStatus
   });
 
-  // Add user modal (employees/clients)
+  // Add user modal (any role except manager)
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
-  const [userRoleToCreate, setUserRoleToCreate] = useState<'employee' | 'client'>('employee');
+  const [userRoleToCreate, setUserRoleToCreate] = useState<InvitableRole>('employee');
+  const [userClientId, setUserClientId] = useState('');
   const [userEmail, setUserEmail] = useState('');
-  const [userPassword, setUserPassword] = useState('');
   const [userFullName, setUserFullName] = useState('');
   const [creatingUser, setCreatingUser] = useState(false);
   const [userCreationError, setUserCreationError] = useState('');
@@ -84,30 +101,28 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
       if (!userEmail.trim()) {
         throw new Error('Email is required.');
       }
-      if (!userPassword.trim()) {
-        throw new Error('Password is required.');
-      }
-      if (userPassword.length < 6) {
-        throw new Error('Password must be at least 6 characters long.');
+      if (userRoleToCreate === 'stakeholder' && !userClientId) {
+        throw new Error('Select the client this stakeholder belongs to.');
       }
+
+      console.log('Inviting user with role:', userRoleToCreate);
       
-      console.log('Creating user with role:', userRoleToCreate);
+      const res = await createUserAccount({
+        email: userEmail,
+        full_name: userFullName,
+        role: userRoleToCreate,
+        client_id: userRoleToCreate === 'stakeholder' ? userClientId : undefined
+      });
+      console.log('User invited successfully:', res);
+      setIsUserModalOpen(false);
       
-      const res = await createUserAccount({ email: userEmail, password: userPassword, full_name: userFullName, role: userRoleToCreate });
+      // Show success message
+      alert(`Invitation sent to ${userEmail}. They will set their own password from the email link.`);
+      setUserEmail(''); setUserFullName(''); setUserClientId('');
       
-      if (res) {
-        console.log('User created successfully:', res);
-        setIsUserModalOpen(false);
-        setUserEmail(''); setUserPassword(''); setUserFullName('');
-      }
+      // Refresh users list
+      await refreshUsers();
     } catch (error) {
-        setUserCreationError('');
-        
-        // Show success message
-        alert(`${userRoleToCreate === 'employee' ? 'Employee' : 'Client'} created successfully!`);
-        
-        // Refresh users list
-        await refreshUsers();
       console.error('Error creating user:', error);
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while creating the user.';
       setUserCreationError(errorMessage);
@@ -138,23 +153,26 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
   const allTasks = commentTasks.filter(task => task.status !== 'done');
 
   const handleProjectClick = (project: Project) => {
-    setSelectedProject(project);
-    setShowProjectDetail(true);
-    setProjectDetailTab('brochure');
+    projectRoute.openProject(project.id, 'brochure');
   };
 
-  const handleLeadSubmit = (e: React.FormEvent) => {
+  const handleLeadSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (editingLead) {
-      updateLead(editingLead.id, leadForm);
-    } else {
-      createLead(leadForm);
+    try {
+      if (editingLead) {
+        await updateLead(editingLead.id, leadForm);
+      } else {
+        await createLead(leadForm);
+      }
+      
+      setIsLeadModalOpen(false);
+      setEditingLead(null);
+      setLeadForm({ name: '', contact_info: '', estimated_amount: 0, notes: '', status: 'new' });
+    } catch (error) {
+      console.error('Error saving lead:', error);
+      alert('Error saving lead. Please try again.');
     }
-    
-    setIsLeadModalOpen(false);
-    setEditingLead(null);
-    setLeadForm({ name: '', contact_info: '', estimated_amount: 0, notes: '' });
   };
 
   const handleEditLead = (lead: Lead) => {
@@ -163,14 +181,20 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
       name: lead.name,
       contact_info: lead.contact_info,
       estimated_amount: lead.estimated_amount,
-      notes: lead.notes
+      notes: lead.notes,
+      status: lead.status
     });
     setIsLeadModalOpen(true);
   };
 
-  const handleDeleteLead = (leadId: string) => {
+  const handleDeleteLead = async (leadId: string) => {
     if (confirm('Are you sure you want to delete this lead?')) {
-      deleteLead(leadId);
+      try {
+        await deleteLead(leadId);
+      } catch (error) {
+        console.error('Error deleting lead:', error);
+        alert('Error deleting lead. Please try again.');
+      }
     }
   };
 
@@ -472,6 +496,12 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
           >
             Add Employee
           </button>
+          <button
+            onClick={() => { setUserRoleToCreate('team_lead'); setIsUserModalOpen(true); }}
+            className="ml-3 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-xl font-semibold"
+          >
+            Invite Other Role
+          </button>
           <button
             onClick={() => refreshUsers()}
             className="ml-3 bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-xl font-semibold"
@@ -543,6 +573,47 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
           </table>
         </div>
       </div>
+
+      {/* Team leads, finance and stakeholders */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-900">Other Team Members</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Access</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {users.filter(u => u.role === 'team_lead' || u.role === 'finance' || u.role === 'stakeholder').map(member => {
+                const access =
+                  member.role === 'team_lead'
+                    ? projects.filter(p => p.team_lead_id === member.id).map(p => p.title).join(', ') || 'No projects led yet'
+                    : member.role === 'stakeholder'
+                      ? `Read-only: ${users.find(u => u.id === member.client_id)?.name || 'Unknown client'}`
+                      : 'Budgets and invoices';
+
+                return (
+                  <tr key={member.id} className="hover:bg-blue-50 transition-colors duration-150">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-base font-bold text-gray-900">{member.name}</div>
+                      <div className="text-sm text-gray-600 font-medium">{member.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {INVITABLE_ROLE_LABELS[member.role as InvitableRole]}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{access}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 
@@ -569,7 +640,7 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
         <button
           onClick={() => {
             setEditingLead(null);
-            setLeadForm({ name: '', contact_info: '', estimated_amount: 0, notes: '' });
+            setLeadForm({ name: '', contact_info: '', estimated_amount: 0, notes: '', status: 'new' });
             setIsLeadModalOpen(true);
           }}
           className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white px-6 py-3 rounded-xl font-semibold transition-all duration-200 flex items-center space-x-2 shadow-md hover:shadow-lg transform hover:scale-105"
@@ -654,67 +725,8 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
         </div>
       </div>
 
-      {/* Leads Table */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
-              <tr>
-                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Name</th>
-                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Contact Info</th>
-                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Estimated Amount</th>
-                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Notes</th>
-                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-200">
-              {leads.map(lead => (
-                <tr key={lead.id} className="hover:bg-blue-50 transition-colors duration-150">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-base font-bold text-gray-900">{lead.name}</div>
-                    <div className="text-sm text-gray-600 font-medium">Added {new Date(lead.created_at).toLocaleDateString()}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900 font-medium">{lead.contact_info}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-base font-bold text-green-700">${lead.estimated_amount.toLocaleString()}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900 max-w-xs truncate font-medium">{lead.notes || 'No notes'}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => handleEditLead(lead)}
-                        className="p-2 text-blue-600 hover:text-blue-900 hover:bg-blue-100 rounded-lg transition-all duration-200"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteLead(lead.id)}
-                        className="p-2 text-red-600 hover:text-red-900 hover:bg-red-100 rounded-lg transition-all duration-200"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        
-        {leads.length === 0 && (
-          <div className="text-center py-12">
-            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Users className="w-12 h-12 text-gray-400" />
-            </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No leads yet</h3>
-            <p className="text-gray-600">Add your first lead to get started</p>
-          </div>
-        )}
-      </div>
+      {/* Lead Pipeline */}
+      <LeadBoard onEdit={handleEditLead} onDelete={handleDeleteLead} />
 
       {/* Lead Modal */}
       {isLeadModalOpen && (
@@ -771,6 +783,19 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Pipeline Status</label>
+                <select
+                  value={leadForm.status}
+                  onChange={(e) => setLeadForm(prev => ({ ...prev, status: e.target.value as LeadStatus }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-gray-50 focus:bg-white transition-all duration-200 capitalize"
+                >
+                  {LEAD_STATUSES.map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-bold text-gray-700 mb-2">Notes</label>
                 <textarea
@@ -810,7 +835,6 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
     const handleProgressUpdate = async (newProgress: number) => {
       try {
         await updateProject(selectedProject.id, { progress_percentage: newProgress }, user);
-        setSelectedProject(prev => prev ? { ...prev, progress_percentage: newProgress } : null);
       } catch (error) {
         console.error('Error updating project progress:', error);
         alert('Error updating project progress. Please try again.');
@@ -822,7 +846,7 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <button
-              onClick={() => setShowProjectDetail(false)}
+              onClick={projectRoute.closeProject}
               className="text-gray-600 hover:text-gray-900 transition-colors"
             >
               ← Back to Projects
@@ -854,7 +878,7 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
             </div>
             <div>
               <h4 className="font-medium text-gray-900 mb-2">Progress</h4>
-              {user.role === 'manager' ? (
+              {can(user, 'project.updateProgress', selectedProject) ? (
                 <div className="space-y-2">
                   <div className="flex items-center space-x-3">
                     <input
@@ -896,6 +920,7 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
             {[
               { id: 'brochure', label: 'Brochure Design', icon: FileText },
               { id: 'storage', label: 'Storage', icon: FolderOpen },
+              { id: 'stages', label: 'Stages', icon: Layers },
               { id: 'tasks', label: 'Tasks', icon: CheckSquare },
               { id: 'comments', label: 'Comments', icon: MessageSquare }
             ].map(tab => {
@@ -929,11 +954,20 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
                 initialBrochureProject={clientBrochureProject}
                 projectId={selectedProject.id}
                 onBack={() => setProjectDetailTab('tasks')}
+                pageNumber={projectRoute.pageNumber}
+                onPageChange={projectRoute.setBrochurePage}
               />
             );
           })()}
+          {projectDetailTab === 'stages' && (
+            <ProjectStages project={selectedProject} />
+          )}
           {projectDetailTab === 'storage' && (
-            <StorageManager projectId={selectedProject.id} />
+            <StorageManager
+              projectId={selectedProject.id}
+              selectedFileId={projectRoute.fileId}
+              onSelectFile={projectRoute.selectFile}
+            />
           )}
           {projectDetailTab === 'tasks' && (
             <TaskManager project={selectedProject} />
@@ -946,6 +980,24 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
     );
   };
 
+  // Deep link to a project the user can't see (or that no longer exists)
+  if (showProjectDetail && !selectedProject) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+          <p className="text-gray-600 mb-4">It may have been removed or you may not have access to it</p>
+          <button
+            onClick={projectRoute.closeProject}
+            className="text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            ← Back to Projects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show project detail if selected
   if (showProjectDetail && selectedProject) {
     return (
@@ -962,13 +1014,17 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
       {activeView === 'projects' && renderProjects()}
       {activeView === 'employees' && renderEmployees()}
       {activeView === 'leads' && renderLeads()}
+      {activeView === 'invoices' && <InvoiceManager />}
+      {activeView === 'audit' && <AuditLog />}
+      {activeView === 'storage-usage' && <StorageUsageDashboard />}
+      {activeView === 'meetings' && <MeetingCalendar />}
 
       {/* Add User Modal */}
       {isUserModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
             <div className="p-6 border-b border-gray-200 flex items-center justify-between">
-              <h3 className="text-xl font-bold text-gray-900">Add {userRoleToCreate === 'employee' ? 'Employee' : 'Client'}</h3>
+              <h3 className="text-xl font-bold text-gray-900">Invite {INVITABLE_ROLE_LABELS[userRoleToCreate]}</h3>
               <button onClick={() => setIsUserModalOpen(false)} className="text-gray-500">✕</button>
             </div>
             
@@ -997,12 +1053,29 @@ export function ManagerDashboard({ activeView, onViewChange }: ManagerDashboardP
                 <input type="email" value={userEmail} onChange={(e) => setUserEmail(e.target.value)} className="w-full px-3 py-2 border rounded-xl" required />
               </div>
               <div>
-                <label className="block text-sm font-semibold mb-1">Password</label>
-                <input type="password" value={userPassword} onChange={(e) => setUserPassword(e.target.value)} className="w-full px-3 py-2 border rounded-xl" required />
+                <label className="block text-sm font-semibold mb-1">Role</label>
+                <select value={userRoleToCreate} onChange={(e) => setUserRoleToCreate(e.target.value as InvitableRole)} className="w-full px-3 py-2 border rounded-xl">
+                  {(Object.keys(INVITABLE_ROLE_LABELS) as InvitableRole[]).map(role => (
+                    <option key={role} value={role}>{INVITABLE_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
               </div>
+              {userRoleToCreate === 'stakeholder' && (
+                <div>
+                  <label className="block text-sm font-semibold mb-1">Client</label>
+                  <select value={userClientId} onChange={(e) => setUserClientId(e.target.value)} className="w-full px-3 py-2 border rounded-xl" required>
+                    <option value="">Select a client</option>
+                    {users.filter(u => u.role === 'client').map(client => (
+                      <option key={client.id} value={client.id}>{client.name} ({client.email})</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Stakeholders get read-only access to this client's projects.</p>
+                </div>
+              )}
+              <p className="text-sm text-gray-600">An invitation email will be sent so they can set their own password.</p>
               <div className="flex justify-end gap-3 pt-2">
                 <button type="button" onClick={() => setIsUserModalOpen(false)} className="px-4 py-2 border rounded-xl">Cancel</button>
-                <button type="submit" disabled={creatingUser} className="px-5 py-2 bg-blue-600 text-white rounded-xl disabled:opacity-50">{creatingUser ? 'Creating...' : 'Create'}</button>
+                <button type="submit" disabled={creatingUser} className="px-5 py-2 bg-blue-600 text-white rounded-xl disabled:opacity-50">{creatingUser ? 'Sending...' : 'Send Invite'}</button>
               </div>
             </form>
           </div>
@@ -0,0 +1,308 @@
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { filterByPermission } from '../../utils/permissions';
+import { Project } from '../../types';
+import { StorageManager } from '../Storage/StorageManager';
+import { ProjectStages } from '../Stages/ProjectStages';
+import { BrochureDesign } from '../Brochure/BrochureDesign';
+import { ProjectCommentSection } from '../Comments/ProjectCommentSection';
+import { MeetingCalendar } from '../Meetings/MeetingCalendar';
+import { useProjectRoute } from '../../hooks/useProjectRoute';
+import { Layers, MessageSquare, FolderOpen, FileText, TrendingUp, Calendar, CheckCircle, Briefcase, Eye } from 'lucide-react';
+
+interface StakeholderDashboardProps {
+  activeView: string;
+  onViewChange: (view: string) => void;
+}
+
+// Read-only portal onto the projects of the client a stakeholder is linked to
+export function StakeholderDashboard({ activeView, onViewChange }: StakeholderDashboardProps) {
+  const { user } = useAuth();
+  const { projects, stages } = useData();
+  const projectRoute = useProjectRoute();
+  const showProjectDetail = !!projectRoute.projectId;
+  const projectDetailTab = projectRoute.tab;
+  const setProjectDetailTab = projectRoute.setTab;
+
+  const visibleProjects = filterByPermission(user, 'project.view', projects);
+  const selectedProject = visibleProjects.find(p => p.id === projectRoute.projectId) || null;
+
+  const activeProjects = visibleProjects.filter(p => p.status === 'active');
+  const approvedStages = stages.filter(stage =>
+    stage.approval_status === 'approved' && visibleProjects.some(p => p.id === stage.project_id)
+  );
+  const avgProgress = Math.round(
+    visibleProjects.reduce((sum, p) => sum + p.progress_percentage, 0) / visibleProjects.length || 0
+  );
+
+  const handleProjectClick = (project: Project) => {
+    projectRoute.openProject(project.id, 'stages');
+  };
+
+  const renderEmptyState = () => (
+    <div className="text-center py-12">
+      <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Briefcase className="w-12 h-12 text-gray-400" />
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">No projects to show</h3>
+      <p className="text-gray-600">Projects for your organisation will appear here once they are set up</p>
+    </div>
+  );
+
+  const renderProjectList = () => (
+    <div className="grid grid-cols-1 gap-6">
+      {visibleProjects.map(project => (
+        <div
+          key={project.id}
+          onClick={() => handleProjectClick(project)}
+          className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md cursor-pointer transition-all hover:border-slate-400"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">{project.title}</h3>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+              project.status === 'active' ? 'bg-green-100 text-green-800' :
+              project.status === 'completed' ? 'bg-blue-100 text-blue-800' :
+              'bg-yellow-100 text-yellow-800'
+            }`}>
+              {project.status}
+            </span>
+          </div>
+
+          <p className="text-gray-600 mb-4">{project.description}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Calendar className="w-4 h-4" />
+              <span>Deadline: {new Date(project.deadline).toLocaleDateString()}</span>
+            </div>
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <TrendingUp className="w-4 h-4" />
+              <span>Progress: {project.progress_percentage}%</span>
+            </div>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-3">
+            <div
+              className="h-3 bg-slate-600 rounded-full transition-all duration-300"
+              style={{ width: `${project.progress_percentage}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderDashboard = () => (
+    <div className="space-y-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Dashboard</h2>
+        <p className="text-gray-600">Progress across your organisation's projects</p>
+      </div>
+
+      {visibleProjects.length === 0 ? renderEmptyState() : (
+        <>
+          {/* Quick Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Active Projects</p>
+                  <p className="text-3xl font-bold text-slate-700">{activeProjects.length}</p>
+                </div>
+                <Briefcase className="w-8 h-8 text-slate-600" />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">Out of {visibleProjects.length} total</p>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Average Progress</p>
+                  <p className="text-3xl font-bold text-slate-700">{avgProgress}%</p>
+                </div>
+                <TrendingUp className="w-8 h-8 text-slate-600" />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">Across all projects</p>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Approved Stages</p>
+                  <p className="text-3xl font-bold text-green-600">{approvedStages.length}</p>
+                </div>
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">Signed off by the client</p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Projects</h3>
+            <button
+              onClick={() => onViewChange('project-overview')}
+              className="text-slate-700 hover:text-slate-900 font-medium flex items-center space-x-1"
+            >
+              <Eye className="w-4 h-4" />
+              <span>View all</span>
+            </button>
+          </div>
+          {renderProjectList()}
+        </>
+      )}
+    </div>
+  );
+
+  const renderProjectOverview = () => (
+    <div className="space-y-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Projects</h2>
+        <p className="text-gray-600">Open a project to follow its stages, brochure and files</p>
+      </div>
+
+      {visibleProjects.length === 0 ? renderEmptyState() : renderProjectList()}
+    </div>
+  );
+
+  const renderProjectDetail = () => {
+    if (!selectedProject) return null;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={projectRoute.closeProject}
+              className="text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              ← Back to Projects
+            </button>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{selectedProject.title}</h2>
+              <p className="text-gray-600">{selectedProject.description}</p>
+            </div>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+            selectedProject.status === 'active' ? 'bg-green-100 text-green-800' :
+            selectedProject.status === 'completed' ? 'bg-blue-100 text-blue-800' :
+            'bg-yellow-100 text-yellow-800'
+          }`}>
+            {selectedProject.status}
+          </span>
+        </div>
+
+        {/* Project Info */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Client</h4>
+              <p className="text-gray-600">{selectedProject.client_name}</p>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Deadline</h4>
+              <p className="text-gray-600">{new Date(selectedProject.deadline).toLocaleDateString()}</p>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Progress</h4>
+              <div className="flex items-center space-x-3">
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-2 bg-slate-600 rounded-full"
+                    style={{ width: `${selectedProject.progress_percentage}%` }}
+                  />
+                </div>
+                <span className="text-sm font-medium text-gray-900">{selectedProject.progress_percentage}%</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8">
+            {[
+              { id: 'stages', label: 'Stages', icon: Layers },
+              { id: 'brochure', label: 'Brochure', icon: FileText },
+              { id: 'storage', label: 'Files', icon: FolderOpen },
+              { id: 'comments', label: 'Discussion', icon: MessageSquare }
+            ].map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setProjectDetailTab(tab.id)}
+                  className={`flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                    projectDetailTab === tab.id
+                      ? 'border-slate-600 text-slate-700'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{tab.label}</span>
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        {/* Tab Content */}
+        <div>
+          {projectDetailTab === 'stages' && (
+            <ProjectStages project={selectedProject} />
+          )}
+          {projectDetailTab === 'brochure' && (
+            <BrochureDesign
+              projectId={selectedProject.id}
+              pageNumber={projectRoute.pageNumber}
+              onPageChange={projectRoute.setBrochurePage}
+            />
+          )}
+          {projectDetailTab === 'storage' && (
+            <StorageManager
+              projectId={selectedProject.id}
+              selectedFileId={projectRoute.fileId}
+              onSelectFile={projectRoute.selectFile}
+            />
+          )}
+          {projectDetailTab === 'comments' && (
+            <ProjectCommentSection project={selectedProject} />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Deep link to a project the user can't see (or that no longer exists)
+  if (showProjectDetail && !selectedProject) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+          <p className="text-gray-600 mb-4">It may have been removed or you may not have access to it</p>
+          <button
+            onClick={projectRoute.closeProject}
+            className="text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            ← Back to Projects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (showProjectDetail && selectedProject) {
+    return (
+      <div className="p-6">
+        {renderProjectDetail()}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {activeView === 'dashboard' && renderDashboard()}
+      {activeView === 'project-overview' && renderProjectOverview()}
+      {activeView === 'meetings' && <MeetingCalendar />}
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
+import { ProjectCard } from '../Projects/ProjectCard';
+import { ProjectModal } from '../Projects/ProjectModal';
+import { StorageManager } from '../Storage/StorageManager';
+import { ProjectStages } from '../Stages/ProjectStages';
+import { TaskManager } from '../Tasks/TaskManager';
+import { ProjectCommentSection } from '../Comments/ProjectCommentSection';
+import { BrochureDesign } from '../Brochure/BrochureDesign';
+import { MeetingCalendar } from '../Meetings/MeetingCalendar';
+import { useProjectRoute } from '../../hooks/useProjectRoute';
+import { Project } from '../../types';
+import {
+  Plus,
+  Search,
+  BarChart3,
+  FolderOpen,
+  Layers,
+  CheckSquare,
+  MessageSquare,
+  TrendingUp,
+  FileText,
+  Edit
+} from 'lucide-react';
+
+interface TeamLeadDashboardProps {
+  activeView: string;
+  onViewChange: (view: string) => void;
+}
+
+// Manager-style workspace limited to the projects this team lead runs
+export function TeamLeadDashboard({ activeView, onViewChange }: TeamLeadDashboardProps) {
+  const { projects, commentTasks, brochureProjects, users, updateProject } = useData();
+  const { user } = useAuth();
+  const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const projectRoute = useProjectRoute();
+  const selectedProject = projects.find(p => p.id === projectRoute.projectId) || null;
+  const showProjectDetail = !!projectRoute.projectId;
+  const projectDetailTab = projectRoute.tab;
+  const setProjectDetailTab = projectRoute.setTab;
+
+  const ledProjects = projects.filter(p => p.team_lead_id === user?.id);
+  const filteredProjects = projects.filter(project => {
+    const matchesSearch = project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         project.description.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesFilter = filterStatus === 'all' || project.status === filterStatus;
+    return matchesSearch && matchesFilter;
+  });
+
+  const stats = {
+    total: projects.length,
+    led: ledProjects.length,
+    active: projects.filter(p => p.status === 'active').length,
+    avgProgress: Math.round(projects.reduce((sum, p) => sum + p.progress_percentage, 0) / projects.length || 0)
+  };
+  const openTasks = commentTasks.filter(task =>
+    task.status !== 'done' && projects.some(p => p.id === task.project_id)
+  );
+
+  const handleProjectClick = (project: Project) => {
+    projectRoute.openProject(project.id, 'brochure');
+  };
+
+  const openCreateProject = () => {
+    setEditingProject(null);
+    setIsProjectModalOpen(true);
+  };
+
+  const renderDashboard = () => (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Team Overview</h2>
+        <p className="text-gray-600 text-lg">Progress across the projects you lead</p>
+      </div>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-xl shadow-sm border border-purple-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-purple-700">My Projects</p>
+              <p className="text-3xl font-bold text-purple-800">{stats.total}</p>
+            </div>
+            <div className="bg-purple-600 p-3 rounded-full">
+              <BarChart3 className="w-6 h-6 text-white" />
+            </div>
+          </div>
+          <p className="text-sm text-purple-700 mt-2">{stats.led} as team lead</p>
+        </div>
+
+        <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-xl shadow-sm border border-green-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-green-700">Active Projects</p>
+              <p className="text-3xl font-bold text-green-800">{stats.active}</p>
+            </div>
+            <div className="bg-green-600 p-3 rounded-full">
+              <Layers className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-orange-50 to-orange-100 rounded-xl shadow-sm border border-orange-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-orange-700">Open Tasks</p>
+              <p className="text-3xl font-bold text-orange-800">{openTasks.length}</p>
+            </div>
+            <div className="bg-orange-600 p-3 rounded-full">
+              <CheckSquare className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl shadow-sm border border-blue-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-blue-700">Avg Progress</p>
+              <p className="text-3xl font-bold text-blue-800">{stats.avgProgress}%</p>
+            </div>
+            <div className="bg-blue-600 p-3 rounded-full">
+              <TrendingUp className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Recent Projects */}
+      <div className="bg-gray-50 rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-gray-900">Recent Projects</h3>
+          <button
+            onClick={() => onViewChange('projects')}
+            className="text-purple-700 hover:text-purple-900 font-semibold"
+          >
+            View all →
+          </button>
+        </div>
+        {projects.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {projects.slice(0, 6).map(project => (
+              <ProjectCard key={project.id} project={project} onClick={handleProjectClick} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">You are not leading any projects yet</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderProjects = () => (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">My Projects</h2>
+          <p className="text-gray-600 text-lg">Projects you lead or are assigned to</p>
+        </div>
+        {can(user, 'project.create') && (
+          <button
+            onClick={openCreateProject}
+            className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-xl font-semibold flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Project</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search projects..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 bg-white shadow-sm"
+          />
+        </div>
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 bg-white shadow-sm"
+        >
+          <option value="all">All Status</option>
+          <option value="active">Active</option>
+          <option value="completed">Completed</option>
+          <option value="on_hold">On Hold</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {filteredProjects.map(project => (
+          <ProjectCard key={project.id} project={project} onClick={handleProjectClick} />
+        ))}
+      </div>
+
+      {filteredProjects.length === 0 && (
+        <div className="text-center py-12">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FolderOpen className="w-12 h-12 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No projects found</h3>
+          <p className="text-gray-600">Create a project or adjust your filters</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderProjectDetail = () => {
+    if (!selectedProject || !user) return null;
+
+    const assignedNames = users
+      .filter(u => selectedProject.assigned_employees.includes(u.id))
+      .map(u => u.name);
+
+    const handleProgressUpdate = async (newProgress: number) => {
+      try {
+        await updateProject(selectedProject.id, { progress_percentage: newProgress });
+      } catch (error) {
+        console.error('Error updating project progress:', error);
+        alert('Error updating project progress. Please try again.');
+      }
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={projectRoute.closeProject}
+              className="text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              ← Back to Projects
+            </button>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{selectedProject.title}</h2>
+              <p className="text-gray-600">{selectedProject.description}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            {can(user, 'project.edit', selectedProject) && (
+              <button
+                onClick={() => { setEditingProject(selectedProject); setIsProjectModalOpen(true); }}
+                className="text-purple-700 hover:bg-purple-100 px-3 py-1 rounded-lg flex items-center space-x-1"
+              >
+                <Edit className="w-4 h-4" />
+                <span>Edit</span>
+              </button>
+            )}
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+              selectedProject.status === 'active' ? 'bg-green-100 text-green-800' :
+              selectedProject.status === 'completed' ? 'bg-blue-100 text-blue-800' :
+              'bg-yellow-100 text-yellow-800'
+            }`}>
+              {selectedProject.status}
+            </span>
+          </div>
+        </div>
+
+        {/* Project Info */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Client</h4>
+              <p className="text-gray-600">{selectedProject.client_name}</p>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Team</h4>
+              <p className="text-gray-600">{assignedNames.length > 0 ? assignedNames.join(', ') : 'Unassigned'}</p>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Deadline</h4>
+              <p className="text-gray-600">{new Date(selectedProject.deadline).toLocaleDateString()}</p>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Progress</h4>
+              {can(user, 'project.updateProgress', selectedProject) ? (
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={selectedProject.progress_percentage}
+                    onChange={(e) => handleProgressUpdate(parseInt(e.target.value))}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                    style={{ '--value': `${selectedProject.progress_percentage}%` } as React.CSSProperties}
+                  />
+                  <span className="text-sm font-medium text-gray-900 min-w-[40px]">{selectedProject.progress_percentage}%</span>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="h-2 bg-purple-600 rounded-full"
+                      style={{ width: `${selectedProject.progress_percentage}%` }}
+                    />
+                  </div>
+                  <span className="text-sm font-medium text-gray-900">{selectedProject.progress_percentage}%</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8">
+            {[
+              { id: 'brochure', label: 'Brochure Design', icon: FileText },
+              { id: 'storage', label: 'Storage', icon: FolderOpen },
+              { id: 'stages', label: 'Stages', icon: Layers },
+              { id: 'tasks', label: 'Tasks', icon: CheckSquare },
+              { id: 'comments', label: 'Comments', icon: MessageSquare }
+            ].map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setProjectDetailTab(tab.id)}
+                  className={`flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                    projectDetailTab === tab.id
+                      ? 'border-purple-600 text-purple-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{tab.label}</span>
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        {/* Tab Content */}
+        <div>
+          {projectDetailTab === 'brochure' && (
+            <BrochureDesign
+              initialBrochureProject={brochureProjects.find(bp => bp.project_id === selectedProject.id)}
+              projectId={selectedProject.id}
+              onBack={() => setProjectDetailTab('tasks')}
+              pageNumber={projectRoute.pageNumber}
+              onPageChange={projectRoute.setBrochurePage}
+            />
+          )}
+          {projectDetailTab === 'stages' && (
+            <ProjectStages project={selectedProject} />
+          )}
+          {projectDetailTab === 'storage' && (
+            <StorageManager
+              projectId={selectedProject.id}
+              selectedFileId={projectRoute.fileId}
+              onSelectFile={projectRoute.selectFile}
+            />
+          )}
+          {projectDetailTab === 'tasks' && (
+            <TaskManager project={selectedProject} />
+          )}
+          {projectDetailTab === 'comments' && (
+            <ProjectCommentSection project={selectedProject} />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Keyed so the form picks up the project being edited
+  const projectModal = isProjectModalOpen && (
+    <ProjectModal
+      key={editingProject?.id || 'new'}
+      isOpen={isProjectModalOpen}
+      onClose={() => { setIsProjectModalOpen(false); setEditingProject(null); }}
+      project={editingProject}
+    />
+  );
+
+  // Deep link to a project the user can't see (or that no longer exists)
+  if (showProjectDetail && !selectedProject) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+          <p className="text-gray-600 mb-4">It may have been removed or you may not have access to it</p>
+          <button
+            onClick={projectRoute.closeProject}
+            className="text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            ← Back to Projects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (showProjectDetail && selectedProject) {
+    return (
+      <div className="p-6">
+        {renderProjectDetail()}
+        {projectModal}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {activeView === 'dashboard' && renderDashboard()}
+      {activeView === 'projects' && renderProjects()}
+      {activeView === 'meetings' && <MeetingCalendar />}
+      {projectModal}
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 import React, { useState, useMemo } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { can, canOnAllProjects, filterByPermission } from '../../utils/permissions';
+import { formatFolderPath, getDescendantFolderIds, getFilesInFolderTree } from '../../utils/folders';
+import { sanitizePathSegment, ZipProgress } from '../../utils/zip';
 import { File, DownloadHistory } from '../../types';
+import { FileVersionHistory } from '../Files/FileVersionHistory';
+import { FilePreview } from '../Files/FilePreview';
+import { FileThumbnail } from '../Files/FileThumbnail';
+import { DownloadAnalytics } from './DownloadAnalytics';
 import { 
   Download, 
   Search, 
@@ -20,44 +27,71 @@ import {
   BarChart3,
   Settings,
   Trash2,
-  Edit3
+  Edit3,
+  ArchiveRestore
 } from 'lucide-react';
 
 export function DocumentDownloadCenter() {
   const { user } = useAuth();
   const { 
     files, 
+    folders,
     projects, 
     downloadFile, 
     downloadMultipleFiles, 
     getDownloadHistory,
-    updateFileMetadata 
+    updateFileMetadata,
+    setFileArchived
   } = useData();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedFileType, setSelectedFileType] = useState('all');
   const [selectedProject, setSelectedProject] = useState('all');
+  const [selectedFolder, setSelectedFolder] = useState('all');
   const [dateRange, setDateRange] = useState('all');
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
+  const [showArchived, setShowArchived] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [previewFile, setPreviewFile] = useState<File | null>(null);
   const [editingFile, setEditingFile] = useState<File | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [zipProgress, setZipProgress] = useState<ZipProgress | null>(null);
   const [editMetadata, setEditMetadata] = useState({ description: '', tags: '', category: '' });
 
-  // Get accessible files based on user role
-  const accessibleFiles = useMemo(() => {
-    let filteredFiles = files.filter(file => !file.is_archived);
-
-    if (user?.role === 'employee') {
-      const assignedProjects = projects.filter(p => p.assigned_employees.includes(user.id));
-      filteredFiles = filteredFiles.filter(f => assignedProjects.some(p => p.id === f.project_id));
-    }
-
-    return filteredFiles;
+  // Get visible files based on the user's permissions
+  const visibleFiles = useMemo(() => {
+    if (canOnAllProjects(user, 'project.view')) return files;
+    const visibleProjects = filterByPermission(user, 'project.view', projects);
+    return files.filter(f => visibleProjects.some(p => p.id === f.project_id));
   }, [files, projects, user]);
 
+  // Active and archived files are listed separately
+  const accessibleFiles = useMemo(
+    () => visibleFiles.filter(file => file.is_archived === showArchived),
+    [visibleFiles, showArchived]
+  );
+  const archivedCount = visibleFiles.filter(file => file.is_archived).length;
+
+  // Looked up by id so the modal follows the file as new versions arrive
+  const historyFile = files.find(f => f.id === historyFileId);
+
+  // Folders of the chosen project, labelled with their full path
+  const projectFolderOptions = useMemo(() => {
+    if (selectedProject === 'all') return [];
+    const projectFolders = folders.filter(f => f.project_id === selectedProject);
+    return projectFolders
+      .map(folder => ({ id: folder.id, label: formatFolderPath(projectFolders, folder.id) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [folders, selectedProject]);
+
+  // A folder filter includes everything nested below it
+  const selectedFolderIds = useMemo(
+    () => (selectedFolder === 'all' ? [] : getDescendantFolderIds(folders, selectedFolder)),
+    [folders, selectedFolder]
+  );
+
   // Apply filters
   const filteredFiles = useMemo(() => {
     return accessibleFiles.filter(file => {
@@ -68,6 +102,7 @@ export function DocumentDownloadCenter() {
       const matchesCategory = selectedCategory === 'all' || file.category === selectedCategory;
       const matchesFileType = selectedFileType === 'all' || file.file_type === selectedFileType;
       const matchesProject = selectedProject === 'all' || file.project_id === selectedProject;
+      const matchesFolder = selectedFolder === 'all' || (!!file.folder_id && selectedFolderIds.includes(file.folder_id));
       
       let matchesDate = true;
       if (dateRange !== 'all') {
@@ -78,9 +113,9 @@ export function DocumentDownloadCenter() {
         matchesDate = fileDate >= cutoffDate;
       }
 
-      return matchesSearch && matchesCategory && matchesFileType && matchesProject && matchesDate;
+      return matchesSearch && matchesCategory && matchesFileType && matchesProject && matchesFolder && matchesDate;
     });
-  }, [accessibleFiles, searchTerm, selectedCategory, selectedFileType, selectedProject, dateRange]);
+  }, [accessibleFiles, searchTerm, selectedCategory, selectedFileType, selectedProject, selectedFolderIds, dateRange]);
 
   const getFileIcon = (fileType: string) => {
     switch (fileType.toLowerCase()) {
@@ -139,13 +174,71 @@ export function DocumentDownloadCenter() {
     }
   };
 
-  const handleBulkDownload = () => {
-    if (selectedFiles.length > 0) {
-      downloadMultipleFiles(selectedFiles);
+  const archiveName = (label: string) =>
+    `${sanitizePathSegment(label)}-${new Date().toISOString().split('T')[0]}.zip`;
+
+  // Everything goes out as one ZIP so browsers don't block a burst of downloads
+  const handleDownload = async (fileId: string) => {
+    try {
+      await downloadFile(fileId);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      alert(error instanceof Error ? error.message : 'Error downloading file. Please try again.');
+    }
+  };
+
+  const downloadAsZip = async (fileIds: string[], name: string) => {
+    if (fileIds.length === 0 || zipProgress) return;
+
+    setZipProgress({ completedFiles: 0, totalFiles: fileIds.length, loadedBytes: 0, totalBytes: 0 });
+    try {
+      const result = await downloadMultipleFiles(fileIds, { archiveName: archiveName(name), onProgress: setZipProgress });
+      if (result && result.failed.length > 0) {
+        alert(`${result.failed.length} file(s) could not be downloaded or failed their integrity check. They are listed in manifest.json.`);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error creating ZIP archive:', error);
+      alert('Error creating ZIP archive. Please try again.');
+    } finally {
+      setZipProgress(null);
+    }
+  };
+
+  const handleBulkDownload = async () => {
+    if (selectedFiles.length > 0 && await downloadAsZip(selectedFiles, 'selected-documents')) {
       setSelectedFiles([]);
     }
   };
 
+  // Downloads every file in the chosen folder and its subfolders, ignoring the other filters
+  const handleFolderDownload = () => {
+    if (selectedFolder === 'all') return;
+    const folderFiles = getFilesInFolderTree(accessibleFiles, folders, selectedFolder);
+    downloadAsZip(folderFiles.map(f => f.id), `${projects.find(p => p.id === selectedProject)?.title || 'project'}-${formatFolderPath(folders, selectedFolder)}`);
+  };
+
+  const handleProjectDownload = () => {
+    if (selectedProject === 'all') return;
+    const projectFiles = accessibleFiles.filter(f => f.project_id === selectedProject);
+    downloadAsZip(projectFiles.map(f => f.id), projects.find(p => p.id === selectedProject)?.title || 'project');
+  };
+
+  const handleToggleArchive = async (file: File) => {
+    try {
+      await setFileArchived(file, !file.is_archived);
+      setSelectedFiles(prev => prev.filter(id => id !== file.id));
+    } catch (error) {
+      console.error('Error updating file archive state:', error);
+      alert(`Error ${file.is_archived ? 'restoring' : 'archiving'} file. Please try again.`);
+    }
+  };
+
+  const handleShowArchived = (archived: boolean) => {
+    setShowArchived(archived);
+    setSelectedFiles([]);
+  };
+
   const handleEditMetadata = (file: File) => {
     setEditingFile(file);
     setEditMetadata({
@@ -170,9 +263,7 @@ export function DocumentDownloadCenter() {
   const downloadHistory = getDownloadHistory();
   const uniqueCategories = [...new Set(accessibleFiles.map(f => f.category).filter(Boolean))];
   const uniqueFileTypes = [...new Set(accessibleFiles.map(f => f.file_type))];
-  const accessibleProjects = user?.role === 'manager' 
-    ? projects 
-    : projects.filter(p => p.assigned_employees.includes(user?.id || ''));
+  const accessibleProjects = filterByPermission(user, 'project.view', projects);
 
   const getThemeColors = () => {
     switch (user?.role) {
@@ -201,56 +292,11 @@ export function DocumentDownloadCenter() {
 
   if (showHistory) {
     return (
-      <div className="p-6">
-        <div className="flex items-center justify-between mb-6">
-          <div>
-            <h2 className="text-2xl font-bold text-gray-900">Download History</h2>
-            <p className="text-gray-600">Track your document download activity</p>
-          </div>
-          <button
-            onClick={() => setShowHistory(false)}
-            className={`${theme.primary} text-white px-4 py-2 rounded-lg font-medium transition-colors`}
-          >
-            Back to Documents
-          </button>
-        </div>
-
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b border-gray-200">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Downloaded By</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {downloadHistory.map(entry => (
-                  <tr key={entry.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <FileText className="w-4 h-4 text-gray-400 mr-3" />
-                        <span className="text-sm font-medium text-gray-900">{entry.file_name}</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                      {entry.downloader_name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                      {new Date(entry.download_date).toLocaleString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                      {formatFileSize(entry.file_size)}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      </div>
+      <DownloadAnalytics
+        theme={theme}
+        formatFileSize={formatFileSize}
+        onBack={() => setShowHistory(false)}
+      />
     );
   }
 
@@ -263,6 +309,20 @@ export function DocumentDownloadCenter() {
           <p className="text-gray-600">Access and download client-provided documents for design work</p>
         </div>
         <div className="flex items-center space-x-3">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => handleShowArchived(false)}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${!showArchived ? theme.secondary : 'hover:bg-gray-50'}`}
+            >
+              Active
+            </button>
+            <button
+              onClick={() => handleShowArchived(true)}
+              className={`px-4 py-2 text-sm font-medium border-l border-gray-300 transition-colors ${showArchived ? theme.secondary : 'hover:bg-gray-50'}`}
+            >
+              Archived ({archivedCount})
+            </button>
+          </div>
           <button
             onClick={() => setShowHistory(true)}
             className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
@@ -270,10 +330,31 @@ export function DocumentDownloadCenter() {
             <History className="w-4 h-4" />
             <span>Download History</span>
           </button>
+          {selectedProject !== 'all' && (
+            <button
+              onClick={handleProjectDownload}
+              disabled={!!zipProgress}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <Archive className="w-4 h-4" />
+              <span>Download Project</span>
+            </button>
+          )}
+          {selectedFolder !== 'all' && (
+            <button
+              onClick={handleFolderDownload}
+              disabled={!!zipProgress}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <FolderOpen className="w-4 h-4" />
+              <span>Download Folder ({getFilesInFolderTree(accessibleFiles, folders, selectedFolder).length})</span>
+            </button>
+          )}
           {selectedFiles.length > 0 && (
             <button
               onClick={handleBulkDownload}
-              className={`${theme.primary} text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2`}
+              disabled={!!zipProgress}
+              className={`${theme.primary} disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2`}
             >
               <Download className="w-4 h-4" />
               <span>Download Selected ({selectedFiles.length})</span>
@@ -282,12 +363,36 @@ export function DocumentDownloadCenter() {
         </div>
       </div>
 
+      {/* ZIP Progress */}
+      {zipProgress && (
+        <div className={`${theme.secondary} border rounded-lg p-4 mb-6`}>
+          <div className="flex items-center justify-between text-sm text-gray-700 mb-2">
+            <span className="truncate">
+              Preparing ZIP archive{zipProgress.currentFile ? ` — ${zipProgress.currentFile}` : '...'}
+            </span>
+            <span className="flex-shrink-0 ml-4">
+              {zipProgress.completedFiles} / {zipProgress.totalFiles} files
+            </span>
+          </div>
+          <div className="w-full bg-white rounded-full h-2">
+            <div
+              className={`h-2 rounded-full transition-all duration-300 ${theme.primary}`}
+              style={{
+                width: `${zipProgress.totalBytes > 0
+                  ? Math.round((zipProgress.loadedBytes / zipProgress.totalBytes) * 100)
+                  : Math.round((zipProgress.completedFiles / Math.max(zipProgress.totalFiles, 1)) * 100)}%`
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Documents</p>
+              <p className="text-sm font-medium text-gray-600">{showArchived ? 'Archived Documents' : 'Total Documents'}</p>
               <p className="text-3xl font-bold text-gray-900">{accessibleFiles.length}</p>
             </div>
             <FolderOpen className="w-8 h-8 text-blue-600" />
@@ -335,7 +440,7 @@ export function DocumentDownloadCenter() {
 
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+        <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 ${projectFolderOptions.length > 0 ? 'lg:grid-cols-6' : 'lg:grid-cols-5'}`}>
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
@@ -373,7 +478,10 @@ export function DocumentDownloadCenter() {
 
           <select
             value={selectedProject}
-            onChange={(e) => setSelectedProject(e.target.value)}
+            onChange={(e) => {
+              setSelectedProject(e.target.value);
+              setSelectedFolder('all');
+            }}
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="all">All Projects</option>
@@ -382,6 +490,19 @@ export function DocumentDownloadCenter() {
             ))}
           </select>
 
+          {projectFolderOptions.length > 0 && (
+            <select
+              value={selectedFolder}
+              onChange={(e) => setSelectedFolder(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All Folders</option>
+              {projectFolderOptions.map(folder => (
+                <option key={folder.id} value={folder.id}>{folder.label}</option>
+              ))}
+            </select>
+          )}
+
           <select
             value={dateRange}
             onChange={(e) => setDateRange(e.target.value)}
@@ -469,7 +590,15 @@ export function DocumentDownloadCenter() {
                         <div className="flex items-center">
                           {getFileIcon(file.file_type)}
                           <div className="ml-3">
-                            <div className="text-sm font-medium text-gray-900">{file.filename}</div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {file.filename}
+                              {file.current_version > 1 && (
+                                <span className="ml-2 text-xs font-normal text-gray-500">v{file.current_version}</span>
+                              )}
+                            </div>
+                            {file.folder_id && (
+                              <div className="text-xs text-gray-500">{formatFolderPath(folders, file.folder_id)}</div>
+                            )}
                             {file.description && (
                               <div className="text-sm text-gray-500 truncate max-w-xs">{file.description}</div>
                             )}
@@ -505,6 +634,9 @@ export function DocumentDownloadCenter() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                         <div>{new Date(file.timestamp).toLocaleDateString()}</div>
                         <div className="text-xs text-gray-500">by {file.uploader_name}</div>
+                        {file.archived_at && (
+                          <div className="text-xs text-gray-500">archived {new Date(file.archived_at).toLocaleDateString()}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center space-x-2">
@@ -516,13 +648,20 @@ export function DocumentDownloadCenter() {
                             <Eye className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => downloadFile(file.id)}
+                            onClick={() => handleDownload(file.id)}
                             className={`${theme.text} hover:opacity-75 transition-colors`}
                             title="Download"
                           >
                             <Download className="w-4 h-4" />
                           </button>
-                          {user?.role === 'manager' && (
+                          <button
+                            onClick={() => setHistoryFileId(file.id)}
+                            className="text-gray-600 hover:text-gray-900 transition-colors"
+                            title="Version History"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                          {can(user, 'file.editMetadata', projects.find(p => p.id === file.project_id)) && (
                             <button
                               onClick={() => handleEditMetadata(file)}
                               className="text-gray-600 hover:text-gray-900 transition-colors"
@@ -531,6 +670,15 @@ export function DocumentDownloadCenter() {
                               <Edit3 className="w-4 h-4" />
                             </button>
                           )}
+                          {can(user, 'file.editMetadata', project) && (
+                            <button
+                              onClick={() => handleToggleArchive(file)}
+                              className="text-gray-600 hover:text-gray-900 transition-colors"
+                              title={file.is_archived ? 'Restore from Archive' : 'Archive'}
+                            >
+                              {file.is_archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -561,14 +709,41 @@ export function DocumentDownloadCenter() {
                       <Eye className="w-4 h-4" />
                     </button>
                     <button
-                      onClick={() => downloadFile(file.id)}
+                      onClick={() => setHistoryFileId(file.id)}
+                      className="text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDownload(file.id)}
                       className={`${theme.text} hover:opacity-75 transition-colors`}
                     >
                       <Download className="w-4 h-4" />
                     </button>
+                    {can(user, 'file.editMetadata', project) && (
+                      <button
+                        onClick={() => handleToggleArchive(file)}
+                        className="text-gray-600 hover:text-gray-900 transition-colors"
+                        title={file.is_archived ? 'Restore from Archive' : 'Archive'}
+                      >
+                        {file.is_archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                <button
+                  onClick={() => setPreviewFile(file)}
+                  className="block w-full mb-3"
+                  title="Preview"
+                >
+                  <FileThumbnail
+                    file={file}
+                    className="h-32"
+                    fallback={<div className="scale-150">{getFileIcon(file.file_type)}</div>}
+                  />
+                </button>
+
                 <div className="flex items-center mb-3">
                   {getFileIcon(file.file_type)}
                   <span className="ml-2 font-medium text-gray-900 truncate">{file.filename}</span>
@@ -597,6 +772,12 @@ export function DocumentDownloadCenter() {
                     <span>Project:</span>
                     <span className="truncate max-w-24">{project?.title || 'Unknown'}</span>
                   </div>
+                  {file.archived_at && (
+                    <div className="flex items-center justify-between">
+                      <span>Archived:</span>
+                      <span>{new Date(file.archived_at).toLocaleDateString()}</span>
+                    </div>
+                  )}
                 </div>
 
                 {file.tags && file.tags.length > 0 && (
@@ -622,7 +803,7 @@ export function DocumentDownloadCenter() {
           <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <FileText className="w-12 h-12 text-gray-400" />
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No documents found</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{showArchived ? 'No archived documents' : 'No documents found'}</h3>
           <p className="text-gray-600">Try adjusting your search or filter criteria</p>
         </div>
       )}
@@ -630,39 +811,59 @@ export function DocumentDownloadCenter() {
       {/* File Preview Modal */}
       {previewFile && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+          <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full h-[90vh] flex flex-col overflow-hidden">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">{previewFile.filename}</h3>
+              <div className="min-w-0">
+                <h3 className="text-lg font-semibold text-gray-900 truncate">{previewFile.filename}</h3>
                 <p className="text-sm text-gray-600">{formatFileSize(previewFile.size)} • {previewFile.file_type.toUpperCase()}</p>
               </div>
-              <button
-                onClick={() => setPreviewFile(null)}
-                className="text-gray-400 hover:text-gray-600 transition-colors"
-              >
-                ×
-              </button>
-            </div>
-            <div className="p-6">
-              <div className="bg-gray-50 rounded-lg p-8 text-center">
-                {getFileIcon(previewFile.file_type)}
-                <p className="mt-4 text-gray-600">File preview not available</p>
-                <p className="text-sm text-gray-500">Click download to view the file</p>
+              <div className="flex items-center space-x-4 flex-shrink-0">
+                <button
+                  onClick={() => handleDownload(previewFile.id)}
+                  className={`${theme.text} hover:opacity-75 transition-colors`}
+                  title="Download"
+                >
+                  <Download className="w-5 h-5" />
+                </button>
                 <button
-                  onClick={() => {
-                    downloadFile(previewFile.id);
-                    setPreviewFile(null);
-                  }}
-                  className={`mt-4 ${theme.primary} text-white px-6 py-2 rounded-lg font-medium transition-colors`}
+                  onClick={() => setPreviewFile(null)}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
                 >
-                  Download File
+                  ×
                 </button>
               </div>
             </div>
+            <div className="flex-1 min-h-0 p-6">
+              <FilePreview
+                key={previewFile.id}
+                file={previewFile}
+                fallback={
+                  <div className="bg-gray-50 rounded-lg p-8 text-center">
+                    {getFileIcon(previewFile.file_type)}
+                    <p className="mt-4 text-gray-600">File preview not available</p>
+                    <p className="text-sm text-gray-500">Click download to view the file</p>
+                    <button
+                      onClick={() => {
+                        handleDownload(previewFile.id);
+                        setPreviewFile(null);
+                      }}
+                      className={`mt-4 ${theme.primary} text-white px-6 py-2 rounded-lg font-medium transition-colors`}
+                    >
+                      Download File
+                    </button>
+                  </div>
+                }
+              />
+            </div>
           </div>
         </div>
       )}
 
+      {/* Version History Modal */}
+      {historyFile && (
+        <FileVersionHistory file={historyFile} onClose={() => setHistoryFileId(null)} />
+      )}
+
       {/* Edit Metadata Modal */}
       {editingFile && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { DOWNLOAD_HISTORY_LIMIT } from '../../types';
+import { Download, FileText, User, Users, X } from 'lucide-react';
+
+interface DownloadAnalyticsProps {
+  theme: { primary: string; text: string };
+  formatFileSize: (bytes: number) => string;
+  onBack: () => void;
+}
+
+interface DownloadTally {
+  key: string;
+  label: string;
+  count: number;
+  bytes: number;
+  distinct: Set<string>; // downloaders of a file, or files downloaded by a user
+  lastDownload: string;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Download history with per-file and per-user breakdowns; clicking a row filters the log
+export function DownloadAnalytics({ theme, formatFileSize, onBack }: DownloadAnalyticsProps) {
+  const { downloadHistory, projects } = useData();
+  const [fileFilter, setFileFilter] = useState<{ key: string; label: string } | null>(null);
+  const [userFilter, setUserFilter] = useState<{ key: string; label: string } | null>(null);
+
+  const { byFile, byUser } = useMemo(() => {
+    const tally = (map: Map<string, DownloadTally>, key: string, label: string, other: string, bytes: number, date: string) => {
+      const existing = map.get(key) || { key, label, count: 0, bytes: 0, distinct: new Set<string>(), lastDownload: date };
+      existing.count++;
+      existing.bytes += bytes;
+      existing.distinct.add(other);
+      if (date > existing.lastDownload) existing.lastDownload = date;
+      map.set(key, existing);
+    };
+
+    const files = new Map<string, DownloadTally>();
+    const users = new Map<string, DownloadTally>();
+    downloadHistory.forEach(entry => {
+      // Deleted files lose their id, so fall back to the recorded name
+      tally(files, entry.file_id || `deleted:${entry.file_name}`, entry.file_name, entry.downloaded_by || entry.downloader_name, entry.file_size, entry.download_date);
+      tally(users, entry.downloaded_by || entry.downloader_name, entry.downloader_name, entry.file_id || entry.file_name, entry.file_size, entry.download_date);
+    });
+
+    const sortByCount = (a: DownloadTally, b: DownloadTally) => b.count - a.count || b.lastDownload.localeCompare(a.lastDownload);
+    return {
+      byFile: [...files.values()].sort(sortByCount),
+      byUser: [...users.values()].sort(sortByCount)
+    };
+  }, [downloadHistory]);
+
+  const filteredHistory = downloadHistory.filter(entry =>
+    (!fileFilter || (entry.file_id || `deleted:${entry.file_name}`) === fileFilter.key) &&
+    (!userFilter || (entry.downloaded_by || entry.downloader_name) === userFilter.key)
+  );
+
+  const weekAgo = new Date(Date.now() - WEEK_MS).toISOString();
+  const downloadsThisWeek = downloadHistory.filter(entry => entry.download_date >= weekAgo).length;
+
+  const getProjectTitle = (projectId?: string) =>
+    projects.find(p => p.id === projectId)?.title || '—';
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Download History</h2>
+          <p className="text-gray-600">Who downloaded what, across the latest {DOWNLOAD_HISTORY_LIMIT} downloads</p>
+        </div>
+        <button
+          onClick={onBack}
+          className={`${theme.primary} text-white px-4 py-2 rounded-lg font-medium transition-colors`}
+        >
+          Back to Documents
+        </button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Downloads</p>
+              <p className="text-3xl font-bold text-gray-900">{downloadHistory.length}</p>
+            </div>
+            <Download className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">This Week</p>
+              <p className="text-3xl font-bold text-orange-600">{downloadsThisWeek}</p>
+            </div>
+            <Download className="w-8 h-8 text-orange-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Files Downloaded</p>
+              <p className="text-3xl font-bold text-purple-600">{byFile.length}</p>
+            </div>
+            <FileText className="w-8 h-8 text-purple-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">People</p>
+              <p className="text-3xl font-bold text-green-600">{byUser.length}</p>
+            </div>
+            <Users className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Per-file and per-user breakdowns */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="px-6 py-4 border-b border-gray-200 font-semibold text-gray-900">Most Downloaded Files</h3>
+          <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+            {byFile.map(entry => (
+              <li key={entry.key}>
+                <button
+                  onClick={() => setFileFilter({ key: entry.key, label: entry.label })}
+                  className={`w-full px-6 py-3 flex items-center justify-between text-left hover:bg-gray-50 ${fileFilter?.key === entry.key ? 'bg-gray-50' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{entry.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.distinct.size} {entry.distinct.size === 1 ? 'person' : 'people'} • last {new Date(entry.lastDownload).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-semibold ${theme.text} flex-shrink-0 ml-4`}>{entry.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="px-6 py-4 border-b border-gray-200 font-semibold text-gray-900">Downloads by User</h3>
+          <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+            {byUser.map(entry => (
+              <li key={entry.key}>
+                <button
+                  onClick={() => setUserFilter({ key: entry.key, label: entry.label })}
+                  className={`w-full px-6 py-3 flex items-center justify-between text-left hover:bg-gray-50 ${userFilter?.key === entry.key ? 'bg-gray-50' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{entry.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.distinct.size} {entry.distinct.size === 1 ? 'file' : 'files'} • {formatFileSize(entry.bytes)} • last {new Date(entry.lastDownload).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-semibold ${theme.text} flex-shrink-0 ml-4`}>{entry.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {(fileFilter || userFilter) && (
+        <div className="flex items-center flex-wrap gap-2 mb-4">
+          <span className="text-sm text-gray-600">Showing downloads for:</span>
+          {[fileFilter && { ...fileFilter, icon: FileText, clear: () => setFileFilter(null) },
+            userFilter && { ...userFilter, icon: User, clear: () => setUserFilter(null) }]
+            .filter((chip): chip is NonNullable<typeof chip> => !!chip)
+            .map(chip => {
+              const Icon = chip.icon;
+              return (
+                <span key={chip.key} className="inline-flex items-center space-x-1 px-3 py-1 rounded-full bg-gray-100 text-sm text-gray-800">
+                  <Icon className="w-3 h-3" />
+                  <span>{chip.label}</span>
+                  <button onClick={chip.clear} className="text-gray-500 hover:text-gray-800" title="Clear filter">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              );
+            })}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Downloaded By</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredHistory.map(entry => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 text-gray-400 mr-3" />
+                      <span className="text-sm font-medium text-gray-900">{entry.file_name}</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {getProjectTitle(entry.project_id)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {entry.downloader_name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(entry.download_date).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatFileSize(entry.file_size)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredHistory.length === 0 && (
+          <div className="text-center py-12">
+            <Download className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">No downloads recorded yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
+import { confirmDuplicateUpload } from '../../utils/fileHash';
+import { collectDroppedFiles, DroppedFile, isFileDrag } from '../../utils/droppedFiles';
+import { UploadQueue } from '../Storage/UploadQueue';
 import { Upload, Download, FileText, Image, Video, Archive, Trash2 } from 'lucide-react';
 
 interface FileManagerProps {
@@ -10,17 +14,34 @@ interface FileManagerProps {
 
 export function FileManager({ stageId, canUpload = true }: FileManagerProps) {
   const { user } = useAuth();
-  const { files, uploadFileFromInput } = useData();
+  const { files, folders, stages, uploadFileFromInput, downloadFile } = useData();
   const [dragActive, setDragActive] = useState(false);
 
   const stageFiles = files.filter(file => file.stage_id === stageId);
+  const projectId = stages.find(stage => stage.id === stageId)?.project_id || '';
 
-  const handleFileUpload = (fileList: FileList | null) => {
-    if (!fileList || !canUpload) return;
-    
-    Array.from(fileList).forEach(file => {
-      uploadFileFromInput(stageId, file, user?.name || 'Unknown');
+  const uploadQueue = useUploadQueue<null>(async (item, controls) => {
+    await uploadFileFromInput(stageId, item.file, projectId, user?.name || 'Unknown', null, {
+      onDuplicate: duplicate => confirmDuplicateUpload(item.file, duplicate, stages, folders),
+      onProgress: uploadedBytes => controls.onProgress(uploadedBytes),
+      signal: controls.signal,
+      uploadId: controls.uploadId
     });
+  });
+
+  // Stages have no folders, so files from dropped folders are uploaded side by side
+  const enqueueUploads = (entries: DroppedFile[]) => {
+    if (!canUpload || !projectId) return;
+    uploadQueue.enqueue(entries.map(({ file, directories }) => ({
+      file,
+      relativePath: [...directories, file.name].join('/'),
+      target: null
+    })));
+  };
+
+  const handleFileUpload = (fileList: FileList | null) => {
+    if (!fileList) return;
+    enqueueUploads(Array.from(fileList).map(file => ({ file, directories: [] })));
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -33,13 +54,17 @@ export function FileManager({ stageId, canUpload = true }: FileManagerProps) {
     }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    
-    if (e.dataTransfer.files && canUpload) {
-      handleFileUpload(e.dataTransfer.files);
+    if (!canUpload || !isFileDrag(e.dataTransfer)) return;
+
+    try {
+      enqueueUploads(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      alert('Error reading the dropped files. Please try again.');
     }
   };
 
@@ -85,7 +110,10 @@ export function FileManager({ stageId, canUpload = true }: FileManagerProps) {
               type="file"
               multiple
               className="hidden"
-              onChange={(e) => handleFileUpload(e.target.files)}
+              onChange={(e) => {
+                handleFileUpload(e.target.files);
+                e.target.value = '';
+              }}
             />
           </label>
         )}
@@ -105,11 +133,20 @@ export function FileManager({ stageId, canUpload = true }: FileManagerProps) {
           onDrop={handleDrop}
         >
           <Upload className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-          <p className="text-gray-600 mb-2">Drag and drop files here, or click to browse</p>
-          <p className="text-xs text-gray-500">Supports all file types up to 10MB</p>
+          <p className="text-gray-600 mb-2">Drag and drop files or folders here, or click to browse</p>
+          <p className="text-xs text-gray-500">Large files upload in chunks and can be paused and resumed</p>
         </div>
       )}
 
+      <UploadQueue
+        items={uploadQueue.items}
+        onPause={uploadQueue.pause}
+        onResume={uploadQueue.resume}
+        onRetry={uploadQueue.retry}
+        onRemove={uploadQueue.remove}
+        onClearFinished={uploadQueue.clearFinished}
+      />
+
       {/* Files List */}
       <div className="space-y-3">
         {stageFiles.map(file => (
@@ -126,12 +163,13 @@ export function FileManager({ stageId, canUpload = true }: FileManagerProps) {
             </div>
             <div className="flex items-center space-x-2">
               <button
-                onClick={() => {
-                  // In a real app, this would trigger file download
-                  const link = document.createElement('a');
-                  link.href = file.file_url;
-                  link.download = file.filename;
-                  link.click();
+                onClick={async () => {
+                  try {
+                    await downloadFile(file.id);
+                  } catch (error) {
+                    console.error('Error downloading file:', error);
+                    alert('Error downloading file. Please try again.');
+                  }
                 }}
                 className="text-green-600 hover:text-green-800 transition-colors"
                 title="Download file"
@@ -0,0 +1,289 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import 'highlight.js/styles/github.css';
+import { useData } from '../../context/DataContext';
+import { File } from '../../types';
+import { TEXT_PREVIEW_MAX_BYTES, getFileExtension, getPreviewKind, loadPdfjs, renderPdfPage } from '../../utils/filePreview';
+import { ChevronLeft, ChevronRight, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface FilePreviewProps {
+  file: File;
+  fallback: ReactNode; // shown when the type can't be previewed or loading fails
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 5;
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const toolbarButton = 'p-2 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+function PdfViewer({ url }: { url: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState(1);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    loadPdfjs()
+      .then(pdfjs => pdfjs.getDocument({ url }).promise)
+      .then(document => {
+        loaded = document;
+        if (cancelled) {
+          document.destroy();
+          return;
+        }
+        setPdf(document);
+        setPageNumber(1);
+      })
+      .catch(loadError => {
+        console.error('Error loading PDF preview:', loadError);
+        if (!cancelled) setError('This PDF could not be displayed');
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    renderPdfPage(pdf, pageNumber, canvasRef.current, { scale: 1.25 * zoom })
+      .then(renderTask => {
+        task = renderTask;
+        if (cancelled) renderTask.cancel();
+        return renderTask.promise;
+      })
+      .catch(renderError => {
+        // Cancelled renders reject too; only report real failures
+        if ((renderError as Error)?.name !== 'RenderingCancelledException') {
+          console.error('Error rendering PDF page:', renderError);
+        }
+      });
+    setPageInput(String(pageNumber));
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber, zoom]);
+
+  const goToPage = (page: number) => {
+    if (!pdf) return;
+    setPageNumber(Math.min(pdf.numPages, Math.max(1, page)));
+  };
+
+  if (error) {
+    return <p className="text-center text-gray-600 py-8">{error}</p>;
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-center space-x-2 pb-3 border-b border-gray-200">
+        <button onClick={() => goToPage(pageNumber - 1)} disabled={!pdf || pageNumber <= 1} className={toolbarButton} title="Previous page">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            goToPage(Number(pageInput) || 1);
+          }}
+          className="flex items-center space-x-1 text-sm text-gray-600"
+        >
+          <span>Page</span>
+          <input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            onBlur={() => goToPage(Number(pageInput) || 1)}
+            className="w-12 px-2 py-1 border border-gray-300 rounded text-center"
+            aria-label="Page number"
+          />
+          <span>of {pdf?.numPages || '…'}</span>
+        </form>
+        <button onClick={() => goToPage(pageNumber + 1)} disabled={!pdf || pageNumber >= pdf.numPages} className={toolbarButton} title="Next page">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <span className="w-px h-6 bg-gray-300 mx-2" />
+        <button onClick={() => setZoom(z => clampZoom(z / 1.25))} disabled={zoom <= MIN_ZOOM} className={toolbarButton} title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-sm text-gray-600 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom(z => clampZoom(z * 1.25))} disabled={zoom >= MAX_ZOOM} className={toolbarButton} title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto bg-gray-100 p-4">
+        {!pdf && <p className="text-center text-gray-500 py-8">Loading PDF...</p>}
+        <canvas ref={canvasRef} className={`mx-auto shadow bg-white ${pdf ? '' : 'hidden'}`} />
+      </div>
+    </div>
+  );
+}
+
+function ImageViewer({ url, alt, onError }: { url: string; alt: string; onError: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+
+  // React registers wheel listeners as passive, so zooming needs a native listener
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom(z => clampZoom(z * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const reset = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-center space-x-2 pb-3 border-b border-gray-200">
+        <button onClick={() => setZoom(z => clampZoom(z / 1.25))} disabled={zoom <= MIN_ZOOM} className={toolbarButton} title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-sm text-gray-600 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom(z => clampZoom(z * 1.25))} disabled={zoom >= MAX_ZOOM} className={toolbarButton} title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={reset} className={toolbarButton} title="Reset view">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+      <div
+        ref={containerRef}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragStart.current = { x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y };
+        }}
+        onPointerMove={(e) => {
+          const start = dragStart.current;
+          if (!start) return;
+          setOffset({ x: start.offsetX + e.clientX - start.x, y: start.offsetY + e.clientY - start.y });
+        }}
+        onPointerUp={() => {
+          dragStart.current = null;
+        }}
+        onDoubleClick={reset}
+        className="flex-1 overflow-hidden bg-gray-100 flex items-center justify-center cursor-grab active:cursor-grabbing select-none touch-none"
+      >
+        <img
+          src={url}
+          alt={alt}
+          draggable={false}
+          onError={onError}
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+          className="max-w-full max-h-full object-contain"
+        />
+      </div>
+    </div>
+  );
+}
+
+function TextViewer({ url, extension }: { url: string; extension: string }) {
+  const [html, setHtml] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetch(url).then(response => {
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+      return response.text();
+    }), import('highlight.js/lib/common')])
+      .then(([text, { default: hljs }]) => {
+        if (cancelled) return;
+        // highlight.js escapes the source, so its output is safe to inject
+        const language = hljs.getLanguage(extension) ? extension : 'plaintext';
+        setHtml(hljs.highlight(text, { language, ignoreIllegals: true }).value);
+      })
+      .catch(loadError => {
+        console.error('Error loading text preview:', loadError);
+        if (!cancelled) setError('This file could not be displayed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, extension]);
+
+  if (error) {
+    return <p className="text-center text-gray-600 py-8">{error}</p>;
+  }
+  if (html === null) {
+    return <p className="text-center text-gray-500 py-8">Loading file...</p>;
+  }
+  return (
+    <pre className="hljs h-full overflow-auto rounded-lg border border-gray-200 p-4 text-sm leading-relaxed">
+      <code dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  );
+}
+
+// Renders a file inside the app using a short-lived signed URL
+export function FilePreview({ file, fallback }: FilePreviewProps) {
+  const { getSignedFileUrl } = useData();
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const kind = getPreviewKind(file);
+  const tooLarge = kind === 'text' && file.size > TEXT_PREVIEW_MAX_BYTES;
+  const canPreview = !!kind && !tooLarge;
+
+  useEffect(() => {
+    if (!canPreview) return;
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+    getSignedFileUrl(file)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(signError => {
+        console.error('Error preparing file preview:', signError);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Re-sign when another version becomes current
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file.id, file.current_version, canPreview]);
+
+  if (!canPreview || failed) {
+    return <>{fallback}</>;
+  }
+  if (!url) {
+    return <p className="text-center text-gray-500 py-8">Preparing preview...</p>;
+  }
+
+  switch (kind) {
+    case 'pdf':
+      return <PdfViewer url={url} />;
+    case 'image':
+      return <ImageViewer url={url} alt={file.filename} onError={() => setFailed(true)} />;
+    case 'video':
+      return (
+        <video src={url} controls className="max-h-full max-w-full mx-auto bg-black rounded-lg" onError={() => setFailed(true)}>
+          Your browser cannot play this video.
+        </video>
+      );
+    case 'audio':
+      return (
+        <div className="flex items-center justify-center h-full">
+          <audio src={url} controls className="w-full max-w-lg" onError={() => setFailed(true)} />
+        </div>
+      );
+    default:
+      return <TextViewer url={url} extension={getFileExtension(file)} />;
+  }
+}
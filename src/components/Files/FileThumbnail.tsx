@@ -0,0 +1,76 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { File } from '../../types';
+import { THUMBNAIL_MAX_BYTES, createPdfThumbnail, getCachedThumbnail, getPreviewKind } from '../../utils/filePreview';
+
+interface FileThumbnailProps {
+  file: File;
+  fallback: ReactNode; // icon shown for other types, large files and failures
+  className?: string;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+// Grid-card preview; nothing is fetched until the card scrolls into view
+export function FileThumbnail({ file, fallback, className = '' }: FileThumbnailProps) {
+  const { getSignedFileUrl } = useData();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cacheKey = `${file.id}:${file.current_version}`;
+  const [isVisible, setIsVisible] = useState(false);
+  const [source, setSource] = useState<string | null>(() => getCachedThumbnail(cacheKey) || null);
+  const [failed, setFailed] = useState(false);
+
+  const kind = getPreviewKind(file);
+  const canThumbnail = (kind === 'image' || kind === 'pdf' || kind === 'video') && file.size <= THUMBNAIL_MAX_BYTES;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !canThumbnail) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [canThumbnail]);
+
+  useEffect(() => {
+    if (!isVisible || !canThumbnail) return;
+    const cached = getCachedThumbnail(cacheKey);
+    if (cached) {
+      setSource(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setFailed(false);
+    getSignedFileUrl(file)
+      .then(url => (kind === 'pdf' ? createPdfThumbnail(cacheKey, url, THUMBNAIL_WIDTH) : url))
+      .then(thumbnail => {
+        if (!cancelled) setSource(thumbnail);
+      })
+      .catch(error => {
+        console.error('Error creating thumbnail:', file.filename, error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isVisible, cacheKey, canThumbnail]);
+
+  return (
+    <div ref={containerRef} className={`bg-gray-50 rounded-lg overflow-hidden flex items-center justify-center ${className}`}>
+      {!canThumbnail || failed || !source ? (
+        fallback
+      ) : kind === 'video' ? (
+        // Seeking slightly past the start makes browsers show a real frame
+        <video src={`${source}#t=0.5`} preload="metadata" muted playsInline className="w-full h-full object-cover" onError={() => setFailed(true)} />
+      ) : (
+        <img src={source} alt={file.filename} loading="lazy" className="w-full h-full object-cover" onError={() => setFailed(true)} />
+      )}
+    </div>
+  );
+}
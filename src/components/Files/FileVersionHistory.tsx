@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
+import { File, FileVersion } from '../../types';
+import { Download, History, RotateCcw, X } from 'lucide-react';
+
+interface FileVersionHistoryProps {
+  file: File;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export function FileVersionHistory({ file, onClose }: FileVersionHistoryProps) {
+  const { user } = useAuth();
+  const { projects, loadFileVersions, downloadFileVersion, restoreFileVersion } = useData();
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const project = projects.find(p => p.id === file.project_id);
+  const canRestore = can(user, 'file.upload', project);
+
+  const refreshVersions = async () => {
+    setIsLoading(true);
+    setLoadError('');
+    try {
+      setVersions(await loadFileVersions(file.id));
+    } catch (error) {
+      console.error('Error loading file versions:', error);
+      setLoadError('Could not load the version history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refreshVersions();
+    // Reload when another version becomes current (upload or restore)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file.id, file.current_version]);
+
+  const handleDownload = async (version: FileVersion) => {
+    try {
+      await downloadFileVersion(version);
+    } catch (error) {
+      console.error('Error downloading file version:', error);
+      alert(error instanceof Error ? error.message : 'Error downloading version. Please try again.');
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!confirm(`Restore version ${version.version_number} of "${file.filename}" as the current version?`)) return;
+
+    setRestoringId(version.id);
+    try {
+      await restoreFileVersion(version);
+    } catch (error) {
+      console.error('Error restoring file version:', error);
+      alert('Error restoring version. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <History className="w-5 h-5 text-gray-600" />
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">{file.filename}</h3>
+              <p className="text-sm text-gray-600">Version history • currently v{file.current_version}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loadError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{loadError}</div>
+          )}
+
+          {isLoading && versions.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Loading versions...</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {versions.map(version => {
+                const isCurrent = version.version_number === file.current_version;
+                return (
+                  <li key={version.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">Version {version.version_number}</span>
+                        {isCurrent && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Current</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {version.uploader_name} • {new Date(version.created_at).toLocaleString()} • {formatFileSize(version.size)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleDownload(version)}
+                        className="text-blue-600 hover:text-blue-800 transition-colors p-2"
+                        title="Download this version"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      {canRestore && !isCurrent && (
+                        <button
+                          onClick={() => handleRestore(version)}
+                          disabled={restoringId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>{restoringId === version.id ? 'Restoring...' : 'Restore'}</span>
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {!isLoading && !loadError && versions.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No versions recorded for this file</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
+import { formatCurrency } from '../../utils/currency';
+import { Invoice, InvoiceStatus, INVOICE_STATUSES } from '../../types';
+import { Plus, Edit, Trash2, CheckCircle, X, Filter, Receipt } from 'lucide-react';
+
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  paid: 'Paid',
+  void: 'Void'
+};
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-800'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = () => ({
+  project_id: '',
+  invoice_number: '',
+  amount: 0,
+  status: 'draft' as InvoiceStatus,
+  issued_date: today(),
+  due_date: '',
+  notes: ''
+});
+
+export function InvoiceManager() {
+  const { invoices, projects, createInvoice, updateInvoice, deleteInvoice } = useData();
+  const { user } = useAuth();
+  const [filterStatus, setFilterStatus] = useState<'all' | InvoiceStatus>('all');
+  const [filterProject, setFilterProject] = useState('all');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [form, setForm] = useState(emptyForm());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManage = can(user, 'invoice.manage');
+
+  const filteredInvoices = invoices.filter(invoice =>
+    (filterStatus === 'all' || invoice.status === filterStatus) &&
+    (filterProject === 'all' || invoice.project_id === filterProject)
+  );
+
+  const getProjectTitle = (projectId: string) =>
+    projects.find(p => p.id === projectId)?.title || 'Unknown project';
+
+  const openCreate = () => {
+    setEditingInvoice(null);
+    setForm(emptyForm());
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (invoice: Invoice) => {
+    setEditingInvoice(invoice);
+    setForm({
+      project_id: invoice.project_id,
+      invoice_number: invoice.invoice_number,
+      amount: invoice.amount,
+      status: invoice.status,
+      issued_date: invoice.issued_date,
+      due_date: invoice.due_date || '',
+      notes: invoice.notes || ''
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const payload = {
+      ...form,
+      due_date: form.due_date || undefined,
+      notes: form.notes || undefined,
+      paid_date: form.status === 'paid' ? editingInvoice?.paid_date || today() : undefined
+    };
+
+    try {
+      if (editingInvoice) {
+        await updateInvoice(editingInvoice.id, payload);
+      } else {
+        await createInvoice(payload);
+      }
+      setIsModalOpen(false);
+      setEditingInvoice(null);
+    } catch (error) {
+      console.error('Error saving invoice:', error);
+      alert('Error saving invoice. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMarkPaid = async (invoice: Invoice) => {
+    try {
+      await updateInvoice(invoice.id, { status: 'paid', paid_date: today() });
+    } catch (error) {
+      console.error('Error marking invoice paid:', error);
+      alert('Error updating invoice. Please try again.');
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!confirm(`Delete invoice ${invoice.invoice_number}?`)) return;
+
+    try {
+      await deleteInvoice(invoice.id);
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      alert('Error deleting invoice. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Invoices</h2>
+          <p className="text-gray-600 text-lg">Track invoices issued against project budgets</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={openCreate}
+            className="bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-xl font-semibold flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Invoice</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative">
+          <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as 'all' | InvoiceStatus)}
+            className="pl-10 pr-8 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 bg-white shadow-sm"
+          >
+            <option value="all">All Status</option>
+            {INVOICE_STATUSES.map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <select
+          value={filterProject}
+          onChange={(e) => setFilterProject(e.target.value)}
+          className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 bg-white shadow-sm"
+        >
+          <option value="all">All Projects</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Invoice</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Issued</th>
+                <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Due</th>
+                {canManage && (
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredInvoices.map(invoice => (
+                <tr key={invoice.id} className="hover:bg-amber-50 transition-colors duration-150">
+                  <td className="px-6 py-4">
+                    <div className="text-base font-bold text-gray-900">{invoice.invoice_number}</div>
+                    {invoice.notes && <div className="text-sm text-gray-600 line-clamp-1 max-w-xs">{invoice.notes}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{getProjectTitle(invoice.project_id)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">{formatCurrency(invoice.amount)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${STATUS_BADGES[invoice.status]}`}>
+                      {STATUS_LABELS[invoice.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(invoice.issued_date).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {invoice.due_date ? new Date(invoice.due_date).toLocaleDateString() : '—'}
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-2">
+                        {invoice.status !== 'paid' && invoice.status !== 'void' && (
+                          <button
+                            onClick={() => handleMarkPaid(invoice)}
+                            className="text-green-600 hover:bg-green-100 p-2 rounded-lg"
+                            title="Mark as paid"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openEdit(invoice)}
+                          className="text-amber-600 hover:bg-amber-100 p-2 rounded-lg"
+                          title="Edit invoice"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(invoice)}
+                          className="text-red-600 hover:bg-red-100 p-2 rounded-lg"
+                          title="Delete invoice"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {filteredInvoices.length === 0 && (
+        <div className="text-center py-12">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Receipt className="w-12 h-12 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices found</h3>
+          <p className="text-gray-600">Invoices you create will appear here</p>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-amber-50 to-amber-100 rounded-t-2xl">
+              <h3 className="text-xl font-bold text-gray-900">{editingInvoice ? 'Edit Invoice' : 'New Invoice'}</h3>
+              <button
+                onClick={() => setIsModalOpen(false)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-white hover:bg-opacity-50 p-2 rounded-full transition-all duration-200"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Project</label>
+                <select
+                  value={form.project_id}
+                  onChange={(e) => setForm({ ...form, project_id: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  required
+                >
+                  <option value="">Select a project</option>
+                  {projects.map(project => (
+                    <option key={project.id} value={project.id}>{project.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Invoice Number</label>
+                  <input
+                    type="text"
+                    value={form.invoice_number}
+                    onChange={(e) => setForm({ ...form, invoice_number: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Amount</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Issued</label>
+                  <input
+                    type="date"
+                    value={form.issued_date}
+                    onChange={(e) => setForm({ ...form, issued_date: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Due</label>
+                  <input
+                    type="date"
+                    value={form.due_date}
+                    onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Status</label>
+                <select
+                  value={form.status}
+                  onChange={(e) => setForm({ ...form, status: e.target.value as InvoiceStatus })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                >
+                  {INVOICE_STATUSES.map(status => (
+                    <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="px-4 py-2 border rounded-xl">Cancel</button>
+                <button type="submit" disabled={isSaving} className="px-5 py-2 bg-amber-600 text-white rounded-xl disabled:opacity-50">
+                  {isSaving ? 'Saving...' : editingInvoice ? 'Save Changes' : 'Create Invoice'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
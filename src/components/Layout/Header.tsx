@@ -8,8 +8,11 @@ export function Header() {
   const getThemeColors = () => {
     switch (user?.role) {
       case 'manager': return 'bg-blue-600 text-white';
+      case 'team_lead': return 'bg-purple-600 text-white';
       case 'employee': return 'bg-green-600 text-white';
+      case 'finance': return 'bg-amber-600 text-white';
       case 'client': return 'bg-red-600 text-white';
+      case 'stakeholder': return 'bg-slate-600 text-white';
       default: return 'bg-gray-600 text-white';
     }
   };
@@ -17,8 +20,11 @@ export function Header() {
   const getRoleDisplay = () => {
     switch (user?.role) {
       case 'manager': return 'Manager Dashboard';
+      case 'team_lead': return 'Team Lead Dashboard';
       case 'employee': return 'Employee Dashboard';
+      case 'finance': return 'Finance Dashboard';
       case 'client': return 'Client Portal';
+      case 'stakeholder': return 'Stakeholder Portal';
       default: return 'Dashboard';
     }
   };
@@ -12,7 +12,10 @@ import {
   Eye,
   ListTodo,
   FileText,
-  TrendingUp
+  TrendingUp,
+  Receipt,
+  History,
+  HardDrive
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -27,25 +30,51 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { id: 'projects', label: 'Projects', icon: FolderOpen },
     { id: 'employees', label: 'Employees', icon: Users },
-    { id: 'leads', label: 'Leads', icon: TrendingUp }
+    { id: 'leads', label: 'Leads', icon: TrendingUp },
+    { id: 'invoices', label: 'Invoices', icon: Receipt },
+    { id: 'meetings', label: 'Meetings', icon: Calendar },
+    { id: 'audit', label: 'Audit Log', icon: History },
+    { id: 'storage-usage', label: 'Storage Usage', icon: HardDrive }
+  ];
+
+  const getTeamLeadMenuItems = () => [
+    { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
+    { id: 'projects', label: 'My Projects', icon: FolderOpen },
+    { id: 'meetings', label: 'Meetings', icon: Calendar }
+  ];
+
+  const getFinanceMenuItems = () => [
+    { id: 'dashboard', label: 'Budgets', icon: BarChart3 },
+    { id: 'invoices', label: 'Invoices', icon: Receipt }
   ];
 
   const getEmployeeMenuItems = () => [
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { id: 'mytasks', label: 'My Tasks', icon: ListTodo },
     { id: 'projects', label: 'Projects', icon: FolderOpen },
+    { id: 'meetings', label: 'Meetings', icon: Calendar }
   ];
 
   const getClientMenuItems = () => [
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
-    { id: 'project-overview', label: 'Project Overview', icon: Eye }
+    { id: 'project-overview', label: 'Project Overview', icon: Eye },
+    { id: 'meetings', label: 'Meetings', icon: Calendar }
+  ];
+
+  const getStakeholderMenuItems = () => [
+    { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
+    { id: 'project-overview', label: 'Projects', icon: Eye },
+    { id: 'meetings', label: 'Meetings', icon: Calendar }
   ];
 
   const getMenuItems = () => {
     switch (user?.role) {
       case 'manager': return getManagerMenuItems();
+      case 'team_lead': return getTeamLeadMenuItems();
       case 'employee': return getEmployeeMenuItems();
+      case 'finance': return getFinanceMenuItems();
       case 'client': return getClientMenuItems();
+      case 'stakeholder': return getStakeholderMenuItems();
       default: return [];
     }
   };
@@ -53,8 +82,11 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
   const getThemeColors = () => {
     switch (user?.role) {
       case 'manager': return 'bg-blue-50 border-blue-200';
+      case 'team_lead': return 'bg-purple-50 border-purple-200';
       case 'employee': return 'bg-green-50 border-green-200';
+      case 'finance': return 'bg-amber-50 border-amber-200';
       case 'client': return 'bg-red-50 border-red-200';
+      case 'stakeholder': return 'bg-slate-50 border-slate-200';
       default: return 'bg-gray-50 border-gray-200';
     }
   };
@@ -62,8 +94,11 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
   const getActiveColors = () => {
     switch (user?.role) {
       case 'manager': return 'bg-blue-600 text-white';
+      case 'team_lead': return 'bg-purple-600 text-white';
       case 'employee': return 'bg-green-600 text-white';
+      case 'finance': return 'bg-amber-600 text-white';
       case 'client': return 'bg-red-600 text-white';
+      case 'stakeholder': return 'bg-slate-600 text-white';
       default: return 'bg-gray-600 text-white';
     }
   };
@@ -105,6 +140,17 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
             </div>
           </div>
         )}
+
+        {user?.role === 'stakeholder' && (
+          <div className="mt-8 p-4 bg-white rounded-lg border border-slate-200">
+            <h3 className="font-semibold text-gray-900 mb-2">Read-only Access</h3>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>• Follow project progress</p>
+              <p>• Review stages and brochures</p>
+              <p>• Download shared files</p>
+            </div>
+          </div>
+        )}
       </div>
     </aside>
   );
@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { Lead, LeadStatus, LEAD_STATUSES } from '../../types';
+import { ProjectModal } from '../Projects/ProjectModal';
+import { Edit, Trash2, UserPlus, DollarSign, X, CheckCircle } from 'lucide-react';
+
+interface LeadBoardProps {
+  onEdit: (lead: Lead) => void;
+  onDelete: (leadId: string) => void;
+}
+
+const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  proposal: 'Proposal',
+  won: 'Won',
+  lost: 'Lost'
+};
+
+const STATUS_COLORS: Record<LeadStatus, string> = {
+  new: 'bg-gray-50 border-gray-200',
+  contacted: 'bg-blue-50 border-blue-200',
+  proposal: 'bg-purple-50 border-purple-200',
+  won: 'bg-green-50 border-green-200',
+  lost: 'bg-red-50 border-red-200'
+};
+
+const STATUS_BADGES: Record<LeadStatus, string> = {
+  new: 'bg-gray-200 text-gray-800',
+  contacted: 'bg-blue-100 text-blue-800',
+  proposal: 'bg-purple-100 text-purple-800',
+  won: 'bg-green-100 text-green-800',
+  lost: 'bg-red-100 text-red-800'
+};
+
+// Pull an email address out of free-form contact details, if there is one
+const extractEmail = (contactInfo: string) => {
+  const match = contactInfo.match(/[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+/);
+  return match ? match[0] : '';
+};
+
+export function LeadBoard({ onEdit, onDelete }: LeadBoardProps) {
+  const { leads, updateLead, convertLeadToClient } = useData();
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null);
+
+  // Convert-to-client flow
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
+  const [clientName, setClientName] = useState('');
+  const [clientEmail, setClientEmail] = useState('');
+  const [isConverting, setIsConverting] = useState(false);
+  const [conversionError, setConversionError] = useState('');
+  const [projectLead, setProjectLead] = useState<{ lead: Lead; clientId: string } | null>(null);
+
+  const handleStatusChange = async (lead: Lead, status: LeadStatus) => {
+    if (lead.status === status) return;
+
+    try {
+      await updateLead(lead.id, { status });
+    } catch (error) {
+      console.error('Error updating lead status:', error);
+      alert('Error updating lead status. Please try again.');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: LeadStatus) => {
+    e.preventDefault();
+    const lead = leads.find(l => l.id === draggedLeadId);
+    setDraggedLeadId(null);
+    setDropTarget(null);
+    if (lead) {
+      handleStatusChange(lead, status);
+    }
+  };
+
+  const openConvertModal = (lead: Lead) => {
+    setConvertingLead(lead);
+    setClientName(lead.name);
+    setClientEmail(extractEmail(lead.contact_info));
+    setConversionError('');
+  };
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!convertingLead) return;
+
+    setConversionError('');
+    setIsConverting(true);
+
+    try {
+      if (!clientName.trim()) {
+        throw new Error('Full name is required.');
+      }
+      if (!clientEmail.trim()) {
+        throw new Error('Email is required.');
+      }
+
+      const client = await convertLeadToClient(convertingLead.id, {
+        email: clientEmail.trim(),
+        full_name: clientName.trim()
+      });
+
+      // Hand off to project creation, prefilled from the lead
+      setProjectLead({ lead: convertingLead, clientId: client.id });
+      setConvertingLead(null);
+    } catch (error) {
+      console.error('Error converting lead:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred while converting the lead.';
+      setConversionError(errorMessage);
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {LEAD_STATUSES.map(status => {
+          const columnLeads = leads.filter(lead => lead.status === status);
+          const columnValue = columnLeads.reduce((sum, lead) => sum + lead.estimated_amount, 0);
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => { e.preventDefault(); setDropTarget(status); }}
+              onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`rounded-xl border p-3 min-h-[16rem] transition-colors ${STATUS_COLORS[status]} ${
+                dropTarget === status ? 'ring-2 ring-blue-400' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-bold text-gray-900">{STATUS_LABELS[status]}</h4>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_BADGES[status]}`}>
+                  {columnLeads.length}
+                </span>
+              </div>
+              <p className="text-xs text-gray-600 mb-3">${columnValue.toLocaleString()}</p>
+
+              <div className="space-y-3">
+                {columnLeads.map(lead => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={() => setDraggedLeadId(lead.id)}
+                    onDragEnd={() => { setDraggedLeadId(null); setDropTarget(null); }}
+                    className={`bg-white rounded-lg border border-gray-200 p-3 shadow-sm cursor-move hover:shadow-md transition-all ${
+                      draggedLeadId === lead.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-start justify-between mb-1">
+                      <div className="font-semibold text-gray-900 break-words">{lead.name}</div>
+                      <div className="flex space-x-1 flex-shrink-0">
+                        <button
+                          onClick={() => onEdit(lead)}
+                          className="p-1 text-blue-600 hover:text-blue-900 hover:bg-blue-100 rounded"
+                          title="Edit lead"
+                        >
+                          <Edit className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => onDelete(lead.id)}
+                          className="p-1 text-red-600 hover:text-red-900 hover:bg-red-100 rounded"
+                          title="Delete lead"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-600 break-words">{lead.contact_info}</div>
+                    <div className="flex items-center text-sm font-bold text-green-700 mt-2">
+                      <DollarSign className="w-3 h-3" />
+                      {lead.estimated_amount.toLocaleString()}
+                    </div>
+                    {lead.notes && (
+                      <p className="text-xs text-gray-600 mt-2 line-clamp-2">{lead.notes}</p>
+                    )}
+
+                    <select
+                      value={lead.status}
+                      onChange={(e) => handleStatusChange(lead, e.target.value as LeadStatus)}
+                      className="mt-3 w-full px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {LEAD_STATUSES.map(option => (
+                        <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                      ))}
+                    </select>
+
+                    {lead.converted_client_id ? (
+                      <div className="mt-2 flex items-center text-xs font-medium text-green-700">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Converted to client
+                      </div>
+                    ) : lead.status !== 'lost' && (
+                      <button
+                        onClick={() => openConvertModal(lead)}
+                        className="mt-2 w-full flex items-center justify-center space-x-1 px-2 py-1 bg-green-600 hover:bg-green-700 text-white text-xs font-semibold rounded transition-colors"
+                      >
+                        <UserPlus className="w-3 h-3" />
+                        <span>Convert to client</span>
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                {columnLeads.length === 0 && (
+                  <p className="text-xs text-gray-400 text-center py-6">Drop leads here</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Convert Lead Modal */}
+      {convertingLead && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-green-50 to-green-100 rounded-t-2xl">
+              <h3 className="text-xl font-bold text-gray-900">Convert Lead to Client</h3>
+              <button
+                onClick={() => setConvertingLead(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-white hover:bg-opacity-50 p-2 rounded-full transition-all duration-200"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleConvert} className="p-6 space-y-4">
+              {conversionError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {conversionError}
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Full Name</label>
+                <input
+                  type="text"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={clientEmail}
+                  onChange={(e) => setClientEmail(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  required
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                The client will receive an email invitation to set their own password.
+              </p>
+              <div className="flex justify-end space-x-4 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setConvertingLead(null)}
+                  className="px-6 py-3 border border-gray-300 rounded-xl text-gray-700 hover:bg-gray-50 font-semibold"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isConverting}
+                  className="px-6 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-xl font-semibold"
+                >
+                  {isConverting ? 'Inviting...' : 'Invite Client'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {projectLead && (
+        <ProjectModal
+          key={projectLead.lead.id}
+          isOpen={true}
+          onClose={() => setProjectLead(null)}
+          initialData={{
+            title: projectLead.lead.name,
+            description: projectLead.lead.notes,
+            client_id: projectLead.clientId
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import React, { useRef, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { can, filterByPermission } from '../../utils/permissions';
+import { useData } from '../../context/DataContext';
+import { Meeting } from '../../types';
+import { MeetingModal } from './MeetingModal';
+import { meetingsToIcs, parseIcs, downloadIcs } from '../../utils/ics';
+import { Calendar, ChevronLeft, ChevronRight, Plus, Download, Upload, X } from 'lucide-react';
+
+type CalendarMode = 'month' | 'week';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+export function MeetingCalendar() {
+  const { user } = useAuth();
+  const { meetings, projects, users, scheduleMeeting } = useData();
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(startOfDay(new Date()));
+  const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
+  const [newMeetingDate, setNewMeetingDate] = useState<Date | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importProjectId, setImportProjectId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSchedule = can(user, 'meeting.schedule');
+  const schedulableProjects = filterByPermission(user, 'meeting.schedule', projects);
+
+  const getThemeColors = () => {
+    switch (user?.role) {
+      case 'manager': return { primary: 'bg-blue-600 hover:bg-blue-700', chip: 'bg-blue-100 text-blue-800 hover:bg-blue-200', today: 'bg-blue-600 text-white' };
+      case 'employee': return { primary: 'bg-green-600 hover:bg-green-700', chip: 'bg-green-100 text-green-800 hover:bg-green-200', today: 'bg-green-600 text-white' };
+      case 'client': return { primary: 'bg-red-600 hover:bg-red-700', chip: 'bg-red-100 text-red-800 hover:bg-red-200', today: 'bg-red-600 text-white' };
+      case 'team_lead': return { primary: 'bg-purple-600 hover:bg-purple-700', chip: 'bg-purple-100 text-purple-800 hover:bg-purple-200', today: 'bg-purple-600 text-white' };
+      default: return { primary: 'bg-gray-600 hover:bg-gray-700', chip: 'bg-gray-100 text-gray-800 hover:bg-gray-200', today: 'bg-gray-600 text-white' };
+    }
+  };
+  const theme = getThemeColors();
+
+  // Visible days: full weeks covering the month, or the week containing the cursor
+  const getVisibleDays = () => {
+    if (mode === 'week') {
+      const weekStart = addDays(cursor, -cursor.getDay());
+      return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+    }
+    const monthStart = new Date(cursor.getFullYear(), cursor.getMonth(), 1);
+    const gridStart = addDays(monthStart, -monthStart.getDay());
+    return Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+  };
+
+  const visibleDays = getVisibleDays();
+
+  const getMeetingsForDay = (day: Date) =>
+    meetings
+      .filter(meeting => isSameDay(new Date(meeting.date), day))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const navigate = (direction: -1 | 1) => {
+    if (mode === 'week') {
+      setCursor(prev => addDays(prev, direction * 7));
+    } else {
+      setCursor(prev => new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+    }
+  };
+
+  const getTitle = () => {
+    if (mode === 'month') {
+      return cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    }
+    const first = visibleDays[0];
+    const last = visibleDays[visibleDays.length - 1];
+    return `${first.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  };
+
+  const handleDayClick = (day: Date) => {
+    if (!canSchedule) return;
+    const start = new Date(day);
+    start.setHours(9, 0, 0, 0);
+    setNewMeetingDate(start);
+  };
+
+  const handleExportVisible = () => {
+    const rangeStart = visibleDays[0];
+    const rangeEnd = addDays(visibleDays[visibleDays.length - 1], 1);
+    const visibleMeetings = meetings.filter(meeting => {
+      const date = new Date(meeting.date);
+      return date >= rangeStart && date < rangeEnd;
+    });
+
+    if (visibleMeetings.length === 0) {
+      alert('There are no meetings in this period to export');
+      return;
+    }
+
+    const titles = Object.fromEntries(projects.map(project => [project.id, project.title]));
+    downloadIcs(meetingsToIcs(visibleMeetings, users, titles), `meetings-${rangeStart.toISOString().slice(0, 10)}.ics`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !importProjectId) return;
+
+    setIsImporting(true);
+    try {
+      const events = parseIcs(await file.text());
+      // Skip events that were exported from here or imported before and still exist
+      const existingUids = new Set(meetings.flatMap(meeting => [
+        `${meeting.id}@xeetrack`,
+        ...(meeting.external_uid ? [meeting.external_uid] : [])
+      ]));
+      const newEvents = events.filter((event, index) =>
+        !event.uid || (!existingUids.has(event.uid) && events.findIndex(other => other.uid === event.uid) === index)
+      );
+
+      for (const event of newEvents) {
+        const attendees = users
+          .filter(u => event.attendee_emails.includes(u.email.toLowerCase()))
+          .map(u => u.id);
+
+        await scheduleMeeting({
+          project_id: importProjectId,
+          title: event.title,
+          date: event.date,
+          duration_minutes: event.duration_minutes,
+          location: event.location,
+          notes: event.notes,
+          external_uid: event.uid,
+          attendees: user && !attendees.includes(user.id) ? [user.id, ...attendees] : attendees
+        });
+      }
+
+      const skipped = events.length - newEvents.length;
+      alert(`Imported ${newEvents.length} meeting(s)${skipped > 0 ? `, skipped ${skipped} already in the calendar` : ''}.`);
+      setIsImportOpen(false);
+    } catch (error) {
+      console.error('Error importing meetings:', error);
+      alert('Error importing meetings. Please check the file and try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+            <Calendar className="w-8 h-8 mr-3" />
+            Meetings
+          </h2>
+          <p className="text-gray-600 text-lg">Project meetings and calls</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExportVisible}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export .ics</span>
+          </button>
+          {canSchedule && (
+            <>
+              <button
+                onClick={() => { setImportProjectId(schedulableProjects[0]?.id || ''); setIsImportOpen(true); }}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import .ics</span>
+              </button>
+              <button
+                onClick={() => handleDayClick(cursor)}
+                className={`flex items-center space-x-2 px-4 py-2 text-white rounded-lg ${theme.primary}`}
+              >
+                <Plus className="w-4 h-4" />
+                <span>Schedule Meeting</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <button onClick={() => navigate(-1)} className="p-2 rounded-lg hover:bg-gray-100">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button onClick={() => navigate(1)} className="p-2 rounded-lg hover:bg-gray-100">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setCursor(startOfDay(new Date()))}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Today
+            </button>
+            <h3 className="text-lg font-semibold text-gray-900 ml-2">{getTitle()}</h3>
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['month', 'week'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 text-sm rounded-md capitalize ${
+                  mode === option ? 'bg-white shadow-sm text-gray-900 font-medium' : 'text-gray-600'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 border-b border-gray-200">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="px-2 py-2 text-xs font-semibold text-gray-600 uppercase text-center">{day}</div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7">
+          {visibleDays.map(day => {
+            const dayMeetings = getMeetingsForDay(day);
+            const isToday = isSameDay(day, new Date());
+            const isOtherMonth = mode === 'month' && day.getMonth() !== cursor.getMonth();
+
+            return (
+              <div
+                key={day.toISOString()}
+                onClick={() => handleDayClick(day)}
+                className={`border-b border-r border-gray-100 p-2 ${mode === 'week' ? 'min-h-[20rem]' : 'min-h-[7rem]'} ${
+                  isOtherMonth ? 'bg-gray-50' : ''
+                } ${canSchedule ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+              >
+                <div className="flex justify-end mb-1">
+                  <span className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${
+                    isToday ? theme.today : isOtherMonth ? 'text-gray-400' : 'text-gray-700'
+                  }`}>
+                    {day.getDate()}
+                  </span>
+                </div>
+                <div className="space-y-1">
+                  {dayMeetings.map(meeting => (
+                    <button
+                      key={meeting.id}
+                      onClick={(e) => { e.stopPropagation(); setSelectedMeeting(meeting); }}
+                      className={`w-full text-left px-2 py-1 rounded text-xs truncate ${theme.chip}`}
+                      title={meeting.title}
+                    >
+                      <span className="font-medium">
+                        {new Date(meeting.date).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                      </span>{' '}
+                      {meeting.title}
+                      {mode === 'week' && (
+                        <span className="block text-[11px] opacity-75 truncate">
+                          {projects.find(p => p.id === meeting.project_id)?.title}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Import Modal */}
+      {isImportOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Import Meetings</h3>
+              <button onClick={() => setIsImportOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Events from the .ics file are added to the selected project. Attendees are matched to users by email.
+              </p>
+              <select
+                value={importProjectId}
+                onChange={(e) => setImportProjectId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a project</option>
+                {schedulableProjects.map(project => (
+                  <option key={project.id} value={project.id}>{project.title}</option>
+                ))}
+              </select>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!importProjectId || isImporting}
+                className={`w-full flex items-center justify-center space-x-2 px-4 py-2 text-white rounded-lg disabled:bg-gray-400 ${theme.primary}`}
+              >
+                <Upload className="w-4 h-4" />
+                <span>{isImporting ? 'Importing...' : 'Choose .ics file'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selectedMeeting && (
+        <MeetingModal meeting={selectedMeeting} onClose={() => setSelectedMeeting(null)} />
+      )}
+      {newMeetingDate && (
+        <MeetingModal initialDate={newMeetingDate} onClose={() => setNewMeetingDate(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { can, filterByPermission } from '../../utils/permissions';
+import { useData } from '../../context/DataContext';
+import { Meeting } from '../../types';
+import { meetingsToIcs, downloadIcs } from '../../utils/ics';
+import { X, Users, Download, Trash2, MapPin, Clock } from 'lucide-react';
+
+interface MeetingModalProps {
+  meeting?: Meeting | null;
+  initialDate?: Date;
+  onClose: () => void;
+}
+
+// Format a date for a datetime-local input in the user's timezone
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export function MeetingModal({ meeting, initialDate, onClose }: MeetingModalProps) {
+  const { user } = useAuth();
+  const { projects, users, scheduleMeeting, updateMeeting, deleteMeeting } = useData();
+
+  const schedulableProjects = filterByPermission(user, 'meeting.schedule', projects);
+
+  const canEdit = !meeting
+    ? can(user, 'meeting.schedule')
+    : can(user, 'meeting.manageAll') || meeting.created_by === user?.id;
+
+  const [formData, setFormData] = useState({
+    project_id: meeting?.project_id || schedulableProjects[0]?.id || '',
+    title: meeting?.title || '',
+    date: toLocalInputValue(meeting ? new Date(meeting.date) : initialDate || new Date()),
+    duration_minutes: meeting?.duration_minutes || 60,
+    location: meeting?.location || '',
+    attendees: meeting?.attendees || (user ? [user.id] : []),
+    notes: meeting?.notes || ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const project = projects.find(p => p.id === formData.project_id);
+
+  const handleAttendeeToggle = (userId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      attendees: prev.attendees.includes(userId)
+        ? prev.attendees.filter(id => id !== userId)
+        : [...prev.attendees, userId]
+    }));
+  };
+
+  const handleAddProjectTeam = () => {
+    if (!project) return;
+    const team = [project.client_id, ...project.assigned_employees].filter(Boolean);
+    setFormData(prev => ({
+      ...prev,
+      attendees: Array.from(new Set([...prev.attendees, ...team]))
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.project_id) {
+      alert('Please select a project for this meeting');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const payload = {
+        ...formData,
+        date: new Date(formData.date).toISOString()
+      };
+
+      if (meeting) {
+        await updateMeeting(meeting.id, payload);
+      } else {
+        await scheduleMeeting(payload);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error saving meeting:', error);
+      alert('Error saving meeting. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!meeting || !confirm('Are you sure you want to delete this meeting?')) return;
+
+    try {
+      await deleteMeeting(meeting.id);
+      onClose();
+    } catch (error) {
+      console.error('Error deleting meeting:', error);
+      alert('Error deleting meeting. Please try again.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!meeting) return;
+    const titles = project ? { [project.id]: project.title } : {};
+    downloadIcs(meetingsToIcs([meeting], users, titles), `${meeting.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'meeting'}.ics`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {meeting ? (canEdit ? 'Edit Meeting' : 'Meeting Details') : 'Schedule Meeting'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {!canEdit && meeting ? (
+          <div className="p-6 space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{meeting.title}</h3>
+              {project && <p className="text-sm text-gray-600">{project.title}</p>}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Clock className="w-4 h-4 mr-2 text-gray-400" />
+              {new Date(meeting.date).toLocaleString()} ({meeting.duration_minutes || 60} min)
+            </div>
+            {meeting.location && (
+              <div className="flex items-center text-sm text-gray-700">
+                <MapPin className="w-4 h-4 mr-2 text-gray-400" />
+                {meeting.location}
+              </div>
+            )}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Attendees</p>
+              <div className="flex flex-wrap gap-2">
+                {meeting.attendees.map(attendeeId => (
+                  <span key={attendeeId} className="px-2 py-1 bg-gray-100 text-gray-800 text-xs rounded-full">
+                    {users.find(u => u.id === attendeeId)?.name || 'Unknown'}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {meeting.notes && <p className="text-gray-700 whitespace-pre-wrap">{meeting.notes}</p>}
+            <div className="flex justify-end pt-4 border-t border-gray-200">
+              <button
+                onClick={handleExport}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>Add to my calendar (.ics)</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Project</label>
+              <select
+                value={formData.project_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, project_id: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              >
+                <option value="">Select a project</option>
+                {schedulableProjects.map(p => (
+                  <option key={p.id} value={p.id}>{p.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Start</label>
+                <input
+                  type="datetime-local"
+                  value={formData.date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Duration (minutes)</label>
+                <input
+                  type="number"
+                  min="5"
+                  step="5"
+                  value={formData.duration_minutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, duration_minutes: parseInt(e.target.value) || 60 }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+              <input
+                type="text"
+                value={formData.location}
+                onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+                placeholder="Meeting room or video call link"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-medium text-gray-700">Attendees</label>
+                {project && (
+                  <button
+                    type="button"
+                    onClick={handleAddProjectTeam}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Add project team
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2 max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-3">
+                {users.map(attendee => (
+                  <label key={attendee.id} className="flex items-center space-x-3 cursor-pointer p-2 rounded hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={formData.attendees.includes(attendee.id)}
+                      onChange={() => handleAttendeeToggle(attendee.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <Users className="w-4 h-4 text-gray-400" />
+                    <span className="text-sm text-gray-700">{attendee.name} ({attendee.email})</span>
+                    <span className="text-xs text-gray-500 capitalize">{attendee.role}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <textarea
+                rows={3}
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Agenda, dial-in details..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+              />
+            </div>
+
+            <div className="flex justify-between pt-6 border-t border-gray-200">
+              <div className="flex space-x-2">
+                {meeting && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handleExport}
+                      className="flex items-center space-x-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>.ics</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      className="flex items-center space-x-1 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete</span>
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                >
+                  {isSubmitting ? 'Saving...' : meeting ? 'Update Meeting' : 'Schedule Meeting'}
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
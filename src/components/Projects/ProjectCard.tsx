@@ -2,6 +2,7 @@ import React from 'react';
 import { Project } from '../../types';
 import { Calendar, Users, TrendingUp } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
 
 interface ProjectCardProps {
   project: Project;
@@ -16,6 +17,7 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
       case 'manager': return 'hover:border-blue-300 hover:shadow-blue-100';
       case 'employee': return 'hover:border-green-300 hover:shadow-green-100';
       case 'client': return 'hover:border-red-300 hover:shadow-red-100';
+      case 'team_lead': return 'hover:border-purple-300 hover:shadow-purple-100';
       default: return 'hover:border-gray-300 hover:shadow-gray-100';
     }
   };
@@ -25,6 +27,7 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
       case 'manager': return 'bg-blue-500';
       case 'employee': return 'bg-green-500';
       case 'client': return 'bg-red-500';
+      case 'team_lead': return 'bg-purple-500';
       default: return 'bg-gray-500';
     }
   };
@@ -61,7 +64,7 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
           <span>Due: {formatDate(project.deadline)}</span>
         </div>
 
-        {user?.role === 'manager' && (
+        {can(user, 'project.edit', project) && (
           <div className="flex items-center text-sm text-gray-500">
             <Users className="w-4 h-4 mr-2" />
             <span>{project.assigned_employees.length} employee(s) assigned</span>
@@ -1,26 +1,30 @@
 import React, { useState } from 'react';
 import { Project, User } from '../../types';
-import { X, Calendar, Users, Plus } from 'lucide-react';
+import { X, Calendar, Users, Plus, DollarSign } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { can, canOnAllProjects } from '../../utils/permissions';
 import { useData } from '../../context/DataContext';
 
 interface ProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
   project?: Project | null;
+  initialData?: Partial<Pick<Project, 'title' | 'description' | 'client_id' | 'deadline'>>;
 }
 
-export function ProjectModal({ isOpen, onClose, project }: ProjectModalProps) {
+export function ProjectModal({ isOpen, onClose, project, initialData }: ProjectModalProps) {
   const { user } = useAuth();
   const { createProject, updateProject, users } = useData();
   
   const [formData, setFormData] = useState({
-    title: project?.title || '',
-    description: project?.description || '',
-    client_id: project?.client_id || '',
-    deadline: project?.deadline || '',
+    title: project?.title || initialData?.title || '',
+    description: project?.description || initialData?.description || '',
+    client_id: project?.client_id || initialData?.client_id || '',
+    deadline: project?.deadline || initialData?.deadline || '',
     assigned_employees: project?.assigned_employees || [],
-    priority: project?.priority || 'medium'
+    priority: project?.priority || 'medium',
+    team_lead_id: project?.team_lead_id || '',
+    budget: project?.budget != null ? String(project.budget) : ''
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -32,17 +36,23 @@ export function ProjectModal({ isOpen, onClose, project }: ProjectModalProps) {
     
     try {
       const selectedClient = users.find(u => u.id === formData.client_id);
+      const { budget, team_lead_id, ...details } = formData;
+      const projectFields = {
+        ...details,
+        team_lead_id: canAssignTeamLead ? team_lead_id || null : project?.team_lead_id,
+        budget: canEditBudget ? (budget === '' ? null : Number(budget)) : project?.budget
+      };
       
       if (project) {
         await updateProject(project.id, {
-          ...formData,
+          ...projectFields,
           client_name: selectedClient?.name || 'Unknown Client',
           progress_percentage: project.progress_percentage,
           status: project.status
         });
       } else {
         await createProject({
-          ...formData,
+          ...projectFields,
           client_name: selectedClient?.name || 'Unknown Client',
           progress_percentage: 0,
           status: 'active'
@@ -69,6 +79,10 @@ export function ProjectModal({ isOpen, onClose, project }: ProjectModalProps) {
 
   const employees = users.filter(u => u.role === 'employee');
   const clients = users.filter(u => u.role === 'client');
+  const teamLeads = users.filter(u => u.role === 'team_lead');
+  // Only roles that see every project hand projects to a team lead
+  const canAssignTeamLead = canOnAllProjects(user, 'project.edit');
+  const canEditBudget = can(user, 'budget.edit', project);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -149,7 +163,7 @@ export function ProjectModal({ isOpen, onClose, project }: ProjectModalProps) {
             </div>
           </div>
 
-          {user?.role === 'manager' && (
+          {can(user, 'project.edit') && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Assign Employees
@@ -171,6 +185,45 @@ export function ProjectModal({ isOpen, onClose, project }: ProjectModalProps) {
             </div>
           )}
 
+          {canAssignTeamLead && (
+            <div>
+              <label htmlFor="team_lead" className="block text-sm font-medium text-gray-700 mb-2">
+                Team Lead
+              </label>
+              <select
+                id="team_lead"
+                value={formData.team_lead_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, team_lead_id: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">No team lead</option>
+                {teamLeads.map(lead => (
+                  <option key={lead.id} value={lead.id}>{lead.name} ({lead.email})</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {canEditBudget && (
+            <div>
+              <label htmlFor="budget" className="block text-sm font-medium text-gray-700 mb-2">
+                Budget
+              </label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="number"
+                  id="budget"
+                  min="0"
+                  step="0.01"
+                  value={formData.budget}
+                  onChange={(e) => setFormData(prev => ({ ...prev, budget: e.target.value }))}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
           <div>
             <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
               Project Priority
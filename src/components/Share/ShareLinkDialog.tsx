@@ -0,0 +1,179 @@
+import { FormEvent, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { File, FileFolder, ShareLink } from '../../types';
+import { SHARE_LINK_EXPIRY_OPTIONS, getShareLinkUrl } from '../../utils/shareLinks';
+import { Check, Copy, Link2, X } from 'lucide-react';
+
+interface ShareLinkDialogProps {
+  projectId: string;
+  file?: File;
+  folder?: FileFolder;
+  onClose: () => void;
+}
+
+// Creates an expiring public link to a file or folder, then shows it for copying
+export function ShareLinkDialog({ projectId, file, folder, onClose }: ShareLinkDialogProps) {
+  const { createShareLink } = useData();
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [password, setPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const targetName = file?.filename || folder?.name || '';
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      setCreated(await createShareLink({
+        project_id: projectId,
+        file_id: file?.id,
+        folder_id: folder?.id,
+        label,
+        expires_at: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+        password: password || undefined,
+        max_downloads: maxDownloads ? Number(maxDownloads) : undefined
+      }));
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('Error creating share link. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      alert('Could not copy the link. Please copy it manually.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <Link2 className="w-5 h-5 text-gray-600" />
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">Share {folder ? 'folder' : 'file'}</h3>
+              <p className="text-sm text-gray-600 truncate">{targetName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {created ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              Anyone with this link can download {folder ? 'the files in this folder' : 'this file'} until{' '}
+              {new Date(created.expires_at).toLocaleString()}
+              {created.max_downloads && `, up to ${created.max_downloads} downloads`}.
+              {created.has_password && ' Send the password separately.'}
+            </p>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                readOnly
+                value={getShareLinkUrl(created.token)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+              />
+              <button
+                onClick={() => handleCopy(getShareLinkUrl(created.token))}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                <span>{copied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shared with</label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Print shop"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+                <select
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Download limit</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password (optional)</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isCreating}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isCreating ? 'Creating...' : 'Create Link'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
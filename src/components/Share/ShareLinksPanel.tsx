@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { ShareLink, ShareLinkStatus } from '../../types';
+import { formatFolderPath } from '../../utils/folders';
+import { getShareLinkStatus, getShareLinkUrl } from '../../utils/shareLinks';
+import { Copy, FileText, Folder, Link2, Lock, X } from 'lucide-react';
+
+interface ShareLinksPanelProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-700' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-800' },
+  exhausted: { label: 'Limit reached', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+// Every share link created for a project, newest first, with copy and revoke
+export function ShareLinksPanel({ projectId, onClose }: ShareLinksPanelProps) {
+  const { files, folders, projects, loadShareLinks, revokeShareLink } = useData();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const project = projects.find(p => p.id === projectId);
+
+  useEffect(() => {
+    const refreshLinks = async () => {
+      setIsLoading(true);
+      setLoadError('');
+      try {
+        setLinks(await loadShareLinks(projectId));
+      } catch (error) {
+        console.error('Error loading share links:', error);
+        setLoadError('Could not load share links');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    refreshLinks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone holding it will lose access immediately.')) return;
+
+    setRevokingId(link.id);
+    try {
+      await revokeShareLink(link);
+      setLinks(prev => prev.map(l => (l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l)));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      alert('Error revoking share link. Please try again.');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      alert('Could not copy the link. Please try again.');
+    }
+  };
+
+  const getTargetName = (link: ShareLink) =>
+    link.file_id
+      ? files.find(f => f.id === link.file_id)?.filename || 'Deleted file'
+      : link.folder_id ? formatFolderPath(folders, link.folder_id) || 'Deleted folder' : '—';
+
+  const visibleLinks = showInactive ? links : links.filter(link => getShareLinkStatus(link) === 'active');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <Link2 className="w-5 h-5 text-gray-600" />
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">Share Links</h3>
+              <p className="text-sm text-gray-600 truncate">{project?.title}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Show expired and revoked</span>
+            </label>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loadError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{loadError}</div>
+          )}
+
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Loading share links...</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visibleLinks.map(link => {
+                const status = getShareLinkStatus(link);
+                const TargetIcon = link.folder_id ? Folder : FileText;
+                return (
+                  <li key={link.id} className="py-4 flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <TargetIcon className={`w-4 h-4 flex-shrink-0 ${link.folder_id ? 'text-yellow-500' : 'text-gray-500'}`} />
+                        <span className="font-medium text-gray-900 truncate">{getTargetName(link)}</span>
+                        {link.has_password && <Lock className="w-3 h-3 text-gray-500 flex-shrink-0" />}
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].className}`}>
+                          {STATUS_STYLES[status].label}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {link.label ? `${link.label} • ` : ''}
+                        {link.download_count}{link.max_downloads ? ` / ${link.max_downloads}` : ''} downloads •{' '}
+                        {status === 'revoked' ? 'revoked' : status === 'expired' ? 'expired' : 'expires'}{' '}
+                        {new Date(link.revoked_at || link.expires_at).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Created by {link.creator_name} on {new Date(link.created_at).toLocaleDateString()}
+                        {link.last_accessed_at && ` • last opened ${new Date(link.last_accessed_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                    {status === 'active' && (
+                      <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                        <button
+                          onClick={() => handleCopy(link)}
+                          className="text-blue-600 hover:text-blue-800 transition-colors p-2"
+                          title="Copy link"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          disabled={revokingId !== null}
+                          className="px-3 py-1 text-sm border border-red-300 rounded-lg text-red-700 hover:bg-red-50 disabled:opacity-50 transition-colors"
+                        >
+                          {revokingId === link.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {!isLoading && !loadError && visibleLinks.length === 0 && (
+            <p className="text-center text-gray-500 py-8">
+              {links.length === 0 ? 'No share links have been created for this project' : 'No active share links'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
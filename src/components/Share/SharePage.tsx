@@ -0,0 +1,217 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase as externalSupabase } from '../../superBaseClient';
+import { Download, FileText, Folder, Link2, Lock } from 'lucide-react';
+
+const supabase: SupabaseClient | null = externalSupabase;
+
+interface SharedLinkDetails {
+  name: string;
+  kind: 'file' | 'folder';
+  label?: string;
+  project_title: string;
+  expires_at: string;
+  downloads_remaining: number | null;
+}
+
+interface SharedFile {
+  id: string;
+  filename: string;
+  path: string;
+  size: number;
+  file_type: string;
+  timestamp: string;
+}
+
+interface ShareLinkError extends Error {
+  passwordRequired?: boolean;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Validation and signed URLs come from the share-link edge function, since visitors
+// have no account and cannot read project files directly
+const callShareLink = async (body: { token: string; password?: string; file_id?: string }) => {
+  if (!supabase) {
+    throw new Error('Sharing is not available right now');
+  }
+
+  const { data, error } = await supabase.functions.invoke('share-link', { body });
+  if (error) {
+    // Surface the function's own error message rather than the generic HTTP one
+    const context = (error as { context?: Response }).context;
+    const details = context ? await context.json().catch(() => null) : null;
+    const shareError: ShareLinkError = new Error(details?.error || error.message);
+    shareError.passwordRequired = !!details?.password_required;
+    throw shareError;
+  }
+  return data;
+};
+
+// Read-only page behind /share/<token> for people without a XeeTrack account
+export function SharePage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [details, setDetails] = useState<SharedLinkDetails | null>(null);
+  const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const openLink = async (linkPassword?: string) => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const data = await callShareLink({ token, password: linkPassword });
+      setDetails(data.link);
+      setSharedFiles(data.files || []);
+      setPasswordRequired(false);
+    } catch (error) {
+      const shareError = error as ShareLinkError;
+      console.error('Error opening share link:', shareError);
+      setPasswordRequired(!!shareError.passwordRequired);
+      // The first prompt for a password isn't an error worth showing
+      setErrorMessage(shareError.passwordRequired && !linkPassword ? '' : shareError.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    openLink();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const handlePasswordSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (password) openLink(password);
+  };
+
+  const handleDownload = async (file: SharedFile) => {
+    setDownloadingId(file.id);
+    try {
+      const data = await callShareLink({ token, password: password || undefined, file_id: file.id });
+      const link = document.createElement('a');
+      link.href = data.url;
+      link.download = data.filename;
+      link.click();
+      setDetails(prev =>
+        prev && prev.downloads_remaining !== null ? { ...prev, downloads_remaining: prev.downloads_remaining - 1 } : prev
+      );
+    } catch (error) {
+      console.error('Error downloading shared file:', error);
+      alert(error instanceof Error ? error.message : 'Error downloading file. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-500 py-8">Opening link...</p>;
+    }
+
+    if (passwordRequired) {
+      return (
+        <form onSubmit={handlePasswordSubmit} className="space-y-4">
+          <p className="text-gray-600 text-center">This link is password protected.</p>
+          {errorMessage && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{errorMessage}</div>
+          )}
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!password}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Open
+          </button>
+        </form>
+      );
+    }
+
+    if (errorMessage || !details) {
+      return (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-center">
+          {errorMessage || 'This link is not valid'}
+        </div>
+      );
+    }
+
+    const noDownloadsLeft = details.downloads_remaining !== null && details.downloads_remaining <= 0;
+    return (
+      <>
+        <div className="mb-6">
+          <div className="flex items-center space-x-2">
+            {details.kind === 'folder' ? <Folder className="w-5 h-5 text-yellow-500" /> : <FileText className="w-5 h-5 text-gray-500" />}
+            <h2 className="text-xl font-semibold text-gray-900">{details.name}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            Shared from {details.project_title} • available until {new Date(details.expires_at).toLocaleString()}
+            {details.downloads_remaining !== null && ` • ${Math.max(details.downloads_remaining, 0)} downloads left`}
+          </p>
+        </div>
+
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {sharedFiles.map(file => (
+            <li key={file.id} className="p-4 flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{file.path}</p>
+                <p className="text-sm text-gray-500">
+                  {formatFileSize(file.size)} • {file.file_type.toUpperCase()} • {new Date(file.timestamp).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDownload(file)}
+                disabled={downloadingId !== null || noDownloadsLeft}
+                className="flex-shrink-0 ml-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>{downloadingId === file.id ? 'Preparing...' : 'Download'}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {sharedFiles.length === 0 && (
+          <p className="text-center text-gray-500 py-8">There are no files in this share yet</p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-2xl w-full">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+              <Link2 className="w-8 h-8 text-blue-600" />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900">XeeTrack</h1>
+            <p className="text-gray-600 mt-2">Shared files</p>
+          </div>
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { can } from '../../utils/permissions';
+import { Project, Stage, StageApproval } from '../../types';
+import { CheckCircle, XCircle, Clock, History, Layers } from 'lucide-react';
+
+interface ProjectStagesProps {
+  project: Project;
+}
+
+function ApprovalHistory({ approvals }: { approvals: StageApproval[] }) {
+  if (approvals.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500">
+        <History className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+        <p className="text-sm">No approval decisions yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {approvals.map(approval => (
+        <li key={approval.id} className="flex items-start space-x-3">
+          {approval.status === 'approved' ? (
+            <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-x-2 text-sm">
+              <span className="font-medium text-gray-900">{approval.approver_name}</span>
+              <span className="text-gray-500">({approval.approver_role})</span>
+              <span className={approval.status === 'approved' ? 'text-green-700' : 'text-red-700'}>
+                {approval.status}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500">{new Date(approval.timestamp).toLocaleString()}</div>
+            {approval.comment && (
+              <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{approval.comment}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function ProjectStages({ project }: ProjectStagesProps) {
+  const { user } = useAuth();
+  const { stages, getStageApprovals, updateStageApproval, updateStageProgress } = useData();
+  const [decisionComments, setDecisionComments] = useState<Record<string, string>>({});
+  const [savingStageId, setSavingStageId] = useState<string | null>(null);
+
+  const projectStages = stages
+    .filter(stage => stage.project_id === project.id)
+    .sort((a, b) => a.order - b.order);
+
+  const canApprove = can(user, 'stage.approve', project);
+  const canUpdateProgress = can(user, 'stage.updateProgress', project);
+
+  const getStatusIcon = (status: Stage['approval_status']) => {
+    switch (status) {
+      case 'approved': return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case 'rejected': return <XCircle className="w-5 h-5 text-red-500" />;
+      default: return <Clock className="w-5 h-5 text-orange-500" />;
+    }
+  };
+
+  const getStatusColor = (status: Stage['approval_status']) => {
+    switch (status) {
+      case 'approved': return 'bg-green-100 text-green-800';
+      case 'rejected': return 'bg-red-100 text-red-800';
+      default: return 'bg-orange-100 text-orange-800';
+    }
+  };
+
+  const handleDecision = async (stage: Stage, status: 'approved' | 'rejected') => {
+    const comment = decisionComments[stage.id] || '';
+    if (status === 'rejected' && !comment.trim()) {
+      alert('Please add a comment explaining the requested changes');
+      return;
+    }
+
+    setSavingStageId(stage.id);
+    try {
+      await updateStageApproval(stage.id, status, comment);
+      setDecisionComments(prev => ({ ...prev, [stage.id]: '' }));
+    } catch (error) {
+      console.error('Error updating stage approval:', error);
+      alert('Error updating stage approval. Please try again.');
+    } finally {
+      setSavingStageId(null);
+    }
+  };
+
+  const handleProgressChange = async (stageId: string, progress: number) => {
+    try {
+      await updateStageProgress(stageId, progress);
+    } catch (error) {
+      console.error('Error updating stage progress:', error);
+      alert('Error updating stage progress. Please try again.');
+    }
+  };
+
+  if (projectStages.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+        <Layers className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No stages yet</h3>
+        <p className="text-gray-600">Stages are created automatically when the project is set up</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Layers className="w-5 h-5 mr-2" />
+          Project Stages
+        </h3>
+        <span className="text-sm text-gray-500">
+          {projectStages.filter(s => s.approval_status === 'approved').length} of {projectStages.length} approved
+        </span>
+      </div>
+
+      {projectStages.map(stage => (
+        <div key={stage.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Stage Info & Actions */}
+            <div className="lg:col-span-2 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  {getStatusIcon(stage.approval_status)}
+                  <h4 className="text-lg font-semibold text-gray-900">{stage.name}</h4>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(stage.approval_status)}`}>
+                  {stage.approval_status}
+                </span>
+              </div>
+
+              {stage.notes && <p className="text-gray-600">{stage.notes}</p>}
+
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Progress</span>
+                  <span className="font-medium text-gray-900">{stage.progress_percentage}%</span>
+                </div>
+                {canUpdateProgress ? (
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={stage.progress_percentage}
+                    onChange={(e) => handleProgressChange(stage.id, parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                ) : (
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="h-2 bg-blue-600 rounded-full transition-all duration-300"
+                      style={{ width: `${stage.progress_percentage}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {canApprove && (
+                <div className="space-y-3 pt-4 border-t border-gray-200">
+                  <textarea
+                    value={decisionComments[stage.id] || ''}
+                    onChange={(e) => setDecisionComments(prev => ({ ...prev, [stage.id]: e.target.value }))}
+                    placeholder="Add a comment with your decision (required when requesting changes)..."
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleDecision(stage, 'approved')}
+                      disabled={savingStageId === stage.id}
+                      className="flex items-center gap-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleDecision(stage, 'rejected')}
+                      disabled={savingStageId === stage.id}
+                      className="flex items-center gap-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Request Changes
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Approval History */}
+            <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
+              <h5 className="text-sm font-semibold text-gray-900 mb-3 flex items-center">
+                <History className="w-4 h-4 mr-1" />
+                Approval History
+              </h5>
+              <ApprovalHistory approvals={getStageApprovals(stage.id)} />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useData } from '../../context/DataContext';
+import { File, RetentionReport, RetentionRule } from '../../types';
+import { Archive, ClipboardList, Play, Plus, ShieldAlert, Trash2, X } from 'lucide-react';
+
+const FILE_CATEGORIES: NonNullable<File['category']>[] = ['reference', 'content', 'assets', 'requirements', 'other'];
+
+const EMPTY_RULE = {
+  name: '',
+  action: 'archive' as RetentionRule['action'],
+  after_days: '90',
+  project_id: '',
+  category: '',
+  enabled: true
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const describeRule = (rule: Pick<RetentionRule, 'action' | 'after_days'>) =>
+  rule.action === 'archive'
+    ? `Archive files ${rule.after_days} days after their project is completed`
+    : `Permanently delete files ${rule.after_days} days after they were archived`;
+
+// Manager-defined archive and purge rules, with a dry-run report before anything is deleted
+export function RetentionPolicies() {
+  const { projects, loadRetentionRules, saveRetentionRule, deleteRetentionRule, runRetentionRules } = useData();
+  const [rules, setRules] = useState<RetentionRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [runningRuleId, setRunningRuleId] = useState<string | null>(null);
+  const [report, setReport] = useState<{ result: RetentionReport; ruleId?: string } | null>(null);
+
+  const refreshRules = () =>
+    loadRetentionRules()
+      .then(setRules)
+      .catch(error => {
+        console.error('Error loading retention rules:', error);
+      })
+      .finally(() => setIsLoading(false));
+
+  useEffect(() => {
+    refreshRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getProjectTitle = (id?: string) =>
+    id ? projects.find(p => p.id === id)?.title || 'Deleted project' : 'All projects';
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const afterDays = Number(newRule.after_days);
+    if (!newRule.name.trim() || !Number.isInteger(afterDays) || afterDays <= 0) {
+      alert('Enter a name and a whole number of days.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveRetentionRule({
+        name: newRule.name,
+        action: newRule.action,
+        after_days: afterDays,
+        project_id: newRule.project_id || undefined,
+        category: (newRule.category as RetentionRule['category']) || undefined,
+        enabled: newRule.enabled
+      });
+      setRules(prev => [...prev, saved]);
+      setNewRule(EMPTY_RULE);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error saving retention rule:', error);
+      alert('Error saving retention rule. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (rule: RetentionRule) => {
+    try {
+      const saved = await saveRetentionRule({ ...rule, enabled: !rule.enabled });
+      setRules(prev => prev.map(r => (r.id === saved.id ? saved : r)));
+    } catch (error) {
+      console.error('Error saving retention rule:', error);
+      alert('Error saving retention rule. Please try again.');
+    }
+  };
+
+  const handleDelete = async (rule: RetentionRule) => {
+    if (!confirm(`Delete the retention rule "${rule.name}"?`)) return;
+    try {
+      await deleteRetentionRule(rule);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting retention rule:', error);
+      alert('Error deleting retention rule. Please try again.');
+    }
+  };
+
+  // ruleId limits the run to one rule (even a disabled one); otherwise every enabled rule runs
+  const handleRun = async (dryRun: boolean, ruleId?: string) => {
+    if (!dryRun && !confirm('Apply the retention rules now? Purged files and all their versions are deleted permanently.')) {
+      return;
+    }
+
+    setRunningRuleId(ruleId || 'all');
+    try {
+      const result = await runRetentionRules({ dryRun, ruleId });
+      setReport({ result, ruleId });
+      if (!dryRun) refreshRules();
+    } catch (error) {
+      console.error('Error running retention rules:', error);
+      alert(error instanceof Error ? error.message : 'Error running retention rules. Please try again.');
+    } finally {
+      setRunningRuleId(null);
+    }
+  };
+
+  const reportFileCount = report ? report.result.rules.reduce((sum, rule) => sum + rule.files.length, 0) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-900">Archive &amp; Retention Rules</h3>
+          <p className="text-sm text-gray-600">
+            Enabled rules are applied every day at 03:00 UTC once the retention schedule's Vault secrets are set;
+            until then they only run when applied from a dry run report
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={!!runningRuleId || rules.length === 0}
+            className="border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <ClipboardList className="w-4 h-4" />
+            <span>{runningRuleId === 'all' ? 'Running...' : 'Dry Run'}</span>
+          </button>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Rule</span>
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="px-6 py-4 border-b border-gray-200 bg-gray-50 grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={newRule.name}
+              onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+              placeholder="e.g. Archive finished projects"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <select
+              value={newRule.action}
+              onChange={(e) => setNewRule({ ...newRule, action: e.target.value as RetentionRule['action'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="archive">Archive after completion</option>
+              <option value="purge">Purge after archiving</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">After (days)</label>
+            <input
+              type="number"
+              min="1"
+              value={newRule.after_days}
+              onChange={(e) => setNewRule({ ...newRule, after_days: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={newRule.project_id}
+              onChange={(e) => setNewRule({ ...newRule, project_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.title}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <select
+              value={newRule.category}
+              onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All categories</option>
+              {FILE_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category.charAt(0).toUpperCase() + category.slice(1)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-6 flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={newRule.enabled}
+                onChange={(e) => setNewRule({ ...newRule, enabled: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>Enabled</span>
+            </label>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                {isSaving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {rules.map(rule => (
+          <li key={rule.id} className={`px-6 py-4 flex items-center justify-between ${rule.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-start space-x-3 min-w-0">
+              {rule.action === 'archive'
+                ? <Archive className="w-5 h-5 text-orange-500 flex-shrink-0 mt-0.5" />
+                : <ShieldAlert className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />}
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{rule.name}</p>
+                <p className="text-sm text-gray-600">{describeRule(rule)}</p>
+                <p className="text-xs text-gray-500">
+                  {getProjectTitle(rule.project_id)} • {rule.category ? `${rule.category} files` : 'all categories'}
+                  {rule.last_run_at && ` • last run ${new Date(rule.last_run_at).toLocaleString()}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3 flex-shrink-0">
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => handleToggleEnabled(rule)}
+                  className="rounded border-gray-300"
+                />
+                <span>Enabled</span>
+              </label>
+              <button
+                onClick={() => handleRun(true, rule.id)}
+                disabled={!!runningRuleId}
+                className="text-blue-600 hover:text-blue-800 disabled:opacity-50 transition-colors"
+                title="Dry run this rule"
+              >
+                <ClipboardList className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(rule)}
+                className="text-red-600 hover:text-red-800 transition-colors"
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+        {!isLoading && rules.length === 0 && (
+          <li className="text-center text-gray-500 py-8">No retention rules. Files are kept until someone archives or deletes them.</li>
+        )}
+      </ul>
+
+      {/* Run report */}
+      {report && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div className="flex items-center space-x-2">
+                <ClipboardList className="w-5 h-5 text-blue-600" />
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {report.result.dry_run ? 'Dry Run Report' : 'Retention Run Results'}
+                </h3>
+              </div>
+              <button onClick={() => setReport(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-6">
+              <p className="text-sm text-gray-600">
+                {report.result.dry_run
+                  ? `${reportFileCount} file(s) would be affected. Nothing has been changed.`
+                  : `Finished ${new Date(report.result.ran_at).toLocaleString()}.`}
+              </p>
+              {report.result.rules.map(ruleReport => (
+                <div key={ruleReport.rule_id}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <h4 className="font-medium text-gray-900">{ruleReport.name}</h4>
+                      <p className="text-xs text-gray-500">{describeRule(ruleReport)}</p>
+                    </div>
+                    <span className="text-sm text-gray-600">
+                      {report.result.dry_run
+                        ? `${ruleReport.files.length} file(s) • ${formatFileSize(ruleReport.files.reduce((sum, file) => sum + file.stored_bytes, 0))}`
+                        : `${ruleReport.processed_count} ${ruleReport.action === 'archive' ? 'archived' : 'purged'}${ruleReport.failed.length ? `, ${ruleReport.failed.length} failed` : ''}`}
+                    </span>
+                  </div>
+                  {ruleReport.files.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {ruleReport.action === 'archive' ? 'Completed' : 'Archived'}
+                          </th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stored</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {ruleReport.files.map(file => {
+                          const failure = ruleReport.failed.find(f => f.file_id === file.id);
+                          return (
+                            <tr key={file.id}>
+                              <td className="px-3 py-2 text-gray-900">
+                                {file.filename}
+                                {failure && <div className="text-xs text-red-600">{failure.error}</div>}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600">{file.project_title}</td>
+                              <td className="px-3 py-2 text-gray-600">{file.since ? new Date(file.since).toLocaleDateString() : '—'}</td>
+                              <td className="px-3 py-2 text-gray-600">
+                                {formatFileSize(file.stored_bytes)}
+                                {file.version_count > 1 && <span className="text-xs text-gray-500"> ({file.version_count} versions)</span>}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-500">No files match this rule.</p>
+                  )}
+                  {ruleReport.limited && (
+                    <p className="text-xs text-gray-500 mt-2">More files match; the rest are handled on the next run.</p>
+                  )}
+                </div>
+              ))}
+              {report.result.rules.length === 0 && (
+                <p className="text-sm text-gray-500">No enabled rules to run.</p>
+              )}
+            </div>
+
+            {report.result.dry_run && reportFileCount > 0 && (
+              <div className="flex justify-end p-6 border-t border-gray-200">
+                <button
+                  onClick={() => handleRun(false, report.ruleId)}
+                  disabled={!!runningRuleId}
+                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+                >
+                  <Play className="w-4 h-4" />
+                  <span>{runningRuleId ? 'Running...' : 'Apply Now'}</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,93 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
-import { Upload, Download, Search, Filter, FileText, Image, Video, Archive, Folder } from 'lucide-react';
+import { can, canOnAllProjects, filterByPermission } from '../../utils/permissions';
+import { formatFolderPath, getFilesInFolderTree, getFolderPath } from '../../utils/folders';
+import { File, FileFolder } from '../../types';
+import { sanitizePathSegment } from '../../utils/zip';
+import { confirmDuplicateUpload } from '../../utils/fileHash';
+import { findQuota, getProjectStoredBytes, getQuotaLevel } from '../../utils/storageQuota';
+import { collectDroppedFiles, DroppedFile, isFileDrag } from '../../utils/droppedFiles';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
+import { FileVersionHistory } from '../Files/FileVersionHistory';
+import { ShareLinkDialog } from '../Share/ShareLinkDialog';
+import { ShareLinksPanel } from '../Share/ShareLinksPanel';
+import { UploadQueue } from './UploadQueue';
+import { Upload, Download, Search, Filter, FileText, Image, Video, Archive, Folder, FolderPlus, History, ChevronRight, Edit3, Trash2, Link2 } from 'lucide-react';
 
 interface StorageManagerProps {
   projectId?: string;
+  selectedFileId?: string;
+  onSelectFile?: (fileId: string) => void;
 }
 
-export function StorageManager({ projectId }: StorageManagerProps) {
+// Drag payloads are "file:<id>" or "folder:<id>"
+const DRAG_TYPE = 'text/plain';
+
+// Where a queued upload lands; `directories` are created under the folder first
+interface UploadTarget {
+  projectId: string;
+  stageId: string;
+  folderId: string | null;
+  directories: string[];
+}
+
+export function StorageManager({ projectId, selectedFileId, onSelectFile }: StorageManagerProps) {
   const { user } = useAuth();
-  const { files, projects, stages, uploadFileFromInput } = useData();
+  const {
+    files,
+    folders,
+    projects,
+    stages,
+    storageQuotas,
+    storageUsage,
+    uploadFileFromInput,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    moveFolder,
+    moveFileToFolder,
+    downloadFile,
+    downloadMultipleFiles
+  } = useData();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('all');
   const [filterUploader, setFilterUploader] = useState('all');
+  const [filterStage, setFilterStage] = useState('all');
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [openFolderId, setOpenFolderId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [zippingFolderId, setZippingFolderId] = useState<string | null>(null);
+  const [shareTarget, setShareTarget] = useState<{ projectId: string; file?: File; folder?: FileFolder } | null>(null);
+  const [showShareLinks, setShowShareLinks] = useState(false);
+
+  const scopedProject = projectId ? projects.find(p => p.id === projectId) : undefined;
+  const canUpload = projectId ? !!scopedProject && can(user, 'file.upload', scopedProject) : can(user, 'file.upload');
+  const canShareProject = !!scopedProject && can(user, 'file.share', scopedProject);
+  const canShareFile = (file: File) => can(user, 'file.share', projects.find(p => p.id === file.project_id));
+  // Folders are browsed per project; the cross-project view stays a flat list
+  const showFolders = !!projectId;
+
+  const projectFolders = projectId ? folders.filter(f => f.project_id === projectId) : [];
+  const projectStages = projectId ? stages.filter(s => s.project_id === projectId) : [];
+  // Falls back to the root while folders load or if the open folder is deleted
+  const currentFolder = projectFolders.find(f => f.id === openFolderId);
+  const currentFolderId = currentFolder?.id || null;
+  const breadcrumbs = getFolderPath(projectFolders, currentFolderId);
+  const revealedFileId = useRef<string | null>(null);
+  // Folders being created for dropped folder trees, so parallel uploads share one
+  const pendingFolders = useRef(new Map<string, Promise<string>>());
+
+  // Open the folder holding a deep-linked file (once per link), then bring it into view
+  useEffect(() => {
+    if (!selectedFileId) return;
+    const selected = files.find(f => f.id === selectedFileId);
+    if (selected && showFolders && revealedFileId.current !== selectedFileId) {
+      revealedFileId.current = selectedFileId;
+      setOpenFolderId(selected.folder_id || null);
+    }
+    document.getElementById(`file-${selectedFileId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [selectedFileId, files, showFolders]);
 
   const getFileIcon = (fileType: string) => {
     switch (fileType.toLowerCase()) {
@@ -50,84 +125,480 @@ export function StorageManager({ projectId }: StorageManagerProps) {
     if (projectId) {
       return files.filter(f => f.project_id === projectId);
     }
-    if (user?.role === 'employee') {
-      const assignedProjects = projects.filter(p => p.assigned_employees.includes(user.id));
-      return files.filter(f => assignedProjects.some(p => p.id === f.project_id));
-    }
-    if (user?.role === 'client') {
-      const clientProjects = projects.filter(p => p.client_id === user.id);
-      return files.filter(f => clientProjects.some(p => p.id === f.project_id));
+    if (canOnAllProjects(user, 'project.view')) {
+      return files;
     }
-    return files;
+    const visibleProjects = filterByPermission(user, 'project.view', projects);
+    return files.filter(f => visibleProjects.some(p => p.id === f.project_id));
   };
 
+  // Searching looks across every folder; otherwise only the open folder is listed
+  const isSearching = searchTerm.trim() !== '';
+  const isInView = (file: File) =>
+    !showFolders || isSearching || (file.folder_id || null) === currentFolderId;
+
   const filteredFiles = getProjectFiles().filter(file => {
     const matchesSearch = file.filename.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          file.uploader_name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = filterType === 'all' || file.file_type === filterType;
     const matchesUploader = filterUploader === 'all' || file.uploaded_by === filterUploader;
-    return matchesSearch && matchesType && matchesUploader;
+    const matchesStage = filterStage === 'all' || file.stage_id === filterStage;
+    return matchesSearch && matchesType && matchesUploader && matchesStage && isInView(file);
   });
 
+  const visibleFolders = showFolders && !isSearching
+    ? projectFolders.filter(folder =>
+        (folder.parent_id || null) === currentFolderId &&
+        (filterStage === 'all' || folder.stage_id === filterStage)
+      )
+    : [];
+
+  // Looked up by id so the modal follows the file as new versions arrive
+  const historyFile = files.find(f => f.id === historyFileId);
+
+  const projectStoredBytes = projectId ? getProjectStoredBytes(projectId, storageUsage, files) : 0;
+  const projectQuota = findQuota(storageQuotas, 'project', projectId);
+  const projectQuotaLevel = getQuotaLevel(projectStoredBytes, projectQuota);
+
   const uniqueUploaders = [...new Set(getProjectFiles().map(f => f.uploader_name))];
   const uniqueFileTypes = [...new Set(getProjectFiles().map(f => f.file_type))];
 
+  // New uploads land in the open folder's stage, then the filtered stage, then the first stage
+  const getUploadStageId = (targetProjectId: string) => {
+    if (targetProjectId === projectId) {
+      if (currentFolder?.stage_id) return currentFolder.stage_id;
+      if (filterStage !== 'all') return filterStage;
+    }
+    const targetStages = stages.filter(s => s.project_id === targetProjectId);
+    return targetStages.length > 0 ? targetStages[0].id : '';
+  };
+
+  // Finds or creates each dropped subfolder under the target folder, returning the innermost
+  const ensureFolderPath = (target: UploadTarget) =>
+    target.directories.reduce<Promise<string | null>>(async (parentPromise, name) => {
+      const parentId = await parentPromise;
+      const existing = folders.find(f =>
+        f.project_id === target.projectId && (f.parent_id || null) === parentId && f.name === name
+      );
+      if (existing) return existing.id;
+
+      const key = `${target.projectId}/${parentId || 'root'}/${name}`;
+      let folderId = pendingFolders.current.get(key);
+      if (!folderId) {
+        folderId = createFolder({
+          project_id: target.projectId,
+          name,
+          parent_id: parentId,
+          stage_id: target.stageId || null
+        }).then(folder => folder.id);
+        pendingFolders.current.set(key, folderId);
+        folderId.catch(() => pendingFolders.current.delete(key));
+      }
+      return folderId;
+    }, Promise.resolve(target.folderId));
+
+  const uploadQueue = useUploadQueue<UploadTarget>(async (item, controls) => {
+    const { target } = item;
+    if (!target.stageId) {
+      throw new Error('This project has no stages to upload into');
+    }
+    const folderId = await ensureFolderPath(target);
+    // Uploading an existing filename adds a new version of that file
+    await uploadFileFromInput(target.stageId, item.file, target.projectId, user?.name || 'Unknown', folderId, {
+      onDuplicate: duplicate => confirmDuplicateUpload(item.file, duplicate, stages, folders),
+      onProgress: uploadedBytes => controls.onProgress(uploadedBytes),
+      signal: controls.signal,
+      uploadId: controls.uploadId
+    });
+  });
+
+  // The cross-project view uploads into the first project the user may upload to
+  const getDefaultUploadProjectId = () =>
+    projectId || filterByPermission(user, 'file.upload', projects)[0]?.id || '';
+
+  const enqueueUploads = (entries: DroppedFile[], targetProjectId: string, targetFolderId: string | null) => {
+    if (!targetProjectId || entries.length === 0) return;
+
+    const targetFolder = projectFolders.find(f => f.id === targetFolderId);
+    const stageId = targetFolder?.stage_id || getUploadStageId(targetProjectId);
+    uploadQueue.enqueue(entries.map(({ file, directories }) => ({
+      file,
+      relativePath: [...directories, file.name].join('/'),
+      target: {
+        projectId: targetProjectId,
+        stageId,
+        folderId: targetFolderId,
+        // The flat view has no folders, so dropped folder trees are flattened
+        directories: showFolders ? directories : []
+      }
+    })));
+  };
+
   const handleFileUpload = (fileList: FileList | null, targetProjectId: string) => {
     if (!fileList) return;
-    
-    Array.from(fileList).forEach(file => {
-      // For storage manager, we'll use the first available stage of the project
-      const projectStages = stages.filter(s => s.project_id === targetProjectId);
-      const stageId = projectStages.length > 0 ? projectStages[0].id : '';
-      if (stageId) {
-        uploadFileFromInput(stageId, file, user?.name || 'Unknown');
+
+    const folderId = targetProjectId === projectId ? currentFolderId : null;
+    enqueueUploads(Array.from(fileList).map(file => ({ file, directories: [] })), targetProjectId, folderId);
+  };
+
+  // Must be called from the drop handler itself; see collectDroppedFiles
+  const handleDroppedFiles = async (dataTransfer: DataTransfer, targetFolderId: string | null) => {
+    try {
+      enqueueUploads(await collectDroppedFiles(dataTransfer), getDefaultUploadProjectId(), targetFolderId);
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      alert('Error reading the dropped files. Please try again.');
+    }
+  };
+
+  const handleCreateFolder = async () => {
+    if (!projectId) return;
+    const name = prompt('Folder name')?.trim();
+    if (!name) return;
+
+    try {
+      await createFolder({
+        project_id: projectId,
+        name,
+        parent_id: currentFolderId,
+        stage_id: filterStage !== 'all' ? filterStage : null
+      });
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      alert('Error creating folder. Folder names must be unique within their parent.');
+    }
+  };
+
+  const handleRenameFolder = async (folder: FileFolder) => {
+    const name = prompt('Rename folder', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+
+    try {
+      await renameFolder(folder.id, name);
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      alert('Error renaming folder. Folder names must be unique within their parent.');
+    }
+  };
+
+  const handleDeleteFolder = async (folder: FileFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}"?`)) return;
+
+    try {
+      await deleteFolder(folder.id);
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      alert(error instanceof Error ? error.message : 'Error deleting folder. Please try again.');
+    }
+  };
+
+  // Folder contents (including subfolders) download as a single ZIP
+  const handleDownloadFile = async (fileId: string) => {
+    try {
+      await downloadFile(fileId);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      alert(error instanceof Error ? error.message : 'Error downloading file. Please try again.');
+    }
+  };
+
+  const handleDownloadFolder = async (folder: FileFolder) => {
+    const folderFiles = getFilesInFolderTree(files, projectFolders, folder.id);
+    if (folderFiles.length === 0 || zippingFolderId) return;
+
+    setZippingFolderId(folder.id);
+    try {
+      const archiveName = `${sanitizePathSegment(`${scopedProject?.title || 'project'}-${folder.name}`)}.zip`;
+      const result = await downloadMultipleFiles(folderFiles.map(f => f.id), { archiveName });
+      if (result && result.failed.length > 0) {
+        alert(`${result.failed.length} file(s) could not be downloaded or failed their integrity check. They are listed in manifest.json.`);
       }
-    });
+    } catch (error) {
+      console.error('Error downloading folder:', error);
+      alert('Error downloading folder. Please try again.');
+    } finally {
+      setZippingFolderId(null);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, payload: string) => {
+    e.dataTransfer.setData(DRAG_TYPE, payload);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    if (!canUpload) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = isFileDrag(e.dataTransfer) ? 'copy' : 'move';
+    setDropTargetId(targetId);
+  };
+
+  // targetFolderId null drops onto the project root
+  const handleDrop = async (e: React.DragEvent, targetFolderId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(null);
+    if (!canUpload) return;
+
+    // Files and folders dragged in from the computer upload into the target folder
+    if (isFileDrag(e.dataTransfer)) {
+      handleDroppedFiles(e.dataTransfer, targetFolderId);
+      return;
+    }
+
+    const [kind, id] = e.dataTransfer.getData(DRAG_TYPE).split(':');
+    try {
+      if (kind === 'file' && id) {
+        await moveFileToFolder(id, targetFolderId);
+      } else if (kind === 'folder' && id && id !== targetFolderId) {
+        await moveFolder(id, targetFolderId);
+      }
+    } catch (error) {
+      console.error('Error moving item:', error);
+      alert(error instanceof Error ? error.message : 'Error moving item. Please try again.');
+    }
   };
 
-  const getFileLocation = (file: any) => {
+  const getDropTargetProps = (targetFolderId: string | null) => {
+    const targetKey = targetFolderId || 'root';
+    return {
+      onDragOver: (e: React.DragEvent) => handleDragOver(e, targetKey),
+      onDragLeave: () => setDropTargetId(current => (current === targetKey ? null : current)),
+      onDrop: (e: React.DragEvent) => handleDrop(e, targetFolderId),
+      isDropTarget: dropTargetId === targetKey
+    };
+  };
+
+  // Files dropped anywhere else on the page upload into the open folder
+  const uploadDropProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!canUpload || !isFileDrag(e.dataTransfer)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      setDropTargetId('upload');
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+      setDropTargetId(current => (current === 'upload' ? null : current));
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!isFileDrag(e.dataTransfer)) return;
+      e.preventDefault();
+      setDropTargetId(null);
+      if (canUpload) handleDroppedFiles(e.dataTransfer, currentFolderId);
+    }
+  };
+
+  const getFileLocation = (file: File) => {
     const project = projects.find(p => p.id === file.project_id);
+    const folderPath = file.folder_id ? formatFolderPath(folders, file.folder_id) : '';
     if (file.stage_id) {
       const stage = stages.find(s => s.id === file.stage_id);
-      return `${project?.title} / ${stage?.name}`;
+      return [project?.title, stage?.name, folderPath].filter(Boolean).join(' / ');
     }
-    return project?.title || 'Unknown Project';
+    return [project?.title || 'Unknown Project', folderPath].filter(Boolean).join(' / ');
+  };
+
+  const renderBreadcrumbs = () => {
+    const { isDropTarget: isRootTarget, ...rootDropProps } = getDropTargetProps(null);
+    return (
+      <nav className="flex items-center flex-wrap text-sm mb-4" aria-label="Folder path">
+        <button
+          onClick={() => setOpenFolderId(null)}
+          {...rootDropProps}
+          className={`px-2 py-1 rounded font-medium ${
+            isRootTarget ? 'bg-blue-100 text-blue-800' : currentFolderId ? 'text-blue-600 hover:text-blue-800' : 'text-gray-900'
+          }`}
+        >
+          {scopedProject?.title || 'All files'}
+        </button>
+        {breadcrumbs.map((folder, index) => {
+          const { isDropTarget, ...dropProps } = getDropTargetProps(folder.id);
+          const isLast = index === breadcrumbs.length - 1;
+          return (
+            <React.Fragment key={folder.id}>
+              <ChevronRight className="w-4 h-4 text-gray-400" />
+              <button
+                onClick={() => setOpenFolderId(folder.id)}
+                {...(isLast ? {} : dropProps)}
+                className={`px-2 py-1 rounded font-medium ${
+                  isDropTarget ? 'bg-blue-100 text-blue-800' : isLast ? 'text-gray-900' : 'text-blue-600 hover:text-blue-800'
+                }`}
+              >
+                {folder.name}
+              </button>
+            </React.Fragment>
+          );
+        })}
+      </nav>
+    );
+  };
+
+  const renderFolderCard = (folder: FileFolder) => {
+    const { isDropTarget, ...dropProps } = getDropTargetProps(folder.id);
+    const fileCount = getFilesInFolderTree(files, projectFolders, folder.id).length;
+    const stage = folder.stage_id ? stages.find(s => s.id === folder.stage_id) : undefined;
+    return (
+      <div
+        key={folder.id}
+        draggable={canUpload}
+        onDragStart={(e) => handleDragStart(e, `folder:${folder.id}`)}
+        {...dropProps}
+        onDoubleClick={() => setOpenFolderId(folder.id)}
+        className={`bg-white border rounded-lg p-4 hover:shadow-md transition-shadow ${
+          isDropTarget ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+        }`}
+      >
+        <div className="flex items-start justify-between">
+          <button
+            onClick={() => setOpenFolderId(folder.id)}
+            className="flex items-center space-x-2 min-w-0 text-left"
+            title="Open folder"
+          >
+            <Folder className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+            <span className="font-medium text-gray-900 truncate hover:text-blue-600">{folder.name}</span>
+          </button>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            {fileCount > 0 && (
+              <button
+                onClick={() => handleDownloadFolder(folder)}
+                disabled={!!zippingFolderId}
+                className={`text-blue-600 hover:text-blue-800 disabled:opacity-50 transition-colors ${zippingFolderId === folder.id ? 'animate-pulse' : ''}`}
+                title="Download folder as ZIP"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            )}
+            {canShareProject && (
+              <button
+                onClick={() => setShareTarget({ projectId: folder.project_id, folder })}
+                className="text-gray-500 hover:text-gray-800 transition-colors"
+                title="Share folder"
+              >
+                <Link2 className="w-4 h-4" />
+              </button>
+            )}
+            {canUpload && (
+              <>
+                <button
+                  onClick={() => handleRenameFolder(folder)}
+                  className="text-gray-500 hover:text-gray-800 transition-colors"
+                  title="Rename folder"
+                >
+                  <Edit3 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDeleteFolder(folder)}
+                  className="text-gray-500 hover:text-red-600 transition-colors"
+                  title="Delete folder"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          {fileCount} {fileCount === 1 ? 'file' : 'files'}
+          {stage && ` • ${stage.name}`}
+        </p>
+      </div>
+    );
   };
 
   return (
-    <div className="p-6">
+    <div
+      {...uploadDropProps}
+      className={`p-6 min-h-full transition-colors ${dropTargetId === 'upload' ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''}`}
+    >
       <div className="flex justify-between items-center mb-6">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Shared Storage</h2>
-          <p className="text-gray-600">All project files and documents in one place</p>
+          <p className="text-gray-600">
+            All project files and documents in one place{canUpload && ' • drop files or folders here to upload'}
+          </p>
         </div>
-        {user?.role !== 'client' && (
-          <label className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer flex items-center space-x-2">
-            <Upload className="w-4 h-4" />
-            <span>Upload Files</span>
-            <input
-              type="file"
-              multiple
-              className="hidden"
-              onChange={(e) => handleFileUpload(e.target.files, projectId || projects[0]?.id || '')}
-            />
-          </label>
+        {(canUpload || canShareProject) && (
+          <div className="flex items-center space-x-3">
+            {canShareProject && (
+              <button
+                onClick={() => setShowShareLinks(true)}
+                className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                <Link2 className="w-4 h-4" />
+                <span>Share Links</span>
+              </button>
+            )}
+            {canUpload && showFolders && (
+              <button
+                onClick={handleCreateFolder}
+                className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                <FolderPlus className="w-4 h-4" />
+                <span>New Folder</span>
+              </button>
+            )}
+            {canUpload && (
+              <label className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer flex items-center space-x-2">
+                <Upload className="w-4 h-4" />
+                <span>Upload Files</span>
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFileUpload(e.target.files, getDefaultUploadProjectId());
+                    // Lets the same files be picked again after a failed upload is removed
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+          </div>
         )}
       </div>
 
+      {projectQuota && (
+        <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-medium text-gray-900">Project Storage</span>
+            <span className={projectQuotaLevel === 'exceeded' ? 'text-red-600' : projectQuotaLevel === 'warning' ? 'text-yellow-700' : 'text-gray-600'}>
+              {formatFileSize(projectStoredBytes)} of {formatFileSize(projectQuota.quota_bytes)} used
+              {projectQuotaLevel === 'exceeded' && ' • quota reached, uploads are blocked'}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${projectQuotaLevel === 'exceeded' ? 'bg-red-500' : projectQuotaLevel === 'warning' ? 'bg-yellow-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min(100, (projectStoredBytes / projectQuota.quota_bytes) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <UploadQueue
+        items={uploadQueue.items}
+        onPause={uploadQueue.pause}
+        onResume={uploadQueue.resume}
+        onRetry={uploadQueue.retry}
+        onRemove={uploadQueue.remove}
+        onClearFinished={uploadQueue.clearFinished}
+      />
+
       {/* Filters */}
-      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className={`mb-6 grid grid-cols-1 gap-4 ${showFolders ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
           <input
             type="text"
-            placeholder="Search files..."
+            placeholder={showFolders ? 'Search all folders...' : 'Search files...'}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
-        
+
         <select
           value={filterType}
           onChange={(e) => setFilterType(e.target.value)}
@@ -149,29 +620,76 @@ export function StorageManager({ projectId }: StorageManagerProps) {
             <option key={uploader} value={uploader}>{uploader}</option>
           ))}
         </select>
+
+        {showFolders && (
+          <select
+            value={filterStage}
+            onChange={(e) => setFilterStage(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All Stages</option>
+            {projectStages.map(stage => (
+              <option key={stage.id} value={stage.id}>{stage.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
-      {/* Files Grid */}
+      {showFolders && !isSearching && renderBreadcrumbs()}
+
+      {/* Folders and Files Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {visibleFolders.map(renderFolderCard)}
         {filteredFiles.map(file => (
-          <div key={file.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+          <div
+            key={file.id}
+            id={`file-${file.id}`}
+            draggable={showFolders && canUpload}
+            onDragStart={(e) => handleDragStart(e, `file:${file.id}`)}
+            className={`bg-white border rounded-lg p-4 hover:shadow-md transition-shadow ${
+              file.id === selectedFileId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+            }`}
+          >
             <div className="flex items-start justify-between mb-3">
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2 min-w-0">
                 {getFileIcon(file.file_type)}
-                <span className="font-medium text-gray-900 truncate">{file.filename}</span>
+                {onSelectFile ? (
+                  <button
+                    onClick={() => onSelectFile(file.id)}
+                    className="font-medium text-gray-900 truncate hover:text-blue-600 text-left"
+                    title="Open link to this file"
+                  >
+                    {file.filename}
+                  </button>
+                ) : (
+                  <span className="font-medium text-gray-900 truncate">{file.filename}</span>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => setHistoryFileId(file.id)}
+                  className="text-gray-500 hover:text-gray-800 transition-colors"
+                  title="Version history"
+                >
+                  <History className="w-4 h-4" />
+                </button>
+                {canShareFile(file) && (
+                  <button
+                    onClick={() => setShareTarget({ projectId: file.project_id, file })}
+                    className="text-gray-500 hover:text-gray-800 transition-colors"
+                    title="Share file"
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDownloadFile(file.id)}
+                  className="text-blue-600 hover:text-blue-800 transition-colors"
+                  title="Download file"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
               </div>
-              <button
-                onClick={() => {
-                  const link = document.createElement('a');
-                  link.href = file.file_url;
-                  link.download = file.filename;
-                  link.click();
-                }}
-                className="text-blue-600 hover:text-blue-800 transition-colors"
-                title="Download file"
-              >
-                <Download className="w-4 h-4" />
-              </button>
             </div>
 
             <div className="space-y-2 text-sm text-gray-600">
@@ -185,6 +703,16 @@ export function StorageManager({ projectId }: StorageManagerProps) {
               <div>
                 <strong>Uploaded by:</strong> {file.uploader_name}
               </div>
+              {file.current_version > 1 && (
+                <div>
+                  <strong>Version:</strong> {file.current_version}
+                </div>
+              )}
+              {file.archived_at && (
+                <div>
+                  <strong>Archived:</strong> {new Date(file.archived_at).toLocaleDateString()}
+                </div>
+              )}
               <div>
                 <strong>Date:</strong> {new Date(file.timestamp).toLocaleDateString()}
               </div>
@@ -193,15 +721,45 @@ export function StorageManager({ projectId }: StorageManagerProps) {
         ))}
       </div>
 
-      {filteredFiles.length === 0 && (
+      {filteredFiles.length === 0 && visibleFolders.length === 0 && (
         <div className="text-center py-12">
           <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-            <FileText className="w-12 h-12 text-gray-400" />
+            {currentFolder && !isSearching ? (
+              <Folder className="w-12 h-12 text-gray-400" />
+            ) : (
+              <FileText className="w-12 h-12 text-gray-400" />
+            )}
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No files found</h3>
-          <p className="text-gray-600">Try adjusting your search or filter criteria</p>
+          {currentFolder && !isSearching ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">This folder is empty</h3>
+              <p className="text-gray-600">Upload files here or drag them in from another folder</p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No files found</h3>
+              <p className="text-gray-600">Try adjusting your search or filter criteria</p>
+            </>
+          )}
         </div>
       )}
+
+      {historyFile && (
+        <FileVersionHistory file={historyFile} onClose={() => setHistoryFileId(null)} />
+      )}
+
+      {shareTarget && (
+        <ShareLinkDialog
+          projectId={shareTarget.projectId}
+          file={shareTarget.file}
+          folder={shareTarget.folder}
+          onClose={() => setShareTarget(null)}
+        />
+      )}
+
+      {showShareLinks && projectId && (
+        <ShareLinksPanel projectId={projectId} onClose={() => setShowShareLinks(false)} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
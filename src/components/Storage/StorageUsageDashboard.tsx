@@ -0,0 +1,352 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useData } from '../../context/DataContext';
+import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
+import { projectFilePath } from '../../utils/routes';
+import { BYTES_PER_GB, QuotaLevel, findQuota, getClientStoredBytes, getProjectStoredBytes, getQuotaLevel } from '../../utils/storageQuota';
+import { File, StorageQuota } from '../../types';
+import { RetentionPolicies } from './RetentionPolicies';
+import { AlertTriangle, Edit3, ExternalLink, FileText, HardDrive, PieChart } from 'lucide-react';
+
+type CleanupList = 'largest' | 'oldest' | 'never';
+
+const CLEANUP_LIST_SIZE = 20;
+
+const CLEANUP_TABS: { id: CleanupList; label: string }[] = [
+  { id: 'largest', label: 'Largest' },
+  { id: 'oldest', label: 'Oldest' },
+  { id: 'never', label: 'Never Downloaded' }
+];
+
+const LEVEL_STYLES: Record<QuotaLevel, string> = {
+  none: 'bg-blue-500',
+  ok: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  exceeded: 'bg-red-500'
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Stored bytes per project and client against their quotas, plus cleanup candidates
+export function StorageUsageDashboard() {
+  const { user } = useAuth();
+  const { files, projects, users, storageQuotas, storageUsage, setStorageQuota } = useData();
+  const navigate = useNavigate();
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [cleanupList, setCleanupList] = useState<CleanupList>('largest');
+
+  const canManageQuotas = can(user, 'storage.manage');
+
+  const projectRows = useMemo(() => projects
+    .map(project => {
+      const usage = storageUsage.find(entry => entry.project_id === project.id);
+      const storedBytes = getProjectStoredBytes(project.id, storageUsage, files);
+      const quota = findQuota(storageQuotas, 'project', project.id);
+      return {
+        project,
+        clientName: users.find(u => u.id === project.client_id)?.name || project.client_name || '—',
+        fileCount: usage?.file_count ?? files.filter(f => f.project_id === project.id).length,
+        storedBytes,
+        quota,
+        level: getQuotaLevel(storedBytes, quota)
+      };
+    })
+    .sort((a, b) => b.storedBytes - a.storedBytes), [projects, users, files, storageUsage, storageQuotas]);
+
+  const clientRows = useMemo(() => users
+    .filter(u => u.role === 'client')
+    .map(client => {
+      const storedBytes = getClientStoredBytes(client.id, projects, storageUsage, files);
+      const quota = findQuota(storageQuotas, 'client', client.id);
+      return {
+        client,
+        projectCount: projects.filter(p => p.client_id === client.id).length,
+        storedBytes,
+        quota,
+        level: getQuotaLevel(storedBytes, quota)
+      };
+    })
+    .sort((a, b) => b.storedBytes - a.storedBytes), [users, projects, files, storageUsage, storageQuotas]);
+
+  const scopedFiles = projectFilter === 'all' ? files : files.filter(f => f.project_id === projectFilter);
+
+  const breakdown = (getKey: (file: File) => string) => {
+    const totals = new Map<string, { count: number; bytes: number }>();
+    scopedFiles.forEach(file => {
+      const key = getKey(file);
+      const entry = totals.get(key) || { count: 0, bytes: 0 };
+      entry.count++;
+      entry.bytes += file.size || 0;
+      totals.set(key, entry);
+    });
+    return [...totals.entries()].map(([key, entry]) => ({ key, ...entry })).sort((a, b) => b.bytes - a.bytes);
+  };
+  const byCategory = breakdown(file => file.category || 'other');
+  const byFileType = breakdown(file => file.file_type || 'unknown');
+  const scopedBytes = scopedFiles.reduce((sum, file) => sum + (file.size || 0), 0);
+
+  const cleanupFiles = (() => {
+    switch (cleanupList) {
+      case 'largest':
+        return [...scopedFiles].sort((a, b) => b.size - a.size);
+      case 'oldest':
+        return [...scopedFiles].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      default:
+        return scopedFiles.filter(file => !file.download_count).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+  })().slice(0, CLEANUP_LIST_SIZE);
+
+  const totalStored = projectRows.reduce((sum, row) => sum + row.storedBytes, 0);
+  const overQuota = [...projectRows, ...clientRows].filter(row => row.level === 'exceeded').length;
+  const nearQuota = [...projectRows, ...clientRows].filter(row => row.level === 'warning').length;
+
+  const handleEditQuota = async (scope: StorageQuota['scope'], targetId: string, name: string, quota?: StorageQuota) => {
+    const current = quota ? String(+(quota.quota_bytes / BYTES_PER_GB).toFixed(2)) : '';
+    const input = prompt(`Storage quota for ${name} in GB (leave empty for no quota):`, current);
+    if (input === null) return;
+
+    const gigabytes = input.trim() === '' ? null : Number(input);
+    if (gigabytes !== null && !(gigabytes > 0)) {
+      alert('Enter a positive number of GB, or leave it empty to remove the quota.');
+      return;
+    }
+
+    try {
+      await setStorageQuota(scope, targetId, gigabytes === null ? null : Math.round(gigabytes * BYTES_PER_GB));
+    } catch (error) {
+      console.error('Error updating storage quota:', error);
+      alert('Error updating storage quota. Please try again.');
+    }
+  };
+
+  const renderUsageBar = (storedBytes: number, quota: StorageQuota | undefined, level: QuotaLevel) => (
+    <div className="min-w-[10rem]">
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{formatFileSize(storedBytes)}</span>
+        <span>{quota ? `of ${formatFileSize(quota.quota_bytes)}` : 'No quota'}</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${LEVEL_STYLES[level]}`}
+          style={{ width: `${quota ? Math.min(100, (storedBytes / quota.quota_bytes) * 100) : totalStored ? (storedBytes / totalStored) * 100 : 0}%` }}
+        />
+      </div>
+    </div>
+  );
+
+  const renderBreakdown = (title: string, rows: { key: string; count: number; bytes: number }[]) => (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <h3 className="px-6 py-4 border-b border-gray-200 font-semibold text-gray-900">{title}</h3>
+      <ul className="p-6 space-y-3 max-h-80 overflow-y-auto">
+        {rows.map(row => (
+          <li key={row.key}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="font-medium text-gray-900 truncate">{row.key}</span>
+              <span className="text-gray-600 flex-shrink-0 ml-4">{row.count} • {formatFileSize(row.bytes)}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="h-2 rounded-full bg-blue-500" style={{ width: `${scopedBytes ? (row.bytes / scopedBytes) * 100 : 0}%` }} />
+            </div>
+          </li>
+        ))}
+        {rows.length === 0 && <li className="text-center text-gray-500 py-4">No files</li>}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Storage Usage</h2>
+        <p className="text-gray-600">Space used by each project and client, including older file versions</p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total Stored</p>
+              <p className="text-3xl font-bold text-gray-900">{formatFileSize(totalStored)}</p>
+            </div>
+            <HardDrive className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Files</p>
+              <p className="text-3xl font-bold text-purple-600">{files.length}</p>
+            </div>
+            <FileText className="w-8 h-8 text-purple-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Near Quota</p>
+              <p className="text-3xl font-bold text-yellow-600">{nearQuota}</p>
+            </div>
+            <PieChart className="w-8 h-8 text-yellow-600" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Over Quota</p>
+              <p className="text-3xl font-bold text-red-600">{overQuota}</p>
+            </div>
+            <AlertTriangle className="w-8 h-8 text-red-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Per-project and per-client totals */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="px-6 py-4 border-b border-gray-200 font-semibold text-gray-900">Projects</h3>
+          <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+            {projectRows.map(row => (
+              <li key={row.project.id} className="px-6 py-3 flex items-center justify-between space-x-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{row.project.title}</p>
+                  <p className="text-xs text-gray-500">{row.clientName} • {row.fileCount} {row.fileCount === 1 ? 'file' : 'files'}</p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  {renderUsageBar(row.storedBytes, row.quota, row.level)}
+                  {canManageQuotas && (
+                    <button
+                      onClick={() => handleEditQuota('project', row.project.id, row.project.title, row.quota)}
+                      className="text-gray-500 hover:text-gray-800 transition-colors"
+                      title="Set quota"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="px-6 py-4 border-b border-gray-200 font-semibold text-gray-900">Clients</h3>
+          <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+            {clientRows.map(row => (
+              <li key={row.client.id} className="px-6 py-3 flex items-center justify-between space-x-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{row.client.name}</p>
+                  <p className="text-xs text-gray-500">{row.projectCount} {row.projectCount === 1 ? 'project' : 'projects'}</p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  {renderUsageBar(row.storedBytes, row.quota, row.level)}
+                  {canManageQuotas && (
+                    <button
+                      onClick={() => handleEditQuota('client', row.client.id, row.client.name, row.quota)}
+                      className="text-gray-500 hover:text-gray-800 transition-colors"
+                      title="Set quota"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+            {clientRows.length === 0 && <li className="text-center text-gray-500 py-8">No clients</li>}
+          </ul>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Current Files</h3>
+        <select
+          value={projectFilter}
+          onChange={(e) => setProjectFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="all">All Projects</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.title}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {renderBreakdown('By Category', byCategory)}
+        {renderBreakdown('By File Type', byFileType)}
+      </div>
+
+      {/* Cleanup candidates */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Cleanup Candidates</h3>
+          <div className="flex space-x-2">
+            {CLEANUP_TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setCleanupList(tab.id)}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  cleanupList === tab.id ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uploaded</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Downloads</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {cleanupFiles.map(file => (
+                <tr key={file.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{file.filename}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {projects.find(p => p.id === file.project_id)?.title || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{formatFileSize(file.size)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(file.timestamp).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {file.download_count}
+                    {file.last_downloaded && ` • last ${new Date(file.last_downloaded).toLocaleDateString()}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => navigate(projectFilePath(file.project_id, file.id))}
+                      className="text-blue-600 hover:text-blue-800 transition-colors"
+                      title="Open in project storage"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {cleanupFiles.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No files to show</p>
+        )}
+      </div>
+
+      {canManageQuotas && <RetentionPolicies />}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { UploadQueueItem, UploadStatus } from '../../hooks/useUploadQueue';
+import { AlertCircle, CheckCircle, Pause, Play, RotateCcw, Upload, X } from 'lucide-react';
+
+interface UploadQueueProps {
+  items: UploadQueueItem<unknown>[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  done: 'Uploaded',
+  error: 'Failed'
+};
+
+const BAR_STYLES: Record<UploadStatus, string> = {
+  queued: 'bg-gray-400',
+  uploading: 'bg-blue-600',
+  paused: 'bg-yellow-500',
+  done: 'bg-green-500',
+  error: 'bg-red-500'
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export function UploadQueue({ items, onPause, onResume, onRetry, onRemove, onClearFinished }: UploadQueueProps) {
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'error').length;
+  const totalBytes = items.reduce((sum, item) => sum + item.file.size, 0);
+  const uploadedBytes = items.reduce((sum, item) => sum + Math.min(item.uploadedBytes, item.file.size), 0);
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Upload className="w-4 h-4 text-blue-600" />
+          <span className="font-medium text-gray-900">Uploads</span>
+          <span className="text-sm text-gray-600">
+            {doneCount} of {items.length} done{failedCount > 0 && `, ${failedCount} failed`} • {formatFileSize(uploadedBytes)} of {formatFileSize(totalBytes)}
+          </span>
+        </div>
+        {doneCount > 0 && (
+          <button onClick={onClearFinished} className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200 max-h-72 overflow-y-auto">
+        {items.map(item => {
+          const percent = item.file.size > 0 ? Math.round((Math.min(item.uploadedBytes, item.file.size) / item.file.size) * 100) : 100;
+          return (
+            <li key={item.id} className="px-4 py-3">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center space-x-2 min-w-0">
+                  {item.status === 'done' && <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />}
+                  {item.status === 'error' && <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                  <span className="text-sm font-medium text-gray-900 truncate" title={item.relativePath}>{item.relativePath}</span>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                  <span className="text-xs text-gray-500">
+                    {STATUS_LABELS[item.status]} • {item.status === 'done' ? formatFileSize(item.file.size) : `${percent}% of ${formatFileSize(item.file.size)}`}
+                  </span>
+                  {(item.status === 'uploading' || item.status === 'queued') && (
+                    <button onClick={() => onPause(item.id)} className="text-gray-500 hover:text-gray-800 transition-colors" title="Pause">
+                      <Pause className="w-4 h-4" />
+                    </button>
+                  )}
+                  {item.status === 'paused' && (
+                    <button onClick={() => onResume(item.id)} className="text-blue-600 hover:text-blue-800 transition-colors" title="Resume">
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                  {item.status === 'error' && (
+                    <button onClick={() => onRetry(item.id)} className="text-blue-600 hover:text-blue-800 transition-colors" title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => onRemove(item.id)} className="text-gray-400 hover:text-gray-600 transition-colors" title={item.status === 'done' ? 'Dismiss' : 'Cancel'}>
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div className={`h-1.5 rounded-full transition-all duration-300 ${BAR_STYLES[item.status]}`} style={{ width: `${percent}%` }} />
+              </div>
+              {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { CommentTask } from '../../types';
 import { useAuth } from '../../context/AuthContext';
 import { useData } from '../../context/DataContext';
+import { can } from '../../utils/permissions';
 import { CheckCircle, Clock, Play, User, Calendar } from 'lucide-react';
 
 interface TaskCardProps {
@@ -34,16 +35,22 @@ export function TaskCard({ task, showProject = false }: TaskCardProps) {
       case 'manager': return 'bg-blue-100 text-blue-800';
       case 'employee': return 'bg-green-100 text-green-800';
       case 'client': return 'bg-red-100 text-red-800';
+      case 'team_lead': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const canUpdateStatus = user?.role === 'employee' || user?.role === 'manager';
   const project = projects.find(p => p.id === task.project_id);
+  const canUpdateStatus = !!project && can(user, 'task.updateStatus', project);
 
-  const handleStatusChange = (newStatus: 'open' | 'in-progress' | 'done') => {
+  const handleStatusChange = async (newStatus: 'open' | 'in-progress' | 'done') => {
     if (canUpdateStatus) {
-      updateCommentTaskStatus(task.id, newStatus);
+      try {
+        await updateCommentTaskStatus(task.id, newStatus);
+      } catch (error) {
+        console.error('Error updating task status:', error);
+        alert('Error updating task status. Please try again.');
+      }
     }
   };
 
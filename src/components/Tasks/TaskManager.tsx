@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useData } from '../../context/DataContext';
 import { useAuth } from '../../context/AuthContext';
+import { can } from '../../utils/permissions';
 import { Project, Task, User } from '../../types';
 import { 
   Plus, 
@@ -23,6 +24,7 @@ interface TaskManagerProps {
 export function TaskManager({ project }: TaskManagerProps) {
   const { user } = useAuth();
   const { tasks, users, createTask, updateTask, deleteTask } = useData();
+  const canManageTasks = can(user, 'task.manage', project);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -182,7 +184,7 @@ export function TaskManager({ project }: TaskManagerProps) {
           <h3 className="text-xl font-semibold text-gray-900">Project Tasks</h3>
           <p className="text-gray-600">Manage and assign tasks for {project.title}</p>
         </div>
-        {user?.role === 'manager' && (
+        {canManageTasks && (
           <button
             onClick={() => {
               setEditingTask(null);
@@ -253,7 +255,7 @@ export function TaskManager({ project }: TaskManagerProps) {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deadline</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
-                {user?.role === 'manager' && (
+                {canManageTasks && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 )}
               </tr>
@@ -297,7 +299,7 @@ export function TaskManager({ project }: TaskManagerProps) {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                     {new Date(task.created_at).toLocaleDateString()}
                   </td>
-                  {user?.role === 'manager' && (
+                  {canManageTasks && (
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex items-center space-x-2">
                         <button
@@ -331,7 +333,7 @@ export function TaskManager({ project }: TaskManagerProps) {
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">No tasks found</h3>
           <p className="text-gray-600">
-            {user?.role === 'manager' 
+            {canManageTasks
               ? 'Create your first task to get started'
               : 'No tasks have been assigned yet'
             }
@@ -1,13 +1,18 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User } from '../types';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, User as AuthUser } from '@supabase/supabase-js';
 import { supabase as externalSupabase } from '../superBaseClient';
 
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
   isAuthenticated: boolean;
+  isLoading: boolean;
+  // Invited users and password recovery links must set a new password before using the app
+  passwordChangeRequired: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -23,14 +28,121 @@ if (!supabase && supabaseUrl && supabaseAnonKey) {
   supabase = createClient(supabaseUrl, supabaseAnonKey);
 }
 
+// Previous builds cached the signed-in user here; it is no longer trusted
+const LEGACY_USER_STORAGE_KEY = 'xeetrack_user';
+
+// Fetch the profile (and therefore the role) for an authenticated user from the server
+const fetchProfileUser = async (authUser: AuthUser): Promise<User> => {
+  if (!supabase) {
+    throw new Error('Supabase is not configured. Add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, role, email, must_change_password, client_id')
+    .eq('id', authUser.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Could not load your profile');
+  }
+  if (!profile) {
+    throw new Error('No profile exists for this account. Please contact your administrator.');
+  }
+
+  return {
+    id: authUser.id,
+    name: profile.full_name || authUser.email || 'User',
+    email: profile.email || authUser.email || '',
+    role: profile.role as User['role'],
+    must_change_password: !!profile.must_change_password,
+    client_id: profile.client_id || undefined
+  };
+};
+
+// Token refreshes and tab refocuses re-fetch the same profile; keeping the existing
+// object stops everything keyed on `user` (data loads, realtime) from re-running
+const isSameUser = (a: User | null, b: User) =>
+  !!a &&
+  a.id === b.id &&
+  a.role === b.role &&
+  a.name === b.name &&
+  a.email === b.email &&
+  !!a.must_change_password === !!b.must_change_password &&
+  a.client_id === b.client_id;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+
+  const applyProfileUser = (profileUser: User) =>
+    setUser(current => (isSameUser(current, profileUser) ? current : profileUser));
 
+  // Restore the session from Supabase and follow sign-in, refresh and sign-out events (including other tabs)
   useEffect(() => {
-    const savedUser = localStorage.getItem('xeetrack_user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
+    localStorage.removeItem(LEGACY_USER_STORAGE_KEY);
+
+    if (!supabase) {
+      setIsLoading(false);
+      return;
     }
+    const client = supabase;
+    let cancelled = false;
+
+    const applyAuthUser = async (authUser: AuthUser | null) => {
+      if (!authUser) {
+        if (!cancelled) setUser(null);
+        return;
+      }
+
+      try {
+        const profileUser = await fetchProfileUser(authUser);
+        if (!cancelled) applyProfileUser(profileUser);
+      } catch (error) {
+        // Without a server-side profile there is no trusted role, so stay signed out of the app
+        console.error('Error restoring user profile:', error);
+        if (!cancelled) setUser(null);
+      }
+    };
+
+    client.auth.getSession()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error restoring session:', error);
+        }
+        return applyAuthUser(data.session?.user ?? null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    const { data: { subscription } } = client.auth.onAuthStateChange((event, session) => {
+      console.log('Auth state changed:', event);
+
+      if (event === 'SIGNED_OUT') {
+        setUser(null);
+        setIsPasswordRecovery(false);
+        return;
+      }
+
+      if (event === 'PASSWORD_RECOVERY') {
+        setIsPasswordRecovery(true);
+      }
+
+      // USER_UPDATED is skipped: it follows a password change, which updatePassword applies itself
+      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'PASSWORD_RECOVERY') {
+        // Defer Supabase calls out of the auth callback to avoid blocking the auth lock
+        setTimeout(() => {
+          applyAuthUser(session?.user ?? null);
+        }, 0);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
   }, []);
 
   const login = async (email: string, password: string): Promise<boolean> => {
@@ -67,26 +179,62 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error(error.message || 'Invalid credentials');
       }
     }
+    if (!data.user) {
+      throw new Error('Login failed');
+    }
     // Fetch profile/role from 'profiles' table
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('id, full_name, role, email')
-      .eq('id', data.user.id)
-      .maybeSingle();
-    const mappedUser: User = {
-      id: data.user.id,
-      name: profile?.full_name || (data.user.email || 'User'),
-      email: profile?.email || data.user.email || '',
-      role: (profile?.role as User['role']) || 'manager'
-    };
-    setUser(mappedUser);
-    localStorage.setItem('xeetrack_user', JSON.stringify(mappedUser));
+    try {
+      applyProfileUser(await fetchProfileUser(data.user));
+    } catch (profileError) {
+      await supabase.auth.signOut({ scope: 'local' });
+      throw profileError;
+    }
     return true;
   };
 
-  const logout = () => {
+  const logout = async () => {
     setUser(null);
-    localStorage.removeItem('xeetrack_user');
+    if (!supabase) return;
+
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  // Email a password reset link; the link signs the user in and opens the set-password screen
+  const requestPasswordReset = async (email: string) => {
+    if (!supabase) {
+      throw new Error('Supabase is not configured. Add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
+    }
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: window.location.origin
+    });
+    if (error) {
+      throw new Error(error.message || 'Could not send the reset email');
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    if (!supabase || !user) {
+      throw new Error('You must be signed in to change your password');
+    }
+
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) {
+      throw new Error(error.message || 'Could not update your password');
+    }
+
+    if (user.must_change_password) {
+      const { error: flagError } = await supabase.rpc('complete_password_change');
+      if (flagError) {
+        console.error('Error clearing password change flag:', flagError);
+      }
+    }
+
+    setIsPasswordRecovery(false);
+    setUser({ ...user, must_change_password: false });
   };
 
   return (
@@ -94,7 +242,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       user,
       login,
       logout,
-      isAuthenticated: !!user
+      requestPasswordReset,
+      updatePassword,
+      isAuthenticated: !!user,
+      isLoading,
+      passwordChangeRequired: !!user && (isPasswordRecovery || !!user.must_change_password)
     }}>
       {children}
     </AuthContext.Provider>
@@ -1,70 +1,116 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { Project, Stage, CommentTask, GlobalComment, File, Task, Meeting, BrochureProject, BrochurePage, PageComment, Lead, STAGE_NAMES, DownloadHistory, User } from '../types';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, Dispatch, SetStateAction } from 'react';
+import { SupabaseClient, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Project, Stage, StageApproval, CommentTask, GlobalComment, File, Task, Meeting, BrochureProject, BrochurePage, PageComment, Lead, Invoice, STAGE_NAMES, DownloadHistory, DuplicateUploadChoice, FileVersion, FileFolder, ShareLink, StorageQuota, ProjectStorageUsage, RetentionRule, RetentionReport, User, InvitableRole, AuditEvent, AuditEventFilters, AuditEntityType, AUDIT_EVENT_LIMIT, DOWNLOAD_HISTORY_LIMIT } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from './AuthContext';
+import { formatFolderPath, getDescendantFolderIds, getFolderPath } from '../utils/folders';
+import { buildZipArchive, dedupePath, downloadZip, sanitizePathSegment, ZipEntrySource, ZipProgress, ZipResult } from '../utils/zip';
+import { can, canOnAllProjects, getBrochurePermissionTarget, getPermissionScope, projectMemberFilter } from '../utils/permissions';
+import { hashSharePassword } from '../utils/shareLinks';
+import { computeSha256, INTEGRITY_CHECK_MAX_BYTES, integrityErrorMessage } from '../utils/fileHash';
+import { uploadResumable } from '../utils/resumableUpload';
+import { buildBrochurePdf, BrochurePdfOptions, BrochurePdfResult, downloadPdf } from '../utils/brochurePdf';
 import { supabase as externalSupabase } from '../superBaseClient';
 
 interface DataContextType {
   projects: Project[];
   stages: Stage[];
+  stageApprovals: StageApproval[];
   commentTasks: CommentTask[];
   globalComments: GlobalComment[];
   users: User[];
   files: File[];
+  folders: FileFolder[];
   tasks: Task[];
   meetings: Meeting[];
   brochureProjects: BrochureProject[];
   brochurePages: BrochurePage[];
   pageComments: PageComment[];
   leads: Lead[];
+  invoices: Invoice[];
   downloadHistory: DownloadHistory[];
+  storageQuotas: StorageQuota[];
+  storageUsage: ProjectStorageUsage[];
   createProject: (project: Omit<Project, 'id' | 'created_at'>) => void;
   updateProject: (id: string, updates: Partial<Project>) => void;
-  addCommentTask: (data: Omit<CommentTask, 'id' | 'timestamp'>) => void;
-  addGlobalComment: (data: { project_id: string; text: string; added_by: string; author_role: string }) => void;
-  updateCommentTaskStatus: (taskId: string, status: 'open' | 'in-progress' | 'done') => void;
-  updateStageApproval: (stageId: string, status: 'approved' | 'rejected', comment?: string) => void;
+  addCommentTask: (data: Omit<CommentTask, 'id' | 'timestamp'>) => Promise<void>;
+  addGlobalComment: (data: { project_id: string; text: string; added_by: string; author_name?: string; author_role: string }) => Promise<void>;
+  updateCommentTaskStatus: (taskId: string, status: 'open' | 'in-progress' | 'done') => Promise<void>;
+  updateStageApproval: (stageId: string, status: 'approved' | 'rejected', comment?: string) => Promise<void>;
   uploadFile: (fileData: Omit<File, 'id' | 'timestamp'>) => void;
-  uploadFileFromInput: (stageId: string, file: globalThis.File, projectId: string, uploaderName: string) => Promise<void>;
+  uploadFileFromInput: (stageId: string, file: globalThis.File, projectId: string, uploaderName: string, folderId?: string | null, options?: UploadFileOptions) => Promise<void>;
   uploadBrochureImage: (file: globalThis.File, projectId: string) => Promise<string>;
-  updateStageProgress: (stageId: string, progress: number) => void;
-  scheduleMeeting: (meeting: Omit<Meeting, 'id'>) => void;
-  createTask: (task: Omit<Task, 'id' | 'created_at'>) => void;
-  updateTaskStatus: (taskId: string, status: 'open' | 'in-progress' | 'done') => void;
+  updateStageProgress: (stageId: string, progress: number) => Promise<void>;
+  scheduleMeeting: (meeting: Omit<Meeting, 'id'>) => Promise<void>;
+  updateMeeting: (id: string, updates: Partial<Meeting>) => Promise<void>;
+  deleteMeeting: (id: string) => Promise<void>;
+  loadMeetings: () => Promise<void>;
+  createTask: (task: Omit<Task, 'id' | 'created_at'>) => Promise<void>;
+  updateTaskStatus: (taskId: string, status: 'open' | 'in-progress' | 'done') => Promise<void>;
   updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
   createBrochureProject: (projectId: string, clientId: string, clientName: string) => Promise<BrochureProject | null>;
-  updateBrochureProject: (id: string, updates: Partial<BrochureProject>) => void;
+  updateBrochureProject: (id: string, updates: Partial<BrochureProject>) => Promise<void>;
+  deleteBrochureProject: (id: string) => Promise<void>;
   deleteBrochurePage: (projectId: string, pageNumber: number) => Promise<void>;
   saveBrochurePage: (pageData: { project_id: string; page_number: number; content: BrochurePage['content']; approval_status?: 'pending' | 'approved' | 'rejected'; is_locked?: boolean }) => Promise<void>;
   getBrochurePages: (projectId: string) => BrochurePage[];
-  addPageComment: (comment: Omit<PageComment, 'id' | 'timestamp'>) => void;
+  exportBrochurePdf: (brochureProjectId: string, options: BrochurePdfOptions) => Promise<BrochurePdfResult>;
+  addPageComment: (comment: Omit<PageComment, 'id' | 'timestamp'>) => Promise<void>;
   getPageComments: (pageId: string) => PageComment[];
-  markCommentDone: (commentId: string) => void;
-  downloadFile: (fileId: string) => void;
-  downloadMultipleFiles: (fileIds: string[]) => void;
+  markCommentDone: (commentId: string) => Promise<void>;
+  downloadFile: (fileId: string) => Promise<void>;
+  getSignedFileUrl: (target: Pick<File, 'file_url' | 'storage_bucket' | 'storage_path'>, options?: { download?: string }) => Promise<string>;
+  downloadMultipleFiles: (fileIds: string[], options?: { archiveName?: string; onProgress?: (progress: ZipProgress) => void }) => Promise<ZipResult | null>;
   getDownloadHistory: () => DownloadHistory[];
+  loadDownloadHistory: () => Promise<void>;
+  loadShareLinks: (projectId: string) => Promise<ShareLink[]>;
+  createShareLink: (link: { project_id: string; file_id?: string; folder_id?: string; label?: string; expires_at: string; password?: string; max_downloads?: number }) => Promise<ShareLink>;
+  revokeShareLink: (link: ShareLink) => Promise<void>;
+  loadStorageUsage: () => Promise<void>;
+  setStorageQuota: (scope: StorageQuota['scope'], targetId: string, quotaBytes: number | null) => Promise<void>;
+  setFileArchived: (file: File, archived: boolean) => Promise<void>;
+  loadRetentionRules: () => Promise<RetentionRule[]>;
+  saveRetentionRule: (rule: Pick<RetentionRule, 'name' | 'action' | 'after_days' | 'project_id' | 'category' | 'enabled'> & { id?: string }) => Promise<RetentionRule>;
+  deleteRetentionRule: (rule: RetentionRule) => Promise<void>;
+  runRetentionRules: (options: { dryRun: boolean; ruleId?: string }) => Promise<RetentionReport>;
   updateFileMetadata: (fileId: string, metadata: Partial<File>) => void;
-  createLead: (lead: Omit<Lead, 'id' | 'created_at' | 'updated_at'>) => void;
-  updateLead: (id: string, updates: Partial<Lead>) => void;
-  deleteLead: (id: string) => void;
-  approveBrochurePage: (pageId: string, status: 'approved' | 'rejected', comment?: string) => void;
+  createLead: (lead: Omit<Lead, 'id' | 'created_at' | 'updated_at' | 'status'> & { status?: Lead['status'] }) => Promise<void>;
+  updateLead: (id: string, updates: Partial<Lead>) => Promise<void>;
+  deleteLead: (id: string) => Promise<void>;
+  convertLeadToClient: (leadId: string, account: { email: string; full_name: string }) => Promise<{ id: string }>;
+  loadLeads: () => Promise<void>;
+  createInvoice: (invoice: Omit<Invoice, 'id' | 'created_at' | 'created_by'>) => Promise<void>;
+  updateInvoice: (id: string, updates: Partial<Invoice>) => Promise<void>;
+  deleteInvoice: (id: string) => Promise<void>;
+  loadInvoices: () => Promise<void>;
+  approveBrochurePage: (pageId: string, status: 'approved' | 'rejected', comment?: string) => Promise<void>;
   getBrochureProjectsForReview: () => BrochureProject[];
-  lockBrochurePage: (pageId: string) => void;
-  unlockBrochurePage: (pageId: string) => void;
-  createUserAccount: (params: { email: string; password: string; full_name: string; role: 'employee' | 'client' }) => Promise<{ id: string } | null>;
+  lockBrochurePage: (pageId: string) => Promise<void>;
+  unlockBrochurePage: (pageId: string) => Promise<void>;
+  createUserAccount: (params: { email: string; full_name: string; role: InvitableRole; client_id?: string }) => Promise<{ id: string }>;
   refreshUsers: () => Promise<void>;
   loadProjects: () => Promise<void>;
+  loadTasks: () => Promise<void>;
+  loadComments: () => Promise<void>;
+  loadStages: () => Promise<void>;
+  loadBrochures: () => Promise<void>;
+  getStageApprovals: (stageId: string) => StageApproval[];
   deleteFile: (fileId: string, storagePath: string) => Promise<void>;
+  loadFileVersions: (fileId: string) => Promise<FileVersion[]>;
+  downloadFileVersion: (version: FileVersion) => Promise<void>;
+  restoreFileVersion: (version: FileVersion) => Promise<void>;
+  createFolder: (folder: { project_id: string; name: string; parent_id?: string | null; stage_id?: string | null }) => Promise<FileFolder>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  moveFolder: (id: string, parentId: string | null) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
+  moveFileToFolder: (fileId: string, folderId: string | null) => Promise<void>;
+  fetchAuditEvents: (filters?: AuditEventFilters) => Promise<AuditEvent[]>;
 }
 
 // Supabase client
 let supabase: SupabaseClient | null = externalSupabase;
 
-// Get Supabase URL for file URLs
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-
 // Mock data (unchanged)
 const mockProjects: Project[] = [
   {
@@ -95,81 +141,6 @@ const mockProjects: Project[] = [
   }
 ];
 
-const mockStages: Stage[] = [
-  {
-    id: '1',
-    project_id: '1',
-    name: 'Planning',
-    notes: 'Project requirements gathering, wireframes, and technical specifications completed',
-    progress_percentage: 100,
-    approval_status: 'approved',
-    files: [],
-    comments: [],
-    order: 0
-  },
-  {
-    id: '2',
-    project_id: '1',
-    name: 'Design',
-    notes: 'UI/UX design mockups and prototypes ready for client review',
-    progress_percentage: 90,
-    approval_status: 'pending',
-    files: [],
-    comments: [],
-    order: 1
-  },
-  {
-    id: '3',
-    project_id: '1',
-    name: 'Development',
-    notes: 'Frontend development in progress, backend API integration started',
-    progress_percentage: 45,
-    approval_status: 'pending',
-    files: [],
-    comments: [],
-    order: 2
-  }
-];
-
-const mockCommentTasks: CommentTask[] = [
-  {
-    id: '1',
-    stage_id: '2',
-    project_id: '1',
-    text: 'Please update the color scheme to match our brand guidelines. The current blue is too dark.',
-    added_by: '3',
-    author_name: 'Priya Sharma',
-    author_role: 'client',
-    status: 'open',
-    assigned_to: '2',
-    timestamp: '2025-01-15T10:30:00Z'
-  },
-  {
-    id: '2',
-    stage_id: '3',
-    project_id: '1',
-    text: 'Need to implement responsive design for mobile devices',
-    added_by: '1',
-    author_name: 'Arjun Singh',
-    author_role: 'manager',
-    status: 'in-progress',
-    assigned_to: '2',
-    deadline: '2025-02-01',
-    timestamp: '2025-01-12T14:20:00Z'
-  },
-  {
-    id: '3',
-    stage_id: '3',
-    project_id: '1',
-    text: 'Database optimization completed, performance improved by 40%',
-    added_by: '2',
-    author_name: 'Rakesh Gupta',
-    author_role: 'employee',
-    status: 'done',
-    timestamp: '2025-01-14T16:45:00Z'
-  }
-];
-
 const mockFiles: File[] = [
   {
     id: '1',
@@ -188,7 +159,8 @@ const mockFiles: File[] = [
     last_downloaded: '2025-01-15T14:30:00Z',
     last_downloaded_by: '2',
     is_archived: false,
-    tags: ['requirements', 'initial', 'specifications']
+    tags: ['requirements', 'initial', 'specifications'],
+    current_version: 1
   },
   {
     id: '2',
@@ -207,19 +179,51 @@ const mockFiles: File[] = [
     last_downloaded: '2025-01-14T16:20:00Z',
     last_downloaded_by: '3',
     is_archived: false,
-    tags: ['design', 'mockups', 'figma']
+    tags: ['design', 'mockups', 'figma'],
+    current_version: 1
   }
 ];
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
+export interface UploadFileOptions {
+  // Same contents already in the project: link to that file, upload a copy, or cancel (default: upload)
+  onDuplicate?: (duplicate: File) => DuplicateUploadChoice | Promise<DuplicateUploadChoice>;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal; // aborting pauses the transfer
+  uploadId?: string; // reuse to resume a paused or failed upload of the same file
+}
+
+// Private bucket for project files; objects live under `<project_id>/` so storage
+// policies can check access to the project
+const PROJECT_FILES_BUCKET = 'project-files';
+// Rows created before the private bucket keep pointing at the legacy bucket
+const LEGACY_FILES_BUCKET = 'files';
+// Signed URLs are generated per preview/download and expire quickly
+const SIGNED_URL_TTL_SECONDS = 300;
+// Uploads go straight to the storage tus endpoint
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
+
+// How long a locally written row is remembered while waiting for its realtime echo
+const LOCAL_WRITE_ECHO_WINDOW_MS = 10000;
+
+// Insert or replace an item by id, keeping the position of existing items
+const mergeById = <T extends { id: string }>(list: T[], item: T, prepend = false) => {
+  if (list.some(existing => existing.id === item.id)) {
+    return list.map(existing => (existing.id === item.id ? item : existing));
+  }
+  return prepend ? [item, ...list] : [...list, item];
+};
+
 export function DataProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [projects, setProjects] = useState<Project[]>(mockProjects);
-  const [stages, setStages] = useState<Stage[]>(mockStages);
-  const [commentTasks, setCommentTasks] = useState<CommentTask[]>(mockCommentTasks);
+  const [stages, setStages] = useState<Stage[]>([]);
+  const [stageApprovals, setStageApprovals] = useState<StageApproval[]>([]);
+  const [commentTasks, setCommentTasks] = useState<CommentTask[]>([]);
   const [globalComments, setGlobalComments] = useState<GlobalComment[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [folders, setFolders] = useState<FileFolder[]>([]);
   const [files, setFiles] = useState<File[]>(mockFiles);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [meetings, setMeetings] = useState<Meeting[]>([]);
@@ -227,8 +231,112 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const [brochurePages, setBrochurePages] = useState<BrochurePage[]>([]);
   const [pageComments, setPageComments] = useState<PageComment[]>([]);
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [downloadHistory, setDownloadHistory] = useState<DownloadHistory[]>([]);
+  const [storageQuotas, setStorageQuotas] = useState<StorageQuota[]>([]);
+  const [storageUsage, setStorageUsage] = useState<ProjectStorageUsage[]>([]);
   const [accessibleProjectIds, setAccessibleProjectIds] = useState<string[] | null>(null);
+  const recentLocalWrites = useRef<Map<string, { row: Record<string, unknown>; expiresAt: number }[]>>(new Map());
+
+  // Remember the rows this client just wrote, as returned by the database, so their
+  // realtime echoes can be recognised by content
+  const trackLocalWrite = (table: string, row: Record<string, unknown>) => {
+    const key = `${table}:${row.id}`;
+    const now = Date.now();
+    const pending = (recentLocalWrites.current.get(key) || []).filter(write => write.expiresAt > now);
+    pending.push({ row, expiresAt: now + LOCAL_WRITE_ECHO_WINDOW_MS });
+    recentLocalWrites.current.set(key, pending);
+  };
+
+  // An UPDATE is only our own echo when it carries exactly a row we wrote. Anything
+  // else, such as another user's edit landing right after ours, is applied.
+  const isOwnEcho = (table: string, row: Record<string, unknown>) => {
+    const key = `${table}:${row.id}`;
+    const now = Date.now();
+    const pending = (recentLocalWrites.current.get(key) || []).filter(write => write.expiresAt > now);
+    const index = pending.findIndex(write =>
+      Object.keys(row).every(column =>
+        !(column in write.row) || JSON.stringify(write.row[column]) === JSON.stringify(row[column])
+      )
+    );
+    if (index >= 0) pending.splice(index, 1);
+    if (pending.length > 0) {
+      recentLocalWrites.current.set(key, pending);
+    } else {
+      recentLocalWrites.current.delete(key);
+    }
+    return index >= 0;
+  };
+
+  // Append an entry to the audit trail for actions that change no table (exports,
+  // integrity failures); data changes are logged by database triggers. Failures are
+  // logged rather than thrown so an action that already succeeded is never reported as failed.
+  const recordAuditEvent = async (event: {
+    action: string;
+    entity_type: AuditEntityType;
+    entity_id?: string;
+    project_id?: string | null;
+    details?: Record<string, unknown>;
+  }) => {
+    if (!supabase || !user) return;
+
+    const { error } = await supabase.from('audit_events').insert({
+      actor_id: user.id,
+      actor_name: user.name,
+      actor_role: user.role,
+      action: event.action,
+      entity_type: event.entity_type,
+      entity_id: event.entity_id || null,
+      project_id: event.project_id || null,
+      details: event.details || {}
+    });
+
+    if (error) {
+      console.error('Error recording audit event:', event.action, error);
+    }
+  };
+
+  // Map a projects row to the Project shape used by the UI
+  const mapProject = (project: Record<string, unknown>): Project => ({
+    id: project.id as string,
+    title: project.title as string,
+    description: project.description as string,
+    client_id: project.client_id as string,
+    client_name: project.client_name as string,
+    deadline: project.deadline as string,
+    progress_percentage: (project.progress_percentage as number) || 0,
+    assigned_employees: (project.assigned_employees as string[]) || [],
+    created_at: project.created_at as string,
+    status: (project.status as Project['status']) || 'active',
+    completed_at: (project.completed_at as string) || undefined,
+    priority: (project.priority as Project['priority']) || 'medium',
+    team_lead_id: (project.team_lead_id as string) || undefined
+  });
+
+  // Budgets live in project_budgets, readable only with budget.view
+  const loadProjectBudgets = async () => {
+    if (!supabase || !user || !getPermissionScope(user, 'budget.view')) return new Map<string, number>();
+
+    const { data, error } = await supabase.from('project_budgets').select('project_id, budget');
+    if (error) {
+      console.error('Error loading project budgets:', error);
+      return new Map<string, number>();
+    }
+    return new Map((data || []).map(row => [row.project_id as string, Number(row.budget)]));
+  };
+
+  // Write, or clear with null, a project's budget
+  const saveProjectBudget = async (projectId: string, budget: number | null) => {
+    if (!supabase) return;
+
+    const { error } = budget == null
+      ? await supabase.from('project_budgets').delete().eq('project_id', projectId)
+      : await supabase.from('project_budgets').upsert({ project_id: projectId, budget }, { onConflict: 'project_id' });
+    if (error) {
+      console.error('Error saving project budget:', error);
+      throw error;
+    }
+  };
 
   // Load projects from database
   const loadProjects = async () => {
@@ -242,16 +350,18 @@ export function DataProvider({ children }: { children: ReactNode }) {
       
       let query = supabase.from('projects').select('*').order('created_at', { ascending: false });
       
-      // Apply role-based filtering
-      if (user.role === 'client') {
-        query = query.eq('client_id', user.id);
-      } else if (user.role === 'employee') {
-        // For employees, we need to check assigned_employees array
-        query = query.contains('assigned_employees', [user.id]);
+      // Apply permission-based filtering; budget-only roles still need the project list
+      const scope = getPermissionScope(user, 'project.view') || getPermissionScope(user, 'budget.view');
+      if (!scope) {
+        setProjects([]);
+        return;
       }
-      // Managers can see all projects (no additional filter)
+      if (scope === 'member') {
+        query = query.or(projectMemberFilter(user));
+      }
+      // Roles with access to all projects see everything (no additional filter)
 
-      const { data, error } = await query;
+      const [{ data, error }, budgets] = await Promise.all([query, loadProjectBudgets()]);
 
       if (error) {
         console.error('Error loading projects:', error);
@@ -260,17 +370,8 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
       if (data) {
         const mappedProjects: Project[] = data.map(project => ({
-          id: project.id,
-          title: project.title,
-          description: project.description,
-          client_id: project.client_id,
-          client_name: project.client_name,
-          deadline: project.deadline,
-          progress_percentage: project.progress_percentage || 0,
-          assigned_employees: project.assigned_employees || [],
-          created_at: project.created_at,
-          status: project.status || 'active',
-          priority: project.priority || 'medium'
+          ...mapProject(project),
+          budget: budgets.get(project.id as string)
         }));
         
         setProjects(mappedProjects);
@@ -306,7 +407,8 @@ export function DataProvider({ children }: { children: ReactNode }) {
           id: profile.id,
           name: profile.full_name || profile.email || 'Unknown User',
           email: profile.email || '',
-          role: profile.role || 'employee'
+          role: profile.role || 'employee',
+          client_id: profile.client_id || undefined
         }));
         
         setUsers(mappedUsers);
@@ -336,7 +438,9 @@ export function DataProvider({ children }: { children: ReactNode }) {
         progress_percentage: project.progress_percentage || 0,
         assigned_employees: project.assigned_employees || [],
         status: project.status || 'active',
-        priority: project.priority || 'medium'
+        priority: project.priority || 'medium',
+        // Team leads own the projects they create
+        team_lead_id: project.team_lead_id || (user.role === 'team_lead' ? user.id : null)
       };
 
       const { data, error } = await supabase
@@ -349,6 +453,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         console.error('Error creating project:', error);
         throw error;
       }
+      if (project.budget != null) await saveProjectBudget(data.id, project.budget);
 
       console.log('Project created successfully:', data.id);
       
@@ -371,22 +476,33 @@ export function DataProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    const previous = projects.find(p => p.id === id);
+
     try {
       console.log('Updating project:', id, updates);
-      
-      const { data, error } = await supabase
-        .from('projects')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
 
-      if (error) {
-        console.error('Error updating project:', error);
-        throw error;
+      // The budget is stored separately and only written when it actually changes
+      const { budget, ...projectUpdates } = updates;
+      if ('budget' in updates && (budget ?? null) !== (previous?.budget ?? null)) {
+        await saveProjectBudget(id, budget ?? null);
+      }
+
+      if (Object.keys(projectUpdates).length > 0) {
+        const { data, error } = await supabase
+          .from('projects')
+          .update(projectUpdates)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error updating project:', error);
+          throw error;
+        }
+        trackLocalWrite('projects', data);
       }
 
-      console.log('Project updated successfully:', data.id);
+      console.log('Project updated successfully:', id);
       
       // Reload projects to update the UI
       await loadProjects();
@@ -397,6 +513,80 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Map a stages row to the Stage shape used by the UI
+  const mapStage = (stage: Record<string, unknown>): Stage => ({
+    id: stage.id as string,
+    project_id: stage.project_id as string,
+    name: stage.name as string,
+    notes: (stage.notes as string) || '',
+    progress_percentage: (stage.progress_percentage as number) || 0,
+    approval_status: (stage.approval_status as Stage['approval_status']) || 'pending',
+    files: [],
+    comments: [],
+    order: (stage.order as number) || 0
+  });
+
+  // Map a stage_approvals row to the StageApproval shape used by the UI
+  const mapStageApproval = (approval: Record<string, unknown>): StageApproval => ({
+    id: approval.id as string,
+    stage_id: approval.stage_id as string,
+    project_id: approval.project_id as string,
+    status: approval.status as StageApproval['status'],
+    comment: (approval.comment as string) || undefined,
+    approved_by: (approval.approved_by as string) || '',
+    approver_name: (approval.approver_name as string) || 'Unknown',
+    approver_role: approval.approver_role as StageApproval['approver_role'],
+    timestamp: approval.timestamp as string
+  });
+
+  // Load stages and their approval history for the projects the user can access
+  const loadStages = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load stages');
+      return;
+    }
+
+    try {
+      const projectIds = (await fetchAccessibleProjectIds()) || [];
+      console.log('Loading stages for projects:', projectIds.length);
+
+      if (projectIds.length === 0) {
+        setStages([]);
+        setStageApprovals([]);
+        return;
+      }
+
+      const [stagesResult, approvalsResult] = await Promise.all([
+        supabase
+          .from('stages')
+          .select('*')
+          .in('project_id', projectIds)
+          .order('order', { ascending: true }),
+        supabase
+          .from('stage_approvals')
+          .select('*')
+          .in('project_id', projectIds)
+          .order('timestamp', { ascending: false })
+      ]);
+
+      if (stagesResult.error) {
+        console.error('Error loading stages:', stagesResult.error);
+      } else if (stagesResult.data) {
+        setStages(stagesResult.data.map(mapStage));
+        console.log('Stages loaded successfully:', stagesResult.data.length);
+      }
+
+      if (approvalsResult.error) {
+        console.error('Error loading stage approvals:', approvalsResult.error);
+      } else if (approvalsResult.data) {
+        setStageApprovals(approvalsResult.data.map(mapStageApproval));
+        console.log('Stage approvals loaded successfully:', approvalsResult.data.length);
+      }
+    } catch (error) {
+      console.error('Error loading stages:', error);
+    }
+  };
+
   // Create default stages for a new project
   const createDefaultStages = async (projectId: string) => {
     if (!supabase) return;
@@ -413,13 +603,15 @@ export function DataProvider({ children }: { children: ReactNode }) {
         order: index
       }));
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('stages')
-        .insert(defaultStages);
+        .insert(defaultStages)
+        .select();
 
       if (error) {
         console.error('Error creating default stages:', error);
       } else {
+        setStages(prev => [...prev, ...(data || []).map(mapStage)]);
         console.log('Default stages created successfully');
       }
     } catch (error) {
@@ -427,6 +619,34 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Map a files row to the File shape used by the UI
+  const mapFile = (file: Record<string, unknown>): File => ({
+    id: file.id as string,
+    stage_id: (file.stage_id as string) || undefined,
+    project_id: file.project_id as string,
+    filename: file.filename as string,
+    file_url: (file.file_url as string) || '',
+    storage_bucket: (file.storage_bucket as string) || undefined,
+    storage_path: (file.storage_path as string) || undefined,
+    uploaded_by: file.uploaded_by as string,
+    uploader_name: (file.uploader_name as string) || 'Unknown',
+    timestamp: file.timestamp as string,
+    size: file.size as number,
+    file_type: file.file_type as string,
+    category: (file.category as File['category']) || undefined,
+    description: (file.description as string) || undefined,
+    download_count: (file.download_count as number) || 0,
+    last_downloaded: (file.last_downloaded as string) || undefined,
+    last_downloaded_by: (file.last_downloaded_by as string) || undefined,
+    is_archived: (file.is_archived as boolean) || false,
+    archived_at: (file.archived_at as string) || undefined,
+    archived_by: (file.archived_by as string) || undefined,
+    tags: (file.tags as string[]) || [],
+    current_version: (file.current_version as number) || 1,
+    folder_id: (file.folder_id as string) || null,
+    content_sha256: (file.content_sha256 as string) || undefined
+  });
+
   // Load files from database
   const loadFiles = async (projectId?: string) => {
     if (!supabase) {
@@ -451,26 +671,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
       }
 
       if (data) {
-        const mappedFiles: File[] = data.map(file => ({
-          id: file.id,
-          stage_id: file.stage_id,
-          project_id: file.project_id,
-          filename: file.filename,
-          file_url: file.file_url,
-          storage_path: file.storage_path,
-          uploaded_by: file.uploaded_by,
-          uploader_name: file.uploader_name || 'Unknown',
-          timestamp: file.timestamp,
-          size: file.size,
-          file_type: file.file_type,
-          category: file.category,
-          description: file.description,
-          download_count: file.download_count || 0,
-          last_downloaded: file.last_downloaded,
-          last_downloaded_by: file.last_downloaded_by,
-          is_archived: file.is_archived || false,
-          tags: file.tags || []
-        }));
+        const mappedFiles: File[] = data.map(mapFile);
         
         setFiles(mappedFiles);
         console.log('Files loaded successfully:', mappedFiles.length);
@@ -480,7 +681,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Compute project IDs the current user can access (role-based)
+  // Compute project IDs the current user can access (from the permission matrix)
   const fetchAccessibleProjectIds = async (): Promise<string[] | null> => {
     if (!supabase || !user) {
       console.warn('Supabase or user not available');
@@ -489,48 +690,49 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
     try {
       console.log('Fetching accessible project IDs for user:', user.id, 'Role:', user.role);
-      if (user.role === 'client') {
-        // Client can access only their projects
-        const { data, error } = await supabase
-          .from('projects')
-          .select('id')
-          .eq('client_id', user.id);
-        if (error) {
-          console.error('Error fetching client-accessible projects:', error);
-          return [];
-        }
-        return (data || []).map((p: any) => p.id as string);
-      } else if (user.role === 'employee') {
-        // Employee can access projects where they are assigned
-        const { data, error } = await supabase
-          .from('project_assignments')
-          .select('project_id')
-          .eq('employee_id', user.id);
-        if (error) {
-          console.error('Error fetching employee-accessible projects:', error);
-          return [];
-        }
-        return (data || []).map((p: any) => p.project_id as string);
-      } else if (user.role === 'manager') {
-        // Manager can access all projects
-        const { data, error } = await supabase
-          .from('projects')
-          .select('id');
-        if (error) {
-          console.error('Error fetching manager-accessible projects:', error);
-          return [];
-        }
-        return (data || []).map((p: any) => p.id as string);
+      const scope = getPermissionScope(user, 'project.view');
+      if (!scope) {
+        return [];
       }
-      return [];
+
+      let query = supabase.from('projects').select('id');
+      if (scope === 'member') {
+        // Members can access projects they lead, are assigned to or are the client of
+        query = query.or(projectMemberFilter(user));
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching accessible projects:', error);
+        return [];
+      }
+      return (data || []).map((p: any) => p.id as string);
     } catch (error) {
       console.error('Error fetching accessible project IDs:', error);
       return [];
     }
   };
 
-  // Upload file from input (modified for Storage Section)
-  const uploadFileFromInput = async (stageId: string, file: globalThis.File, projectId: string, uploaderName: string) => {
+  const getAccessToken = async () => {
+    if (!supabase) return '';
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token || '';
+  };
+
+  // Upload file from input. Re-uploading a filename that already exists in the
+  // same folder adds a new version of that File instead of overwriting its object.
+  // When another file in the project has the same contents, onDuplicate decides
+  // whether to link to its object, upload a copy anyway, or cancel (default: upload).
+  // Bytes go up in resumable chunks; calling again with the same uploadId after a
+  // pause or failure continues from the last stored chunk.
+  const uploadFileFromInput = async (
+    stageId: string,
+    file: globalThis.File,
+    projectId: string,
+    uploaderName: string,
+    folderId: string | null = null,
+    options: UploadFileOptions = {}
+  ) => {
     if (!supabase || !user) {
       console.warn('Supabase or user not available');
       return;
@@ -543,40 +745,184 @@ export function DataProvider({ children }: { children: ReactNode }) {
         throw new Error('Unauthorized access to project');
       }
 
-      // Upload file to Supabase Storage
-      const storagePath = `projects/${projectId}/${file.name}`;
-      console.log('Uploading file to storage:', storagePath);
-      const { data: storageData, error: storageError } = await supabase.storage
+      let existingQuery = supabase
         .from('files')
-        .upload(storagePath, file, { upsert: true });
-      if (storageError) throw storageError;
+        .select('id, current_version, content_sha256')
+        .eq('project_id', projectId)
+        .eq('filename', file.name);
+      existingQuery = folderId ? existingQuery.eq('folder_id', folderId) : existingQuery.is('folder_id', null);
+      const { data: existing, error: existingError } = await existingQuery
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (existingError) throw existingError;
+
+      // Hashed before anything is sent, so duplicates are caught without uploading them.
+      // Very large files would have to be read into memory whole, so they go unhashed.
+      const contentHash = file.size <= INTEGRITY_CHECK_MAX_BYTES ? await computeSha256(file) : null;
+      if (contentHash && existing && existing.content_sha256 === contentHash) {
+        throw new Error(`${file.name} is identical to the current version`);
+      }
 
-      // Save file metadata to database
-      const fileData: Omit<File, 'id' | 'timestamp'> = {
-        stage_id: stageId,
-        project_id: projectId,
-        filename: file.name,
-        file_url: `${supabaseUrl}/storage/v1/object/public/files/${storagePath}`,
-        storage_path: storagePath,
-        uploaded_by: user.id,
-        uploader_name: uploaderName,
-        size: file.size,
-        file_type: file.type,
-        category: file.type.split('/')[0], // e.g., 'image' or 'application'
-        description: '',
-        download_count: 0,
-        last_downloaded: null,
-        last_downloaded_by: null,
-        is_archived: false,
-        tags: []
-      };
+      let duplicate: Record<string, unknown> | null = null;
+      if (contentHash) {
+        let duplicateQuery = supabase
+          .from('files')
+          .select('*')
+          .eq('project_id', projectId)
+          .eq('content_sha256', contentHash);
+        if (existing) duplicateQuery = duplicateQuery.neq('id', existing.id);
+        const { data, error: duplicateError } = await duplicateQuery
+          .order('timestamp', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+        if (duplicateError) throw duplicateError;
+        duplicate = data;
+      }
 
-      const { error: dbError } = await supabase.from('files').insert(fileData);
-      if (dbError) throw dbError;
+      let linkedFile: File | null = null;
+      if (duplicate && options.onDuplicate) {
+        const choice = await options.onDuplicate(mapFile(duplicate));
+        if (choice === 'skip') {
+          console.log('Upload skipped as a duplicate:', file.name);
+          return;
+        }
+        // Rows without a storage object (demo data) can't be shared
+        if (choice === 'link' && duplicate.storage_path) {
+          linkedFile = mapFile(duplicate);
+        }
+      }
+
+      const storageBucket = linkedFile ? linkedFile.storage_bucket || LEGACY_FILES_BUCKET : PROJECT_FILES_BUCKET;
+      // Every version gets its own object so earlier versions stay downloadable
+      const storagePath = linkedFile ? linkedFile.storage_path as string : `${projectId}/${options.uploadId || uuidv4()}/${file.name}`;
+
+      if (!linkedFile) {
+        // Ask before uploading; storage rejects objects over quota as well
+        const { data: quotaError, error: quotaCheckError } = await supabase.rpc('check_storage_quota', {
+          p_project_id: projectId,
+          p_bytes: file.size
+        });
+        if (quotaCheckError) throw quotaCheckError;
+        if (quotaError) throw new Error(quotaError as string);
+
+        console.log('Uploading file to storage:', storagePath);
+        await uploadResumable({
+          supabaseUrl,
+          getAccessToken,
+          bucket: PROJECT_FILES_BUCKET,
+          objectName: storagePath,
+          file,
+          onProgress: options.onProgress,
+          signal: options.signal
+        });
+      } else {
+        console.log('Linking upload to existing object:', linkedFile.filename, storagePath);
+      }
+
+      // The bucket is private; URLs are signed on demand from storage_path
+      const fileUrl = '';
+
+      let fileId = '';
+      let versionNumber = 1;
+      let insertedFileId: string | null = null;
+
+      try {
+        if (existing) {
+          fileId = existing.id as string;
+
+          // Number after the highest version, not the current one, since a restore
+          // may have pointed the file back at an older version
+          const { data: latest, error: latestError } = await supabase
+            .from('file_versions')
+            .select('version_number')
+            .eq('file_id', fileId)
+            .order('version_number', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          if (latestError) throw latestError;
+          versionNumber = ((latest?.version_number as number) || (existing.current_version as number) || 1) + 1;
+        } else {
+          // Save file metadata to database
+          const fileData: Omit<File, 'id' | 'timestamp'> = {
+            stage_id: stageId,
+            project_id: projectId,
+            filename: file.name,
+            file_url: fileUrl,
+            storage_bucket: storageBucket,
+            storage_path: storagePath,
+            uploaded_by: user.id,
+            uploader_name: uploaderName,
+            size: file.size,
+            file_type: file.type,
+            content_sha256: contentHash || undefined,
+            category: file.type.split('/')[0], // e.g., 'image' or 'application'
+            description: '',
+            download_count: 0,
+            last_downloaded: null,
+            last_downloaded_by: null,
+            is_archived: false,
+            tags: [],
+            current_version: versionNumber,
+            folder_id: folderId
+          };
+
+          const { data: inserted, error: dbError } = await supabase.from('files').insert(fileData).select('id').single();
+          if (dbError) throw dbError;
+          fileId = inserted.id;
+          insertedFileId = inserted.id;
+        }
+
+        // The version row goes in before the file is re-pointed, so a version the
+        // database rejects leaves the existing file untouched
+        const { error: versionError } = await supabase.from('file_versions').insert({
+          file_id: fileId,
+          version_number: versionNumber,
+          file_url: fileUrl,
+          storage_bucket: storageBucket,
+          storage_path: storagePath,
+          size: file.size,
+          file_type: file.type,
+          content_sha256: contentHash,
+          uploaded_by: user.id,
+          uploader_name: uploaderName
+        });
+        if (versionError) throw versionError;
+
+        if (existing) {
+          const { error: updateError } = await supabase
+            .from('files')
+            .update({
+              stage_id: stageId,
+              file_url: fileUrl,
+              storage_bucket: storageBucket,
+              storage_path: storagePath,
+              uploaded_by: user.id,
+              uploader_name: uploaderName,
+              size: file.size,
+              file_type: file.type,
+              content_sha256: contentHash,
+              timestamp: new Date().toISOString(),
+              current_version: versionNumber
+            })
+            .eq('id', fileId);
+          if (updateError) throw updateError;
+        }
+      } catch (error) {
+        // Don't leave an orphaned object (or a file without versions) behind
+        if (!linkedFile) {
+          await supabase.storage.from(PROJECT_FILES_BUCKET).remove([storagePath]);
+        }
+        if (insertedFileId) {
+          await supabase.from('files').delete().eq('id', insertedFileId);
+        }
+        throw error;
+      }
 
       // Reload files for the project
       await loadFiles(projectId);
-      console.log('File uploaded successfully:', file.name);
+      loadStorageUsage();
+      console.log('File uploaded successfully:', file.name, 'version', versionNumber);
     } catch (error) {
       console.error('Error uploading file:', error);
       throw error;
@@ -597,14 +943,44 @@ export function DataProvider({ children }: { children: ReactNode }) {
         throw new Error('Unauthorized access to file');
       }
 
+      // Every version has its own object; remove them all along with the current one
+      const { data: versions, error: versionsError } = await supabase
+        .from('file_versions')
+        .select('storage_bucket, storage_path')
+        .eq('file_id', fileId);
+      if (versionsError) throw versionsError;
+
+      // Versions uploaded before the private bucket may sit in the legacy one
+      const pathsByBucket = new Map<string, Set<string>>();
+      [{ storage_bucket: file.storage_bucket, storage_path: storagePath }, ...(versions || [])].forEach(version => {
+        if (!version.storage_path) return;
+        const bucket = (version.storage_bucket as string) || LEGACY_FILES_BUCKET;
+        pathsByBucket.set(bucket, (pathsByBucket.get(bucket) || new Set<string>()).add(version.storage_path as string));
+      });
+
+      // Linked uploads share objects; keep any another file still points at
+      for (const [bucket, paths] of pathsByBucket) {
+        const { data: shared, error: sharedError } = await supabase
+          .from('file_versions')
+          .select('storage_path')
+          .eq('storage_bucket', bucket)
+          .in('storage_path', [...paths])
+          .neq('file_id', fileId);
+        if (sharedError) throw sharedError;
+        (shared || []).forEach(version => paths.delete(version.storage_path as string));
+      }
+
       // Delete from Supabase Storage
-      console.log('Deleting file from storage:', storagePath);
-      const { error: storageError } = await supabase.storage
-        .from('files')
-        .remove([storagePath]);
-      if (storageError) throw storageError;
+      for (const [bucket, paths] of pathsByBucket) {
+        if (paths.size === 0) continue;
+        console.log('Deleting file from storage:', bucket, [...paths]);
+        const { error: storageError } = await supabase.storage
+          .from(bucket)
+          .remove([...paths]);
+        if (storageError) throw storageError;
+      }
 
-      // Delete from database
+      // Delete from database (file_versions rows cascade)
       const { error: dbError } = await supabase
         .from('files')
         .delete()
@@ -613,6 +989,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
       // Update local state
       setFiles(files.filter(f => f.id !== fileId));
+      loadStorageUsage();
       console.log('File deleted successfully:', fileId);
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -620,272 +997,2356 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Placeholder implementations for other context methods
-  const addCommentTask = (data: Omit<CommentTask, 'id' | 'timestamp'>) => {
-    const newTask: CommentTask = {
-      ...data,
-      id: uuidv4(),
-      timestamp: new Date().toISOString()
-    };
-    setCommentTasks(prev => [...prev, newTask]);
-  };
-  
-  const addGlobalComment = (data: { project_id: string; text: string; added_by: string; author_role: string }) => {
-    const newComment: GlobalComment = {
-      id: uuidv4(),
-      project_id: data.project_id,
-      text: data.text,
-      added_by: data.added_by,
-      author_name: user?.name || 'Unknown',
-      author_role: data.author_role as 'manager' | 'employee' | 'client',
-      timestamp: new Date().toISOString()
-    };
-    setGlobalComments(prev => [...prev, newComment]);
-  };
-  
-  const updateCommentTaskStatus = (taskId: string, status: 'open' | 'in-progress' | 'done') => {
-    setCommentTasks(prev => 
-      prev.map(task => 
-        task.id === taskId ? { ...task, status } : task
-      )
-    );
-  };
-  
-  const updateStageApproval = (stageId: string, status: 'approved' | 'rejected', comment?: string) => {
-    setStages(prev => 
-      prev.map(stage => 
-        stage.id === stageId ? { ...stage, approval_status: status } : stage
-      )
-    );
-  };
-  
-  const uploadFile = (fileData: Omit<File, 'id' | 'timestamp'>) => {
-    const newFile: File = {
-      ...fileData,
-      id: uuidv4(),
-      timestamp: new Date().toISOString()
-    };
-    setFiles(prev => [...prev, newFile]);
+  // Short-lived URL for a file or version in its (private) bucket. Rows without a
+  // storage path (demo data) fall back to their stored file_url.
+  const getSignedFileUrl = async (
+    target: Pick<File, 'file_url' | 'storage_bucket' | 'storage_path'>,
+    options: { download?: string } = {}
+  ) => {
+    if (!supabase || !target.storage_path) {
+      return target.file_url;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(target.storage_bucket || LEGACY_FILES_BUCKET)
+      .createSignedUrl(target.storage_path, SIGNED_URL_TTL_SECONDS, options.download ? { download: options.download } : undefined);
+    if (error) {
+      console.error('Error creating signed URL:', error);
+      throw error;
+    }
+
+    return data.signedUrl;
   };
-  
-  const uploadBrochureImage = async (file: globalThis.File, projectId: string) => {
-    if (!supabase) {
-      throw new Error('Supabase not configured');
+
+  // Map a file_versions row to the FileVersion shape used by the UI
+  const mapFileVersion = (version: Record<string, unknown>): FileVersion => ({
+    id: version.id as string,
+    file_id: version.file_id as string,
+    version_number: version.version_number as number,
+    file_url: (version.file_url as string) || '',
+    storage_bucket: (version.storage_bucket as string) || undefined,
+    storage_path: version.storage_path as string,
+    size: (version.size as number) || 0,
+    file_type: (version.file_type as string) || '',
+    content_sha256: (version.content_sha256 as string) || undefined,
+    uploaded_by: (version.uploaded_by as string) || undefined,
+    uploader_name: (version.uploader_name as string) || 'Unknown',
+    created_at: version.created_at as string
+  });
+
+  // Version history of a file, newest first
+  const loadFileVersions = async (fileId: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot load file versions');
     }
 
     try {
-      const fileName = `${Date.now()}-${file.name}`;
-      const storagePath = `brochures/${projectId}/${fileName}`;
-      
-      const { data, error } = await supabase.storage
-        .from('brochure-images')
-        .upload(storagePath, file);
+      const { data, error } = await supabase
+        .from('file_versions')
+        .select('*')
+        .eq('file_id', fileId)
+        .order('version_number', { ascending: false });
+      if (error) {
+        console.error('Error loading file versions:', error);
+        throw error;
+      }
 
-      if (error) throw error;
+      return (data || []).map(mapFileVersion);
+    } catch (error) {
+      console.error('Error loading file versions:', error);
+      throw error;
+    }
+  };
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('brochure-images')
-        .getPublicUrl(storagePath);
+  const downloadFileVersion = async (version: FileVersion) => {
+    const file = files.find(f => f.id === version.file_id);
+    const filename = file?.filename || version.storage_path.split('/').pop() || 'download';
 
-      return publicUrl;
+    try {
+      if (file) {
+        await saveDownload(version, filename, { file_id: file.id, project_id: file.project_id, version: version.version_number });
+      } else {
+        const link = document.createElement('a');
+        link.href = await getSignedFileUrl(version, { download: filename });
+        link.download = filename;
+        link.click();
+      }
     } catch (error) {
-      console.error('Error uploading brochure image:', error);
+      console.error('Error downloading file version:', error);
       throw error;
     }
+
+    if (file) {
+      recordDownloads([{ ...file, size: version.size }]);
+    }
   };
-  
-  const updateStageProgress = (stageId: string, progress: number) => {
-    setStages(prev => 
-      prev.map(stage => 
-        stage.id === stageId ? { ...stage, progress_percentage: progress } : stage
-      )
-    );
+
+  // Point the file back at an earlier version; later versions stay in the history
+  const restoreFileVersion = async (version: FileVersion) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot restore file version');
+    }
+
+    const file = files.find(f => f.id === version.file_id);
+    if (!file || !can(user, 'file.upload', projects.find(p => p.id === file.project_id))) {
+      throw new Error('You do not have permission to restore versions of this file');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('files')
+        .update({
+          file_url: version.file_url,
+          storage_bucket: version.storage_bucket || LEGACY_FILES_BUCKET,
+          storage_path: version.storage_path,
+          uploaded_by: version.uploaded_by || null,
+          uploader_name: version.uploader_name,
+          size: version.size,
+          file_type: version.file_type,
+          content_sha256: version.content_sha256 || null,
+          current_version: version.version_number
+        })
+        .eq('id', file.id)
+        .select()
+        .single();
+      if (error) {
+        console.error('Error restoring file version:', error);
+        throw error;
+      }
+      trackLocalWrite('files', data);
+
+      setFiles(prev => prev.map(f => (f.id === file.id ? mapFile(data) : f)));
+      console.log('File version restored successfully:', file.filename, 'version', version.version_number);
+    } catch (error) {
+      console.error('Error restoring file version:', error);
+      throw error;
+    }
   };
-  
-  const scheduleMeeting = (meeting: Omit<Meeting, 'id'>) => {
-    const newMeeting: Meeting = {
-      ...meeting,
-      id: uuidv4()
-    };
-    setMeetings(prev => [...prev, newMeeting]);
+
+  // Map a folders row to the FileFolder shape used by the UI
+  const mapFolder = (folder: Record<string, unknown>): FileFolder => ({
+    id: folder.id as string,
+    project_id: folder.project_id as string,
+    stage_id: (folder.stage_id as string) || undefined,
+    parent_id: (folder.parent_id as string) || undefined,
+    name: folder.name as string,
+    created_by: (folder.created_by as string) || undefined,
+    created_at: folder.created_at as string
+  });
+
+  // Load folders for every project the user can see (RLS scopes the rows)
+  const loadFolders = async () => {
+    if (!supabase) {
+      console.warn('Supabase not configured - cannot load folders');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.from('folders').select('*').order('name');
+
+      if (error) {
+        console.error('Error loading folders:', error);
+        return;
+      }
+
+      setFolders((data || []).map(mapFolder));
+      console.log('Folders loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
   };
-  
-  const createTask = (task: Omit<Task, 'id' | 'created_at'>) => {
-    const newTask: Task = {
-      ...task,
-      id: uuidv4(),
-      created_at: new Date().toISOString()
-    };
-    setTasks(prev => [...prev, newTask]);
+
+  const requireFileUpload = (projectId: string, action: string) => {
+    if (!can(user, 'file.upload', projects.find(p => p.id === projectId))) {
+      throw new Error(`You do not have permission to ${action} in this project`);
+    }
   };
-  
-  const updateTaskStatus = (taskId: string, status: 'open' | 'in-progress' | 'done') => {
-    setTasks(prev => 
-      prev.map(task => 
-        task.id === taskId ? { ...task, status } : task
-      )
-    );
+
+  const createFolder = async (folder: { project_id: string; name: string; parent_id?: string | null; stage_id?: string | null }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create folder');
+    }
+    requireFileUpload(folder.project_id, 'create folders');
+
+    // Subfolders always live in their parent's stage
+    const parent = folder.parent_id ? folders.find(f => f.id === folder.parent_id) : undefined;
+
+    try {
+      console.log('Creating folder:', folder.name);
+
+      const { data, error } = await supabase
+        .from('folders')
+        .insert({
+          project_id: folder.project_id,
+          name: folder.name.trim(),
+          parent_id: parent?.id || null,
+          stage_id: parent ? parent.stage_id || null : folder.stage_id || null,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating folder:', error);
+        throw error;
+      }
+
+      const created = mapFolder(data);
+      setFolders(prev => mergeById(prev, created));
+      console.log('Folder created successfully:', data.id);
+      return created;
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      throw error;
+    }
+  };
+
+  const renameFolder = async (id: string, name: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot rename folder');
+    }
+
+    const previous = folders.find(f => f.id === id);
+    if (!previous) throw new Error('Folder not found');
+    requireFileUpload(previous.project_id, 'rename folders');
+
+    try {
+      console.log('Renaming folder:', id, name);
+
+      const { data, error } = await supabase
+        .from('folders')
+        .update({ name: name.trim() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error renaming folder:', error);
+        throw error;
+      }
+      trackLocalWrite('folders', data);
+
+      setFolders(prev => prev.map(f => (f.id === id ? mapFolder(data) : f)));
+      console.log('Folder renamed successfully:', id);
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      throw error;
+    }
+  };
+
+  const moveFolder = async (id: string, parentId: string | null) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot move folder');
+    }
+
+    const folder = folders.find(f => f.id === id);
+    if (!folder) throw new Error('Folder not found');
+    requireFileUpload(folder.project_id, 'move folders');
+
+    const parent = parentId ? folders.find(f => f.id === parentId) : undefined;
+    if (parentId && (!parent || parent.project_id !== folder.project_id)) {
+      throw new Error('Folders can only be moved within their project');
+    }
+    const movedIds = getDescendantFolderIds(folders, id);
+    if (parentId && movedIds.includes(parentId)) {
+      throw new Error('A folder cannot be moved into itself');
+    }
+    if ((folder.parent_id || null) === parentId) return;
+
+    try {
+      console.log('Moving folder:', id, 'to', parentId || 'project root');
+      // A moved tree takes on its new parent's stage; at the root it keeps its own
+      const stageId = parent ? parent.stage_id || null : folder.stage_id || null;
+
+      const { data, error } = await supabase
+        .from('folders')
+        .update({ parent_id: parentId, stage_id: stageId })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) {
+        console.error('Error moving folder:', error);
+        throw error;
+      }
+      trackLocalWrite('folders', data);
+
+      if (movedIds.length > 1) {
+        const { data: movedRows, error: stageError } = await supabase
+          .from('folders')
+          .update({ stage_id: stageId })
+          .in('id', movedIds.filter(movedId => movedId !== id))
+          .select();
+        if (stageError) {
+          console.error('Error moving folder:', stageError);
+          throw stageError;
+        }
+        (movedRows || []).forEach(row => trackLocalWrite('folders', row));
+      }
+
+      setFolders(prev => prev.map(f => {
+        if (f.id === id) return { ...f, parent_id: parentId || undefined, stage_id: stageId || undefined };
+        if (movedIds.includes(f.id)) return { ...f, stage_id: stageId || undefined };
+        return f;
+      }));
+      console.log('Folder moved successfully:', id);
+    } catch (error) {
+      console.error('Error moving folder:', error);
+      throw error;
+    }
+  };
+
+  // Only empty folders can be deleted so files are never removed as a side effect
+  const deleteFolder = async (id: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete folder');
+    }
+
+    const folder = folders.find(f => f.id === id);
+    if (!folder) throw new Error('Folder not found');
+    requireFileUpload(folder.project_id, 'delete folders');
+    if (folders.some(f => f.parent_id === id) || files.some(f => f.folder_id === id)) {
+      throw new Error('Only empty folders can be deleted');
+    }
+
+    try {
+      console.log('Deleting folder:', id);
+
+      const { error } = await supabase
+        .from('folders')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting folder:', error);
+        throw error;
+      }
+
+      setFolders(prev => prev.filter(f => f.id !== id));
+      console.log('Folder deleted successfully:', id);
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      throw error;
+    }
+  };
+
+  const moveFileToFolder = async (fileId: string, folderId: string | null) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot move file');
+    }
+
+    const file = files.find(f => f.id === fileId);
+    if (!file) throw new Error('File not found');
+    requireFileUpload(file.project_id, 'move files');
+
+    const folder = folderId ? folders.find(f => f.id === folderId) : undefined;
+    if (folderId && (!folder || folder.project_id !== file.project_id)) {
+      throw new Error('Files can only be moved within their project');
+    }
+    if ((file.folder_id || null) === folderId) return;
+    // Uploads version files by name within a folder, so names must stay unique there
+    if (files.some(f => f.id !== fileId && f.project_id === file.project_id && (f.folder_id || null) === folderId && f.filename === file.filename)) {
+      throw new Error(`A file named "${file.filename}" already exists in that folder`);
+    }
+
+    try {
+      console.log('Moving file:', fileId, 'to', folderId || 'project root');
+
+      const fileUpdates: Record<string, unknown> = { folder_id: folderId };
+      if (folder?.stage_id) fileUpdates.stage_id = folder.stage_id;
+
+      const { data, error } = await supabase
+        .from('files')
+        .update(fileUpdates)
+        .eq('id', fileId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error moving file:', error);
+        throw error;
+      }
+      trackLocalWrite('files', data);
+
+      setFiles(prev => prev.map(f => (f.id === fileId ? mapFile(data) : f)));
+      console.log('File moved successfully:', fileId);
+    } catch (error) {
+      console.error('Error moving file:', error);
+      throw error;
+    }
+  };
+
+  // Map a comment_tasks row to the CommentTask shape used by the UI
+  const mapCommentTask = (comment: Record<string, unknown>): CommentTask => ({
+    id: comment.id as string,
+    stage_id: (comment.stage_id as string) || undefined,
+    project_id: comment.project_id as string,
+    text: comment.text as string,
+    added_by: (comment.added_by as string) || '',
+    author_name: (comment.author_name as string) || 'Unknown',
+    author_role: comment.author_role as CommentTask['author_role'],
+    status: (comment.status as CommentTask['status']) || 'open',
+    assigned_to: (comment.assigned_to as string) || undefined,
+    deadline: (comment.deadline as string) || undefined,
+    timestamp: comment.timestamp as string,
+    is_global: (comment.is_global as boolean) || false
+  });
+
+  // Map a global_comments row to the GlobalComment shape used by the UI
+  const mapGlobalComment = (comment: Record<string, unknown>): GlobalComment => ({
+    id: comment.id as string,
+    project_id: comment.project_id as string,
+    text: comment.text as string,
+    added_by: (comment.added_by as string) || '',
+    author_name: (comment.author_name as string) || 'Unknown',
+    author_role: comment.author_role as GlobalComment['author_role'],
+    timestamp: comment.timestamp as string
+  });
+
+  // Load comment tasks and global comments for the projects the user can access
+  const loadComments = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load comments');
+      return;
+    }
+
+    try {
+      const projectIds = (await fetchAccessibleProjectIds()) || [];
+      console.log('Loading comments for projects:', projectIds.length);
+
+      if (projectIds.length === 0) {
+        setCommentTasks([]);
+        setGlobalComments([]);
+        return;
+      }
+
+      const [commentTasksResult, globalCommentsResult] = await Promise.all([
+        supabase
+          .from('comment_tasks')
+          .select('*')
+          .in('project_id', projectIds)
+          .order('timestamp', { ascending: false }),
+        supabase
+          .from('global_comments')
+          .select('*')
+          .in('project_id', projectIds)
+          .order('timestamp', { ascending: false })
+      ]);
+
+      if (commentTasksResult.error) {
+        console.error('Error loading comment tasks:', commentTasksResult.error);
+      } else if (commentTasksResult.data) {
+        setCommentTasks(commentTasksResult.data.map(mapCommentTask));
+        console.log('Comment tasks loaded successfully:', commentTasksResult.data.length);
+      }
+
+      if (globalCommentsResult.error) {
+        console.error('Error loading global comments:', globalCommentsResult.error);
+      } else if (globalCommentsResult.data) {
+        const mappedComments: GlobalComment[] = globalCommentsResult.data.map(mapGlobalComment);
+        setGlobalComments(mappedComments);
+        console.log('Global comments loaded successfully:', mappedComments.length);
+      }
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  };
+
+  const addCommentTask = async (data: Omit<CommentTask, 'id' | 'timestamp'>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot add comment');
+    }
+
+    try {
+      console.log('Adding comment task to project:', data.project_id);
+
+      const commentData = {
+        project_id: data.project_id,
+        stage_id: data.stage_id || null,
+        text: data.text,
+        added_by: user.id,
+        author_name: data.author_name || user.name,
+        author_role: data.author_role || user.role,
+        status: data.status || 'open',
+        assigned_to: data.assigned_to || null,
+        deadline: data.deadline || null,
+        is_global: data.is_global || false
+      };
+
+      const { data: inserted, error } = await supabase
+        .from('comment_tasks')
+        .insert(commentData)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding comment task:', error);
+        throw error;
+      }
+
+      setCommentTasks(prev => [mapCommentTask(inserted), ...prev]);
+      console.log('Comment task added successfully:', inserted.id);
+    } catch (error) {
+      console.error('Error adding comment task:', error);
+      throw error;
+    }
   };
   
-  const updateTask = async (taskId: string, updates: Partial<Task>) => {
-    setTasks(prev => 
-      prev.map(task => 
-        task.id === taskId ? { ...task, ...updates } : task
-      )
-    );
+  const addGlobalComment = async (data: { project_id: string; text: string; added_by: string; author_name?: string; author_role: string }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot add comment');
+    }
+
+    try {
+      console.log('Adding global comment to project:', data.project_id);
+
+      const { data: inserted, error } = await supabase
+        .from('global_comments')
+        .insert({
+          project_id: data.project_id,
+          text: data.text,
+          added_by: user.id,
+          author_name: data.author_name || user.name,
+          author_role: data.author_role || user.role
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding global comment:', error);
+        throw error;
+      }
+
+      setGlobalComments(prev => [mapGlobalComment(inserted), ...prev]);
+      console.log('Global comment added successfully:', inserted.id);
+    } catch (error) {
+      console.error('Error adding global comment:', error);
+      throw error;
+    }
   };
   
-  const deleteTask = async (taskId: string) => {
-    setTasks(prev => prev.filter(task => task.id !== taskId));
+  const updateCommentTaskStatus = async (taskId: string, status: 'open' | 'in-progress' | 'done') => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update comment');
+    }
+
+    try {
+      console.log('Updating comment task status:', taskId, status);
+
+      const { data, error } = await supabase
+        .from('comment_tasks')
+        .update({ status })
+        .eq('id', taskId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating comment task status:', error);
+        throw error;
+      }
+      trackLocalWrite('comment_tasks', data);
+
+      setCommentTasks(prev => prev.map(task => (task.id === taskId ? mapCommentTask(data) : task)));
+      console.log('Comment task status updated successfully:', taskId);
+    } catch (error) {
+      console.error('Error updating comment task status:', error);
+      throw error;
+    }
   };
   
-  const createBrochureProject = async (projectId: string, clientId: string, clientName: string) => {
-    const newBrochureProject: BrochureProject = {
+  // Record an approval or rejection of a stage; the approval history is append-only
+  const updateStageApproval = async (stageId: string, status: 'approved' | 'rejected', comment?: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update stage approval');
+    }
+
+    const stage = stages.find(s => s.id === stageId);
+    if (!stage) {
+      throw new Error('Stage not found');
+    }
+
+    try {
+      console.log('Recording stage approval:', stageId, status);
+
+      // A trigger on stage_approvals sets the stage's approval_status in the same transaction
+      const { data, error } = await supabase
+        .from('stage_approvals')
+        .insert({
+          stage_id: stageId,
+          project_id: stage.project_id,
+          status,
+          comment: comment?.trim() || null,
+          approved_by: user.id,
+          approver_name: user.name,
+          approver_role: user.role
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording stage approval:', error);
+        throw error;
+      }
+
+      setStages(prev =>
+        prev.map(s => (s.id === stageId ? { ...s, approval_status: status } : s))
+      );
+      setStageApprovals(prev => [mapStageApproval(data), ...prev]);
+      console.log('Stage approval recorded successfully:', data.id);
+    } catch (error) {
+      console.error('Error updating stage approval:', error);
+      throw error;
+    }
+  };
+
+  const getStageApprovals = (stageId: string) => {
+    return stageApprovals.filter(approval => approval.stage_id === stageId);
+  };
+  
+  const uploadFile = (fileData: Omit<File, 'id' | 'timestamp'>) => {
+    const newFile: File = {
+      ...fileData,
       id: uuidv4(),
-      client_id: clientId,
-      project_id: projectId,
-      client_name: clientName,
-      status: 'draft',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      pages: []
+      timestamp: new Date().toISOString()
     };
-    setBrochureProjects(prev => [...prev, newBrochureProject]);
-    return newBrochureProject;
+    setFiles(prev => [...prev, newFile]);
   };
   
-  const updateBrochureProject = (id: string, updates: Partial<BrochureProject>) => {
-    setBrochureProjects(prev => 
-      prev.map(project => 
-        project.id === id ? { ...project, ...updates } : project
-      )
-    );
+  const uploadBrochureImage = async (file: globalThis.File, projectId: string) => {
+    if (!supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    try {
+      const fileName = `${Date.now()}-${file.name}`;
+      const storagePath = `brochures/${projectId}/${fileName}`;
+      
+      const { data, error } = await supabase.storage
+        .from('brochure-images')
+        .upload(storagePath, file);
+
+      if (error) throw error;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('brochure-images')
+        .getPublicUrl(storagePath);
+
+      return publicUrl;
+    } catch (error) {
+      console.error('Error uploading brochure image:', error);
+      throw error;
+    }
+  };
+  
+  const updateStageProgress = async (stageId: string, progress: number) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update stage progress');
+    }
+
+    try {
+      console.log('Updating stage progress:', stageId, progress);
+
+      const { data, error } = await supabase
+        .from('stages')
+        .update({ progress_percentage: progress })
+        .eq('id', stageId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating stage progress:', error);
+        throw error;
+      }
+      trackLocalWrite('stages', data);
+
+      setStages(prev =>
+        prev.map(stage =>
+          stage.id === stageId ? { ...stage, progress_percentage: progress } : stage
+        )
+      );
+    } catch (error) {
+      console.error('Error updating stage progress:', error);
+      throw error;
+    }
+  };
+  
+  // Map a meetings row to the Meeting shape used by the UI
+  const mapMeeting = (meeting: Record<string, unknown>): Meeting => ({
+    id: meeting.id as string,
+    project_id: meeting.project_id as string,
+    title: meeting.title as string,
+    date: meeting.date as string,
+    duration_minutes: (meeting.duration_minutes as number) || 60,
+    location: (meeting.location as string) || undefined,
+    attendees: (meeting.attendees as string[]) || [],
+    notes: (meeting.notes as string) || undefined,
+    external_uid: (meeting.external_uid as string) || undefined,
+    created_by: (meeting.created_by as string) || undefined,
+    created_at: meeting.created_at as string
+  });
+
+  // Load meetings for accessible projects plus any the user is invited to
+  const loadMeetings = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load meetings');
+      return;
+    }
+
+    try {
+      console.log('Loading meetings for user:', user.id, user.role);
+
+      let query = supabase
+        .from('meetings')
+        .select('*')
+        .order('date', { ascending: true });
+
+      if (!canOnAllProjects(user, 'project.view')) {
+        const projectIds = (await fetchAccessibleProjectIds()) || [];
+        query = projectIds.length > 0
+          ? query.or(`attendees.cs.{${user.id}},project_id.in.(${projectIds.join(',')})`)
+          : query.contains('attendees', [user.id]);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error loading meetings:', error);
+        return;
+      }
+
+      setMeetings((data || []).map(mapMeeting));
+      console.log('Meetings loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading meetings:', error);
+    }
+  };
+
+  const scheduleMeeting = async (meeting: Omit<Meeting, 'id'>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot schedule meeting');
+    }
+
+    try {
+      console.log('Scheduling meeting:', meeting.title, meeting.date);
+
+      const { data, error } = await supabase
+        .from('meetings')
+        .insert({
+          project_id: meeting.project_id,
+          title: meeting.title,
+          date: meeting.date,
+          duration_minutes: meeting.duration_minutes || 60,
+          location: meeting.location || null,
+          attendees: meeting.attendees,
+          notes: meeting.notes || null,
+          external_uid: meeting.external_uid || null,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error scheduling meeting:', error);
+        throw error;
+      }
+
+      setMeetings(prev => [...prev, mapMeeting(data)]);
+      console.log('Meeting scheduled successfully:', data.id);
+    } catch (error) {
+      console.error('Error scheduling meeting:', error);
+      throw error;
+    }
+  };
+
+  const updateMeeting = async (id: string, updates: Partial<Meeting>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update meeting');
+    }
+
+    try {
+      console.log('Updating meeting:', id, updates);
+
+      const meetingUpdates: Record<string, unknown> = { ...updates };
+      delete meetingUpdates.id;
+      delete meetingUpdates.created_at;
+      delete meetingUpdates.created_by;
+      if ('location' in meetingUpdates) meetingUpdates.location = updates.location || null;
+      if ('notes' in meetingUpdates) meetingUpdates.notes = updates.notes || null;
+
+      const { data, error } = await supabase
+        .from('meetings')
+        .update(meetingUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating meeting:', error);
+        throw error;
+      }
+
+      setMeetings(prev => prev.map(meeting => (meeting.id === id ? mapMeeting(data) : meeting)));
+      console.log('Meeting updated successfully:', id);
+    } catch (error) {
+      console.error('Error updating meeting:', error);
+      throw error;
+    }
+  };
+
+  const deleteMeeting = async (id: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete meeting');
+    }
+
+    try {
+      console.log('Deleting meeting:', id);
+
+      const { error } = await supabase
+        .from('meetings')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting meeting:', error);
+        throw error;
+      }
+
+      setMeetings(prev => prev.filter(meeting => meeting.id !== id));
+      console.log('Meeting deleted successfully:', id);
+    } catch (error) {
+      console.error('Error deleting meeting:', error);
+      throw error;
+    }
+  };
+  
+  // Map a tasks row to the Task shape used by the UI
+  const mapTask = (task: Record<string, unknown>): Task => ({
+    id: task.id as string,
+    project_id: task.project_id as string,
+    title: task.title as string,
+    description: (task.description as string) || '',
+    assigned_to: (task.assigned_to as string) || '',
+    created_by: (task.created_by as string) || undefined,
+    status: (task.status as Task['status']) || 'open',
+    priority: (task.priority as Task['priority']) || 'medium',
+    deadline: (task.deadline as string) || undefined,
+    created_at: task.created_at as string,
+    updated_at: (task.updated_at as string) || undefined
+  });
+
+  // Load tasks from database
+  const loadTasks = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load tasks');
+      return;
+    }
+
+    try {
+      console.log('Loading tasks for user:', user.id, 'Role:', user.role);
+
+      let query = supabase.from('tasks').select('*').order('created_at', { ascending: false });
+
+      // Apply permission-based filtering (mirrors the RLS policies on tasks)
+      if (!canOnAllProjects(user, 'project.view')) {
+        const projectIds = (await fetchAccessibleProjectIds()) || [];
+        query = projectIds.length > 0
+          ? query.or(`assigned_to.eq.${user.id},project_id.in.(${projectIds.join(',')})`)
+          : query.eq('assigned_to', user.id);
+      }
+      // Roles with access to all projects see all tasks (no additional filter)
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error loading tasks:', error);
+        return;
+      }
+
+      if (data) {
+        const mappedTasks = data.map(mapTask);
+        setTasks(mappedTasks);
+        console.log('Tasks loaded successfully:', mappedTasks.length);
+      }
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+    }
+  };
+
+  const createTask = async (task: Omit<Task, 'id' | 'created_at'>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create task');
+    }
+
+    try {
+      console.log('Creating new task:', task.title);
+
+      const taskData = {
+        project_id: task.project_id,
+        title: task.title,
+        description: task.description,
+        assigned_to: task.assigned_to || null,
+        created_by: user.id,
+        status: task.status || 'open',
+        priority: task.priority || 'medium',
+        deadline: task.deadline || null
+      };
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(taskData)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating task:', error);
+        throw error;
+      }
+
+      setTasks(prev => [mapTask(data), ...prev]);
+      console.log('Task created successfully:', data.id);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      throw error;
+    }
+  };
+
+  const updateTaskStatus = async (taskId: string, status: 'open' | 'in-progress' | 'done') => {
+    await updateTask(taskId, { status });
+  };
+
+  const updateTask = async (taskId: string, updates: Partial<Task>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update task');
+    }
+
+    try {
+      console.log('Updating task:', taskId, updates);
+
+      // Strip fields owned by the database and normalise empty optional values
+      const taskUpdates: Record<string, unknown> = { ...updates };
+      delete taskUpdates.id;
+      delete taskUpdates.created_at;
+      delete taskUpdates.updated_at;
+      delete taskUpdates.created_by;
+      if ('deadline' in taskUpdates) taskUpdates.deadline = updates.deadline || null;
+      if ('assigned_to' in taskUpdates) taskUpdates.assigned_to = updates.assigned_to || null;
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(taskUpdates)
+        .eq('id', taskId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating task:', error);
+        throw error;
+      }
+      trackLocalWrite('tasks', data);
+
+      setTasks(prev => prev.map(task => (task.id === taskId ? mapTask(data) : task)));
+      console.log('Task updated successfully:', taskId);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      throw error;
+    }
+  };
+
+  const deleteTask = async (taskId: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete task');
+    }
+
+    try {
+      console.log('Deleting task:', taskId);
+
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', taskId);
+
+      if (error) {
+        console.error('Error deleting task:', error);
+        throw error;
+      }
+
+      setTasks(prev => prev.filter(task => task.id !== taskId));
+      console.log('Task deleted successfully:', taskId);
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      throw error;
+    }
+  };
+  
+  // Map a brochure_pages row to the BrochurePage shape used by the UI
+  const mapBrochurePage = (page: Record<string, unknown>): BrochurePage => ({
+    id: page.id as string,
+    project_id: page.project_id as string,
+    page_number: page.page_number as number,
+    approval_status: (page.approval_status as BrochurePage['approval_status']) || 'pending',
+    is_locked: (page.is_locked as boolean) || false,
+    locked_by: (page.locked_by as string) || undefined,
+    locked_by_name: (page.locked_by_name as string) || undefined,
+    locked_at: (page.locked_at as string) || undefined,
+    content: (page.content as BrochurePage['content']) || {},
+    created_at: page.created_at as string,
+    updated_at: page.updated_at as string
+  });
+
+  // Map a brochure_projects row to the BrochureProject shape used by the UI
+  const mapBrochureProject = (project: Record<string, unknown>, pages: BrochurePage[] = []): BrochureProject => ({
+    id: project.id as string,
+    client_id: project.client_id as string,
+    project_id: project.project_id as string,
+    client_name: (project.client_name as string) || '',
+    status: (project.status as BrochureProject['status']) || 'draft',
+    created_at: project.created_at as string,
+    updated_at: project.updated_at as string,
+    pages: pages.filter(page => page.project_id === project.id)
+  });
+
+  // Map a page_comments row to the PageComment shape used by the UI
+  const mapPageComment = (comment: Record<string, unknown>): PageComment => ({
+    id: comment.id as string,
+    page_id: comment.page_id as string,
+    text: comment.text as string,
+    added_by: (comment.added_by as string) || '',
+    author_name: (comment.author_name as string) || 'Unknown',
+    author_role: comment.author_role as PageComment['author_role'],
+    timestamp: comment.timestamp as string,
+    marked_done: (comment.marked_done as boolean) || false,
+    action_type: (comment.action_type as PageComment['action_type']) || 'comment'
+  });
+
+  // Load brochure projects, their pages and page comments for accessible projects
+  const loadBrochures = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load brochures');
+      return;
+    }
+
+    try {
+      const projectIds = (await fetchAccessibleProjectIds()) || [];
+      console.log('Loading brochures for projects:', projectIds.length);
+
+      if (projectIds.length === 0) {
+        setBrochureProjects([]);
+        setBrochurePages([]);
+        setPageComments([]);
+        return;
+      }
+
+      const { data: projectRows, error: projectsError } = await supabase
+        .from('brochure_projects')
+        .select('*')
+        .in('project_id', projectIds)
+        .order('created_at', { ascending: false });
+
+      if (projectsError) {
+        console.error('Error loading brochure projects:', projectsError);
+        return;
+      }
+
+      const brochureIds = (projectRows || []).map(project => project.id as string);
+      let pages: BrochurePage[] = [];
+      let comments: PageComment[] = [];
+
+      if (brochureIds.length > 0) {
+        const { data: pageRows, error: pagesError } = await supabase
+          .from('brochure_pages')
+          .select('*')
+          .in('project_id', brochureIds)
+          .order('page_number', { ascending: true });
+
+        if (pagesError) {
+          console.error('Error loading brochure pages:', pagesError);
+        } else {
+          pages = (pageRows || []).map(mapBrochurePage);
+        }
+      }
+
+      if (pages.length > 0) {
+        const { data: commentRows, error: commentsError } = await supabase
+          .from('page_comments')
+          .select('*')
+          .in('page_id', pages.map(page => page.id))
+          .order('timestamp', { ascending: false });
+
+        if (commentsError) {
+          console.error('Error loading page comments:', commentsError);
+        } else {
+          comments = (commentRows || []).map(mapPageComment);
+        }
+      }
+
+      setBrochureProjects((projectRows || []).map(project => mapBrochureProject(project, pages)));
+      setBrochurePages(pages);
+      setPageComments(comments);
+      console.log('Brochures loaded successfully:', brochureIds.length, 'projects,', pages.length, 'pages');
+    } catch (error) {
+      console.error('Error loading brochures:', error);
+    }
+  };
+
+  const createBrochureProject = async (projectId: string, clientId: string, clientName: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create brochure project');
+    }
+
+    try {
+      console.log('Creating brochure project for project:', projectId);
+
+      const { data, error } = await supabase
+        .from('brochure_projects')
+        .insert({
+          project_id: projectId,
+          client_id: clientId,
+          client_name: clientName,
+          status: 'draft'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating brochure project:', error);
+        throw error;
+      }
+
+      const newBrochureProject = mapBrochureProject(data);
+      setBrochureProjects(prev => [newBrochureProject, ...prev]);
+      console.log('Brochure project created successfully:', data.id);
+      return newBrochureProject;
+    } catch (error) {
+      console.error('Error creating brochure project:', error);
+      throw error;
+    }
+  };
+  
+  const updateBrochureProject = async (id: string, updates: Partial<BrochureProject>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update brochure project');
+    }
+
+    try {
+      console.log('Updating brochure project:', id, updates);
+
+      const projectUpdates: Record<string, unknown> = {};
+      if (updates.status) projectUpdates.status = updates.status;
+      if (updates.client_name) projectUpdates.client_name = updates.client_name;
+
+      const { data, error } = await supabase
+        .from('brochure_projects')
+        .update(projectUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating brochure project:', error);
+        throw error;
+      }
+
+      setBrochureProjects(prev =>
+        prev.map(project =>
+          project.id === id ? { ...mapBrochureProject(data), pages: project.pages } : project
+        )
+      );
+      console.log('Brochure project updated successfully:', id);
+    } catch (error) {
+      console.error('Error updating brochure project:', error);
+      throw error;
+    }
+  };
+
+  const deleteBrochureProject = async (id: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete brochure project');
+    }
+
+    try {
+      console.log('Deleting brochure project:', id);
+
+      const { error } = await supabase
+        .from('brochure_projects')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting brochure project:', error);
+        throw error;
+      }
+
+      const removedPageIds = brochurePages.filter(page => page.project_id === id).map(page => page.id);
+      setBrochureProjects(prev => prev.filter(project => project.id !== id));
+      setBrochurePages(prev => prev.filter(page => page.project_id !== id));
+      setPageComments(prev => prev.filter(comment => !removedPageIds.includes(comment.page_id)));
+      console.log('Brochure project deleted successfully:', id);
+    } catch (error) {
+      console.error('Error deleting brochure project:', error);
+      throw error;
+    }
+  };
+  
+  const deleteBrochurePage = async (projectId: string, pageNumber: number) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete brochure page');
+    }
+
+    try {
+      console.log('Deleting brochure page:', projectId, pageNumber);
+
+      const { error } = await supabase
+        .from('brochure_pages')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('page_number', pageNumber);
+
+      if (error) {
+        console.error('Error deleting brochure page:', error);
+        throw error;
+      }
+
+      setBrochurePages(prev => 
+        prev.filter(page => 
+          !(page.project_id === projectId && page.page_number === pageNumber)
+        )
+      );
+      console.log('Brochure page deleted successfully:', pageNumber);
+    } catch (error) {
+      console.error('Error deleting brochure page:', error);
+      throw error;
+    }
+  };
+  
+  const saveBrochurePage = async (pageData: { project_id: string; page_number: number; content: BrochurePage['content']; approval_status?: 'pending' | 'approved' | 'rejected'; is_locked?: boolean }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot save brochure page');
+    }
+
+    const existingPage = brochurePages.find(
+      page => page.project_id === pageData.project_id && page.page_number === pageData.page_number
+    );
+
+    try {
+      // Only seed approval/lock state for new pages so autosave never resets a review
+      const row: Record<string, unknown> = {
+        project_id: pageData.project_id,
+        page_number: pageData.page_number,
+        content: pageData.content
+      };
+      if (!existingPage) {
+        row.approval_status = pageData.approval_status || 'pending';
+        row.is_locked = pageData.is_locked || false;
+      }
+
+      const { data, error } = await supabase
+        .from('brochure_pages')
+        .upsert(row, { onConflict: 'project_id,page_number' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving brochure page:', error);
+        throw error;
+      }
+      trackLocalWrite('brochure_pages', data);
+
+      setBrochurePages(prev => mergeById(prev, mapBrochurePage(data)));
+    } catch (error) {
+      console.error('Error saving brochure page:', error);
+      throw error;
+    }
+  };
+  
+  const getBrochurePages = (projectId: string) => {
+    return brochurePages.filter(page => page.project_id === projectId);
+  };
+
+  // Render every page of a brochure into a print-ready PDF and download it
+  const exportBrochurePdf = async (brochureProjectId: string, options: BrochurePdfOptions) => {
+    const brochure = brochureProjects.find(bp => bp.id === brochureProjectId);
+    if (!brochure) {
+      throw new Error('Brochure not found');
+    }
+    if (!can(user, 'brochure.export', getBrochurePermissionTarget(brochure, projects))) {
+      throw new Error('You are not allowed to export this brochure');
+    }
+
+    const filename = `${sanitizePathSegment(options.title || `${brochure.client_name} brochure`)}.pdf`;
+    try {
+      const result = await buildBrochurePdf(getBrochurePages(brochureProjectId), options);
+      downloadPdf(result.blob, filename);
+      await recordAuditEvent({
+        action: 'brochure.exported',
+        entity_type: 'brochure',
+        entity_id: brochureProjectId,
+        project_id: brochure.project_id,
+        details: {
+          paper_size: options.paperSize,
+          orientation: options.orientation,
+          bleed_mm: options.bleedMm,
+          pages: result.sheetCount
+        }
+      });
+      return result;
+    } catch (error) {
+      console.error('Error exporting brochure PDF:', error);
+      throw error;
+    }
+  };
+  
+  const addPageComment = async (comment: Omit<PageComment, 'id' | 'timestamp'>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot add page comment');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('page_comments')
+        .insert({
+          page_id: comment.page_id,
+          text: comment.text,
+          added_by: user.id,
+          author_name: comment.author_name || user.name,
+          author_role: comment.author_role || user.role,
+          marked_done: comment.marked_done || false,
+          action_type: comment.action_type || 'comment'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding page comment:', error);
+        throw error;
+      }
+
+      setPageComments(prev => [mapPageComment(data), ...prev]);
+    } catch (error) {
+      console.error('Error adding page comment:', error);
+      throw error;
+    }
+  };
+  
+  const getPageComments = (pageId: string) => {
+    return pageComments.filter(comment => comment.page_id === pageId);
+  };
+  
+  const markCommentDone = async (commentId: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update page comment');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('page_comments')
+        .update({ marked_done: true })
+        .eq('id', commentId);
+
+      if (error) {
+        console.error('Error marking page comment done:', error);
+        throw error;
+      }
+
+      setPageComments(prev => 
+        prev.map(comment => 
+          comment.id === commentId ? { ...comment, marked_done: true } : comment
+        )
+      );
+    } catch (error) {
+      console.error('Error marking page comment done:', error);
+      throw error;
+    }
+  };
+
+  // Update a brochure page and record the action as an audit entry in page_comments
+  const updateBrochurePageState = async (
+    pageId: string,
+    updates: Record<string, unknown>,
+    actionType: 'lock' | 'unlock' | 'approval',
+    auditText: string
+  ) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update brochure page');
+    }
+
+    try {
+
+      const { data, error } = await supabase
+        .from('brochure_pages')
+        .update(updates)
+        .eq('id', pageId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating brochure page:', error);
+        throw error;
+      }
+      trackLocalWrite('brochure_pages', data);
+
+      const updatedPage = mapBrochurePage(data);
+      setBrochurePages(prev => prev.map(page => (page.id === pageId ? updatedPage : page)));
+
+      await addPageComment({
+        page_id: pageId,
+        text: auditText,
+        added_by: user.id,
+        author_name: user.name,
+        author_role: user.role,
+        marked_done: true,
+        action_type: actionType
+      });
+    } catch (error) {
+      console.error('Error updating brochure page:', error);
+      throw error;
+    }
+  };
+
+  const approveBrochurePage = async (pageId: string, status: 'approved' | 'rejected', comment?: string) => {
+    const summary = status === 'approved' ? 'Page approved' : 'Changes requested';
+    await updateBrochurePageState(
+      pageId,
+      { approval_status: status },
+      'approval',
+      comment ? `${summary}: ${comment}` : summary
+    );
+  };
+
+  const lockBrochurePage = async (pageId: string) => {
+    await updateBrochurePageState(
+      pageId,
+      {
+        is_locked: true,
+        locked_by: user?.id,
+        locked_by_name: user?.name,
+        locked_at: new Date().toISOString()
+      },
+      'lock',
+      'Page locked for editing'
+    );
+  };
+
+  const unlockBrochurePage = async (pageId: string) => {
+    await updateBrochurePageState(
+      pageId,
+      {
+        is_locked: false,
+        locked_by: null,
+        locked_by_name: null,
+        locked_at: null
+      },
+      'unlock',
+      'Page unlocked for editing'
+    );
+  };
+  
+  // Map a download_history row to the DownloadHistory shape used by the UI
+  const mapDownloadHistory = (entry: Record<string, unknown>): DownloadHistory => ({
+    id: entry.id as string,
+    file_id: (entry.file_id as string) || undefined,
+    project_id: (entry.project_id as string) || undefined,
+    downloaded_by: (entry.downloaded_by as string) || '',
+    downloader_name: (entry.downloader_name as string) || 'Unknown',
+    download_date: entry.download_date as string,
+    file_name: entry.file_name as string,
+    file_size: (entry.file_size as number) || 0,
+    share_link_id: (entry.share_link_id as string) || undefined
+  });
+
+  // Everyone sees their own downloads; file.viewDownloads adds downloads by others
+  // on the projects it covers (RLS scopes the rows)
+  const loadDownloadHistory = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load download history');
+      return;
+    }
+
+    try {
+      let query = supabase
+        .from('download_history')
+        .select('*')
+        .order('download_date', { ascending: false })
+        .limit(DOWNLOAD_HISTORY_LIMIT);
+      if (!getPermissionScope(user, 'file.viewDownloads')) {
+        query = query.eq('downloaded_by', user.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error loading download history:', error);
+        return;
+      }
+
+      setDownloadHistory((data || []).map(mapDownloadHistory));
+      console.log('Download history loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading download history:', error);
+    }
+  };
+
+  // Log one history row per downloaded file. The database trigger bumps the file's
+  // counters; local state is updated straight away so the UI doesn't wait for realtime.
+  // Failures are logged only, since the download itself has already started.
+  const recordDownloads = async (downloaded: File[]) => {
+    if (!supabase || !user || downloaded.length === 0) return;
+
+    const downloadedAt = new Date().toISOString();
+    const downloadedIds = new Set(downloaded.map(f => f.id));
+    setFiles(prev =>
+      prev.map(f =>
+        downloadedIds.has(f.id)
+          ? { ...f, download_count: f.download_count + 1, last_downloaded: downloadedAt, last_downloaded_by: user.id }
+          : f
+      )
+    );
+
+    try {
+      const { data, error } = await supabase
+        .from('download_history')
+        .insert(downloaded.map(file => ({
+          file_id: file.id,
+          project_id: file.project_id,
+          downloaded_by: user.id,
+          downloader_name: user.name,
+          download_date: downloadedAt,
+          file_name: file.filename,
+          file_size: file.size
+        })))
+        .select();
+
+      if (error) {
+        console.error('Error recording downloads:', error);
+        return;
+      }
+
+      setDownloadHistory(prev => [...(data || []).map(mapDownloadHistory), ...prev].slice(0, DOWNLOAD_HISTORY_LIMIT));
+    } catch (error) {
+      console.error('Error recording downloads:', error);
+    }
+  };
+
+  // Files with a recorded checksum are fetched and verified before they are saved;
+  // a mismatch is audited and nothing is saved
+  const saveDownload = async (
+    target: Pick<File, 'file_url' | 'storage_bucket' | 'storage_path' | 'size' | 'content_sha256'>,
+    filename: string,
+    audit: { file_id: string; project_id: string; version?: number }
+  ) => {
+    const link = document.createElement('a');
+    link.download = filename;
+
+    if (!target.content_sha256 || target.size > INTEGRITY_CHECK_MAX_BYTES) {
+      link.href = await getSignedFileUrl(target, { download: filename });
+      link.click();
+      return;
+    }
+
+    const response = await fetch(await getSignedFileUrl(target));
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    const blob = await response.blob();
+    const actualHash = await computeSha256(blob);
+    if (actualHash !== target.content_sha256) {
+      await recordAuditEvent({
+        action: 'file.integrity_failed',
+        entity_type: 'file',
+        entity_id: audit.file_id,
+        project_id: audit.project_id,
+        details: { filename, version: audit.version, expected: target.content_sha256, actual: actualHash }
+      });
+      throw new Error(integrityErrorMessage(filename));
+    }
+
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.click();
+    // Revoking straight away can cancel the save before the browser has read the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const downloadFile = async (fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (file) {
+      try {
+        await saveDownload(file, file.filename, { file_id: file.id, project_id: file.project_id, version: file.current_version });
+      } catch (error) {
+        console.error('Error downloading file:', error);
+        throw error;
+      }
+
+      recordDownloads([file]);
+    }
+  };
+  
+  // Bundle files into one ZIP laid out as project / folder path / filename (files
+  // outside any folder go under their category), with a manifest of every entry
+  const downloadMultipleFiles = async (
+    fileIds: string[],
+    options: { archiveName?: string; onProgress?: (progress: ZipProgress) => void } = {}
+  ) => {
+    const selected = files.filter(f => fileIds.includes(f.id));
+    if (selected.length === 0) return null;
+
+    const archiveName = options.archiveName || `files-${new Date().toISOString().split('T')[0]}.zip`;
+    const usedPaths = new Set<string>();
+    const sources: ZipEntrySource[] = selected.map(file => {
+      const project = projects.find(p => p.id === file.project_id);
+      const folderNames = getFolderPath(folders, file.folder_id).map(folder => folder.name);
+      const directories = folderNames.length > 0 ? folderNames : [file.category || 'uncategorized'];
+      const segments = [project?.title || 'Unknown Project', ...directories, file.filename].map(sanitizePathSegment);
+      return {
+        path: dedupePath(segments.join('/'), usedPaths),
+        // Signed right before each fetch so long archives don't outlive the URL
+        getUrl: () => getSignedFileUrl(file),
+        size: file.size,
+        sha256: file.content_sha256,
+        manifest: {
+          file_id: file.id,
+          filename: file.filename,
+          project: project?.title || null,
+          folder: formatFolderPath(folders, file.folder_id) || null,
+          category: file.category || null,
+          version: file.current_version,
+          size: file.size,
+          uploaded_by: file.uploader_name,
+          uploaded_at: file.timestamp
+        }
+      };
+    });
+
+    try {
+      console.log('Creating ZIP archive:', archiveName, sources.length, 'files');
+      const result = await buildZipArchive(
+        sources,
+        {
+          archive: archiveName,
+          generated_at: new Date().toISOString(),
+          generated_by: user?.name || null,
+          file_count: sources.length
+        },
+        options.onProgress
+      );
+      downloadZip(result.blob, archiveName);
+
+      // Count the download for every file that made it into the archive
+      const failedPaths = new Set(result.failed.map(entry => entry.path));
+      const includedIds = new Set(
+        sources.filter(source => !failedPaths.has(source.path)).map(source => source.manifest.file_id as string)
+      );
+      await recordDownloads(selected.filter(f => includedIds.has(f.id)));
+      console.log('ZIP archive created successfully:', archiveName, result.included, 'included,', result.failed.length, 'failed');
+      return result;
+    } catch (error) {
+      console.error('Error creating ZIP archive:', error);
+      throw error;
+    }
+  };
+  
+  const getDownloadHistory = () => {
+    return downloadHistory;
+  };
+
+  // Map a share_links row to the ShareLink shape used by the UI; the hash never leaves here
+  const mapShareLink = (link: Record<string, unknown>): ShareLink => ({
+    id: link.id as string,
+    token: link.token as string,
+    project_id: link.project_id as string,
+    file_id: (link.file_id as string) || undefined,
+    folder_id: (link.folder_id as string) || undefined,
+    label: (link.label as string) || undefined,
+    created_by: (link.created_by as string) || undefined,
+    creator_name: (link.creator_name as string) || 'Unknown',
+    created_at: link.created_at as string,
+    expires_at: link.expires_at as string,
+    has_password: !!link.password_hash,
+    max_downloads: (link.max_downloads as number) || undefined,
+    download_count: (link.download_count as number) || 0,
+    last_accessed_at: (link.last_accessed_at as string) || undefined,
+    revoked_at: (link.revoked_at as string) || undefined
+  });
+
+  const requireFileShare = (projectId: string) => {
+    if (!can(user, 'file.share', projects.find(p => p.id === projectId))) {
+      throw new Error('You do not have permission to share files in this project');
+    }
+  };
+
+  const loadShareLinks = async (projectId: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot load share links');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('share_links')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('Error loading share links:', error);
+        throw error;
+      }
+
+      return (data || []).map(mapShareLink);
+    } catch (error) {
+      console.error('Error loading share links:', error);
+      throw error;
+    }
+  };
+
+  // Share a file or a folder tree with people outside XeeTrack
+  const createShareLink = async (link: {
+    project_id: string;
+    file_id?: string;
+    folder_id?: string;
+    label?: string;
+    expires_at: string;
+    password?: string;
+    max_downloads?: number;
+  }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create share link');
+    }
+    requireFileShare(link.project_id);
+
+    try {
+      console.log('Creating share link:', link.file_id || link.folder_id);
+
+      const { data, error } = await supabase
+        .from('share_links')
+        .insert({
+          project_id: link.project_id,
+          file_id: link.file_id || null,
+          folder_id: link.folder_id || null,
+          label: link.label?.trim() || null,
+          created_by: user.id,
+          creator_name: user.name,
+          expires_at: link.expires_at,
+          password_hash: link.password ? await hashSharePassword(link.password) : null,
+          max_downloads: link.max_downloads || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating share link:', error);
+        throw error;
+      }
+
+      const created = mapShareLink(data);
+      console.log('Share link created successfully:', data.id);
+      return created;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw error;
+    }
+  };
+
+  const revokeShareLink = async (link: ShareLink) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot revoke share link');
+    }
+    requireFileShare(link.project_id);
+
+    try {
+      console.log('Revoking share link:', link.id);
+
+      const { error } = await supabase
+        .from('share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', link.id);
+
+      if (error) {
+        console.error('Error revoking share link:', error);
+        throw error;
+      }
+
+      console.log('Share link revoked successfully:', link.id);
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      throw error;
+    }
+  };
+
+  const mapStorageQuota = (quota: Record<string, unknown>): StorageQuota => ({
+    scope: quota.scope as StorageQuota['scope'],
+    target_id: quota.target_id as string,
+    quota_bytes: Number(quota.quota_bytes) || 0,
+    updated_by: (quota.updated_by as string) || undefined,
+    updated_at: (quota.updated_at as string) || undefined
+  });
+
+  // RLS limits rows to quotas of visible projects, the client's own quota, or all for managers
+  const loadStorageQuotas = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load storage quotas');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.from('storage_quotas').select('*');
+      if (error) {
+        console.error('Error loading storage quotas:', error);
+        return;
+      }
+
+      setStorageQuotas((data || []).map(mapStorageQuota));
+      console.log('Storage quotas loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading storage quotas:', error);
+    }
+  };
+
+  const loadStorageUsage = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load storage usage');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.from('project_storage_usage').select('*');
+      if (error) {
+        console.error('Error loading storage usage:', error);
+        return;
+      }
+
+      setStorageUsage((data || []).map(entry => ({
+        project_id: entry.project_id as string,
+        file_count: Number(entry.file_count) || 0,
+        version_count: Number(entry.version_count) || 0,
+        stored_bytes: Number(entry.stored_bytes) || 0
+      })));
+      console.log('Storage usage loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+    }
+  };
+
+  // Pass null to remove the quota
+  const setStorageQuota = async (scope: StorageQuota['scope'], targetId: string, quotaBytes: number | null) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update storage quota');
+    }
+    if (!can(user, 'storage.manage')) {
+      throw new Error('You do not have permission to manage storage quotas');
+    }
+
+    try {
+      console.log('Updating storage quota:', scope, targetId, quotaBytes);
+
+      if (quotaBytes === null) {
+        const { error } = await supabase
+          .from('storage_quotas')
+          .delete()
+          .eq('scope', scope)
+          .eq('target_id', targetId);
+        if (error) throw error;
+        setStorageQuotas(prev => prev.filter(q => !(q.scope === scope && q.target_id === targetId)));
+      } else {
+        const { data, error } = await supabase
+          .from('storage_quotas')
+          .upsert({
+            scope,
+            target_id: targetId,
+            quota_bytes: quotaBytes,
+            updated_by: user.id,
+            updated_at: new Date().toISOString()
+          })
+          .select()
+          .single();
+        if (error) throw error;
+        const updated = mapStorageQuota(data);
+        setStorageQuotas(prev => [...prev.filter(q => !(q.scope === scope && q.target_id === targetId)), updated]);
+      }
+
+      console.log('Storage quota updated successfully:', scope, targetId);
+    } catch (error) {
+      console.error('Error updating storage quota:', error);
+      throw error;
+    }
+  };
+
+  // Archived files drop out of the default views but stay downloadable until a purge rule removes them
+  const setFileArchived = async (file: File, archived: boolean) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot archive file');
+    }
+    if (!can(user, 'file.editMetadata', projects.find(p => p.id === file.project_id))) {
+      throw new Error('You do not have permission to archive files in this project');
+    }
+
+    try {
+      console.log(archived ? 'Archiving file:' : 'Unarchiving file:', file.id);
+
+      const updates = {
+        is_archived: archived,
+        archived_at: archived ? new Date().toISOString() : null,
+        archived_by: archived ? user.id : null
+      };
+      const { error } = await supabase
+        .from('files')
+        .update(updates)
+        .eq('id', file.id);
+
+      if (error) {
+        console.error('Error updating file archive state:', error);
+        throw error;
+      }
+
+      setFiles(prev => prev.map(f => (f.id === file.id
+        ? { ...f, is_archived: archived, archived_at: updates.archived_at || undefined, archived_by: updates.archived_by || undefined }
+        : f)));
+      console.log('File archive state updated successfully:', file.id);
+    } catch (error) {
+      console.error('Error updating file archive state:', error);
+      throw error;
+    }
+  };
+
+  const mapRetentionRule = (rule: Record<string, unknown>): RetentionRule => ({
+    id: rule.id as string,
+    name: rule.name as string,
+    action: rule.action as RetentionRule['action'],
+    after_days: Number(rule.after_days) || 0,
+    project_id: (rule.project_id as string) || undefined,
+    category: (rule.category as RetentionRule['category']) || undefined,
+    enabled: rule.enabled !== false,
+    last_run_at: (rule.last_run_at as string) || undefined,
+    created_by: (rule.created_by as string) || undefined,
+    created_at: rule.created_at as string
+  });
+
+  const requireStorageManage = () => {
+    if (!can(user, 'storage.manage')) {
+      throw new Error('You do not have permission to manage retention rules');
+    }
+  };
+
+  const loadRetentionRules = async () => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot load retention rules');
+    }
+    requireStorageManage();
+
+    try {
+      const { data, error } = await supabase
+        .from('retention_rules')
+        .select('*')
+        .order('created_at');
+      if (error) {
+        console.error('Error loading retention rules:', error);
+        throw error;
+      }
+
+      return (data || []).map(mapRetentionRule);
+    } catch (error) {
+      console.error('Error loading retention rules:', error);
+      throw error;
+    }
+  };
+
+  // Creates the rule when it has no id yet
+  const saveRetentionRule = async (rule: Pick<RetentionRule, 'name' | 'action' | 'after_days' | 'project_id' | 'category' | 'enabled'> & { id?: string }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot save retention rule');
+    }
+    requireStorageManage();
+
+    try {
+      console.log('Saving retention rule:', rule.id || rule.name);
+
+      const values = {
+        name: rule.name.trim(),
+        action: rule.action,
+        after_days: rule.after_days,
+        project_id: rule.project_id || null,
+        category: rule.category || null,
+        enabled: rule.enabled
+      };
+      const { data, error } = rule.id
+        ? await supabase.from('retention_rules').update(values).eq('id', rule.id).select().single()
+        : await supabase.from('retention_rules').insert({ ...values, created_by: user.id }).select().single();
+
+      if (error) {
+        console.error('Error saving retention rule:', error);
+        throw error;
+      }
+
+      const saved = mapRetentionRule(data);
+      console.log('Retention rule saved successfully:', saved.id);
+      return saved;
+    } catch (error) {
+      console.error('Error saving retention rule:', error);
+      throw error;
+    }
+  };
+
+  const deleteRetentionRule = async (rule: RetentionRule) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete retention rule');
+    }
+    requireStorageManage();
+
+    try {
+      console.log('Deleting retention rule:', rule.id);
+
+      const { error } = await supabase
+        .from('retention_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) {
+        console.error('Error deleting retention rule:', error);
+        throw error;
+      }
+
+      console.log('Retention rule deleted successfully:', rule.id);
+    } catch (error) {
+      console.error('Error deleting retention rule:', error);
+      throw error;
+    }
+  };
+
+  // Purging needs the service role to remove storage objects, so rules run in the
+  // retention-run edge function; a dry run only reports what would happen
+  const runRetentionRules = async (options: { dryRun: boolean; ruleId?: string }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot run retention rules');
+    }
+    requireStorageManage();
+
+    try {
+      console.log(options.dryRun ? 'Dry-running retention rules:' : 'Running retention rules:', options.ruleId || 'all');
+
+      const { data, error } = await supabase.functions.invoke('retention-run', {
+        body: { dry_run: options.dryRun, rule_id: options.ruleId }
+      });
+
+      if (error) {
+        const context = (error as { context?: Response }).context;
+        const details = context ? await context.json().catch(() => null) : null;
+        throw new Error(details?.error || error.message);
+      }
+
+      if (!options.dryRun) {
+        await loadFiles();
+        loadStorageUsage();
+      }
+      console.log('Retention rules run successfully:', (data as RetentionReport).rules.length);
+      return data as RetentionReport;
+    } catch (error) {
+      console.error('Error running retention rules:', error);
+      throw error;
+    }
   };
   
-  const deleteBrochurePage = async (projectId: string, pageNumber: number) => {
-    setBrochurePages(prev => 
-      prev.filter(page => 
-        !(page.project_id === projectId && page.page_number === pageNumber)
+  const updateFileMetadata = (fileId: string, metadata: Partial<File>) => {
+    setFiles(prev => 
+      prev.map(file => 
+        file.id === fileId ? { ...file, ...metadata } : file
       )
     );
   };
   
-  const saveBrochurePage = async (pageData: { project_id: string; page_number: number; content: BrochurePage['content']; approval_status?: 'pending' | 'approved' | 'rejected'; is_locked?: boolean }) => {
-    const existingPageIndex = brochurePages.findIndex(
-      page => page.project_id === pageData.project_id && page.page_number === pageData.page_number
-    );
+  // Map a leads row to the Lead shape used by the UI
+  const mapLead = (lead: Record<string, unknown>): Lead => ({
+    id: lead.id as string,
+    name: lead.name as string,
+    contact_info: (lead.contact_info as string) || '',
+    estimated_amount: Number(lead.estimated_amount) || 0,
+    notes: (lead.notes as string) || '',
+    status: (lead.status as Lead['status']) || 'new',
+    converted_client_id: (lead.converted_client_id as string) || undefined,
+    created_by: (lead.created_by as string) || undefined,
+    created_at: lead.created_at as string,
+    updated_at: lead.updated_at as string
+  });
+
+  // Load the sales pipeline (requires lead.manage)
+  const loadLeads = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load leads');
+      return;
+    }
 
-    if (existingPageIndex >= 0) {
-      setBrochurePages(prev => 
-        prev.map((page, index) => 
-          index === existingPageIndex 
-            ? { ...page, content: pageData.content, updated_at: new Date().toISOString() }
-            : page
-        )
-      );
-    } else {
-      const newPage: BrochurePage = {
-        id: uuidv4(),
-        project_id: pageData.project_id,
-        page_number: pageData.page_number,
-        approval_status: pageData.approval_status || 'pending',
-        is_locked: pageData.is_locked || false,
-        content: pageData.content,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      setBrochurePages(prev => [...prev, newPage]);
+    if (!can(user, 'lead.manage')) {
+      setLeads([]);
+      return;
+    }
+
+    try {
+      console.log('Loading leads');
+
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading leads:', error);
+        return;
+      }
+
+      setLeads((data || []).map(mapLead));
+      console.log('Leads loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading leads:', error);
     }
   };
-  
-  const getBrochurePages = (projectId: string) => {
-    return brochurePages.filter(page => page.project_id === projectId);
-  };
-  
-  const addPageComment = (comment: Omit<PageComment, 'id' | 'timestamp'>) => {
-    const newComment: PageComment = {
-      ...comment,
-      id: uuidv4(),
-      timestamp: new Date().toISOString()
-    };
-    setPageComments(prev => [...prev, newComment]);
-  };
-  
-  const getPageComments = (pageId: string) => {
-    return pageComments.filter(comment => comment.page_id === pageId);
-  };
-  
-  const markCommentDone = (commentId: string) => {
-    setPageComments(prev => 
-      prev.map(comment => 
-        comment.id === commentId ? { ...comment, marked_done: true } : comment
-      )
-    );
+
+  const createLead = async (lead: Omit<Lead, 'id' | 'created_at' | 'updated_at' | 'status'> & { status?: Lead['status'] }) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create lead');
+    }
+
+    try {
+      console.log('Creating lead:', lead.name);
+
+      const { data, error } = await supabase
+        .from('leads')
+        .insert({
+          name: lead.name,
+          contact_info: lead.contact_info,
+          estimated_amount: lead.estimated_amount,
+          notes: lead.notes,
+          status: lead.status || 'new',
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating lead:', error);
+        throw error;
+      }
+
+      setLeads(prev => [mapLead(data), ...prev]);
+      console.log('Lead created successfully:', data.id);
+    } catch (error) {
+      console.error('Error creating lead:', error);
+      throw error;
+    }
   };
   
-  const downloadFile = (fileId: string) => {
-    const file = files.find(f => f.id === fileId);
-    if (file) {
-      const link = document.createElement('a');
-      link.href = file.file_url;
-      link.download = file.filename;
-      link.click();
-      
-      // Update download count
-      setFiles(prev => 
-        prev.map(f => 
-          f.id === fileId 
-            ? { ...f, download_count: f.download_count + 1, last_downloaded: new Date().toISOString() }
-            : f
+  const updateLead = async (id: string, updates: Partial<Lead>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update lead');
+    }
+
+    try {
+      console.log('Updating lead:', id, updates);
+
+      const leadUpdates: Record<string, unknown> = { ...updates };
+      delete leadUpdates.id;
+      delete leadUpdates.created_at;
+      delete leadUpdates.updated_at;
+      delete leadUpdates.created_by;
+
+      const { data, error } = await supabase
+        .from('leads')
+        .update(leadUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating lead:', error);
+        throw error;
+      }
+
+      setLeads(prev => 
+        prev.map(lead => 
+          lead.id === id ? mapLead(data) : lead
         )
       );
+      console.log('Lead updated successfully:', id);
+    } catch (error) {
+      console.error('Error updating lead:', error);
+      throw error;
     }
   };
   
-  const downloadMultipleFiles = (fileIds: string[]) => {
-    fileIds.forEach(fileId => downloadFile(fileId));
-  };
-  
-  const getDownloadHistory = () => {
-    return downloadHistory;
+  const deleteLead = async (id: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete lead');
+    }
+
+    try {
+      console.log('Deleting lead:', id);
+
+      const { error } = await supabase
+        .from('leads')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting lead:', error);
+        throw error;
+      }
+
+      setLeads(prev => prev.filter(lead => lead.id !== id));
+      console.log('Lead deleted successfully:', id);
+    } catch (error) {
+      console.error('Error deleting lead:', error);
+      throw error;
+    }
   };
-  
-  const updateFileMetadata = (fileId: string, metadata: Partial<File>) => {
-    setFiles(prev => 
-      prev.map(file => 
-        file.id === fileId ? { ...file, ...metadata } : file
-      )
-    );
+
+  // Map an invoices row to the Invoice shape used by the UI
+  const mapInvoice = (invoice: Record<string, unknown>): Invoice => ({
+    id: invoice.id as string,
+    project_id: invoice.project_id as string,
+    invoice_number: invoice.invoice_number as string,
+    amount: Number(invoice.amount) || 0,
+    status: (invoice.status as Invoice['status']) || 'draft',
+    issued_date: invoice.issued_date as string,
+    due_date: (invoice.due_date as string) || undefined,
+    paid_date: (invoice.paid_date as string) || undefined,
+    notes: (invoice.notes as string) || undefined,
+    created_by: (invoice.created_by as string) || undefined,
+    created_at: invoice.created_at as string
+  });
+
+  // Load invoices (requires invoice.view)
+  const loadInvoices = async () => {
+    if (!supabase || !user) {
+      console.warn('Supabase or user not available - cannot load invoices');
+      return;
+    }
+
+    if (!can(user, 'invoice.view')) {
+      setInvoices([]);
+      return;
+    }
+
+    try {
+      console.log('Loading invoices');
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .order('issued_date', { ascending: false });
+
+      if (error) {
+        console.error('Error loading invoices:', error);
+        return;
+      }
+
+      setInvoices((data || []).map(mapInvoice));
+      console.log('Invoices loaded successfully:', data?.length || 0);
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+    }
   };
-  
-  const createLead = (lead: Omit<Lead, 'id' | 'created_at' | 'updated_at'>) => {
-    const newLead: Lead = {
-      ...lead,
-      id: uuidv4(),
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-    setLeads(prev => [...prev, newLead]);
+
+  const createInvoice = async (invoice: Omit<Invoice, 'id' | 'created_at' | 'created_by'>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot create invoice');
+    }
+
+    try {
+      console.log('Creating invoice:', invoice.invoice_number);
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .insert({
+          project_id: invoice.project_id,
+          invoice_number: invoice.invoice_number,
+          amount: invoice.amount,
+          status: invoice.status,
+          issued_date: invoice.issued_date,
+          due_date: invoice.due_date || null,
+          paid_date: invoice.paid_date || null,
+          notes: invoice.notes || null,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating invoice:', error);
+        throw error;
+      }
+
+      setInvoices(prev => [mapInvoice(data), ...prev]);
+      console.log('Invoice created successfully:', data.id);
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      throw error;
+    }
   };
-  
-  const updateLead = (id: string, updates: Partial<Lead>) => {
-    setLeads(prev => 
-      prev.map(lead => 
-        lead.id === id ? { ...lead, ...updates, updated_at: new Date().toISOString() } : lead
-      )
-    );
+
+  const updateInvoice = async (id: string, updates: Partial<Invoice>) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot update invoice');
+    }
+
+    try {
+      console.log('Updating invoice:', id, updates);
+
+      const invoiceUpdates: Record<string, unknown> = { ...updates };
+      delete invoiceUpdates.id;
+      delete invoiceUpdates.created_at;
+      delete invoiceUpdates.created_by;
+      // Optional fields cleared in the form arrive as undefined; store them as NULL
+      (['due_date', 'paid_date', 'notes'] as const).forEach(field => {
+        if (field in updates && updates[field] === undefined) invoiceUpdates[field] = null;
+      });
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .update(invoiceUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating invoice:', error);
+        throw error;
+      }
+
+      setInvoices(prev => prev.map(invoice => (invoice.id === id ? mapInvoice(data) : invoice)));
+      console.log('Invoice updated successfully:', id);
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      throw error;
+    }
   };
-  
-  const deleteLead = (id: string) => {
-    setLeads(prev => prev.filter(lead => lead.id !== id));
+
+  const deleteInvoice = async (id: string) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot delete invoice');
+    }
+
+    try {
+      console.log('Deleting invoice:', id);
+
+      const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting invoice:', error);
+        throw error;
+      }
+
+      setInvoices(prev => prev.filter(invoice => invoice.id !== id));
+      console.log('Invoice deleted successfully:', id);
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      throw error;
+    }
   };
-  
-  const approveBrochurePage = (pageId: string, status: 'approved' | 'rejected', comment?: string) => {
-    setBrochurePages(prev => 
-      prev.map(page => 
-        page.id === pageId ? { ...page, approval_status: status } : page
-      )
-    );
+
+  // Invite the lead as a client and mark the lead as won
+  const convertLeadToClient = async (leadId: string, account: { email: string; full_name: string }) => {
+    const created = await createUserAccount({ ...account, role: 'client' });
+
+    await updateLead(leadId, { status: 'won', converted_client_id: created.id });
+    await refreshUsers();
+    return created;
   };
   
   const getBrochureProjectsForReview = () => {
@@ -894,79 +3355,86 @@ export function DataProvider({ children }: { children: ReactNode }) {
     );
   };
   
-  const lockBrochurePage = (pageId: string) => {
-    setBrochurePages(prev => 
-      prev.map(page => 
-        page.id === pageId 
-          ? { 
-              ...page, 
-              is_locked: true, 
-              locked_by: user?.id,
-              locked_by_name: user?.name,
-              locked_at: new Date().toISOString()
-            } 
-          : page
-      )
-    );
-  };
-  
-  const unlockBrochurePage = (pageId: string) => {
-    setBrochurePages(prev => 
-      prev.map(page => 
-        page.id === pageId 
-          ? { 
-              ...page, 
-              is_locked: false, 
-              locked_by: undefined,
-              locked_by_name: undefined,
-              locked_at: undefined
-            } 
-          : page
-      )
-    );
-  };
-  
-  const createUserAccount = async (params: { email: string; password: string; full_name: string; role: 'employee' | 'client' }) => {
+  // Invite an employee or client by email; they choose their own password from the invite link
+  const createUserAccount = async (params: { email: string; full_name: string; role: InvitableRole; client_id?: string }) => {
     if (!supabase) {
       throw new Error('Supabase not configured');
     }
 
     try {
-      console.log('Creating user account:', params.email, params.role);
-      
-      const { data, error } = await supabase.auth.signUp({
-        email: params.email,
-        password: params.password,
-        options: {
-          data: {
-            full_name: params.full_name,
-            role: params.role
-          }
+      console.log('Inviting user:', params.email, params.role);
+
+      // Inviting needs the service role, so it runs in the invite-user edge function
+      const { data, error } = await supabase.functions.invoke('invite-user', {
+        body: {
+          email: params.email,
+          full_name: params.full_name,
+          role: params.role,
+          client_id: params.client_id,
+          redirect_to: window.location.origin
         }
       });
 
-      if (error) throw error;
+      if (error) {
+        // Surface the function's own error message rather than the generic HTTP one
+        const context = (error as { context?: Response }).context;
+        const details = context ? await context.json().catch(() => null) : null;
+        throw new Error(details?.error || error.message);
+      }
 
-      if (data.user) {
-        // Insert/Update profile
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .upsert({
-            id: data.user.id,
-            full_name: params.full_name,
-            role: params.role,
-            email: params.email
-          });
+      console.log('User invited successfully:', data.id);
+      return { id: data.id as string };
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      throw error;
+    }
+  };
+
+  // Map an audit_events row to the AuditEvent shape used by the UI
+  const mapAuditEvent = (event: Record<string, unknown>): AuditEvent => ({
+    id: event.id as string,
+    actor_id: (event.actor_id as string) || undefined,
+    actor_name: (event.actor_name as string) || 'Unknown',
+    actor_role: event.actor_role as AuditEvent['actor_role'],
+    action: event.action as string,
+    entity_type: event.entity_type as AuditEvent['entity_type'],
+    entity_id: (event.entity_id as string) || undefined,
+    project_id: (event.project_id as string) || undefined,
+    details: (event.details as Record<string, unknown>) || {},
+    created_at: event.created_at as string
+  });
+
+  // Query the audit trail (requires audit.view); newest first, capped at AUDIT_EVENT_LIMIT
+  const fetchAuditEvents = async (filters: AuditEventFilters = {}) => {
+    if (!supabase || !user) {
+      throw new Error('Supabase or user not available - cannot load audit events');
+    }
+    if (!can(user, 'audit.view')) {
+      throw new Error('You do not have permission to view the audit log');
+    }
+
+    try {
+      let query = supabase
+        .from('audit_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_EVENT_LIMIT);
 
-        if (profileError) throw profileError;
+      if (filters.project_id) query = query.eq('project_id', filters.project_id);
+      if (filters.actor_id) query = query.eq('actor_id', filters.actor_id);
+      if (filters.entity_type) query = query.eq('entity_type', filters.entity_type);
+      if (filters.from) query = query.gte('created_at', filters.from);
+      if (filters.to) query = query.lte('created_at', filters.to);
 
-        console.log('User account created successfully:', data.user.id);
-        return { id: data.user.id };
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error loading audit events:', error);
+        throw error;
       }
-      
-      return null;
+
+      return (data || []).map(mapAuditEvent);
     } catch (error) {
-      console.error('Error creating user account:', error);
+      console.error('Error loading audit events:', error);
       throw error;
     }
   };
@@ -980,25 +3448,138 @@ export function DataProvider({ children }: { children: ReactNode }) {
         loadProjects();
         refreshUsers();
         loadFiles();
+        loadFolders();
+        loadDownloadHistory();
+        loadStorageQuotas();
+        loadStorageUsage();
+        loadTasks();
+        loadComments();
+        loadStages();
+        loadBrochures();
+        loadLeads();
+        loadInvoices();
+        loadMeetings();
       }).catch(error => console.error('Error initializing data:', error));
+    } else {
+      // Signed out: drop everything loaded for the previous user
+      setAccessibleProjectIds(null);
+      setProjects([]);
+      setStages([]);
+      setStageApprovals([]);
+      setCommentTasks([]);
+      setGlobalComments([]);
+      setUsers([]);
+      setFiles([]);
+      setFolders([]);
+      setTasks([]);
+      setMeetings([]);
+      setBrochureProjects([]);
+      setBrochurePages([]);
+      setPageComments([]);
+      setLeads([]);
+      setInvoices([]);
+      setDownloadHistory([]);
+      setStorageQuotas([]);
+      setStorageUsage([]);
     }
   }, [user]);
 
+  // Subscribe to database changes so edits by other users appear without a reload
+  useEffect(() => {
+    if (!supabase || !user) return;
+    const client = supabase;
+
+    // Apply an INSERT/UPDATE/DELETE payload to a list, skipping echoes of our own writes
+    const applyChange = <T extends { id: string }>(
+      table: string,
+      payload: RealtimePostgresChangesPayload<Record<string, unknown>>,
+      map: (row: Record<string, unknown>) => T,
+      setter: Dispatch<SetStateAction<T[]>>,
+      prepend = false
+    ) => {
+      if (payload.eventType === 'DELETE') {
+        const removedId = payload.old.id as string | undefined;
+        if (removedId) {
+          setter(prev => prev.filter(item => item.id !== removedId));
+        }
+        return;
+      }
+
+      const row = payload.new;
+      if (payload.eventType === 'UPDATE' && isOwnEcho(table, row)) return;
+      setter(prev => mergeById(prev, map(row), prepend));
+    };
+
+    // Realtime projects rows carry no budget, so keep the one already loaded
+    const setProjectsKeepingBudgets: Dispatch<SetStateAction<Project[]>> = action =>
+      setProjects(prev => {
+        const next = typeof action === 'function' ? action(prev) : action;
+        return next.map(project =>
+          project.budget === undefined ? { ...project, budget: prev.find(p => p.id === project.id)?.budget } : project
+        );
+      });
+
+    const channel = client
+      .channel(`xeetrack-sync-${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, payload =>
+        applyChange('projects', payload, mapProject, setProjectsKeepingBudgets, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stages' }, payload =>
+        applyChange('stages', payload, mapStage, setStages)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, payload =>
+        applyChange('tasks', payload, mapTask, setTasks, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'files' }, payload =>
+        applyChange('files', payload, mapFile, setFiles, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'folders' }, payload =>
+        applyChange('folders', payload, mapFolder, setFolders)
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'download_history' }, payload =>
+        applyChange('download_history', payload, mapDownloadHistory, setDownloadHistory, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'comment_tasks' }, payload =>
+        applyChange('comment_tasks', payload, mapCommentTask, setCommentTasks, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'global_comments' }, payload =>
+        applyChange('global_comments', payload, mapGlobalComment, setGlobalComments, true)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'brochure_pages' }, payload =>
+        applyChange('brochure_pages', payload, mapBrochurePage, setBrochurePages)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'page_comments' }, payload =>
+        applyChange('page_comments', payload, mapPageComment, setPageComments, true)
+      )
+      .subscribe(status => {
+        console.log('Realtime sync status:', status);
+      });
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [user]);
+
   return (
     <DataContext.Provider value={{
       projects,
       stages,
+      stageApprovals,
       commentTasks,
       globalComments,
       users,
       files,
+      folders,
       tasks,
       meetings,
       brochureProjects,
       brochurePages,
       pageComments,
       leads,
+      invoices,
       downloadHistory,
+      storageQuotas,
+      storageUsage,
       createProject,
       updateProject,
       addCommentTask,
@@ -1010,25 +3591,48 @@ export function DataProvider({ children }: { children: ReactNode }) {
       uploadBrochureImage,
       updateStageProgress,
       scheduleMeeting,
+      updateMeeting,
+      deleteMeeting,
+      loadMeetings,
       createTask,
       updateTaskStatus,
       updateTask,
       deleteTask,
       createBrochureProject,
       updateBrochureProject,
+      deleteBrochureProject,
       deleteBrochurePage,
       saveBrochurePage,
       getBrochurePages,
+      exportBrochurePdf,
       addPageComment,
       getPageComments,
       markCommentDone,
       downloadFile,
+      getSignedFileUrl,
       downloadMultipleFiles,
       getDownloadHistory,
+      loadDownloadHistory,
+      loadShareLinks,
+      createShareLink,
+      revokeShareLink,
+      loadStorageUsage,
+      setStorageQuota,
+      setFileArchived,
+      loadRetentionRules,
+      saveRetentionRule,
+      deleteRetentionRule,
+      runRetentionRules,
       updateFileMetadata,
       createLead,
       updateLead,
       deleteLead,
+      convertLeadToClient,
+      loadLeads,
+      createInvoice,
+      updateInvoice,
+      deleteInvoice,
+      loadInvoices,
       approveBrochurePage,
       getBrochureProjectsForReview,
       lockBrochurePage,
@@ -1036,7 +3640,21 @@ export function DataProvider({ children }: { children: ReactNode }) {
       createUserAccount,
       refreshUsers,
       loadProjects,
-      deleteFile
+      loadTasks,
+      loadComments,
+      loadStages,
+      loadBrochures,
+      getStageApprovals,
+      deleteFile,
+      loadFileVersions,
+      downloadFileVersion,
+      restoreFileVersion,
+      createFolder,
+      renameFolder,
+      moveFolder,
+      deleteFolder,
+      moveFileToFolder,
+      fetchAuditEvents
     }}>
       {children}
     </DataContext.Provider>
@@ -0,0 +1,60 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import {
+  ROLE_PROJECT_TABS,
+  ROLE_PROJECT_LIST_VIEW,
+  projectPath,
+  brochurePagePath,
+  projectFilePath,
+  viewPath
+} from '../utils/routes';
+
+// Project detail state (selected project, tab, brochure page, file) read from and written to the URL
+export function useProjectRoute() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const params = useParams<{ projectId?: string; tab?: string; detail?: string }>();
+
+  const allowedTabs = user ? ROLE_PROJECT_TABS[user.role] : [];
+  const defaultTab = allowedTabs[0] || 'stages';
+  const tab = params.tab && allowedTabs.includes(params.tab) ? params.tab : defaultTab;
+
+  const pageNumber = tab === 'brochure' && params.detail ? parseInt(params.detail) || undefined : undefined;
+  const fileId = tab === 'storage' ? params.detail : undefined;
+
+  const openProject = (projectId: string, nextTab?: string) => {
+    navigate(projectPath(projectId, nextTab));
+  };
+
+  const setTab = (nextTab: string) => {
+    if (!params.projectId) return;
+    navigate(projectPath(params.projectId, nextTab));
+  };
+
+  const closeProject = () => {
+    navigate(viewPath(user ? ROLE_PROJECT_LIST_VIEW[user.role] : 'dashboard'));
+  };
+
+  const setBrochurePage = (page: number) => {
+    if (!params.projectId || page === pageNumber) return;
+    // Replace rather than push when the page is first resolved so back still leaves the tab
+    navigate(brochurePagePath(params.projectId, page), { replace: pageNumber === undefined });
+  };
+
+  const selectFile = (id: string) => {
+    if (!params.projectId) return;
+    navigate(projectFilePath(params.projectId, id));
+  };
+
+  return {
+    projectId: params.projectId,
+    tab,
+    pageNumber,
+    fileId,
+    openProject,
+    setTab,
+    closeProject,
+    setBrochurePage,
+    selectFile
+  };
+}
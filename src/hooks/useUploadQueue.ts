@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { isAbortError } from '../utils/resumableUpload';
+
+// Uploads running at once; the rest wait in the queue
+const MAX_PARALLEL_UPLOADS = 2;
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'error';
+
+export interface UploadQueueItem<T> {
+  id: string; // also the upload id, so resuming continues the same stored object
+  file: globalThis.File;
+  relativePath: string; // path inside a dropped folder, or just the filename
+  target: T;
+  status: UploadStatus;
+  uploadedBytes: number;
+  error?: string;
+}
+
+export interface UploadControls {
+  uploadId: string;
+  signal: AbortSignal;
+  onProgress: (uploadedBytes: number) => void;
+}
+
+// Queue of file uploads with per-item progress, pause/resume, retry and errors.
+// `runUpload` does the actual work for one item and rejects to report a failure.
+export function useUploadQueue<T>(runUpload: (item: UploadQueueItem<T>, controls: UploadControls) => Promise<void>) {
+  const [items, setItems] = useState<UploadQueueItem<T>[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  // The latest closure, so uploads see current folders and stages
+  const runUploadRef = useRef(runUpload);
+  runUploadRef.current = runUpload;
+
+  // Stable across renders, since they only touch refs and state setters
+  const updateItem = useCallback((id: string, changes: Partial<UploadQueueItem<T>>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item))), []);
+
+  const start = useCallback((item: UploadQueueItem<T>) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', error: undefined });
+
+    runUploadRef.current(item, {
+      uploadId: item.id,
+      signal: controller.signal,
+      onProgress: uploadedBytes => updateItem(item.id, { uploadedBytes })
+    })
+      .then(() => {
+        controllers.current.delete(item.id);
+        updateItem(item.id, { status: 'done', uploadedBytes: item.file.size });
+      })
+      .catch(error => {
+        controllers.current.delete(item.id);
+        if (controller.signal.aborted || isAbortError(error)) {
+          updateItem(item.id, { status: 'paused' });
+          return;
+        }
+        console.error('Error uploading file:', item.relativePath, error);
+        updateItem(item.id, { status: 'error', error: error instanceof Error ? error.message : 'Upload failed' });
+      });
+  }, [updateItem]);
+
+  // Start queued items whenever a slot frees up
+  useEffect(() => {
+    const freeSlots = MAX_PARALLEL_UPLOADS - controllers.current.size;
+    if (freeSlots <= 0) return;
+    items
+      .filter(item => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, freeSlots)
+      .forEach(start);
+  }, [items, start]);
+
+  // Leaving the page would lose the queued File objects
+  const hasActiveUploads = items.some(item => item.status === 'queued' || item.status === 'uploading');
+  useEffect(() => {
+    if (!hasActiveUploads) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [hasActiveUploads]);
+
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach(controller => controller.abort());
+  }, []);
+
+  const enqueue = (entries: { file: globalThis.File; relativePath?: string; target: T }[]) =>
+    setItems(prev => [
+      ...prev,
+      ...entries.map(entry => ({
+        id: uuidv4(),
+        file: entry.file,
+        relativePath: entry.relativePath || entry.file.name,
+        target: entry.target,
+        status: 'queued' as const,
+        uploadedBytes: 0
+      }))
+    ]);
+
+  const pause = (id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(id, { status: 'paused' });
+    }
+  };
+
+  // Resuming and retrying both requeue the item; its stored chunks are reused
+  const resume = (id: string) => updateItem(id, { status: 'queued', error: undefined });
+
+  const remove = (id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const clearFinished = () => setItems(prev => prev.filter(item => item.status !== 'done'));
+
+  return { items, enqueue, pause, resume, retry: resume, remove, clearFinished };
+}
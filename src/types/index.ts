@@ -2,8 +2,11 @@ export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'manager' | 'employee' | 'client';
+  role: UserRole;
   password_hash?: string;
+  must_change_password?: boolean;
+  // Stakeholders are linked to the client account whose projects they may view
+  client_id?: string;
 }
 
 export interface Project {
@@ -17,7 +20,11 @@ export interface Project {
   assigned_employees: string[];
   created_at: string;
   status: 'active' | 'completed' | 'on_hold';
+  completed_at?: string; // set by the database when status becomes 'completed'
   priority?: 'low' | 'medium' | 'high';
+  // null clears the value on update
+  team_lead_id?: string | null;
+  budget?: number | null;
 }
 
 export interface Stage {
@@ -32,6 +39,18 @@ export interface Stage {
   order: number;
 }
 
+export interface StageApproval {
+  id: string;
+  stage_id: string;
+  project_id: string;
+  status: 'approved' | 'rejected';
+  comment?: string;
+  approved_by: string;
+  approver_name: string;
+  approver_role: UserRole;
+  timestamp: string;
+}
+
 export interface CommentTask {
   id: string;
   stage_id?: string;
@@ -39,7 +58,7 @@ export interface CommentTask {
   text: string;
   added_by: string;
   author_name: string;
-  author_role: 'manager' | 'employee' | 'client';
+  author_role: UserRole;
   status: 'open' | 'in-progress' | 'done';
   assigned_to?: string;
   deadline?: string;
@@ -53,7 +72,7 @@ export interface GlobalComment {
   text: string;
   added_by: string;
   author_name: string;
-  author_role: 'manager' | 'employee' | 'client';
+  author_role: UserRole;
   timestamp: string;
 }
 
@@ -62,8 +81,9 @@ export interface File {
   stage_id?: string;
   project_id: string;
   filename: string;
-  file_url: string; // may be a signed URL; prefer storage_path for private buckets
-  storage_path?: string; // path inside 'project-files' bucket
+  file_url: string; // legacy public URL; empty for private files, which are served through signed URLs
+  storage_bucket?: string; // 'project-files', or 'files' for rows uploaded before the private bucket
+  storage_path?: string; // object path inside storage_bucket
   uploaded_by: string;
   uploader_name: string;
   timestamp: string;
@@ -75,17 +95,141 @@ export interface File {
   last_downloaded?: string;
   last_downloaded_by?: string;
   is_archived: boolean;
+  archived_at?: string;
+  archived_by?: string; // unset when a retention rule archived the file
   tags?: string[];
+  current_version: number; // version_number of the FileVersion the row points at
+  folder_id?: string | null; // null/undefined keeps the file at the project root
+  content_sha256?: string; // hex SHA-256 of the current version's bytes; unset for older uploads
 }
 
-export interface DownloadHistory {
+// What to do when an upload has the same contents as a file already in the project:
+// point the new file at the existing object, store another copy, or cancel the upload
+export type DuplicateUploadChoice = 'link' | 'upload' | 'skip';
+
+// Folder inside a project's file tree; top-level folders may belong to a stage
+// and subfolders inherit their parent's stage
+export interface FileFolder {
+  id: string;
+  project_id: string;
+  stage_id?: string;
+  parent_id?: string;
+  name: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// One uploaded revision of a File; the File row mirrors whichever version is current
+export interface FileVersion {
   id: string;
   file_id: string;
+  version_number: number;
+  file_url: string;
+  storage_bucket?: string;
+  storage_path: string;
+  size: number;
+  file_type: string;
+  content_sha256?: string;
+  uploaded_by?: string;
+  uploader_name: string;
+  created_at: string;
+}
+
+export interface DownloadHistory {
+  id: string;
+  file_id?: string; // unset once the file has been deleted
+  project_id?: string;
   downloaded_by: string;
   downloader_name: string;
   download_date: string;
   file_name: string;
   file_size: number;
+  share_link_id?: string; // set for downloads through an external share link
+}
+
+// Most download history rows kept in memory; analytics cover this recent window
+export const DOWNLOAD_HISTORY_LIMIT = 1000;
+
+// Public link to a single file or a folder tree for people without an account.
+// The token is the secret part of the URL; the password is only stored hashed.
+export interface ShareLink {
+  id: string;
+  token: string;
+  project_id: string;
+  file_id?: string;
+  folder_id?: string;
+  label?: string; // who the link is for, e.g. "Print shop"
+  created_by?: string;
+  creator_name: string;
+  created_at: string;
+  expires_at: string;
+  has_password: boolean;
+  max_downloads?: number; // unset for unlimited downloads
+  download_count: number;
+  last_accessed_at?: string;
+  revoked_at?: string;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+// Upper bound on stored bytes for a project, or for all of a client's projects
+export interface StorageQuota {
+  scope: 'project' | 'client';
+  target_id: string; // project id or client profile id
+  quota_bytes: number;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+// Bytes held in storage for a project, counting every file version
+export interface ProjectStorageUsage {
+  project_id: string;
+  file_count: number;
+  version_count: number;
+  stored_bytes: number;
+}
+
+// 'archive' archives files of projects completed after_days ago;
+// 'purge' permanently deletes files archived after_days ago
+export interface RetentionRule {
+  id: string;
+  name: string;
+  action: 'archive' | 'purge';
+  after_days: number;
+  project_id?: string; // unset applies to every project
+  category?: File['category']; // unset applies to every category
+  enabled: boolean;
+  last_run_at?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// What one rule matched (dry run) or processed in a retention-run call
+export interface RetentionRuleReport {
+  rule_id: string;
+  name: string;
+  action: RetentionRule['action'];
+  after_days: number;
+  cutoff: string;
+  limited: boolean; // more files matched than one run handles
+  files: {
+    id: string;
+    project_id: string;
+    project_title: string;
+    filename: string;
+    category?: string;
+    stored_bytes: number;
+    version_count: number;
+    since?: string; // project completion (archive) or archive date (purge)
+  }[];
+  processed_count: number;
+  failed: { file_id: string; error: string }[];
+}
+
+export interface RetentionReport {
+  dry_run: boolean;
+  ran_at: string;
+  rules: RetentionRuleReport[];
 }
 
 export interface Task {
@@ -94,6 +238,7 @@ export interface Task {
   title: string;
   description: string;
   assigned_to: string;
+  created_by?: string;
   status: 'open' | 'in-progress' | 'done';
   priority: 'low' | 'medium' | 'high';
   deadline?: string;
@@ -106,8 +251,13 @@ export interface Meeting {
   project_id: string;
   title: string;
   date: string;
+  duration_minutes?: number;
+  location?: string;
   attendees: string[];
   notes?: string;
+  external_uid?: string;
+  created_by?: string;
+  created_at?: string;
 }
 
 export interface Lead {
@@ -116,6 +266,9 @@ export interface Lead {
   contact_info: string;
   estimated_amount: number;
   notes: string;
+  status: LeadStatus;
+  converted_client_id?: string;
+  created_by?: string;
   created_at: string;
   updated_at: string;
 }
@@ -173,7 +326,7 @@ export interface PageComment {
   text: string;
   added_by: string;
   author_name: string;
-  author_role: 'manager' | 'employee' | 'client';
+  author_role: UserRole;
   timestamp: string;
   marked_done: boolean;
   action_type?: 'comment' | 'lock' | 'unlock' | 'approval';
@@ -232,11 +385,81 @@ export interface PageComment {
   text: string;
   added_by: string;
   author_name: string;
-  author_role: 'manager' | 'employee' | 'client';
+  author_role: UserRole;
   timestamp: string;
   marked_done: boolean;
   action_type?: 'comment' | 'lock' | 'unlock' | 'approval';
 }
 
 export const STAGE_NAMES = ['Planning', 'Design', 'Development', 'QC', 'Launch'] as const;
-export type StageName = typeof STAGE_NAMES[number];
\ No newline at end of file
+export type StageName = typeof STAGE_NAMES[number];
+
+export const LEAD_STATUSES = ['new', 'contacted', 'proposal', 'won', 'lost'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const USER_ROLES = ['manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Every role except manager can be invited from the app
+export type InvitableRole = Exclude<UserRole, 'manager'>;
+
+export interface Invoice {
+  id: string;
+  project_id: string;
+  invoice_number: string;
+  amount: number;
+  status: InvoiceStatus;
+  issued_date: string;
+  due_date?: string;
+  paid_date?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export const INVOICE_STATUSES = ['draft', 'sent', 'paid', 'void'] as const;
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  'project',
+  'stage',
+  'file',
+  'folder',
+  'share_link',
+  'retention_rule',
+  'comment',
+  'task',
+  'meeting',
+  'brochure',
+  'brochure_page',
+  'lead',
+  'invoice',
+  'user'
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+// Most audit events returned by a single query; narrow the filters to see older ones
+export const AUDIT_EVENT_LIMIT = 500;
+
+export interface AuditEvent {
+  id: string;
+  actor_id?: string;
+  actor_name: string;
+  actor_role: UserRole;
+  // `<entity>.<verb>`, e.g. `project.updated` or `brochure_page.approved`
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id?: string;
+  project_id?: string;
+  // Changed fields as { field: { from, to } } for updates, plus any action-specific context
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuditEventFilters {
+  project_id?: string;
+  actor_id?: string;
+  entity_type?: AuditEntityType;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,562 @@
+import type { jsPDF } from 'jspdf';
+import { BrochurePage } from '../types';
+
+// Print-ready brochure PDFs. Sheets are laid out in millimetres: the trim size the
+// printer cuts to, plus bleed around it (and room for crop marks outside that).
+// Backgrounds run into the bleed; text and images stay inside the margins.
+// The standard PDF fonts only cover Latin text, so other scripts may not render.
+
+export type BrochurePaperSize = 'a4' | 'a5' | 'letter' | 'legal';
+
+export const BROCHURE_PAPER_SIZES: Record<BrochurePaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  a5: { label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+  letter: { label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+  legal: { label: 'US Legal (8.5 × 14 in)', width: 215.9, height: 355.6 }
+};
+
+export const BROCHURE_BLEED_RANGE_MM = { min: 0, max: 10 };
+export const BROCHURE_MARGIN_RANGE_MM = { min: 5, max: 40 };
+
+export interface BrochurePdfOptions {
+  title: string; // cover title when page 1 has no project name, and the document title
+  paperSize: BrochurePaperSize;
+  orientation: 'portrait' | 'landscape';
+  bleedMm: number;
+  marginMm: number;
+  cropMarks: boolean; // drawn outside the bleed, so only used when there is bleed
+  logo?: string | Blob; // defaults to page 1's logo_url
+  logoOnEveryPage: boolean;
+  footerText?: string;
+}
+
+export const DEFAULT_BROCHURE_PDF_OPTIONS: Omit<BrochurePdfOptions, 'title'> = {
+  paperSize: 'a4',
+  orientation: 'portrait',
+  bleedMm: 3,
+  marginMm: 15,
+  cropMarks: true,
+  logoOnEveryPage: true
+};
+
+export interface BrochurePdfResult {
+  blob: Blob;
+  sheetCount: number;
+  skippedPages: number[]; // brochure pages with nothing to print
+  failedImages: string[]; // images (or the logo) that could not be loaded and were left out
+}
+
+const PT_TO_MM = 25.4 / 72;
+const LINE_HEIGHT = 1.4;
+const FONT = 'helvetica';
+const CROP_MARK_MM = 6;
+const COVER_BAND_MM = 14;
+const EDGE_BAR_MM = 3;
+const IMAGE_GUTTER_MM = 4;
+// Enough pixels for 300 dpi across an A4 page
+const MAX_IMAGE_PIXELS = 2500;
+const JPEG_QUALITY = 0.9;
+
+type Color = [number, number, number];
+const TEXT_COLOR: Color = [17, 24, 39];
+const MUTED_COLOR: Color = [75, 85, 99];
+const ACCENT_COLOR: Color = [220, 38, 38];
+const WHITE: Color = [255, 255, 255];
+
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface TextBlock {
+  kind: 'paragraph' | 'heading' | 'bullet' | 'numbered';
+  runs: TextRun[];
+  number?: number;
+}
+
+interface LoadedImage {
+  data: string;
+  format: 'JPEG' | 'PNG';
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, range: { min: number; max: number }) =>
+  Math.min(range.max, Math.max(range.min, Number.isFinite(value) ? value : range.min));
+
+const fontStyleOf = (run: TextRun): FontStyle =>
+  run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+
+const collectRuns = (node: Node, style: Omit<TextRun, 'text'>, runs: TextRun[]) => {
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      runs.push({ text: (child.textContent || '').replace(/\u00a0/g, ' '), ...style });
+    } else if (child instanceof HTMLElement) {
+      if (child.tagName === 'BR') {
+        runs.push({ text: '\n', ...style });
+        return;
+      }
+      collectRuns(child, {
+        bold: style.bold || child.tagName === 'STRONG' || child.tagName === 'B',
+        italic: style.italic || child.tagName === 'EM' || child.tagName === 'I'
+      }, runs);
+    }
+  });
+};
+
+// The page editor stores Quill HTML: paragraphs, bullet lists, bold and italic
+export const parseRichText = (html: string): TextBlock[] => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: TextBlock[] = [];
+
+  body.childNodes.forEach(node => {
+    if (node instanceof HTMLElement && (node.tagName === 'UL' || node.tagName === 'OL')) {
+      Array.from(node.children).forEach((item, index) => {
+        const runs: TextRun[] = [];
+        collectRuns(item, {}, runs);
+        blocks.push({ kind: node.tagName === 'OL' ? 'numbered' : 'bullet', runs, number: index + 1 });
+      });
+      return;
+    }
+
+    const isHeading = node instanceof HTMLElement && /^H[1-6]$/.test(node.tagName);
+    const runs: TextRun[] = [];
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ text: node.textContent || '' });
+    } else {
+      collectRuns(node, { bold: isHeading }, runs);
+    }
+    blocks.push({ kind: isHeading ? 'heading' : 'paragraph', runs });
+  });
+
+  return blocks.filter(block => block.runs.some(run => run.text.trim()));
+};
+
+const plainParagraphs = (text: string, style: Omit<TextRun, 'text'> = {}) =>
+  text.split(/\n+/).map(line => line.trim()).filter(Boolean).map(line => [{ text: line, ...style }]);
+
+const hasText = (value?: string) => !!value && value.replace(/<[^>]*>/g, '').trim() !== '';
+
+const hasPrintableContent = (content: BrochurePage['content']) =>
+  [
+    content.project_name, content.description, content.tagline, content.company_name,
+    content.about_us, content.email, content.phone, content.address,
+    content.heading, content.body_content, content.cta_text, content.cta_url
+  ].some(hasText) ||
+  !!content.bullet_points?.some(point => point.trim()) ||
+  !!content.images?.length;
+
+// Images are redrawn onto a canvas so any browser-readable format ends up as JPEG,
+// or PNG where transparency matters (logos)
+const loadImage = async (source: string | Blob, keepTransparency: boolean): Promise<LoadedImage> => {
+  let blob = source;
+  if (typeof blob === 'string') {
+    const response = await fetch(blob);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    blob = await response.blob();
+  }
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    // SVGs without a size report 0 × 0
+    const naturalWidth = image.naturalWidth || 1000;
+    const naturalHeight = image.naturalHeight || 1000;
+    const scale = Math.min(1, MAX_IMAGE_PIXELS / Math.max(naturalWidth, naturalHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    if (!keepTransparency) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return keepTransparency
+      ? { data: canvas.toDataURL('image/png'), format: 'PNG', width: canvas.width, height: canvas.height }
+      : { data: canvas.toDataURL('image/jpeg', JPEG_QUALITY), format: 'JPEG', width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const fitImage = (image: LoadedImage, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+// Renders brochure pages, in page order, into a PDF. A page whose content runs past
+// the bottom margin continues on further sheets; pages with no content are skipped.
+export const buildBrochurePdf = async (pages: BrochurePage[], options: BrochurePdfOptions): Promise<BrochurePdfResult> => {
+  const { jsPDF: JsPdf } = await import('jspdf');
+
+  const sortedPages = [...pages].sort((a, b) => a.page_number - b.page_number);
+  const coverContent = sortedPages.find(page => page.page_number === 1)?.content || {};
+  const paper = BROCHURE_PAPER_SIZES[options.paperSize];
+  const landscape = options.orientation === 'landscape';
+  const trimWidth = landscape ? paper.height : paper.width;
+  const trimHeight = landscape ? paper.width : paper.height;
+  const bleed = clamp(options.bleedMm, BROCHURE_BLEED_RANGE_MM);
+  const margin = clamp(options.marginMm, BROCHURE_MARGIN_RANGE_MM);
+  const cropMarks = options.cropMarks && bleed > 0;
+  const outer = bleed + (cropMarks ? CROP_MARK_MM : 0);
+
+  const sheetWidth = trimWidth + 2 * outer;
+  const sheetHeight = trimHeight + 2 * outer;
+  const trimLeft = outer;
+  const trimTop = outer;
+  const trimRight = outer + trimWidth;
+  const trimBottom = outer + trimHeight;
+  const contentLeft = trimLeft + margin;
+  const contentRight = trimRight - margin;
+  const contentWidth = contentRight - contentLeft;
+  const contentBottom = trimBottom - margin;
+
+  const failedImages: string[] = [];
+  const skippedPages: number[] = [];
+  const coverSheets = new Set<number>();
+
+  const images = new Map<string, LoadedImage | null>();
+  const getImage = async (url: string) => {
+    if (!images.has(url)) {
+      try {
+        images.set(url, await loadImage(url, false));
+      } catch (error) {
+        console.error('Error loading brochure image:', url, error);
+        failedImages.push(url);
+        images.set(url, null);
+      }
+    }
+    return images.get(url) || null;
+  };
+
+  const logoSource = options.logo || coverContent.logo_url;
+  let logo: LoadedImage | null = null;
+  if (logoSource) {
+    try {
+      logo = await loadImage(logoSource, true);
+    } catch (error) {
+      console.error('Error loading brochure logo:', error);
+      failedImages.push(typeof logoSource === 'string' ? logoSource : 'logo');
+    }
+  }
+
+  const doc: jsPDF = new JsPdf({
+    unit: 'mm',
+    format: [sheetWidth, sheetHeight],
+    orientation: sheetWidth > sheetHeight ? 'landscape' : 'portrait',
+    compress: true
+  });
+  doc.setProperties({ title: options.title, creator: 'XeeTrack' });
+
+  let sheetCount = 0;
+  let contentTop = trimTop + margin;
+  let y = contentTop;
+  let sheetKind: 'cover' | 'content' = 'content';
+
+  const drawCropMarks = () => {
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.25);
+    [trimLeft, trimRight].forEach(x => {
+      const outward = x === trimLeft ? -1 : 1;
+      [trimTop, trimBottom].forEach(markY => {
+        const vertical = markY === trimTop ? -1 : 1;
+        // Marks start outside the bleed so they never print on the finished piece
+        doc.line(x + outward * bleed, markY, x + outward * (bleed + CROP_MARK_MM), markY);
+        doc.line(x, markY + vertical * bleed, x, markY + vertical * (bleed + CROP_MARK_MM));
+      });
+    });
+  };
+
+  const startSheet = (kind: 'cover' | 'content') => {
+    if (sheetCount > 0) {
+      doc.addPage([sheetWidth, sheetHeight], sheetWidth > sheetHeight ? 'landscape' : 'portrait');
+    }
+    sheetCount += 1;
+    sheetKind = kind;
+    doc.setFillColor(...ACCENT_COLOR);
+
+    if (kind === 'cover') {
+      coverSheets.add(sheetCount);
+      doc.rect(trimLeft - bleed, trimTop - bleed, trimWidth + 2 * bleed, bleed + COVER_BAND_MM, 'F');
+      doc.rect(trimLeft - bleed, trimBottom - COVER_BAND_MM, trimWidth + 2 * bleed, bleed + COVER_BAND_MM, 'F');
+      contentTop = Math.max(trimTop + margin, trimTop + COVER_BAND_MM + 6);
+    } else {
+      doc.rect(trimLeft - bleed, trimTop - bleed, bleed + EDGE_BAR_MM, trimHeight + 2 * bleed, 'F');
+      contentTop = trimTop + margin;
+      if (logo && options.logoOnEveryPage) {
+        const size = fitImage(logo, 40, Math.min(10, margin * 0.6));
+        doc.addImage(logo.data, logo.format, contentRight - size.width, trimTop + (margin - size.height) / 2, size.width, size.height, 'brochure-logo');
+      }
+    }
+
+    if (cropMarks) drawCropMarks();
+    y = contentTop;
+  };
+
+  const bottomLimit = () => (sheetKind === 'cover' ? Math.min(contentBottom, trimBottom - COVER_BAND_MM - 6) : contentBottom);
+
+  // Continues on a new sheet when the next item doesn't fit (unless the sheet is still empty)
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomLimit() && y > contentTop) {
+      startSheet('content');
+    }
+  };
+
+  const gap = (height: number) => {
+    y = Math.min(y + height, bottomLimit());
+  };
+
+  const wrapRuns = (runs: TextRun[], width: number, size: number) => {
+    doc.setFontSize(size);
+    const lines: { words: { text: string; style: FontStyle; x: number }[]; width: number }[] = [{ words: [], width: 0 }];
+    let pendingSpace = 0;
+
+    runs.forEach(run => {
+      const style = fontStyleOf(run);
+      doc.setFont(FONT, style);
+      run.text.split(/(\n|[^\S\n]+)/).forEach(token => {
+        if (!token) return;
+        if (token === '\n') {
+          lines.push({ words: [], width: 0 });
+          pendingSpace = 0;
+          return;
+        }
+        if (!token.trim()) {
+          if (lines[lines.length - 1].width > 0) pendingSpace = doc.getTextWidth(' ');
+          return;
+        }
+        // Words wider than a line (long URLs) are broken up
+        const pieces: string[] = doc.getTextWidth(token) > width ? doc.splitTextToSize(token, width) : [token];
+        pieces.forEach(piece => {
+          const pieceWidth = doc.getTextWidth(piece);
+          let line = lines[lines.length - 1];
+          if (line.width > 0 && line.width + pendingSpace + pieceWidth > width) {
+            line = { words: [], width: 0 };
+            lines.push(line);
+            pendingSpace = 0;
+          }
+          line.words.push({ text: piece, style, x: line.width + pendingSpace });
+          line.width += pendingSpace + pieceWidth;
+          pendingSpace = 0;
+        });
+      });
+    });
+
+    return lines;
+  };
+
+  const writeRuns = (
+    runs: TextRun[],
+    style: { size: number; color?: Color; align?: 'left' | 'center'; indent?: number; marker?: string }
+  ) => {
+    const indent = style.indent || 0;
+    const width = contentWidth - indent;
+    const lineHeight = style.size * PT_TO_MM * LINE_HEIGHT;
+
+    wrapRuns(runs, width, style.size).forEach((line, index) => {
+      ensureSpace(lineHeight);
+      const baseline = y + lineHeight * 0.75;
+      const offset = style.align === 'center' ? (width - line.width) / 2 : 0;
+      doc.setFontSize(style.size);
+      doc.setTextColor(...(style.color || TEXT_COLOR));
+      if (index === 0 && style.marker) {
+        doc.setFont(FONT, 'normal');
+        doc.text(style.marker, contentLeft + indent - 5, baseline);
+      }
+      line.words.forEach(word => {
+        doc.setFont(FONT, word.style);
+        doc.text(word.text, contentLeft + indent + offset + word.x, baseline);
+      });
+      y += lineHeight;
+    });
+  };
+
+  const writeRichText = (html: string) => {
+    parseRichText(html).forEach(block => {
+      if (block.kind === 'heading') {
+        gap(2);
+        writeRuns(block.runs, { size: 14 });
+      } else if (block.kind === 'paragraph') {
+        writeRuns(block.runs, { size: 11 });
+      } else {
+        writeRuns(block.runs, { size: 11, indent: 7, marker: block.kind === 'bullet' ? '•' : `${block.number}.` });
+      }
+      gap(2);
+    });
+  };
+
+  const placeImages = (loaded: LoadedImage[]) => {
+    const columns = loaded.length === 1 ? 1 : 2;
+    const cellWidth = (contentWidth - IMAGE_GUTTER_MM * (columns - 1)) / columns;
+    const maxHeight = (contentBottom - trimTop - margin) * (columns === 1 ? 0.6 : 0.4);
+
+    for (let i = 0; i < loaded.length; i += columns) {
+      const row = loaded.slice(i, i + columns).map(image => ({ image, ...fitImage(image, cellWidth, maxHeight) }));
+      const rowHeight = Math.max(...row.map(cell => cell.height));
+      ensureSpace(rowHeight);
+      row.forEach((cell, index) => {
+        const x = contentLeft + index * (cellWidth + IMAGE_GUTTER_MM) + (cellWidth - cell.width) / 2;
+        doc.addImage(cell.image.data, cell.image.format, x, y, cell.width, cell.height);
+      });
+      y += rowHeight;
+      gap(IMAGE_GUTTER_MM);
+    }
+  };
+
+  const writeCallToAction = (text: string | undefined, url: string | undefined) => {
+    const label = (text || url || '').trim();
+    const size = 14;
+    doc.setFont(FONT, 'bold');
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(label, contentWidth - 16);
+    const lineHeight = size * PT_TO_MM * LINE_HEIGHT;
+    const showUrl = !!text && !!url;
+    const height = lines.length * lineHeight + (showUrl ? 6 : 0) + 10;
+
+    gap(4);
+    ensureSpace(height);
+    doc.setFillColor(...ACCENT_COLOR);
+    doc.roundedRect(contentLeft, y, contentWidth, height, 2, 2, 'F');
+    doc.setTextColor(...WHITE);
+    lines.forEach((line, index) => {
+      doc.text(line, contentLeft + contentWidth / 2, y + 5 + lineHeight * (index + 0.75), { align: 'center' });
+    });
+    if (showUrl && url) {
+      doc.setFont(FONT, 'normal');
+      doc.setFontSize(9);
+      doc.text(url, contentLeft + contentWidth / 2, y + 5 + lines.length * lineHeight + 4, { align: 'center' });
+    }
+    if (url) doc.link(contentLeft, y, contentWidth, height, { url });
+    y += height;
+    gap(4);
+  };
+
+  const writeCover = (content: BrochurePage['content']) => {
+    gap((bottomLimit() - contentTop) * 0.15);
+    if (logo) {
+      const size = fitImage(logo, Math.min(70, contentWidth * 0.6), 35);
+      doc.addImage(logo.data, logo.format, contentLeft + (contentWidth - size.width) / 2, y, size.width, size.height, 'brochure-logo');
+      y += size.height;
+      gap(10);
+    }
+    writeRuns([{ text: content.project_name || options.title, bold: true }], { size: 28, align: 'center' });
+    if (content.tagline) {
+      gap(2);
+      writeRuns([{ text: content.tagline, italic: true }], { size: 14, color: MUTED_COLOR, align: 'center' });
+    }
+    if (content.company_name) {
+      gap(4);
+      writeRuns([{ text: content.company_name, bold: true }], { size: 12, color: ACCENT_COLOR, align: 'center' });
+    }
+    if (content.description) {
+      gap(8);
+      plainParagraphs(content.description).forEach(runs => {
+        writeRuns(runs, { size: 11, color: MUTED_COLOR, align: 'center' });
+        gap(2);
+      });
+    }
+    gap(8);
+  };
+
+  const writeCompanyInfo = (content: BrochurePage['content']) => {
+    writeRuns([{ text: content.company_name ? `About ${content.company_name}` : 'About Us', bold: true }], { size: 20 });
+    gap(4);
+    if (content.about_us) {
+      plainParagraphs(content.about_us).forEach(runs => {
+        writeRuns(runs, { size: 11 });
+        gap(2);
+      });
+    }
+    const contact = [
+      ['Email', content.email],
+      ['Phone', content.phone],
+      ['Address', content.address]
+    ].filter((entry): entry is [string, string] => hasText(entry[1]));
+    if (contact.length > 0) {
+      gap(4);
+      contact.forEach(([label, value]) => writeRuns([{ text: `${label}: `, bold: true }, { text: value }], { size: 11 }));
+    }
+    gap(6);
+  };
+
+  for (const page of sortedPages) {
+    const content = page.content || {};
+    const isCover = page.page_number === 1;
+    if (!isCover && !hasPrintableContent(content)) {
+      skippedPages.push(page.page_number);
+      continue;
+    }
+
+    startSheet(isCover ? 'cover' : 'content');
+    if (isCover) writeCover(content);
+    if ([content.about_us, content.email, content.phone, content.address].some(hasText)) {
+      writeCompanyInfo(content);
+    }
+    if (content.heading) {
+      writeRuns([{ text: content.heading, bold: true }], { size: 20 });
+      gap(4);
+    }
+    if (content.body_content && hasText(content.body_content)) {
+      writeRichText(content.body_content);
+    }
+    const points = (content.bullet_points || []).filter(point => point.trim());
+    if (points.length > 0) {
+      gap(2);
+      points.forEach(point => {
+        writeRuns([{ text: point }], { size: 11, indent: 7, marker: '•' });
+        gap(1);
+      });
+      gap(2);
+    }
+    if (content.images?.length) {
+      const loaded = (await Promise.all(content.images.map(getImage))).filter((image): image is LoadedImage => !!image);
+      if (loaded.length > 0) {
+        gap(2);
+        placeImages(loaded);
+      }
+    }
+    if (hasText(content.cta_text) || hasText(content.cta_url)) {
+      writeCallToAction(content.cta_text, content.cta_url);
+    }
+  }
+
+  // No pages yet still gives a cover, so the export is never an empty file
+  if (sheetCount === 0) {
+    startSheet('cover');
+    writeCover(coverContent);
+  }
+
+  // Footers go on last, once the sheet count is known
+  for (let sheet = 1; sheet <= sheetCount; sheet += 1) {
+    if (coverSheets.has(sheet)) continue;
+    doc.setPage(sheet);
+    doc.setFont(FONT, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    const baseline = trimBottom - margin / 2 + 1;
+    if (options.footerText) doc.text(options.footerText, contentLeft, baseline);
+    doc.text(`Page ${sheet} of ${sheetCount}`, contentRight, baseline, { align: 'right' });
+  }
+
+  return { blob: doc.output('blob'), sheetCount, skippedPages, failedImages };
+};
+
+export const downloadPdf = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,30 @@
+// CSV (RFC 4180) helpers for exporting tables
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with these characters as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote fields containing separators, quotes or line breaks; double embedded quotes.
+// Text that would be read as a formula is prefixed with ' so it stays plain text.
+const escapeField = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n');
+
+export const downloadCsv = (content: string, filename: string) => {
+  // Leading BOM so spreadsheet apps detect UTF-8
+  const blob = new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
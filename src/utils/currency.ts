@@ -0,0 +1,3 @@
+// Budgets and invoices are stored as plain numbers in a single currency
+export const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
@@ -0,0 +1,46 @@
+// Files from a drag-and-drop, including everything inside dropped folders
+
+export interface DroppedFile {
+  file: globalThis.File;
+  directories: string[]; // folders between the drop and the file, outermost first
+}
+
+// A directory reader returns entries in batches until it returns an empty one
+const readAllEntries = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry, directories: string[]): Promise<DroppedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<globalThis.File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, directories }];
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(child => collectEntry(child, [...directories, entry.name])));
+    return nested.flat();
+  }
+  return [];
+};
+
+export const isFileDrag = (dataTransfer: DataTransfer) => Array.from(dataTransfer.types).includes('Files');
+
+// Entries must be taken from the event synchronously; browsers clear them once the handler returns
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<DroppedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  // Browsers without the entries API only expose top-level files
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Promise.resolve(Array.from(dataTransfer.files).map(file => ({ file, directories: [] })));
+  }
+
+  return Promise.all(entries.map(entry => collectEntry(entry as FileSystemEntry, []))).then(groups => groups.flat());
+};
@@ -0,0 +1,36 @@
+import { DuplicateUploadChoice, File, FileFolder, Stage } from '../types';
+import { formatFolderPath } from './folders';
+
+// SHA-256 fingerprints of file contents, used to spot duplicate uploads and to
+// verify downloads against what was uploaded
+
+// Web Crypto hashes whole buffers only, so checking a download means holding it in
+// memory; larger files are handed to the browser unverified. Kept low so a download
+// does not hold hundreds of megabytes in the tab.
+export const INTEGRITY_CHECK_MAX_BYTES = 50 * 1024 * 1024;
+
+export const computeSha256 = async (data: Blob | ArrayBuffer | Uint8Array) => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const integrityErrorMessage = (filename: string) =>
+  `${filename} does not match the checksum recorded at upload and may be corrupted`;
+
+// Same contents already in the project: offer to link to that file instead of storing a copy
+export const confirmDuplicateUpload = (
+  file: globalThis.File,
+  duplicate: File,
+  stages: Stage[],
+  folders: FileFolder[]
+): DuplicateUploadChoice => {
+  const stageName = stages.find(s => s.id === duplicate.stage_id)?.name;
+  const location = [stageName && `${stageName} stage`, duplicate.folder_id && formatFolderPath(folders, duplicate.folder_id)]
+    .filter(Boolean)
+    .join(', ');
+  return confirm(
+    `${file.name} already exists${location ? ` in ${location}` : ''} as "${duplicate.filename}". ` +
+    'Link to it instead of uploading another copy?\n\nCancel uploads a separate copy.'
+  ) ? 'link' : 'upload';
+};
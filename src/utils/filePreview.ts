@@ -0,0 +1,114 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { File } from '../types';
+
+// Which in-app viewer can render a file, by its extension or MIME type
+
+export type PreviewKind = 'pdf' | 'image' | 'video' | 'audio' | 'text';
+
+const PREVIEW_EXTENSIONS: Record<PreviewKind, string[]> = {
+  pdf: ['pdf'],
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'avif'],
+  video: ['mp4', 'webm', 'mov', 'm4v', 'ogv'],
+  audio: ['mp3', 'wav', 'ogg', 'oga', 'm4a', 'aac', 'flac'],
+  text: [
+    'txt', 'md', 'markdown', 'csv', 'tsv', 'log', 'json', 'xml', 'yml', 'yaml', 'ini', 'env',
+    'html', 'htm', 'css', 'scss', 'less', 'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs',
+    'py', 'rb', 'php', 'java', 'kt', 'swift', 'go', 'rs', 'c', 'h', 'cpp', 'cs', 'sh', 'bash', 'sql'
+  ]
+};
+
+export const getFileExtension = (file: Pick<File, 'filename' | 'file_type'>) => {
+  const dot = file.filename.lastIndexOf('.');
+  return dot > 0 ? file.filename.slice(dot + 1).toLowerCase() : file.file_type.toLowerCase();
+};
+
+// Uploads record the browser's MIME type in file_type; older rows hold an extension
+export const getPreviewKind = (file: Pick<File, 'filename' | 'file_type'>): PreviewKind | null => {
+  const extension = getFileExtension(file);
+  const match = (Object.keys(PREVIEW_EXTENSIONS) as PreviewKind[]).find(kind =>
+    PREVIEW_EXTENSIONS[kind].includes(extension)
+  );
+  if (match) return match;
+
+  const mimeType = file.file_type.toLowerCase();
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'text';
+  return null;
+};
+
+// Larger text files are offered as downloads; highlighting them would freeze the page
+export const TEXT_PREVIEW_MAX_BYTES = 512 * 1024;
+
+// Thumbnails download the whole image or the first PDF page, so skip very large files
+export const THUMBNAIL_MAX_BYTES = 20 * 1024 * 1024;
+
+// pdf.js is large, so it (and its worker) only loads the first time a PDF is shown
+let pdfjsLoader: Promise<typeof import('pdfjs-dist')> | null = null;
+
+export const loadPdfjs = () => {
+  if (!pdfjsLoader) {
+    pdfjsLoader = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+  }
+  return pdfjsLoader;
+};
+
+// Draws one page at the given CSS width or scale, sharp on high-DPI screens
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  size: { scale?: number; width?: number }
+) => {
+  const page = await pdf.getPage(pageNumber);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const scale = size.width ? size.width / baseViewport.width : size.scale || 1;
+  const viewport = page.getViewport({ scale });
+  const pixelRatio = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * pixelRatio);
+  canvas.height = Math.floor(viewport.height * pixelRatio);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+
+  const task = page.render({
+    canvasContext: context,
+    viewport,
+    transform: pixelRatio !== 1 ? [pixelRatio, 0, 0, pixelRatio, 0, 0] : undefined
+  });
+  return task;
+};
+
+// Generated thumbnails (data URLs) per file version, kept for the session
+const thumbnailCache = new Map<string, string>();
+
+export const getCachedThumbnail = (key: string) => thumbnailCache.get(key);
+
+export const createPdfThumbnail = async (key: string, url: string, width: number) => {
+  const cached = thumbnailCache.get(key);
+  if (cached) return cached;
+
+  const pdfjs = await loadPdfjs();
+  // Range requests fetch only what the first page needs
+  const pdf = await pdfjs.getDocument({ url, disableAutoFetch: true, disableStream: true }).promise;
+  try {
+    const canvas = document.createElement('canvas');
+    await (await renderPdfPage(pdf, 1, canvas, { width })).promise;
+    const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
+    thumbnailCache.set(key, dataUrl);
+    return dataUrl;
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,38 @@
+import { File, FileFolder } from '../types';
+
+// Folders from the project root down to (and including) the given folder, for breadcrumbs
+export const getFolderPath = (folders: FileFolder[], folderId?: string | null): FileFolder[] => {
+  const path: FileFolder[] = [];
+  const seen = new Set<string>();
+  let current = folderId ? folders.find(f => f.id === folderId) : undefined;
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    const parentId = current.parent_id;
+    current = parentId ? folders.find(f => f.id === parentId) : undefined;
+  }
+
+  return path;
+};
+
+// The folder plus every folder nested below it
+export const getDescendantFolderIds = (folders: FileFolder[], folderId: string): string[] => {
+  const ids = [folderId];
+  for (let i = 0; i < ids.length; i++) {
+    folders.forEach(folder => {
+      if (folder.parent_id === ids[i] && !ids.includes(folder.id)) ids.push(folder.id);
+    });
+  }
+  return ids;
+};
+
+// Files anywhere inside the folder, including its subfolders
+export const getFilesInFolderTree = (files: File[], folders: FileFolder[], folderId: string): File[] => {
+  const folderIds = new Set(getDescendantFolderIds(folders, folderId));
+  return files.filter(file => !!file.folder_id && folderIds.has(file.folder_id));
+};
+
+// "Client Assets / Logos" style label for a folder
+export const formatFolderPath = (folders: FileFolder[], folderId?: string | null) =>
+  getFolderPath(folders, folderId).map(folder => folder.name).join(' / ');
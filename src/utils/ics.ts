@@ -0,0 +1,267 @@
+import { Meeting, User } from '../types';
+
+// iCalendar (RFC 5545) helpers for exporting and importing meetings
+
+export interface ParsedIcsEvent {
+  uid?: string;
+  title: string;
+  date: string;
+  duration_minutes: number;
+  location?: string;
+  notes?: string;
+  attendee_emails: string[];
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Parameter values such as CN are not TEXT and cannot be backslash-escaped, so they are
+// double-quoted instead. Quotes and line breaks cannot appear inside a quoted value.
+const quoteParam = (value: string) => `"${value.replace(/["\r\n]/g, '')}"`;
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets must be folded onto continuation lines (whose leading
+// space counts towards the limit), without splitting a UTF-8 encoded character
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkLength = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (chunkLength + length > 75) {
+      chunks.push(chunk);
+      chunk = ' ';
+      chunkLength = 1;
+    }
+    chunk += char;
+    chunkLength += length;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n');
+};
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Offset of a time zone from UTC at the given instant, in minutes
+const getTimeZoneOffsetMinutes = (timeZone: string, instant: number) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return (wallTime - instant) / 60000;
+};
+
+// Convert a wall-clock time in an IANA time zone to a Date. Returns null for zone
+// names Intl does not know, such as the Windows names some Outlook exports use.
+const zonedTimeToDate = (wallTime: number, timeZone: string) => {
+  try {
+    const guess = wallTime - getTimeZoneOffsetMinutes(timeZone, wallTime) * 60000;
+    // Re-check the offset at the guessed instant in case it crosses a DST change
+    return new Date(wallTime - getTimeZoneOffsetMinutes(timeZone, guess) * 60000);
+  } catch {
+    return null;
+  }
+};
+
+const parseIcsDate = (value: string, params: string) => {
+  // All-day events: YYYYMMDD
+  if (/VALUE=DATE(?!-)/i.test(params) || /^\d{8}$/.test(value)) {
+    const year = Number(value.slice(0, 4));
+    const month = Number(value.slice(4, 6)) - 1;
+    const day = Number(value.slice(6, 8));
+    return new Date(year, month, day, 9, 0, 0);
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  }
+
+  const timeZone = params.match(/(?:^|;)TZID="?([^";]+)"?/i)?.[1];
+  if (timeZone) {
+    const zoned = zonedTimeToDate(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds), timeZone);
+    if (zoned) return zoned;
+  }
+  // Floating times, and TZIDs that cannot be resolved, are treated as local time
+  return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+};
+
+const parseDurationMinutes = (value: string) => {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes] = match;
+  return (Number(days) || 0) * 1440 + (Number(hours) || 0) * 60 + (Number(minutes) || 0);
+};
+
+export const meetingsToIcs = (meetings: Meeting[], users: User[], projectTitles: Record<string, string> = {}) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//XeeTrack//Meetings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  meetings.forEach(meeting => {
+    const start = new Date(meeting.date);
+    const end = new Date(start.getTime() + (meeting.duration_minutes || DEFAULT_DURATION_MINUTES) * 60000);
+    const projectTitle = projectTitles[meeting.project_id];
+    const description = [projectTitle ? `Project: ${projectTitle}` : '', meeting.notes || '']
+      .filter(Boolean)
+      .join('\n');
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${meeting.id}@xeetrack`);
+    lines.push(`DTSTAMP:${formatUtc(new Date())}`);
+    lines.push(`DTSTART:${formatUtc(start)}`);
+    lines.push(`DTEND:${formatUtc(end)}`);
+    lines.push(`SUMMARY:${escapeText(meeting.title)}`);
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (meeting.location) lines.push(`LOCATION:${escapeText(meeting.location)}`);
+
+    meeting.attendees.forEach(attendeeId => {
+      const attendee = users.find(u => u.id === attendeeId);
+      if (attendee?.email) {
+        lines.push(`ATTENDEE;CN=${quoteParam(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+      }
+    });
+
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const parseIcs = (content: string): ParsedIcsEvent[] => {
+  // Unfold continuation lines before splitting into properties
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: (Partial<ParsedIcsEvent> & { end?: Date; attendee_emails: string[] }) | null = null;
+  // Components nested in an event, such as VALARM, carry their own SUMMARY and
+  // DESCRIPTION that must not overwrite the event's
+  let nestedDepth = 0;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = { attendee_emails: [] };
+      nestedDepth = 0;
+      return;
+    }
+
+    if (current && line.startsWith('BEGIN:')) {
+      nestedDepth += 1;
+      return;
+    }
+    if (nestedDepth > 0) {
+      if (line.startsWith('END:')) nestedDepth -= 1;
+      return;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current?.title && current.date) {
+        const start = new Date(current.date);
+        const duration = current.end
+          ? Math.max(Math.round((current.end.getTime() - start.getTime()) / 60000), 0)
+          : current.duration_minutes;
+
+        events.push({
+          uid: current.uid,
+          title: current.title,
+          date: current.date,
+          duration_minutes: duration || DEFAULT_DURATION_MINUTES,
+          location: current.location,
+          notes: current.notes,
+          attendee_emails: current.attendee_emails
+        });
+      }
+      current = null;
+      return;
+    }
+
+    if (!current) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const [name, ...paramParts] = line.slice(0, separator).split(';');
+    const params = paramParts.join(';');
+    const value = line.slice(separator + 1);
+
+    switch (name.toUpperCase()) {
+      case 'UID':
+        current.uid = value;
+        break;
+      case 'SUMMARY':
+        current.title = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        current.notes = unescapeText(value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(value);
+        break;
+      case 'DTSTART': {
+        const start = parseIcsDate(value, params);
+        if (start) current.date = start.toISOString();
+        break;
+      }
+      case 'DTEND': {
+        const end = parseIcsDate(value, params);
+        if (end) current.end = end;
+        break;
+      }
+      case 'DURATION': {
+        const minutes = parseDurationMinutes(value);
+        if (minutes !== null) current.duration_minutes = minutes;
+        break;
+      }
+      case 'ATTENDEE': {
+        const email = value.replace(/^mailto:/i, '').trim();
+        if (email) current.attendee_emails.push(email.toLowerCase());
+        break;
+      }
+    }
+  });
+
+  return events;
+};
+
+export const downloadIcs = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,203 @@
+import { BrochureProject, Project, User } from '../types';
+
+// Central role → capability matrix. Components ask `can(user, capability, project)`
+// instead of checking roles; the same matrix is seeded into the `role_permissions`
+// table and enforced by RLS through `has_permission()`, so keep both in sync.
+
+type Role = User['role'];
+
+// 'all': any project. 'member': projects the user leads, is assigned to, is the client of,
+// or (for stakeholders) belongs to the client they are linked to.
+export type PermissionScope = 'all' | 'member';
+
+export type Capability =
+  | 'project.view'
+  | 'project.create'
+  | 'project.edit'
+  | 'project.delete'
+  | 'project.updateProgress'
+  | 'stage.approve'
+  | 'stage.updateProgress'
+  | 'task.manage'
+  | 'task.updateStatus'
+  | 'comment.create'
+  | 'comment.raiseTask'
+  | 'comment.resolve'
+  | 'brochure.create'
+  | 'brochure.edit'
+  | 'brochure.editLocked'
+  | 'brochure.approve'
+  | 'brochure.lock'
+  | 'brochure.comment'
+  | 'brochure.resolveComment'
+  | 'brochure.export'
+  | 'file.upload'
+  | 'file.editMetadata'
+  | 'file.delete'
+  | 'meeting.schedule'
+  | 'meeting.manageAll'
+  | 'lead.manage'
+  | 'user.invite'
+  | 'budget.view'
+  | 'budget.edit'
+  | 'invoice.view'
+  | 'invoice.manage'
+  | 'audit.view'
+  | 'file.viewDownloads'
+  | 'file.share'
+  | 'storage.manage';
+
+export const PERMISSIONS: Record<Role, Partial<Record<Capability, PermissionScope>>> = {
+  manager: {
+    'project.view': 'all',
+    'project.create': 'all',
+    'project.edit': 'all',
+    'project.delete': 'all',
+    'project.updateProgress': 'all',
+    'stage.approve': 'all',
+    'stage.updateProgress': 'all',
+    'task.manage': 'all',
+    'task.updateStatus': 'all',
+    'comment.create': 'all',
+    'comment.resolve': 'all',
+    'brochure.create': 'all',
+    'brochure.edit': 'all',
+    'brochure.editLocked': 'all',
+    'brochure.approve': 'all',
+    'brochure.lock': 'all',
+    'brochure.comment': 'all',
+    'brochure.resolveComment': 'all',
+    'brochure.export': 'all',
+    'file.upload': 'all',
+    'file.editMetadata': 'all',
+    'file.delete': 'all',
+    'meeting.schedule': 'all',
+    'meeting.manageAll': 'all',
+    'lead.manage': 'all',
+    'user.invite': 'all',
+    'budget.view': 'all',
+    'budget.edit': 'all',
+    'invoice.view': 'all',
+    'invoice.manage': 'all',
+    'audit.view': 'all',
+    'file.viewDownloads': 'all',
+    'file.share': 'all',
+    'storage.manage': 'all'
+  },
+  // Runs their own projects end to end, but has no access to other teams' work
+  team_lead: {
+    'project.view': 'member',
+    'project.create': 'member',
+    'project.edit': 'member',
+    'project.delete': 'member',
+    'project.updateProgress': 'member',
+    'stage.approve': 'member',
+    'stage.updateProgress': 'member',
+    'task.manage': 'member',
+    'task.updateStatus': 'member',
+    'comment.create': 'member',
+    'comment.resolve': 'member',
+    'brochure.create': 'member',
+    'brochure.edit': 'member',
+    'brochure.editLocked': 'member',
+    'brochure.approve': 'member',
+    'brochure.lock': 'member',
+    'brochure.comment': 'member',
+    'brochure.resolveComment': 'member',
+    'brochure.export': 'member',
+    'file.upload': 'member',
+    'file.editMetadata': 'member',
+    'file.delete': 'member',
+    'file.viewDownloads': 'member',
+    'meeting.schedule': 'member',
+    'meeting.manageAll': 'member'
+  },
+  // Budgets and invoices only
+  finance: {
+    'budget.view': 'all',
+    'invoice.view': 'all',
+    'invoice.manage': 'all'
+  },
+  employee: {
+    'project.view': 'member',
+    'project.updateProgress': 'member',
+    'stage.updateProgress': 'member',
+    'task.updateStatus': 'member',
+    'comment.create': 'member',
+    'comment.resolve': 'member',
+    'brochure.create': 'member',
+    'brochure.edit': 'member',
+    'brochure.editLocked': 'member',
+    'brochure.lock': 'member',
+    'brochure.comment': 'member',
+    'brochure.resolveComment': 'member',
+    'file.upload': 'member',
+    'meeting.schedule': 'member'
+  },
+  client: {
+    'project.view': 'member',
+    'stage.approve': 'member',
+    'comment.create': 'member',
+    'comment.raiseTask': 'member',
+    'brochure.create': 'member',
+    'brochure.edit': 'member',
+    'brochure.export': 'member'
+  },
+  // Read-only view of the linked client's projects
+  stakeholder: {
+    'project.view': 'member'
+  }
+};
+
+type PermissionTarget = Pick<Project, 'client_id' | 'assigned_employees' | 'team_lead_id'>;
+
+export const isProjectMember = (user: User, project: PermissionTarget) =>
+  project.client_id === user.id ||
+  project.assigned_employees.includes(user.id) ||
+  (!!project.team_lead_id && project.team_lead_id === user.id) ||
+  (!!user.client_id && project.client_id === user.client_id);
+
+// PostgREST `or` filter selecting the projects a user is a member of (mirrors isProjectMember)
+export const projectMemberFilter = (user: User) => {
+  const conditions = [
+    `client_id.eq.${user.id}`,
+    `assigned_employees.cs.{${user.id}}`,
+    `team_lead_id.eq.${user.id}`
+  ];
+  if (user.client_id) {
+    conditions.push(`client_id.eq.${user.client_id}`);
+  }
+  return conditions.join(',');
+};
+
+// Brochures are checked against the project they belong to; without one only the client is a member
+export const getBrochurePermissionTarget = (
+  brochure: Pick<BrochureProject, 'project_id' | 'client_id'>,
+  projects: Project[]
+): PermissionTarget =>
+  projects.find(p => p.id === brochure.project_id) || { client_id: brochure.client_id, assigned_employees: [] };
+
+export const getPermissionScope = (user: User | null | undefined, capability: Capability) =>
+  user ? PERMISSIONS[user.role]?.[capability] : undefined;
+
+// Without a project, answers whether the user has the capability on at least some project
+export const can = (
+  user: User | null | undefined,
+  capability: Capability,
+  project?: PermissionTarget | null
+): boolean => {
+  const scope = getPermissionScope(user, capability);
+  if (!user || !scope) return false;
+  if (scope === 'all' || !project) return true;
+  return isProjectMember(user, project);
+};
+
+// True when the capability applies to every project, not just the user's own
+export const canOnAllProjects = (user: User | null | undefined, capability: Capability) =>
+  getPermissionScope(user, capability) === 'all';
+
+export const filterByPermission = <T extends PermissionTarget>(
+  user: User | null | undefined,
+  capability: Capability,
+  projects: T[]
+) => projects.filter(project => can(user, capability, project));
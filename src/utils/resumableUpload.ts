@@ -0,0 +1,82 @@
+import { DetailedError, Upload } from 'tus-js-client';
+
+// Resumable (tus) uploads to Supabase Storage. Each file goes up in chunks, so a
+// dropped connection or a pause only loses the chunk in flight.
+
+// Supabase's tus endpoint requires exactly this chunk size
+export const RESUMABLE_CHUNK_BYTES = 6 * 1024 * 1024;
+
+const RETRY_DELAYS_MS = [0, 3000, 5000, 10000, 20000];
+
+export interface ResumableUploadOptions {
+  supabaseUrl: string;
+  getAccessToken: () => Promise<string>; // read per request, so long uploads survive token refreshes
+  bucket: string;
+  objectName: string;
+  file: globalThis.File;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal; // aborting pauses; the partial upload stays on the server
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Storage answers failed requests with a JSON body; prefer its message over tus's request dump
+const describeUploadError = (error: Error) => {
+  if (error instanceof DetailedError && error.originalResponse) {
+    try {
+      const body = JSON.parse(error.originalResponse.getBody());
+      if (body?.message) return new Error(body.message);
+    } catch {
+      // Not JSON; fall through to the original error
+    }
+  }
+  return error;
+};
+
+// Uploading the same file to the same object again continues from the last chunk
+// the server acknowledged, via the upload URL tus keeps in localStorage
+export const uploadResumable = (options: ResumableUploadOptions) =>
+  new Promise<void>((resolve, reject) => {
+    const { file, bucket, objectName, signal } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Upload paused', 'AbortError'));
+      return;
+    }
+
+    const upload = new Upload(file, {
+      endpoint: `${options.supabaseUrl}/storage/v1/upload/resumable`,
+      retryDelays: RETRY_DELAYS_MS,
+      chunkSize: RESUMABLE_CHUNK_BYTES,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      headers: { 'x-upsert': 'false' },
+      metadata: {
+        bucketName: bucket,
+        objectName,
+        contentType: file.type || 'application/octet-stream',
+        cacheControl: '3600'
+      },
+      fingerprint: async () => ['xeetrack', bucket, objectName, file.size, file.lastModified].join('-'),
+      onBeforeRequest: async req => {
+        req.setHeader('authorization', `Bearer ${await options.getAccessToken()}`);
+      },
+      onProgress: (uploadedBytes, totalBytes) => options.onProgress?.(uploadedBytes, totalBytes),
+      onSuccess: () => resolve(),
+      onError: error => reject(describeUploadError(error))
+    });
+
+    signal?.addEventListener('abort', () => {
+      upload.abort();
+      reject(new DOMException('Upload paused', 'AbortError'));
+    }, { once: true });
+
+    upload.findPreviousUploads()
+      .then(previousUploads => {
+        if (signal?.aborted) return;
+        if (previousUploads.length > 0) {
+          upload.resumeFromPreviousUpload(previousUploads[0]);
+        }
+        upload.start();
+      })
+      .catch(error => reject(error));
+  });
@@ -0,0 +1,54 @@
+import { User } from '../types';
+
+// URL structure for the dashboards:
+//   /:view                                  sidebar views (dashboard, projects, leads, invoices, ...)
+//   /projects/:projectId/:tab               project detail tabs
+//   /projects/:projectId/brochure/:page     a specific brochure page
+//   /projects/:projectId/storage/:fileId    a specific file in project storage
+
+type Role = User['role'];
+
+export const ROLE_VIEWS: Record<Role, string[]> = {
+  manager: ['dashboard', 'projects', 'employees', 'leads', 'invoices', 'meetings', 'audit', 'storage-usage'],
+  team_lead: ['dashboard', 'projects', 'meetings'],
+  employee: ['dashboard', 'mytasks', 'projects', 'meetings'],
+  finance: ['dashboard', 'invoices'],
+  client: ['dashboard', 'project-overview', 'meetings'],
+  stakeholder: ['dashboard', 'project-overview', 'meetings']
+};
+
+export const ROLE_PROJECT_TABS: Record<Role, string[]> = {
+  manager: ['brochure', 'storage', 'stages', 'tasks', 'comments'],
+  team_lead: ['brochure', 'storage', 'stages', 'tasks', 'comments'],
+  employee: ['tasks', 'stages', 'storage', 'brochure', 'comments'],
+  // Finance works from budgets and invoices and has no project detail pages
+  finance: [],
+  client: ['brochure', 'stages', 'storage', 'comments', 'project-comments'],
+  stakeholder: ['stages', 'brochure', 'storage', 'comments']
+};
+
+// Sidebar view a project detail page returns to
+export const ROLE_PROJECT_LIST_VIEW: Record<Role, string> = {
+  manager: 'projects',
+  team_lead: 'projects',
+  employee: 'projects',
+  finance: 'dashboard',
+  client: 'project-overview',
+  stakeholder: 'project-overview'
+};
+
+export const DEFAULT_VIEW = 'dashboard';
+
+export const canAccessView = (role: Role | undefined, view: string) =>
+  !!role && ROLE_VIEWS[role].includes(view);
+
+export const viewPath = (view: string) => `/${view}`;
+
+export const projectPath = (projectId: string, tab?: string) =>
+  tab ? `/projects/${projectId}/${tab}` : `/projects/${projectId}`;
+
+export const brochurePagePath = (projectId: string, pageNumber: number) =>
+  `/projects/${projectId}/brochure/${pageNumber}`;
+
+export const projectFilePath = (projectId: string, fileId: string) =>
+  `/projects/${projectId}/storage/${fileId}`;
@@ -0,0 +1,39 @@
+import { ShareLink, ShareLinkStatus } from '../types';
+
+// Public share pages live outside the signed-in app at /share/<token>
+export const SHARE_LINK_ROUTE = '/share';
+
+export const getShareLinkUrl = (token: string) =>
+  `${window.location.origin}${SHARE_LINK_ROUTE}/${token}`;
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+];
+
+export const getShareLinkStatus = (link: ShareLink, now = new Date()): ShareLinkStatus => {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at) <= now) return 'expired';
+  if (link.max_downloads && link.download_count >= link.max_downloads) return 'exhausted';
+  return 'active';
+};
+
+// Passwords are hashed in the browser so only the hash reaches the database. The
+// share-link edge function verifies with the same format:
+// pbkdf2_sha256$<iterations>$<base64 salt>$<base64 hash>
+const PBKDF2_ITERATIONS = 210000;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+export const hashSharePassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return `pbkdf2_sha256$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(new Uint8Array(bits))}`;
+};
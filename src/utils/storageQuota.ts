@@ -0,0 +1,28 @@
+import { File, Project, ProjectStorageUsage, StorageQuota } from '../types';
+
+// Usage above this share of the quota is flagged before uploads start failing
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export type QuotaLevel = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export const getQuotaLevel = (usedBytes: number, quota?: StorageQuota): QuotaLevel => {
+  if (!quota) return 'none';
+  if (usedBytes >= quota.quota_bytes) return 'exceeded';
+  if (usedBytes >= quota.quota_bytes * QUOTA_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+export const findQuota = (quotas: StorageQuota[], scope: StorageQuota['scope'], targetId?: string) =>
+  targetId ? quotas.find(quota => quota.scope === scope && quota.target_id === targetId) : undefined;
+
+// Server totals include older versions; without them (demo data) fall back to current file sizes
+export const getProjectStoredBytes = (projectId: string, usage: ProjectStorageUsage[], files: File[]) =>
+  usage.find(entry => entry.project_id === projectId)?.stored_bytes ??
+  files.filter(file => file.project_id === projectId).reduce((sum, file) => sum + (file.size || 0), 0);
+
+export const getClientStoredBytes = (clientId: string, projects: Project[], usage: ProjectStorageUsage[], files: File[]) =>
+  projects
+    .filter(project => project.client_id === clientId)
+    .reduce((sum, project) => sum + getProjectStoredBytes(project.id, usage, files), 0);
@@ -0,0 +1,175 @@
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate';
+import { computeSha256, INTEGRITY_CHECK_MAX_BYTES, integrityErrorMessage } from './fileHash';
+
+// Streams remote files into a single ZIP archive in the browser
+
+export interface ZipEntrySource {
+  path: string; // path inside the archive, e.g. "Website/Assets/logo.png"
+  getUrl: () => Promise<string>; // resolved right before the fetch, so short-lived URLs stay valid
+  size: number; // expected size, used for progress before the response arrives
+  sha256?: string; // checksum recorded at upload; the fetched bytes are verified against it
+  manifest: Record<string, unknown>; // extra columns recorded for this entry
+}
+
+export interface ZipProgress {
+  completedFiles: number;
+  totalFiles: number;
+  loadedBytes: number;
+  totalBytes: number;
+  currentFile?: string;
+}
+
+export interface ZipResult {
+  blob: Blob;
+  included: number;
+  failed: { path: string; error: string }[];
+}
+
+export const ZIP_MANIFEST_NAME = 'manifest.json';
+
+// Characters Windows and macOS reject in file and folder names
+const INVALID_PATH_CHARS = /[<>:"/\\|?*]+/g;
+
+export const sanitizePathSegment = (segment: string) =>
+  segment.replace(INVALID_PATH_CHARS, '-').replace(/^[\s.]+|[\s.]+$/g, '').trim() || 'untitled';
+
+// "report.pdf" -> "report (2).pdf" for repeated paths in the same archive
+export const dedupePath = (path: string, used: Set<string>) => {
+  let candidate = path;
+  let counter = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    candidate = dot > slash + 1
+      ? `${path.slice(0, dot)} (${counter})${path.slice(dot)}`
+      : `${path} (${counter})`;
+    counter++;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Already-compressed formats are stored as-is; deflating them only costs time
+const STORED_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'avi', 'mp3', 'zip', 'rar', '7z', 'gz', 'pdf', 'docx', 'xlsx', 'pptx']);
+
+const createEntry = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return STORED_EXTENSIONS.has(extension) ? new ZipPassThrough(path) : new ZipDeflate(path, { level: 6 });
+};
+
+// Fetches each source in turn and appends it to the archive. A file that fails to
+// download is skipped and listed in the manifest instead of aborting the archive.
+export const buildZipArchive = async (
+  sources: ZipEntrySource[],
+  manifestHeader: Record<string, unknown>,
+  onProgress?: (progress: ZipProgress) => void
+): Promise<ZipResult> => {
+  const chunks: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  let finished: () => void = () => {};
+  const done = new Promise<void>(resolve => {
+    finished = resolve;
+  });
+
+  const zip = new Zip((error, data, final) => {
+    if (error) {
+      zipError = error;
+      finished();
+      return;
+    }
+    chunks.push(data);
+    if (final) finished();
+  });
+
+  const progress: ZipProgress = {
+    completedFiles: 0,
+    totalFiles: sources.length,
+    loadedBytes: 0,
+    totalBytes: sources.reduce((sum, source) => sum + (source.size || 0), 0)
+  };
+  const manifestEntries: Record<string, unknown>[] = [];
+  const failed: ZipResult['failed'] = [];
+  let completedBytes = 0;
+
+  for (const source of sources) {
+    onProgress?.({ ...progress, currentFile: source.path });
+    const expectedBytes = source.size || 0;
+    let receivedBytes = 0;
+
+    try {
+      const response = await fetch(await source.getUrl());
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+
+      const entry = createEntry(source.path);
+      zip.add(entry);
+      const reader = response.body.getReader();
+      const verifyChunks: Uint8Array[] | null = source.sha256 && expectedBytes <= INTEGRITY_CHECK_MAX_BYTES ? [] : null;
+      try {
+        for (;;) {
+          const { done: readDone, value } = await reader.read();
+          if (readDone) break;
+          entry.push(value, false);
+          verifyChunks?.push(value);
+          receivedBytes += value.length;
+          progress.loadedBytes = completedBytes + Math.min(receivedBytes, expectedBytes);
+          onProgress?.({ ...progress, currentFile: source.path });
+        }
+      } finally {
+        // Always close the entry so the archive stays readable after a broken stream
+        entry.push(new Uint8Array(0), true);
+      }
+
+      // The entry is already streamed into the archive, so a mismatch is reported rather than removed
+      if (verifyChunks && await computeSha256(await new Blob(verifyChunks as BlobPart[]).arrayBuffer()) !== source.sha256) {
+        const message = integrityErrorMessage(source.path);
+        failed.push({ path: source.path, error: message });
+        manifestEntries.push({ ...source.manifest, path: source.path, status: 'checksum_mismatch', bytes: receivedBytes, error: message });
+      } else {
+        manifestEntries.push({
+          ...source.manifest,
+          path: source.path,
+          status: 'included',
+          bytes: receivedBytes,
+          ...(verifyChunks ? { sha256: source.sha256 } : {})
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Download failed';
+      console.error('Error adding file to archive:', source.path, error);
+      failed.push({ path: source.path, error: message });
+      manifestEntries.push({ ...source.manifest, path: source.path, status: 'failed', error: message });
+    }
+
+    progress.completedFiles++;
+    completedBytes += expectedBytes;
+    progress.loadedBytes = completedBytes;
+    onProgress?.({ ...progress });
+  }
+
+  const manifest = new ZipDeflate(ZIP_MANIFEST_NAME, { level: 6 });
+  zip.add(manifest);
+  manifest.push(strToU8(JSON.stringify({ ...manifestHeader, files: manifestEntries }, null, 2)), true);
+  zip.end();
+
+  await done;
+  if (zipError) throw zipError;
+
+  return {
+    blob: new Blob(chunks as BlobPart[], { type: 'application/zip' }),
+    included: manifestEntries.length - failed.length,
+    failed
+  };
+};
+
+export const downloadZip = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
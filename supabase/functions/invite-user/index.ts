@@ -0,0 +1,128 @@
+/*
+  # invite-user
+
+  Invites a team member, client or stakeholder by email.
+
+  1. Verifies the caller's JWT and checks their role has the `user.invite`
+     capability in `role_permissions`
+  2. Sends a Supabase invite email; the link signs the user in and lands on
+     `redirect_to`, where the app asks them to choose their own password
+  3. Creates the profile with `must_change_password = true`; stakeholders are
+     linked to the client account (`client_id`) whose projects they may view
+
+  Local testing: `supabase start` runs a mail catcher (Inbucket/Mailpit,
+  http://localhost:54324) that receives invite and password reset emails.
+  Add the app URL (e.g. http://localhost:5173) to the auth redirect allow list.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const INVITABLE_ROLES = ['team_lead', 'employee', 'finance', 'client', 'stakeholder'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const admin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    // Identify the caller from their access token
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token);
+    if (callerError || !caller) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: callerProfile } = await admin
+      .from('profiles')
+      .select('full_name, role')
+      .eq('id', caller.id)
+      .maybeSingle();
+    const { data: invitePermission } = await admin
+      .from('role_permissions')
+      .select('scope')
+      .eq('role', callerProfile?.role ?? '')
+      .eq('capability', 'user.invite')
+      .maybeSingle();
+    if (!invitePermission) {
+      return jsonResponse({ error: 'You are not allowed to invite users' }, 403);
+    }
+
+    const { email, full_name, role, client_id, redirect_to } = await req.json();
+    if (!email || !full_name) {
+      return jsonResponse({ error: 'Name and email are required' }, 400);
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      return jsonResponse({ error: `Role must be one of: ${INVITABLE_ROLES.join(', ')}` }, 400);
+    }
+    if (role === 'stakeholder') {
+      const { data: client } = await admin
+        .from('profiles')
+        .select('id')
+        .eq('id', client_id ?? '')
+        .eq('role', 'client')
+        .maybeSingle();
+      if (!client) {
+        return jsonResponse({ error: 'Stakeholders must be linked to an existing client' }, 400);
+      }
+    }
+
+    const { data: invite, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+      data: { full_name, role },
+      redirectTo: redirect_to
+    });
+    if (inviteError || !invite.user) {
+      return jsonResponse({ error: inviteError?.message || 'Invite could not be sent' }, 400);
+    }
+
+    const { error: profileError } = await admin
+      .from('profiles')
+      .upsert({
+        id: invite.user.id,
+        full_name,
+        role,
+        email,
+        client_id: role === 'stakeholder' ? client_id : null,
+        must_change_password: true
+      });
+    if (profileError) {
+      return jsonResponse({ error: profileError.message }, 500);
+    }
+
+    // The service role bypasses the audit triggers, so record the invite here
+    const { error: auditError } = await admin.from('audit_events').insert({
+      actor_id: caller.id,
+      actor_name: callerProfile?.full_name || '',
+      actor_role: callerProfile?.role,
+      action: 'user.invited',
+      entity_type: 'user',
+      entity_id: invite.user.id,
+      details: { email, role }
+    });
+    if (auditError) {
+      console.error('Error recording audit event:', auditError);
+    }
+
+    return jsonResponse({ id: invite.user.id });
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+});
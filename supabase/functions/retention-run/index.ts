@@ -0,0 +1,292 @@
+/*
+  # retention-run
+
+  Applies the rules in `retention_rules` and reports what they matched.
+
+  1. `archive` rules archive files of projects completed more than `after_days` ago
+  2. `purge` rules delete files archived more than `after_days` ago, removing every
+     version's storage object before the row (versions cascade). Objects another
+     file still links to are kept
+
+  Body: `{ dry_run?: boolean, rule_id?: string }`. Runs are dry unless `dry_run` is
+  `false`, so nothing changes by accident. Without `rule_id` every enabled rule is
+  applied; a file matched by several rules is handled by the oldest rule only.
+  Each rule handles at most `MAX_FILES_PER_RULE` files per run; the rest are picked
+  up next time.
+
+  Callers need the `storage.manage` capability, or the service role key. The daily
+  pg_cron job from the `nightly_sweep` migration calls it at 03:00 UTC with the
+  service role key stored in Vault.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const MAX_FILES_PER_RULE = 500;
+const LEGACY_FILES_BUCKET = 'files';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps `.in()` filters well inside URL length limits
+const ID_BATCH_SIZE = 100;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const batches = <T>(items: T[]) => {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    result.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return result;
+};
+
+interface RetentionRule {
+  id: string;
+  name: string;
+  action: 'archive' | 'purge';
+  after_days: number;
+  project_id: string | null;
+  category: string | null;
+}
+
+interface FileRow {
+  id: string;
+  project_id: string;
+  filename: string;
+  size: number | null;
+  category: string | null;
+  archived_at: string | null;
+  storage_bucket: string | null;
+  storage_path: string | null;
+  projects: { title: string; completed_at: string | null } | null;
+}
+
+interface VersionRow {
+  file_id: string;
+  size: number | null;
+  storage_bucket: string | null;
+  storage_path: string | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const admin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    // Scheduled runs authenticate with the service role key; people need storage.manage
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    let actor = { id: null as string | null, name: 'Retention schedule', role: 'system' };
+    if (token !== serviceRoleKey) {
+      const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token);
+      if (callerError || !caller) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      const { data: callerProfile } = await admin
+        .from('profiles')
+        .select('full_name, role')
+        .eq('id', caller.id)
+        .maybeSingle();
+      const { data: storagePermission } = await admin
+        .from('role_permissions')
+        .select('scope')
+        .eq('role', callerProfile?.role ?? '')
+        .eq('capability', 'storage.manage')
+        .maybeSingle();
+      if (!storagePermission) {
+        return jsonResponse({ error: 'You are not allowed to run retention rules' }, 403);
+      }
+      actor = { id: caller.id, name: callerProfile?.full_name || '', role: callerProfile?.role };
+    }
+
+    const { dry_run, rule_id } = await req.json().catch(() => ({}));
+    const dryRun = dry_run !== false;
+
+    let rulesQuery = admin.from('retention_rules').select('*').order('created_at');
+    rulesQuery = rule_id ? rulesQuery.eq('id', rule_id) : rulesQuery.eq('enabled', true);
+    const { data: rules, error: rulesError } = await rulesQuery;
+    if (rulesError) throw rulesError;
+    if (rule_id && !rules?.length) {
+      return jsonResponse({ error: 'Retention rule not found' }, 404);
+    }
+
+    const ranAt = new Date();
+    const claimedFileIds = new Set<string>();
+    const report = [];
+
+    for (const rule of (rules || []) as RetentionRule[]) {
+      const cutoff = new Date(ranAt.getTime() - rule.after_days * DAY_MS).toISOString();
+
+      let filesQuery = admin
+        .from('files')
+        .select('id, project_id, filename, size, category, archived_at, storage_bucket, storage_path, projects!inner(title, completed_at)')
+        .limit(MAX_FILES_PER_RULE);
+      if (rule.action === 'archive') {
+        filesQuery = filesQuery
+          .eq('is_archived', false)
+          .eq('projects.status', 'completed')
+          .lte('projects.completed_at', cutoff);
+      } else {
+        filesQuery = filesQuery
+          .eq('is_archived', true)
+          .lte('archived_at', cutoff)
+          .order('archived_at');
+      }
+      if (rule.project_id) filesQuery = filesQuery.eq('project_id', rule.project_id);
+      if (rule.category) filesQuery = filesQuery.eq('category', rule.category);
+
+      const { data: fileRows, error: filesError } = await filesQuery;
+      if (filesError) throw filesError;
+      const matched = ((fileRows || []) as unknown as FileRow[]).filter(file => !claimedFileIds.has(file.id));
+      matched.forEach(file => claimedFileIds.add(file.id));
+
+      // Older versions keep their own objects, so they count towards what a purge frees
+      const versions: VersionRow[] = [];
+      for (const ids of batches(matched.map(file => file.id))) {
+        const { data, error } = await admin
+          .from('file_versions')
+          .select('file_id, size, storage_bucket, storage_path')
+          .in('file_id', ids);
+        if (error) throw error;
+        versions.push(...((data || []) as VersionRow[]));
+      }
+
+      const entries = matched.map(file => {
+        const fileVersions = versions.filter(version => version.file_id === file.id);
+        return {
+          file,
+          versions: fileVersions,
+          stored_bytes: fileVersions.length > 0
+            ? fileVersions.reduce((sum, version) => sum + (version.size || 0), 0)
+            : file.size || 0
+        };
+      });
+
+      const failed: { file_id: string; error: string }[] = [];
+      const processedIds: string[] = [];
+
+      if (!dryRun && rule.action === 'archive') {
+        for (const ids of batches(entries.map(entry => entry.file.id))) {
+          const { error } = await admin
+            .from('files')
+            .update({ is_archived: true, archived_at: ranAt.toISOString(), archived_by: null })
+            .in('id', ids);
+          if (error) {
+            ids.forEach(id => failed.push({ file_id: id, error: error.message }));
+          } else {
+            processedIds.push(...ids);
+          }
+        }
+      }
+
+      if (!dryRun && rule.action === 'purge') {
+        for (const entry of entries) {
+          try {
+            const pathsByBucket = new Map<string, Set<string>>();
+            [{ storage_bucket: entry.file.storage_bucket, storage_path: entry.file.storage_path }, ...entry.versions].forEach(version => {
+              if (!version.storage_path) return;
+              const bucket = version.storage_bucket || LEGACY_FILES_BUCKET;
+              pathsByBucket.set(bucket, (pathsByBucket.get(bucket) || new Set<string>()).add(version.storage_path));
+            });
+            for (const [bucket, paths] of pathsByBucket) {
+              // Linked uploads share objects; keep any another file still points at
+              const { data: shared, error: sharedError } = await admin
+                .from('file_versions')
+                .select('storage_path')
+                .eq('storage_bucket', bucket)
+                .in('storage_path', [...paths])
+                .neq('file_id', entry.file.id);
+              if (sharedError) throw sharedError;
+              (shared || []).forEach(version => paths.delete(version.storage_path));
+              if (paths.size === 0) continue;
+
+              const { error: storageError } = await admin.storage.from(bucket).remove([...paths]);
+              if (storageError) throw storageError;
+            }
+
+            const { error: deleteError } = await admin.from('files').delete().eq('id', entry.file.id);
+            if (deleteError) throw deleteError;
+            processedIds.push(entry.file.id);
+          } catch (error) {
+            console.error('Error purging file:', entry.file.id, error);
+            failed.push({ file_id: entry.file.id, error: error instanceof Error ? error.message : 'Purge failed' });
+          }
+        }
+      }
+
+      if (!dryRun) {
+        const processed = entries.filter(entry => processedIds.includes(entry.file.id));
+        const { error: auditError } = await admin.from('audit_events').insert([
+          ...processed.map(entry => ({
+            actor_id: actor.id,
+            actor_name: actor.name,
+            actor_role: actor.role,
+            action: rule.action === 'archive' ? 'file.archived' : 'file.purged',
+            entity_type: 'file',
+            entity_id: entry.file.id,
+            project_id: entry.file.project_id,
+            details: { filename: entry.file.filename, retention_rule: rule.name, stored_bytes: entry.stored_bytes }
+          })),
+          {
+            actor_id: actor.id,
+            actor_name: actor.name,
+            actor_role: actor.role,
+            action: 'retention_rule.applied',
+            entity_type: 'retention_rule',
+            entity_id: rule.id,
+            project_id: rule.project_id,
+            details: {
+              name: rule.name,
+              files: processed.length,
+              failed: failed.length,
+              stored_bytes: processed.reduce((sum, entry) => sum + entry.stored_bytes, 0)
+            }
+          }
+        ]);
+        if (auditError) console.error('Error recording retention audit events:', auditError);
+
+        await admin.from('retention_rules').update({ last_run_at: ranAt.toISOString() }).eq('id', rule.id);
+      }
+
+      report.push({
+        rule_id: rule.id,
+        name: rule.name,
+        action: rule.action,
+        after_days: rule.after_days,
+        cutoff,
+        limited: (fileRows || []).length >= MAX_FILES_PER_RULE,
+        files: entries.map(entry => ({
+          id: entry.file.id,
+          project_id: entry.file.project_id,
+          project_title: entry.file.projects?.title || '',
+          filename: entry.file.filename,
+          category: entry.file.category,
+          stored_bytes: entry.stored_bytes,
+          version_count: entry.versions.length,
+          since: rule.action === 'archive' ? entry.file.projects?.completed_at : entry.file.archived_at
+        })),
+        processed_count: processedIds.length,
+        failed
+      });
+    }
+
+    return jsonResponse({ dry_run: dryRun, ran_at: ranAt.toISOString(), rules: report });
+  } catch (error) {
+    console.error('Error running retention rules:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+});
@@ -0,0 +1,193 @@
+/*
+  # share-link
+
+  Serves the public share page (`/share/<token>`) for visitors without an account.
+
+  1. `{ token, password? }` returns the link's details and the files it covers
+     (a single file, or every file under a folder with paths relative to it)
+  2. `{ token, password?, file_id }` counts one download against the link, logs it
+     to `download_history` and returns a short-lived signed URL for the file
+
+  Revoked, expired and used-up links answer 410. Password-protected links answer
+  401 with `password_required` until the right password is sent; passwords are
+  stored as PBKDF2 hashes produced by `src/utils/shareLinks.ts`.
+
+  Visitors have no JWT, so deploy with `supabase functions deploy share-link --no-verify-jwt`.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const SIGNED_URL_TTL_SECONDS = 60;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+// pbkdf2_sha256$<iterations>$<base64 salt>$<base64 hash>
+const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2_sha256' || !iterations || !salt || !hash) return false;
+
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations: Number(iterations) },
+    key,
+    256
+  ));
+  const expected = fromBase64(hash);
+  if (bits.length !== expected.length) return false;
+  // Compare every byte so the check takes the same time for any wrong password
+  let diff = 0;
+  bits.forEach((byte, index) => {
+    diff |= byte ^ expected[index];
+  });
+  return diff === 0;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const admin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    const { token, password, file_id } = await req.json();
+    if (!token || typeof token !== 'string') {
+      return jsonResponse({ error: 'This link is not valid' }, 404);
+    }
+
+    const { data: link } = await admin
+      .from('share_links')
+      .select('*, projects(title)')
+      .eq('token', token)
+      .maybeSingle();
+    if (!link) {
+      return jsonResponse({ error: 'This link is not valid' }, 404);
+    }
+    if (link.revoked_at) {
+      return jsonResponse({ error: 'This link has been revoked' }, 410);
+    }
+    if (new Date(link.expires_at) <= new Date()) {
+      return jsonResponse({ error: 'This link has expired' }, 410);
+    }
+    if (link.max_downloads && link.download_count >= link.max_downloads) {
+      return jsonResponse({ error: 'This link has reached its download limit' }, 410);
+    }
+    if (link.password_hash) {
+      if (!password) {
+        return jsonResponse({ error: 'This link is password protected', password_required: true }, 401);
+      }
+      if (!(await verifyPassword(password, link.password_hash))) {
+        return jsonResponse({ error: 'Incorrect password', password_required: true }, 401);
+      }
+    }
+
+    // Collect the shared files with paths relative to the shared folder
+    let sharedName = '';
+    let sharedFiles: Record<string, unknown>[] = [];
+    const fileColumns = 'id, filename, size, file_type, timestamp, folder_id, project_id, file_url, storage_bucket, storage_path';
+    if (link.file_id) {
+      const { data: file } = await admin.from('files').select(fileColumns).eq('id', link.file_id).maybeSingle();
+      if (file) {
+        sharedName = file.filename;
+        sharedFiles = [{ ...file, path: file.filename }];
+      }
+    } else {
+      const { data: folders } = await admin.from('folders').select('id, parent_id, name').eq('project_id', link.project_id);
+      const root = (folders || []).find(folder => folder.id === link.folder_id);
+      if (root) {
+        sharedName = root.name;
+        const paths = new Map<string, string>([[root.id, '']]);
+        // Breadth-first so every parent path is known before its children
+        for (let queue = [root.id]; queue.length > 0;) {
+          const parentId = queue.shift()!;
+          (folders || []).filter(folder => folder.parent_id === parentId).forEach(folder => {
+            paths.set(folder.id, `${paths.get(parentId)}${folder.name}/`);
+            queue.push(folder.id);
+          });
+        }
+        const { data: files } = await admin
+          .from('files')
+          .select(fileColumns)
+          .in('folder_id', [...paths.keys()])
+          .order('filename');
+        sharedFiles = (files || []).map(file => ({ ...file, path: `${paths.get(file.folder_id)}${file.filename}` }));
+      }
+    }
+
+    if (!file_id) {
+      await admin.from('share_links').update({ last_accessed_at: new Date().toISOString() }).eq('id', link.id);
+      return jsonResponse({
+        link: {
+          name: sharedName,
+          kind: link.file_id ? 'file' : 'folder',
+          label: link.label,
+          project_title: link.projects?.title || '',
+          expires_at: link.expires_at,
+          downloads_remaining: link.max_downloads ? link.max_downloads - link.download_count : null
+        },
+        files: sharedFiles.map(file => ({
+          id: file.id,
+          filename: file.filename,
+          path: file.path,
+          size: file.size,
+          file_type: file.file_type,
+          timestamp: file.timestamp
+        }))
+      });
+    }
+
+    const file = sharedFiles.find(shared => shared.id === file_id);
+    if (!file) {
+      return jsonResponse({ error: 'This file is not part of the shared link' }, 404);
+    }
+
+    const { data: claimed, error: claimError } = await admin.rpc('claim_share_link_download', { p_link_id: link.id });
+    if (claimError) throw claimError;
+    if (!claimed) {
+      return jsonResponse({ error: 'This link has reached its download limit' }, 410);
+    }
+
+    let url = file.file_url as string;
+    if (file.storage_path) {
+      const { data: signed, error: signError } = await admin.storage
+        .from((file.storage_bucket as string) || 'files')
+        .createSignedUrl(file.storage_path as string, SIGNED_URL_TTL_SECONDS, { download: file.filename as string });
+      if (signError) throw signError;
+      url = signed.signedUrl;
+    }
+
+    const { error: historyError } = await admin.from('download_history').insert({
+      file_id: file.id,
+      project_id: file.project_id,
+      share_link_id: link.id,
+      downloaded_by: null,
+      downloader_name: `Share link${link.label ? `: ${link.label}` : ''}`,
+      file_name: file.filename,
+      file_size: file.size || 0
+    });
+    if (historyError) {
+      console.error('Error logging share link download:', historyError);
+    }
+
+    return jsonResponse({ url, filename: file.filename });
+  } catch (error) {
+    console.error('Error serving share link:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+});
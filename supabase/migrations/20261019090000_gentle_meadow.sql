@@ -0,0 +1,191 @@
+/*
+  # Create comment_tasks and global_comments tables
+
+  1. New Tables
+    - `comment_tasks`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `stage_id` (uuid, optional foreign key to stages)
+      - `text` (text, comment body)
+      - `added_by` (uuid, foreign key to profiles)
+      - `author_name` (text, display name at time of writing)
+      - `author_role` (text, manager / employee / client)
+      - `status` (text, task status: open, in-progress, done)
+      - `assigned_to` (uuid, optional foreign key to profiles)
+      - `deadline` (timestamptz, optional deadline)
+      - `is_global` (boolean, comment raised at project level)
+      - `timestamp` (timestamptz, creation timestamp)
+      - `updated_at` (timestamptz, last update timestamp)
+    - `global_comments`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `text` (text, comment body)
+      - `added_by` (uuid, foreign key to profiles)
+      - `author_name` (text, display name at time of writing)
+      - `author_role` (text, manager / employee / client)
+      - `timestamp` (timestamptz, creation timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Managers can manage all rows
+    - Clients and assigned employees can read and add comments on their projects
+    - Assigned employees can update the status of comment tasks on their projects
+
+  3. Indexes
+    - Add indexes for efficient querying by project_id, stage_id and assigned_to
+*/
+
+-- Create comment_tasks table
+CREATE TABLE IF NOT EXISTS comment_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  stage_id uuid REFERENCES stages(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  added_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  author_name text NOT NULL DEFAULT '',
+  author_role text NOT NULL CHECK (author_role IN ('manager', 'employee', 'client')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in-progress', 'done')),
+  assigned_to uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  deadline timestamptz,
+  is_global boolean NOT NULL DEFAULT false,
+  timestamp timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create global_comments table
+CREATE TABLE IF NOT EXISTS global_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  added_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  author_name text NOT NULL DEFAULT '',
+  author_role text NOT NULL CHECK (author_role IN ('manager', 'employee', 'client')),
+  timestamp timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE comment_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE global_comments ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_comment_tasks_project_id ON comment_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_comment_tasks_stage_id ON comment_tasks(stage_id);
+CREATE INDEX IF NOT EXISTS idx_comment_tasks_assigned_to ON comment_tasks(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_comment_tasks_timestamp ON comment_tasks(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_global_comments_project_id ON global_comments(project_id);
+CREATE INDEX IF NOT EXISTS idx_global_comments_timestamp ON global_comments(timestamp DESC);
+
+-- Policies for managers (can manage all comments)
+CREATE POLICY "Managers can manage all comment tasks"
+  ON comment_tasks
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can manage all global comments"
+  ON global_comments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  );
+
+-- Policies for project members (client of the project or assigned employees)
+CREATE POLICY "Project members can view comment tasks"
+  ON comment_tasks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = comment_tasks.project_id 
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Project members can add comment tasks"
+  ON comment_tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = comment_tasks.project_id 
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Employees can update comment tasks in their projects"
+  ON comment_tasks
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = comment_tasks.project_id 
+      AND auth.uid() = ANY(projects.assigned_employees)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = comment_tasks.project_id 
+      AND auth.uid() = ANY(projects.assigned_employees)
+    )
+  );
+
+CREATE POLICY "Project members can view global comments"
+  ON global_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = global_comments.project_id 
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Project members can add global comments"
+  ON global_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = global_comments.project_id 
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+-- Trigger to automatically update updated_at
+CREATE TRIGGER update_comment_tasks_updated_at
+  BEFORE UPDATE ON comment_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,93 @@
+/*
+  # Create stage_approvals table for stage approval history
+
+  1. New Tables
+    - `stage_approvals`
+      - `id` (uuid, primary key)
+      - `stage_id` (uuid, foreign key to stages)
+      - `project_id` (uuid, foreign key to projects)
+      - `status` (text, decision: approved or rejected)
+      - `comment` (text, optional reason given with the decision)
+      - `approved_by` (uuid, foreign key to profiles)
+      - `approver_name` (text, display name at time of decision)
+      - `approver_role` (text, manager / employee / client)
+      - `timestamp` (timestamptz, when the decision was made)
+
+  2. Security
+    - Enable RLS on `stage_approvals` table
+    - Managers can manage all approval records
+    - Clients can record decisions on stages of their own projects
+    - Clients and assigned employees can view the history of their projects
+    - Rows are append-only for everyone except managers
+
+  3. Indexes
+    - Add indexes for efficient querying by stage_id and project_id
+*/
+
+-- Create stage_approvals table
+CREATE TABLE IF NOT EXISTS stage_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage_id uuid NOT NULL REFERENCES stages(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('approved', 'rejected')),
+  comment text,
+  approved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  approver_name text NOT NULL DEFAULT '',
+  approver_role text NOT NULL CHECK (approver_role IN ('manager', 'employee', 'client')),
+  timestamp timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE stage_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_stage_approvals_stage_id ON stage_approvals(stage_id);
+CREATE INDEX IF NOT EXISTS idx_stage_approvals_project_id ON stage_approvals(project_id);
+CREATE INDEX IF NOT EXISTS idx_stage_approvals_timestamp ON stage_approvals(timestamp DESC);
+
+-- Policies for managers (can manage all approval records)
+CREATE POLICY "Managers can manage all stage approvals"
+  ON stage_approvals
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  );
+
+-- Policies for clients (can record decisions on their own projects)
+CREATE POLICY "Clients can approve stages in their projects"
+  ON stage_approvals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    approved_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = stage_approvals.project_id 
+      AND projects.client_id = auth.uid()
+    )
+  );
+
+-- Policies for project members (can view approval history)
+CREATE POLICY "Project members can view stage approvals"
+  ON stage_approvals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects 
+      WHERE projects.id = stage_approvals.project_id 
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
@@ -0,0 +1,199 @@
+/*
+  # Create brochure_pages and page_comments tables
+
+  1. New Tables
+    - `brochure_pages`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to brochure_projects)
+      - `page_number` (integer, unique per brochure project)
+      - `content` (jsonb, page fields edited in the brochure designer)
+      - `approval_status` (text, pending / approved / rejected)
+      - `is_locked` (boolean, prevents client edits while set)
+      - `locked_by` (uuid, foreign key to profiles)
+      - `locked_by_name` (text, display name of the locking user)
+      - `locked_at` (timestamptz, when the page was locked)
+      - `created_at` (timestamptz, creation timestamp)
+      - `updated_at` (timestamptz, last update timestamp)
+    - `page_comments`
+      - `id` (uuid, primary key)
+      - `page_id` (uuid, foreign key to brochure_pages)
+      - `text` (text, comment body)
+      - `added_by` (uuid, foreign key to profiles)
+      - `author_name` (text, display name at time of writing)
+      - `author_role` (text, manager / employee / client)
+      - `marked_done` (boolean, comment has been addressed)
+      - `action_type` (text, comment / lock / unlock / approval audit entry)
+      - `timestamp` (timestamptz, creation timestamp)
+
+  2. Schema Changes
+    - Ensure `brochure_projects` has an `updated_at` trigger
+
+  3. Security
+    - Enable RLS on both tables
+    - Managers can manage all pages and comments
+    - Clients and assigned employees of the linked project can read and write
+      pages and comments of that project's brochure
+
+  4. Indexes
+    - Unique index on (project_id, page_number) so pages can be upserted
+*/
+
+-- Create brochure_pages table
+CREATE TABLE IF NOT EXISTS brochure_pages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES brochure_projects(id) ON DELETE CASCADE,
+  page_number integer NOT NULL CHECK (page_number > 0),
+  content jsonb NOT NULL DEFAULT '{}'::jsonb,
+  approval_status text NOT NULL DEFAULT 'pending' CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  is_locked boolean NOT NULL DEFAULT false,
+  locked_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  locked_by_name text,
+  locked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create page_comments table
+CREATE TABLE IF NOT EXISTS page_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id uuid NOT NULL REFERENCES brochure_pages(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  added_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  author_name text NOT NULL DEFAULT '',
+  author_role text NOT NULL CHECK (author_role IN ('manager', 'employee', 'client')),
+  marked_done boolean NOT NULL DEFAULT false,
+  action_type text NOT NULL DEFAULT 'comment' CHECK (action_type IN ('comment', 'lock', 'unlock', 'approval')),
+  timestamp timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE brochure_pages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_comments ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brochure_pages_project_page ON brochure_pages(project_id, page_number);
+CREATE INDEX IF NOT EXISTS idx_page_comments_page_id ON page_comments(page_id);
+CREATE INDEX IF NOT EXISTS idx_page_comments_timestamp ON page_comments(timestamp DESC);
+
+-- Policies for managers (can manage all pages and comments)
+CREATE POLICY "Managers can manage all brochure pages"
+  ON brochure_pages
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can manage all page comments"
+  ON page_comments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE profiles.id = auth.uid() 
+      AND profiles.role = 'manager'
+    )
+  );
+
+-- Policies for project members (client of the linked project or assigned employees)
+CREATE POLICY "Project members can manage brochure pages"
+  ON brochure_pages
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM brochure_projects bp
+      JOIN projects ON projects.id = bp.project_id
+      WHERE bp.id = brochure_pages.project_id
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM brochure_projects bp
+      JOIN projects ON projects.id = bp.project_id
+      WHERE bp.id = brochure_pages.project_id
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Project members can view page comments"
+  ON page_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      JOIN projects ON projects.id = bp.project_id
+      WHERE pg.id = page_comments.page_id
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Project members can add page comments"
+  ON page_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      JOIN projects ON projects.id = bp.project_id
+      WHERE pg.id = page_comments.page_id
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+CREATE POLICY "Employees can mark page comments done"
+  ON page_comments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      JOIN projects ON projects.id = bp.project_id
+      WHERE pg.id = page_comments.page_id
+      AND auth.uid() = ANY(projects.assigned_employees)
+    )
+  );
+
+-- Triggers to automatically update updated_at
+CREATE TRIGGER update_brochure_pages_updated_at
+  BEFORE UPDATE ON brochure_pages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_brochure_projects_updated_at'
+  ) THEN
+    CREATE TRIGGER update_brochure_projects_updated_at
+      BEFORE UPDATE ON brochure_projects
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
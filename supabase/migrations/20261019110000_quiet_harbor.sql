@@ -0,0 +1,70 @@
+/*
+  # Create leads table for the sales pipeline
+
+  1. New Tables
+    - `leads`
+      - `id` (uuid, primary key)
+      - `name` (text, prospect or company name)
+      - `contact_info` (text, email, phone or other contact details)
+      - `estimated_amount` (numeric, expected deal value)
+      - `notes` (text, free-form notes)
+      - `status` (text, pipeline stage: new / contacted / proposal / won / lost)
+      - `converted_client_id` (uuid, foreign key to profiles, set once the lead becomes a client)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `leads` table
+    - Only managers can view and manage leads
+
+  3. Indexes
+    - Add indexes for efficient querying by status and creation date
+*/
+
+-- Create leads table
+CREATE TABLE IF NOT EXISTS leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  contact_info text NOT NULL DEFAULT '',
+  estimated_amount numeric NOT NULL DEFAULT 0,
+  notes text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'contacted', 'proposal', 'won', 'lost')),
+  converted_client_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at DESC);
+
+-- Policies for managers (the sales pipeline is manager-only)
+CREATE POLICY "Managers can manage all leads"
+  ON leads
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'manager'
+    )
+  );
+
+-- Keep updated_at current
+CREATE TRIGGER update_leads_updated_at
+  BEFORE UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
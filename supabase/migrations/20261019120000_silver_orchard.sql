@@ -0,0 +1,116 @@
+/*
+  # Create meetings table for project meetings and the calendar view
+
+  1. New Tables
+    - `meetings`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `title` (text, meeting title)
+      - `date` (timestamptz, start time)
+      - `duration_minutes` (integer, meeting length)
+      - `location` (text, room or video call link)
+      - `attendees` (uuid array, profile ids of invited users)
+      - `notes` (text, agenda or minutes)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `meetings` table
+    - Managers can manage all meetings
+    - Assigned employees can schedule meetings on their projects and manage the ones they created
+    - Project members and invited attendees can view meetings
+
+  3. Indexes
+    - Add indexes for efficient querying by project and date
+*/
+
+-- Create meetings table
+CREATE TABLE IF NOT EXISTS meetings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  date timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  location text,
+  attendees uuid[] NOT NULL DEFAULT '{}',
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE meetings ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_meetings_project_id ON meetings(project_id);
+CREATE INDEX IF NOT EXISTS idx_meetings_date ON meetings(date);
+CREATE INDEX IF NOT EXISTS idx_meetings_attendees ON meetings USING GIN (attendees);
+
+-- Policies for managers (can manage all meetings)
+CREATE POLICY "Managers can manage all meetings"
+  ON meetings
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'manager'
+    )
+  );
+
+-- Policies for employees (can schedule meetings on assigned projects)
+CREATE POLICY "Employees can schedule meetings in assigned projects"
+  ON meetings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = meetings.project_id
+      AND auth.uid() = ANY(projects.assigned_employees)
+    )
+  );
+
+CREATE POLICY "Employees can update their own meetings"
+  ON meetings
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Employees can delete their own meetings"
+  ON meetings
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- Policies for project members and attendees (can view meetings)
+CREATE POLICY "Project members and attendees can view meetings"
+  ON meetings
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = ANY(meetings.attendees) OR
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = meetings.project_id
+      AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+    )
+  );
+
+-- Keep updated_at current
+CREATE TRIGGER update_meetings_updated_at
+  BEFORE UPDATE ON meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
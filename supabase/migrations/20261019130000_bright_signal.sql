@@ -0,0 +1,42 @@
+/*
+  # Enable realtime change feeds for collaborative tables
+
+  1. Changes
+    - Add `projects`, `stages`, `tasks`, `files`, `comment_tasks`, `global_comments`,
+      `brochure_pages` and `page_comments` to the `supabase_realtime` publication
+    - Tables already in the publication are skipped so the migration can be re-run
+
+  2. Security
+    - Realtime delivery honours the existing RLS SELECT policies, so users only
+      receive rows they are already allowed to read
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH table_name IN ARRAY ARRAY[
+    'projects',
+    'stages',
+    'tasks',
+    'files',
+    'comment_tasks',
+    'global_comments',
+    'brochure_pages',
+    'page_comments'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
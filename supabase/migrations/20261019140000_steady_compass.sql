@@ -0,0 +1,26 @@
+/*
+  # Invite-based onboarding and first-login password change
+
+  1. Changes
+    - Add `must_change_password` (boolean) to `profiles`
+      - Set by the `invite-user` edge function for invited accounts
+      - Cleared once the user has chosen their own password
+
+  2. Functions
+    - `complete_password_change()` clears the flag for the calling user only,
+      so users never need UPDATE rights on their own profile row
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION complete_password_change()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE profiles SET must_change_password = false WHERE id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION complete_password_change() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_password_change() TO authenticated;
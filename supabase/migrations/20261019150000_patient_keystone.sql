@@ -0,0 +1,323 @@
+/*
+  # Role permission matrix enforced by RLS
+
+  1. New Tables
+    - `role_permissions`
+      - `role` (text, profile role)
+      - `capability` (text, e.g. `brochure.approve`)
+      - `scope` (text, `all` for every project or `member` for projects the user
+        is the client of or assigned to)
+    - Seeded with the same matrix as `src/utils/permissions.ts`; keep both in sync
+
+  2. Functions
+    - `has_permission(capability, project_id)` answers whether the calling user's
+      role grants the capability on the project. A NULL project only passes for
+      `all` scope, so unscoped rows (leads) stay restricted
+
+  3. Security
+    - `role_permissions` is readable by authenticated users and changed only by migrations
+    - Policies on `tasks`, `comment_tasks`, `global_comments`, `stage_approvals`,
+      `brochure_pages`, `page_comments`, `meetings` and `leads` are replaced with
+      `has_permission` checks, so adding a role only needs new matrix rows
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL,
+  capability text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('all', 'member')),
+  PRIMARY KEY (role, capability)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'project.view', 'all'),
+  ('manager', 'project.create', 'all'),
+  ('manager', 'project.edit', 'all'),
+  ('manager', 'project.delete', 'all'),
+  ('manager', 'project.updateProgress', 'all'),
+  ('manager', 'stage.approve', 'all'),
+  ('manager', 'stage.updateProgress', 'all'),
+  ('manager', 'task.manage', 'all'),
+  ('manager', 'task.updateStatus', 'all'),
+  ('manager', 'comment.create', 'all'),
+  ('manager', 'comment.resolve', 'all'),
+  ('manager', 'brochure.create', 'all'),
+  ('manager', 'brochure.edit', 'all'),
+  ('manager', 'brochure.editLocked', 'all'),
+  ('manager', 'brochure.approve', 'all'),
+  ('manager', 'brochure.lock', 'all'),
+  ('manager', 'brochure.comment', 'all'),
+  ('manager', 'brochure.resolveComment', 'all'),
+  ('manager', 'file.upload', 'all'),
+  ('manager', 'file.editMetadata', 'all'),
+  ('manager', 'file.delete', 'all'),
+  ('manager', 'meeting.schedule', 'all'),
+  ('manager', 'meeting.manageAll', 'all'),
+  ('manager', 'lead.manage', 'all'),
+  ('manager', 'user.invite', 'all'),
+  ('employee', 'project.view', 'member'),
+  ('employee', 'project.updateProgress', 'member'),
+  ('employee', 'stage.updateProgress', 'member'),
+  ('employee', 'task.updateStatus', 'member'),
+  ('employee', 'comment.create', 'member'),
+  ('employee', 'comment.resolve', 'member'),
+  ('employee', 'brochure.create', 'member'),
+  ('employee', 'brochure.edit', 'member'),
+  ('employee', 'brochure.editLocked', 'member'),
+  ('employee', 'brochure.lock', 'member'),
+  ('employee', 'brochure.comment', 'member'),
+  ('employee', 'brochure.resolveComment', 'member'),
+  ('employee', 'file.upload', 'member'),
+  ('employee', 'meeting.schedule', 'member'),
+  ('client', 'project.view', 'member'),
+  ('client', 'stage.approve', 'member'),
+  ('client', 'comment.create', 'member'),
+  ('client', 'comment.raiseTask', 'member'),
+  ('client', 'brochure.create', 'member'),
+  ('client', 'brochure.edit', 'member')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE OR REPLACE FUNCTION has_permission(p_capability text, p_project_id uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles
+    JOIN role_permissions ON role_permissions.role = profiles.role
+    WHERE profiles.id = auth.uid()
+    AND role_permissions.capability = p_capability
+    AND (
+      role_permissions.scope = 'all' OR
+      EXISTS (
+        SELECT 1 FROM projects
+        WHERE projects.id = p_project_id
+        AND (projects.client_id = auth.uid() OR auth.uid() = ANY(projects.assigned_employees))
+      )
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_permission(text, uuid) TO authenticated;
+
+-- Tasks
+DROP POLICY IF EXISTS "Managers can manage all tasks" ON tasks;
+DROP POLICY IF EXISTS "Employees can view their assigned tasks" ON tasks;
+DROP POLICY IF EXISTS "Employees can update their assigned tasks" ON tasks;
+DROP POLICY IF EXISTS "Clients can view tasks in their projects" ON tasks;
+
+CREATE POLICY "Task managers can manage tasks"
+  ON tasks
+  FOR ALL
+  TO authenticated
+  USING (has_permission('task.manage', project_id))
+  WITH CHECK (has_permission('task.manage', project_id));
+
+CREATE POLICY "Project viewers and assignees can view tasks"
+  ON tasks
+  FOR SELECT
+  TO authenticated
+  USING (assigned_to = auth.uid() OR has_permission('project.view', project_id));
+
+CREATE POLICY "Assignees can update their tasks"
+  ON tasks
+  FOR UPDATE
+  TO authenticated
+  USING (assigned_to = auth.uid() AND has_permission('task.updateStatus', project_id))
+  WITH CHECK (assigned_to = auth.uid() AND has_permission('task.updateStatus', project_id));
+
+-- Comment tasks
+DROP POLICY IF EXISTS "Managers can manage all comment tasks" ON comment_tasks;
+DROP POLICY IF EXISTS "Project members can view comment tasks" ON comment_tasks;
+DROP POLICY IF EXISTS "Project members can add comment tasks" ON comment_tasks;
+DROP POLICY IF EXISTS "Employees can update comment tasks in their projects" ON comment_tasks;
+
+CREATE POLICY "Project editors can manage comment tasks"
+  ON comment_tasks
+  FOR ALL
+  TO authenticated
+  USING (has_permission('project.edit', project_id))
+  WITH CHECK (has_permission('project.edit', project_id));
+
+CREATE POLICY "Project viewers can view comment tasks"
+  ON comment_tasks
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
+
+CREATE POLICY "Commenters can add comment tasks"
+  ON comment_tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (added_by = auth.uid() AND has_permission('comment.create', project_id));
+
+CREATE POLICY "Resolvers can update comment tasks"
+  ON comment_tasks
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('comment.resolve', project_id) OR has_permission('task.updateStatus', project_id))
+  WITH CHECK (has_permission('comment.resolve', project_id) OR has_permission('task.updateStatus', project_id));
+
+-- Global comments
+DROP POLICY IF EXISTS "Managers can manage all global comments" ON global_comments;
+DROP POLICY IF EXISTS "Project members can view global comments" ON global_comments;
+DROP POLICY IF EXISTS "Project members can add global comments" ON global_comments;
+
+CREATE POLICY "Project editors can manage global comments"
+  ON global_comments
+  FOR ALL
+  TO authenticated
+  USING (has_permission('project.edit', project_id))
+  WITH CHECK (has_permission('project.edit', project_id));
+
+CREATE POLICY "Project viewers can view global comments"
+  ON global_comments
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
+
+CREATE POLICY "Commenters can add global comments"
+  ON global_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (added_by = auth.uid() AND has_permission('comment.create', project_id));
+
+-- Stage approvals
+DROP POLICY IF EXISTS "Managers can manage all stage approvals" ON stage_approvals;
+DROP POLICY IF EXISTS "Clients can approve stages in their projects" ON stage_approvals;
+DROP POLICY IF EXISTS "Project members can view stage approvals" ON stage_approvals;
+
+CREATE POLICY "Project editors can manage stage approvals"
+  ON stage_approvals
+  FOR ALL
+  TO authenticated
+  USING (has_permission('project.edit', project_id))
+  WITH CHECK (has_permission('project.edit', project_id));
+
+CREATE POLICY "Stage approvers can approve stages"
+  ON stage_approvals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (approved_by = auth.uid() AND has_permission('stage.approve', project_id));
+
+CREATE POLICY "Project viewers can view stage approvals"
+  ON stage_approvals
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
+
+-- Brochure pages (brochure_pages.project_id references brochure_projects)
+DROP POLICY IF EXISTS "Managers can manage all brochure pages" ON brochure_pages;
+DROP POLICY IF EXISTS "Project members can manage brochure pages" ON brochure_pages;
+
+CREATE POLICY "Brochure editors can manage brochure pages"
+  ON brochure_pages
+  FOR ALL
+  TO authenticated
+  USING (
+    has_permission('brochure.edit', (
+      SELECT bp.project_id FROM brochure_projects bp WHERE bp.id = brochure_pages.project_id
+    ))
+  )
+  WITH CHECK (
+    has_permission('brochure.edit', (
+      SELECT bp.project_id FROM brochure_projects bp WHERE bp.id = brochure_pages.project_id
+    ))
+  );
+
+CREATE POLICY "Project viewers can view brochure pages"
+  ON brochure_pages
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('project.view', (
+      SELECT bp.project_id FROM brochure_projects bp WHERE bp.id = brochure_pages.project_id
+    ))
+  );
+
+-- Page comments
+DROP POLICY IF EXISTS "Managers can manage all page comments" ON page_comments;
+DROP POLICY IF EXISTS "Project members can view page comments" ON page_comments;
+DROP POLICY IF EXISTS "Project members can add page comments" ON page_comments;
+DROP POLICY IF EXISTS "Employees can mark page comments done" ON page_comments;
+
+CREATE POLICY "Project viewers can view page comments"
+  ON page_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('project.view', (
+      SELECT bp.project_id FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      WHERE pg.id = page_comments.page_id
+    ))
+  );
+
+CREATE POLICY "Brochure commenters can add page comments"
+  ON page_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid() AND
+    has_permission('brochure.comment', (
+      SELECT bp.project_id FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      WHERE pg.id = page_comments.page_id
+    ))
+  );
+
+CREATE POLICY "Brochure resolvers can update page comments"
+  ON page_comments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('brochure.resolveComment', (
+      SELECT bp.project_id FROM brochure_pages pg
+      JOIN brochure_projects bp ON bp.id = pg.project_id
+      WHERE pg.id = page_comments.page_id
+    ))
+  );
+
+-- Meetings
+DROP POLICY IF EXISTS "Managers can manage all meetings" ON meetings;
+DROP POLICY IF EXISTS "Employees can schedule meetings in assigned projects" ON meetings;
+DROP POLICY IF EXISTS "Project members and attendees can view meetings" ON meetings;
+
+CREATE POLICY "Meeting administrators can manage all meetings"
+  ON meetings
+  FOR ALL
+  TO authenticated
+  USING (has_permission('meeting.manageAll', project_id))
+  WITH CHECK (has_permission('meeting.manageAll', project_id));
+
+CREATE POLICY "Schedulers can schedule meetings"
+  ON meetings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND has_permission('meeting.schedule', project_id));
+
+CREATE POLICY "Project viewers and attendees can view meetings"
+  ON meetings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = ANY(meetings.attendees) OR has_permission('project.view', project_id));
+
+-- Leads
+DROP POLICY IF EXISTS "Managers can manage all leads" ON leads;
+
+CREATE POLICY "Lead managers can manage leads"
+  ON leads
+  FOR ALL
+  TO authenticated
+  USING (has_permission('lead.manage'))
+  WITH CHECK (has_permission('lead.manage'));
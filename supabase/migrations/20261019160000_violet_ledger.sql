@@ -0,0 +1,218 @@
+/*
+  # Team lead, finance and stakeholder roles
+
+  1. Changes
+    - Role CHECK constraints on `profiles`, `comment_tasks`, `global_comments`,
+      `stage_approvals` and `page_comments` accept `team_lead`, `finance` and `stakeholder`
+    - `profiles.client_id` (uuid) links a stakeholder to the client whose projects they may view
+    - `projects.team_lead_id` (uuid) is the team lead who owns the project
+    - `projects.budget` (numeric) is the agreed project budget
+
+  2. New Tables
+    - `invoices`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `invoice_number` (text, unique)
+      - `amount` (numeric)
+      - `status` (text: draft, sent, paid, void)
+      - `issued_date`, `due_date`, `paid_date` (date)
+      - `notes` (text)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. Functions
+    - `has_permission` treats the project's team lead, and stakeholders of the
+      project's client, as members
+
+  4. Security
+    - `role_permissions` rows for the new roles and the budget/invoice capabilities
+      (mirrors `src/utils/permissions.ts`)
+    - `invoices` readable with `invoice.view` and writable with `invoice.manage`
+    - `projects` policies for viewing (`project.view` or `budget.view`), creating,
+      editing and deleting through `has_permission`; team leads may only create
+      projects they lead
+    - `stages` and `files` readable by anyone with `project.view` on the project
+*/
+
+-- Roles
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'));
+
+ALTER TABLE comment_tasks DROP CONSTRAINT IF EXISTS comment_tasks_author_role_check;
+ALTER TABLE comment_tasks ADD CONSTRAINT comment_tasks_author_role_check
+  CHECK (author_role IN ('manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'));
+
+ALTER TABLE global_comments DROP CONSTRAINT IF EXISTS global_comments_author_role_check;
+ALTER TABLE global_comments ADD CONSTRAINT global_comments_author_role_check
+  CHECK (author_role IN ('manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'));
+
+ALTER TABLE stage_approvals DROP CONSTRAINT IF EXISTS stage_approvals_approver_role_check;
+ALTER TABLE stage_approvals ADD CONSTRAINT stage_approvals_approver_role_check
+  CHECK (approver_role IN ('manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'));
+
+ALTER TABLE page_comments DROP CONSTRAINT IF EXISTS page_comments_author_role_check;
+ALTER TABLE page_comments ADD CONSTRAINT page_comments_author_role_check
+  CHECK (author_role IN ('manager', 'team_lead', 'employee', 'finance', 'client', 'stakeholder'));
+
+-- New columns
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS team_lead_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS budget numeric(12, 2) CHECK (budget IS NULL OR budget >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_projects_team_lead_id ON projects(team_lead_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_client_id ON profiles(client_id);
+
+-- Permission matrix
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'budget.view', 'all'),
+  ('manager', 'budget.edit', 'all'),
+  ('manager', 'invoice.view', 'all'),
+  ('manager', 'invoice.manage', 'all'),
+  ('team_lead', 'project.view', 'member'),
+  ('team_lead', 'project.create', 'member'),
+  ('team_lead', 'project.edit', 'member'),
+  ('team_lead', 'project.delete', 'member'),
+  ('team_lead', 'project.updateProgress', 'member'),
+  ('team_lead', 'stage.approve', 'member'),
+  ('team_lead', 'stage.updateProgress', 'member'),
+  ('team_lead', 'task.manage', 'member'),
+  ('team_lead', 'task.updateStatus', 'member'),
+  ('team_lead', 'comment.create', 'member'),
+  ('team_lead', 'comment.resolve', 'member'),
+  ('team_lead', 'brochure.create', 'member'),
+  ('team_lead', 'brochure.edit', 'member'),
+  ('team_lead', 'brochure.editLocked', 'member'),
+  ('team_lead', 'brochure.approve', 'member'),
+  ('team_lead', 'brochure.lock', 'member'),
+  ('team_lead', 'brochure.comment', 'member'),
+  ('team_lead', 'brochure.resolveComment', 'member'),
+  ('team_lead', 'file.upload', 'member'),
+  ('team_lead', 'file.editMetadata', 'member'),
+  ('team_lead', 'file.delete', 'member'),
+  ('team_lead', 'meeting.schedule', 'member'),
+  ('team_lead', 'meeting.manageAll', 'member'),
+  ('finance', 'budget.view', 'all'),
+  ('finance', 'invoice.view', 'all'),
+  ('finance', 'invoice.manage', 'all'),
+  ('stakeholder', 'project.view', 'member')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE OR REPLACE FUNCTION has_permission(p_capability text, p_project_id uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles
+    JOIN role_permissions ON role_permissions.role = profiles.role
+    WHERE profiles.id = auth.uid()
+    AND role_permissions.capability = p_capability
+    AND (
+      role_permissions.scope = 'all' OR
+      EXISTS (
+        SELECT 1 FROM projects
+        WHERE projects.id = p_project_id
+        AND (
+          projects.client_id = auth.uid() OR
+          auth.uid() = ANY(projects.assigned_employees) OR
+          projects.team_lead_id = auth.uid() OR
+          projects.client_id = profiles.client_id
+        )
+      )
+    )
+  );
+$$;
+
+-- Invoices
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  invoice_number text NOT NULL UNIQUE,
+  amount numeric(12, 2) NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'void')),
+  issued_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  paid_date date,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_project_id ON invoices(project_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+
+CREATE POLICY "Invoice viewers can view invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('invoice.view', project_id));
+
+CREATE POLICY "Invoice managers can manage invoices"
+  ON invoices
+  FOR ALL
+  TO authenticated
+  USING (has_permission('invoice.manage', project_id))
+  WITH CHECK (has_permission('invoice.manage', project_id));
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Projects
+CREATE POLICY "Project and budget viewers can view projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', id) OR has_permission('budget.view', id));
+
+-- Member-scoped creators (team leads) must lead the project they create
+CREATE POLICY "Project creators can create projects"
+  ON projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('project.create') OR
+    (
+      team_lead_id = auth.uid() AND
+      EXISTS (
+        SELECT 1 FROM profiles
+        JOIN role_permissions ON role_permissions.role = profiles.role
+        WHERE profiles.id = auth.uid()
+        AND role_permissions.capability = 'project.create'
+      )
+    )
+  );
+
+CREATE POLICY "Project editors can update projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('project.edit', id) OR has_permission('project.updateProgress', id))
+  WITH CHECK (has_permission('project.edit', id) OR has_permission('project.updateProgress', id));
+
+CREATE POLICY "Project deleters can delete projects"
+  ON projects
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('project.delete', id));
+
+-- Stages and files
+CREATE POLICY "Project viewers can view stages"
+  ON stages
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
+
+CREATE POLICY "Project viewers can view files"
+  ON files
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
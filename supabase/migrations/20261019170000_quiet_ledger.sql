@@ -0,0 +1,66 @@
+/*
+  # Audit log of project, file and approval actions
+
+  1. New Tables
+    - `audit_events`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid, foreign key to profiles)
+      - `actor_name`, `actor_role` (text, kept so entries survive profile changes)
+      - `action` (text, `<entity>.<verb>` such as `project.updated` or `file.deleted`)
+      - `entity_type` (text, kind of record acted on)
+      - `entity_id` (uuid, the record acted on; not a foreign key so deletions stay logged)
+      - `project_id` (uuid, project the record belongs to, if any)
+      - `details` (jsonb, changed fields as `{ field: { from, to } }` plus action context)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `audit_events`
+    - Authenticated users can only append entries attributed to themselves
+    - Only roles with `audit.view` can read the log
+    - There are no update or delete policies, so entries are append-only
+
+  3. Indexes
+    - Add indexes for the audit view filters (project, actor, entity type, date)
+*/
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_name text NOT NULL DEFAULT '',
+  actor_role text NOT NULL,
+  action text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN (
+    'project', 'stage', 'file', 'comment', 'task', 'meeting',
+    'brochure', 'brochure_page', 'lead', 'invoice', 'user'
+  )),
+  entity_id uuid,
+  project_id uuid,
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_project_id ON audit_events(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity_type ON audit_events(entity_type, created_at DESC);
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'audit.view', 'all')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE POLICY "Users can record their own actions"
+  ON audit_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actor_id = auth.uid() AND
+    actor_role = (SELECT role FROM profiles WHERE profiles.id = auth.uid())
+  );
+
+CREATE POLICY "Auditors can view audit events"
+  ON audit_events
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('audit.view'));
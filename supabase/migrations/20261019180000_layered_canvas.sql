@@ -0,0 +1,93 @@
+/*
+  # File versions
+
+  1. Changes
+    - `files.current_version` (integer) is the version the row's url, path, size and
+      uploader currently mirror
+
+  2. New Tables
+    - `file_versions`
+      - `id` (uuid, primary key)
+      - `file_id` (uuid, foreign key to files)
+      - `version_number` (integer, unique per file)
+      - `file_url`, `storage_path` (text, the object holding this version)
+      - `size` (bigint), `file_type` (text)
+      - `uploaded_by` (uuid, foreign key to profiles), `uploader_name` (text)
+      - `created_at` (timestamptz)
+    - Existing files are backfilled as version 1
+
+  3. Security
+    - Enable RLS on `file_versions`
+    - Versions are readable by anyone who can view the file's project
+    - Users with `file.upload` can add versions and update the file to point at a
+      new or restored version
+*/
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS current_version integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS file_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id uuid NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  version_number integer NOT NULL CHECK (version_number > 0),
+  file_url text NOT NULL,
+  storage_path text NOT NULL,
+  size bigint NOT NULL DEFAULT 0,
+  file_type text NOT NULL DEFAULT '',
+  uploaded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  uploader_name text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (file_id, version_number)
+);
+
+ALTER TABLE file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_file_versions_file_id ON file_versions(file_id, version_number DESC);
+
+INSERT INTO file_versions (file_id, version_number, file_url, storage_path, size, file_type, uploaded_by, uploader_name, created_at)
+SELECT
+  files.id,
+  1,
+  files.file_url,
+  COALESCE(files.storage_path, ''),
+  COALESCE(files.size, 0),
+  COALESCE(files.file_type, ''),
+  profiles.id,
+  COALESCE(files.uploader_name, ''),
+  COALESCE(files.timestamp, now())
+FROM files
+LEFT JOIN profiles ON profiles.id = files.uploaded_by
+WHERE NOT EXISTS (
+  SELECT 1 FROM file_versions WHERE file_versions.file_id = files.id
+);
+
+CREATE POLICY "Project viewers can view file versions"
+  ON file_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM files
+      WHERE files.id = file_versions.file_id
+      AND has_permission('project.view', files.project_id)
+    )
+  );
+
+CREATE POLICY "File uploaders can add file versions"
+  ON file_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM files
+      WHERE files.id = file_versions.file_id
+      AND has_permission('file.upload', files.project_id)
+    )
+  );
+
+CREATE POLICY "File uploaders can update files"
+  ON files
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('file.upload', project_id))
+  WITH CHECK (has_permission('file.upload', project_id));
@@ -0,0 +1,72 @@
+/*
+  # Folder hierarchy for project files
+
+  1. New Tables
+    - `folders`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `stage_id` (uuid, foreign key to stages; subfolders share their parent's stage)
+      - `parent_id` (uuid, foreign key to folders; NULL for top-level folders)
+      - `name` (text, unique among siblings)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `files.folder_id` (uuid, foreign key to folders); NULL keeps the file at the
+      project root. Deleting a folder moves its files back to the root
+    - `audit_events.entity_type` accepts `folder`
+
+  3. Security
+    - Enable RLS on `folders`
+    - Folders are readable by anyone who can view the project
+    - Users with `file.upload` on the project can create, rename, move and delete folders
+
+  4. Indexes
+    - Add indexes on `folders(project_id)`, `folders(parent_id)` and `files(folder_id)`
+*/
+
+CREATE TABLE IF NOT EXISTS folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  stage_id uuid REFERENCES stages(id) ON DELETE SET NULL,
+  parent_id uuid REFERENCES folders(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE folders ENABLE ROW LEVEL SECURITY;
+
+-- Sibling names are unique; top-level folders compare against the project root
+CREATE UNIQUE INDEX IF NOT EXISTS idx_folders_unique_name
+  ON folders(project_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE INDEX IF NOT EXISTS idx_folders_project_id ON folders(project_id);
+CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON folders(parent_id);
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS folder_id uuid REFERENCES folders(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_files_folder_id ON files(folder_id);
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_entity_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_entity_type_check CHECK (entity_type IN (
+  'project', 'stage', 'file', 'folder', 'comment', 'task', 'meeting',
+  'brochure', 'brochure_page', 'lead', 'invoice', 'user'
+));
+
+CREATE POLICY "Project viewers can view folders"
+  ON folders
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('project.view', project_id));
+
+CREATE POLICY "File uploaders can manage folders"
+  ON folders
+  FOR ALL
+  TO authenticated
+  USING (has_permission('file.upload', project_id))
+  WITH CHECK (has_permission('file.upload', project_id));
+
+CREATE TRIGGER update_folders_updated_at
+  BEFORE UPDATE ON folders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
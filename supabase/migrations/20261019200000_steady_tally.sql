@@ -0,0 +1,102 @@
+/*
+  # Download history and server-side download counters
+
+  1. New Tables
+    - `download_history`
+      - `id` (uuid, primary key)
+      - `file_id` (uuid, foreign key to files; cleared if the file is deleted)
+      - `project_id` (uuid, foreign key to projects)
+      - `downloaded_by` (uuid, foreign key to profiles)
+      - `downloader_name` (text)
+      - `download_date` (timestamptz)
+      - `file_name` (text), `file_size` (bigint), kept so history survives file deletion
+
+  2. Functions
+    - `record_file_download()` trigger bumps `files.download_count` and sets
+      `last_downloaded` / `last_downloaded_by` for every history row. It runs as
+      SECURITY DEFINER so roles that cannot edit files (clients, stakeholders)
+      still update the counters
+
+  3. Security
+    - Enable RLS on `download_history`
+    - Users can log downloads of files in projects they can view, as themselves
+    - Users can read their own downloads; `file.viewDownloads` (managers, and team
+      leads on their projects) can read everyone's
+    - `role_permissions` rows for `file.viewDownloads` (mirrors `src/utils/permissions.ts`)
+
+  4. Indexes
+    - Add indexes for per-file, per-user and per-project analytics
+*/
+
+CREATE TABLE IF NOT EXISTS download_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id uuid REFERENCES files(id) ON DELETE SET NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  downloaded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  downloader_name text NOT NULL DEFAULT '',
+  download_date timestamptz NOT NULL DEFAULT now(),
+  file_name text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0
+);
+
+ALTER TABLE download_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_download_history_download_date ON download_history(download_date DESC);
+CREATE INDEX IF NOT EXISTS idx_download_history_file_id ON download_history(file_id);
+CREATE INDEX IF NOT EXISTS idx_download_history_downloaded_by ON download_history(downloaded_by);
+CREATE INDEX IF NOT EXISTS idx_download_history_project_id ON download_history(project_id);
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'file.viewDownloads', 'all'),
+  ('team_lead', 'file.viewDownloads', 'member')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE OR REPLACE FUNCTION record_file_download()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.file_id IS NOT NULL THEN
+    UPDATE files
+    SET
+      download_count = COALESCE(download_count, 0) + 1,
+      last_downloaded = NEW.download_date,
+      last_downloaded_by = NEW.downloaded_by
+    WHERE id = NEW.file_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_file_download_after_insert
+  AFTER INSERT ON download_history
+  FOR EACH ROW
+  EXECUTE FUNCTION record_file_download();
+
+CREATE POLICY "Users can log their own downloads"
+  ON download_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    downloaded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM files
+      WHERE files.id = download_history.file_id
+      AND files.project_id = download_history.project_id
+      AND has_permission('project.view', files.project_id)
+    )
+  );
+
+CREATE POLICY "Users can view their own downloads"
+  ON download_history
+  FOR SELECT
+  TO authenticated
+  USING (downloaded_by = auth.uid());
+
+CREATE POLICY "Download viewers can view project downloads"
+  ON download_history
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('file.viewDownloads', project_id));
@@ -0,0 +1,100 @@
+/*
+  # Private storage for project files
+
+  1. Storage
+    - New private bucket `project-files`; objects live under `<project_id>/<uuid>/<filename>`
+    - The legacy `files` bucket (objects under `projects/<project_id>/...`) is made
+      private. Existing objects stay where they are and are served the same way
+
+  2. Changes
+    - `files.storage_bucket` and `file_versions.storage_bucket` (text) record which
+      bucket holds the object. Existing rows are set to `files`; new rows default
+      to `project-files`
+    - Rows missing `storage_path` get it back-filled from their public `file_url`
+    - `file_url` is no longer a usable link; the app requests short-lived signed
+      URLs from `storage_path` whenever a file is previewed or downloaded
+
+  3. Functions
+    - `storage_object_project_id(bucket, name)` returns the project an object
+      belongs to from its path, or NULL for paths that do not match either layout
+
+  4. Security
+    - Objects in both buckets are readable (and so can be signed) by users with
+      `project.view` on the project
+    - Users with `file.upload` on the project can upload objects
+    - Users with `file.upload` or `file.delete` on the project can remove objects
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-files', 'project-files', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+UPDATE storage.buckets SET public = false WHERE id = 'files';
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS storage_bucket text NOT NULL DEFAULT 'files';
+ALTER TABLE files ALTER COLUMN storage_bucket SET DEFAULT 'project-files';
+ALTER TABLE file_versions ADD COLUMN IF NOT EXISTS storage_bucket text NOT NULL DEFAULT 'files';
+ALTER TABLE file_versions ALTER COLUMN storage_bucket SET DEFAULT 'project-files';
+
+-- Older rows only kept the public URL; recover the object path from it
+UPDATE files
+SET storage_path = substring(file_url FROM '/storage/v1/object/public/files/(.+)$')
+WHERE (storage_path IS NULL OR storage_path = '')
+AND file_url LIKE '%/storage/v1/object/public/files/%';
+
+UPDATE file_versions
+SET storage_path = substring(file_url FROM '/storage/v1/object/public/files/(.+)$')
+WHERE (storage_path IS NULL OR storage_path = '')
+AND file_url LIKE '%/storage/v1/object/public/files/%';
+
+CREATE OR REPLACE FUNCTION storage_object_project_id(bucket text, object_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  segment text;
+BEGIN
+  IF bucket = 'project-files' THEN
+    segment := split_part(object_name, '/', 1);
+  ELSIF bucket = 'files' AND split_part(object_name, '/', 1) = 'projects' THEN
+    segment := split_part(object_name, '/', 2);
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF segment ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN segment::uuid;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE POLICY "Project viewers can read project files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id IN ('project-files', 'files') AND
+    has_permission('project.view', storage_object_project_id(bucket_id, name))
+  );
+
+CREATE POLICY "File uploaders can upload project files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'project-files' AND
+    has_permission('file.upload', storage_object_project_id(bucket_id, name))
+  );
+
+CREATE POLICY "File managers can remove project files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id IN ('project-files', 'files') AND (
+      has_permission('file.upload', storage_object_project_id(bucket_id, name)) OR
+      has_permission('file.delete', storage_object_project_id(bucket_id, name))
+    )
+  );
@@ -0,0 +1,100 @@
+/*
+  # Expiring share links for files and folders
+
+  1. New Tables
+    - `share_links`
+      - `id` (uuid, primary key)
+      - `token` (text, unique, random; the secret part of the public URL)
+      - `project_id` (uuid, foreign key to projects)
+      - `file_id` (uuid, foreign key to files) or `folder_id` (uuid, foreign key
+        to folders); exactly one is set. A folder link covers its subfolders
+      - `label` (text, who the link is for)
+      - `created_by` (uuid, foreign key to profiles), `creator_name` (text)
+      - `created_at`, `expires_at` (timestamptz)
+      - `password_hash` (text, PBKDF2 hash; NULL when no password is required)
+      - `max_downloads` (integer, NULL for unlimited), `download_count` (integer)
+      - `last_accessed_at`, `revoked_at` (timestamptz)
+
+  2. Changes
+    - `download_history.share_link_id` (uuid, foreign key to share_links) marks
+      downloads made through a link; `downloaded_by` stays NULL for those
+    - `audit_events.entity_type` accepts `share_link`
+
+  3. Functions
+    - `claim_share_link_download(link_id)` counts one download against a link if it
+      is still active and under its limit, and returns whether it did. Only the
+      `share-link` edge function (service role) calls it
+
+  4. Security
+    - Enable RLS on `share_links`
+    - Users with `file.share` on the project can create, list and revoke links
+      (managers); `role_permissions` rows mirror `src/utils/permissions.ts`
+    - Anonymous visitors never read `share_links` directly; the `share-link` edge
+      function validates the token, password, expiry and limit, signs the file
+      URL and logs the download
+*/
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  file_id uuid REFERENCES files(id) ON DELETE CASCADE,
+  folder_id uuid REFERENCES folders(id) ON DELETE CASCADE,
+  label text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  creator_name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  password_hash text,
+  max_downloads integer CHECK (max_downloads IS NULL OR max_downloads > 0),
+  download_count integer NOT NULL DEFAULT 0,
+  last_accessed_at timestamptz,
+  revoked_at timestamptz,
+  CHECK ((file_id IS NULL) <> (folder_id IS NULL))
+);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project_id ON share_links(project_id);
+
+ALTER TABLE download_history ADD COLUMN IF NOT EXISTS share_link_id uuid REFERENCES share_links(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_download_history_share_link_id ON download_history(share_link_id);
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_entity_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_entity_type_check CHECK (entity_type IN (
+  'project', 'stage', 'file', 'folder', 'share_link', 'comment', 'task', 'meeting',
+  'brochure', 'brochure_page', 'lead', 'invoice', 'user'
+));
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'file.share', 'all')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE OR REPLACE FUNCTION claim_share_link_download(p_link_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE share_links
+    SET download_count = download_count + 1,
+        last_accessed_at = now()
+    WHERE id = p_link_id
+    AND revoked_at IS NULL
+    AND expires_at > now()
+    AND (max_downloads IS NULL OR download_count < max_downloads)
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_share_link_download(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_share_link_download(uuid) TO service_role;
+
+CREATE POLICY "File sharers can manage share links"
+  ON share_links
+  FOR ALL
+  TO authenticated
+  USING (has_permission('file.share', project_id))
+  WITH CHECK (has_permission('file.share', project_id));
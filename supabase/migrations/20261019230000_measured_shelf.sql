@@ -0,0 +1,168 @@
+/*
+  # Storage quotas and usage per project and client
+
+  1. New Tables
+    - `storage_quotas`
+      - `scope` (text, `project` or `client`)
+      - `target_id` (uuid, the project or client profile the quota applies to)
+      - `quota_bytes` (bigint)
+      - `updated_by` (uuid, foreign key to profiles), `updated_at` (timestamptz)
+      - Primary key (`scope`, `target_id`); no row means no quota
+
+  2. Views
+    - `project_storage_usage` totals stored bytes per project across every file
+      version, since older versions keep their objects in storage. Runs with the
+      caller's permissions, so users only see projects they can view
+
+  3. Functions
+    - `storage_quota_error(project_id, bytes)` returns why adding `bytes` to the
+      project would break its quota or its client's quota, or NULL if it fits
+    - `check_storage_quota(project_id, bytes)` lets uploaders ask before sending a
+      file to storage
+    - `enforce_storage_quota()` trigger rejects `file_versions` rows over quota
+
+  4. Security
+    - Enable RLS on `storage_quotas`
+    - Quotas are readable by project viewers (project quotas) and by the client
+      they apply to (client quotas)
+    - `storage.manage` (managers) can read and set all quotas; `role_permissions`
+      rows mirror `src/utils/permissions.ts`
+*/
+
+CREATE TABLE IF NOT EXISTS storage_quotas (
+  scope text NOT NULL CHECK (scope IN ('project', 'client')),
+  target_id uuid NOT NULL,
+  quota_bytes bigint NOT NULL CHECK (quota_bytes > 0),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (scope, target_id)
+);
+
+ALTER TABLE storage_quotas ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'storage.manage', 'all')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
+
+CREATE OR REPLACE VIEW project_storage_usage
+WITH (security_invoker = true)
+AS
+SELECT
+  files.project_id,
+  count(DISTINCT files.id) AS file_count,
+  count(file_versions.id) AS version_count,
+  COALESCE(sum(file_versions.size), 0)::bigint AS stored_bytes
+FROM files
+LEFT JOIN file_versions ON file_versions.file_id = files.id
+GROUP BY files.project_id;
+
+GRANT SELECT ON project_storage_usage TO authenticated;
+
+CREATE OR REPLACE FUNCTION storage_quota_error(p_project_id uuid, p_bytes bigint)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_quota bigint;
+  v_used bigint;
+BEGIN
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'project' AND target_id = p_project_id;
+
+  IF v_quota IS NOT NULL THEN
+    SELECT COALESCE(sum(file_versions.size), 0) INTO v_used
+    FROM file_versions
+    JOIN files ON files.id = file_versions.file_id
+    WHERE files.project_id = p_project_id;
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the project storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  -- Client quotas cover every project of the client, including ones the uploader can't see
+  SELECT client_id INTO v_client_id FROM projects WHERE id = p_project_id;
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'client' AND target_id = v_client_id;
+
+  IF v_quota IS NOT NULL THEN
+    SELECT COALESCE(sum(file_versions.size), 0) INTO v_used
+    FROM file_versions
+    JOIN files ON files.id = file_versions.file_id
+    JOIN projects ON projects.id = files.project_id
+    WHERE projects.client_id = v_client_id;
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the client storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION storage_quota_error(uuid, bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_storage_quota(p_project_id uuid, p_bytes bigint)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('file.upload', p_project_id) THEN
+    RAISE EXCEPTION 'You do not have permission to upload files in this project';
+  END IF;
+  RETURN storage_quota_error(p_project_id, p_bytes);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_storage_quota(uuid, bigint) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error text;
+BEGIN
+  v_error := storage_quota_error((SELECT project_id FROM files WHERE id = NEW.file_id), COALESCE(NEW.size, 0));
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_storage_quota_before_insert
+  BEFORE INSERT ON file_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_storage_quota();
+
+CREATE POLICY "Project viewers can view project quotas"
+  ON storage_quotas
+  FOR SELECT
+  TO authenticated
+  USING (scope = 'project' AND has_permission('project.view', target_id));
+
+CREATE POLICY "Clients can view their own quota"
+  ON storage_quotas
+  FOR SELECT
+  TO authenticated
+  USING (scope = 'client' AND target_id = auth.uid());
+
+CREATE POLICY "Storage managers can manage quotas"
+  ON storage_quotas
+  FOR ALL
+  TO authenticated
+  USING (has_permission('storage.manage'))
+  WITH CHECK (has_permission('storage.manage'));
@@ -0,0 +1,90 @@
+/*
+  # File archiving and retention rules
+
+  1. Modified Tables
+    - `files`
+      - `is_archived` (boolean), `archived_at` (timestamptz)
+      - `archived_by` (uuid, foreign key to profiles; NULL when a retention rule
+        archived the file)
+    - `projects`
+      - `completed_at` (timestamptz), kept in step with `status` by a trigger so
+        archive rules can count days since completion. Projects that are already
+        completed start counting from this migration
+    - `audit_events.entity_type` accepts `retention_rule`
+
+  2. New Tables
+    - `retention_rules`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `action` (text): `archive` archives files of projects completed more than
+        `after_days` ago; `purge` deletes files archived more than `after_days` ago,
+        with every version's storage object
+      - `after_days` (integer)
+      - `project_id` (uuid, NULL for every project), `category` (text, NULL for
+        every category) narrow the files a rule applies to
+      - `enabled` (boolean), `last_run_at` (timestamptz)
+      - `created_by` (uuid, foreign key to profiles), `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `retention_rules`; only `storage.manage` (managers) can read
+      and change rules. Rules are applied by the `retention-run` edge function
+*/
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS archived_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_archived_at ON files(archived_at) WHERE is_archived;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+UPDATE projects SET completed_at = now() WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_project_completed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed' THEN
+      NEW.completed_at := now();
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_project_completed_at_before_write
+  BEFORE INSERT OR UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION set_project_completed_at();
+
+CREATE TABLE IF NOT EXISTS retention_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  action text NOT NULL CHECK (action IN ('archive', 'purge')),
+  after_days integer NOT NULL CHECK (after_days > 0),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  category text,
+  enabled boolean NOT NULL DEFAULT true,
+  last_run_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE retention_rules ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_entity_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_entity_type_check CHECK (entity_type IN (
+  'project', 'stage', 'file', 'folder', 'share_link', 'retention_rule', 'comment', 'task', 'meeting',
+  'brochure', 'brochure_page', 'lead', 'invoice', 'user'
+));
+
+CREATE POLICY "Storage managers can manage retention rules"
+  ON retention_rules
+  FOR ALL
+  TO authenticated
+  USING (has_permission('storage.manage'))
+  WITH CHECK (has_permission('storage.manage'));
@@ -0,0 +1,119 @@
+/*
+  # Content hashes for duplicate detection and download integrity checks
+
+  1. Modified Tables
+    - `files.content_sha256`, `file_versions.content_sha256` (text, hex SHA-256 of
+      the uploaded bytes, computed in the browser; NULL for older uploads)
+    - Index on `files (project_id, content_sha256)` for the duplicate lookup
+
+  2. Linked uploads
+    - An upload that duplicates an existing file can be linked to it instead: the
+      new version points at the existing storage object rather than a copy. The
+      app only removes an object once no version references it any more
+    - `project_stored_bytes(project_id)` counts each storage object once, so
+      `project_storage_usage` and the quota checks ignore linked copies
+    - `enforce_storage_quota()` lets versions that reuse an existing object through
+*/
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS content_sha256 text;
+ALTER TABLE file_versions ADD COLUMN IF NOT EXISTS content_sha256 text;
+
+CREATE INDEX IF NOT EXISTS idx_files_content_sha256 ON files(project_id, content_sha256) WHERE content_sha256 IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_file_versions_storage_path ON file_versions(storage_bucket, storage_path);
+
+CREATE OR REPLACE FUNCTION project_stored_bytes(p_project_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(sum(size), 0)::bigint
+  FROM (
+    -- Rows without a storage path (legacy public URLs) are counted individually
+    SELECT DISTINCT ON (file_versions.storage_bucket, COALESCE(file_versions.storage_path, file_versions.id::text))
+      file_versions.size
+    FROM file_versions
+    JOIN files ON files.id = file_versions.file_id
+    WHERE files.project_id = p_project_id
+  ) AS objects;
+$$;
+
+CREATE OR REPLACE VIEW project_storage_usage
+WITH (security_invoker = true)
+AS
+SELECT
+  files.project_id,
+  count(DISTINCT files.id) AS file_count,
+  count(file_versions.id) AS version_count,
+  project_stored_bytes(files.project_id) AS stored_bytes
+FROM files
+LEFT JOIN file_versions ON file_versions.file_id = files.id
+GROUP BY files.project_id;
+
+CREATE OR REPLACE FUNCTION storage_quota_error(p_project_id uuid, p_bytes bigint)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_quota bigint;
+  v_used bigint;
+BEGIN
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'project' AND target_id = p_project_id;
+
+  IF v_quota IS NOT NULL THEN
+    v_used := project_stored_bytes(p_project_id);
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the project storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  -- Client quotas cover every project of the client, including ones the uploader can't see
+  SELECT client_id INTO v_client_id FROM projects WHERE id = p_project_id;
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'client' AND target_id = v_client_id;
+
+  IF v_quota IS NOT NULL THEN
+    SELECT COALESCE(sum(project_stored_bytes(id)), 0) INTO v_used
+    FROM projects
+    WHERE client_id = v_client_id;
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the client storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error text;
+BEGIN
+  -- Linked uploads reuse an object that is already counted
+  IF NEW.storage_path IS NOT NULL AND EXISTS (
+    SELECT 1 FROM file_versions
+    WHERE storage_bucket = NEW.storage_bucket AND storage_path = NEW.storage_path
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_error := storage_quota_error((SELECT project_id FROM files WHERE id = NEW.file_id), COALESCE(NEW.size, 0));
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,15 @@
+/*
+  # Brochure PDF export permission
+
+  1. Security
+    - `role_permissions` rows for `brochure.export` (mirrors `src/utils/permissions.ts`):
+      managers on every brochure, team leads and clients on their own projects'.
+      PDFs are built in the browser from brochure data the user can already read,
+      so no policies change
+*/
+
+INSERT INTO role_permissions (role, capability, scope) VALUES
+  ('manager', 'brochure.export', 'all'),
+  ('team_lead', 'brochure.export', 'member'),
+  ('client', 'brochure.export', 'member')
+ON CONFLICT (role, capability) DO UPDATE SET scope = EXCLUDED.scope;
@@ -0,0 +1,13 @@
+/*
+  # External calendar UIDs on imported meetings
+
+  1. Modified Tables
+    - `meetings.external_uid` (text): the iCalendar UID of the event a meeting was
+      imported from; NULL for meetings scheduled in the app
+    - Unique index on `meetings (project_id, external_uid)` so importing the same
+      calendar file twice cannot duplicate its events
+*/
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS external_uid text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meetings_external_uid ON meetings(project_id, external_uid) WHERE external_uid IS NOT NULL;
@@ -0,0 +1,37 @@
+/*
+  # Stage approval status follows the approval history
+
+  1. Triggers
+    - `apply_stage_approval()` runs after every insert on `stage_approvals` and sets
+      `stages.approval_status` to the recorded decision in the same transaction, so
+      a stage can no longer end up approved or rejected without a history entry
+    - The function is SECURITY DEFINER: recording a decision only needs the
+      `stage.approve` insert policy, not update rights on `stages`
+    - A decision whose `stage_id` is not a stage of its `project_id` is rejected
+*/
+
+CREATE OR REPLACE FUNCTION apply_stage_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE stages
+  SET approval_status = NEW.status
+  WHERE id = NEW.stage_id
+    AND project_id = NEW.project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stage % does not belong to project %', NEW.stage_id, NEW.project_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_stage_approval_after_insert ON stage_approvals;
+CREATE TRIGGER apply_stage_approval_after_insert
+  AFTER INSERT ON stage_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_stage_approval();
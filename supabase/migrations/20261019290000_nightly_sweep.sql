@@ -0,0 +1,39 @@
+/*
+  # Daily retention run
+
+  1. Schedule
+    - Enables `pg_cron` and `pg_net` and schedules the `retention-run` job for
+      03:00 UTC every day. It calls the `retention-run` edge function with
+      `dry_run: false`, so enabled retention rules archive and purge files without
+      anyone pressing a button
+    - Re-running the migration replaces the job rather than adding a second one
+
+  2. Secrets
+    - The job reads the project URL and the service role key from Vault when it
+      runs, so no key is stored in the job definition. Create both once per
+      project:
+
+        select vault.create_secret('<project url>', 'project_url');
+        select vault.create_secret('<service role key>', 'service_role_key');
+
+    - Until they exist the job fails without changing anything; failures show up
+      in `cron.job_run_details`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'retention-run',
+  '0 3 * * *',
+  $job$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retention-run',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'),
+      'Content-Type', 'application/json'
+    ),
+    body := '{"dry_run": false}'::jsonb
+  );
+  $job$
+);
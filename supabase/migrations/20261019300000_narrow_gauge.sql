@@ -0,0 +1,54 @@
+/*
+  # Progress-only project updates
+
+  1. Security
+    - The `projects` UPDATE policy admits `project.edit`, `budget.edit` and
+      `project.updateProgress`
+    - `restrict_progress_update()` runs before every update on `projects`. Callers
+      who hold `project.updateProgress` but neither `project.edit` nor `budget.edit`
+      (employees) may only change `progress_percentage`; an update touching any
+      other column is rejected
+    - Updates made without a signed-in user (service role, SQL) are not restricted
+*/
+
+DROP POLICY IF EXISTS "Project editors can update projects" ON projects;
+
+CREATE POLICY "Project editors can update projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('project.edit', id) OR
+    has_permission('budget.edit', id) OR
+    has_permission('project.updateProgress', id)
+  )
+  WITH CHECK (
+    has_permission('project.edit', id) OR
+    has_permission('budget.edit', id) OR
+    has_permission('project.updateProgress', id)
+  );
+
+CREATE OR REPLACE FUNCTION restrict_progress_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_permission('project.edit', OLD.id) OR has_permission('budget.edit', OLD.id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'progress_percentage' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'progress_percentage' - 'updated_at') THEN
+    RAISE EXCEPTION 'You may only update the progress of this project' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restrict_progress_update_before_update ON projects;
+CREATE TRIGGER restrict_progress_update_before_update
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_progress_update();
@@ -0,0 +1,47 @@
+/*
+  # Project budgets in their own table
+
+  1. New Tables
+    - `project_budgets`
+      - `project_id` (uuid, primary key, foreign key to projects)
+      - `budget` (numeric, the agreed project budget)
+      - `updated_at` (timestamptz)
+    - Existing `projects.budget` values are copied over and the column is dropped,
+      so reading a project no longer reveals its budget
+
+  2. Security
+    - Enable RLS on `project_budgets`; readable with `budget.view` and writable
+      with `budget.edit` on the project
+*/
+
+CREATE TABLE IF NOT EXISTS project_budgets (
+  project_id uuid PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  budget numeric(12, 2) NOT NULL CHECK (budget >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE project_budgets ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO project_budgets (project_id, budget)
+SELECT id, budget FROM projects WHERE budget IS NOT NULL
+ON CONFLICT (project_id) DO NOTHING;
+
+ALTER TABLE projects DROP COLUMN IF EXISTS budget;
+
+CREATE POLICY "Budget viewers can view project budgets"
+  ON project_budgets
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('budget.view', project_id));
+
+CREATE POLICY "Budget editors can manage project budgets"
+  ON project_budgets
+  FOR ALL
+  TO authenticated
+  USING (has_permission('budget.edit', project_id))
+  WITH CHECK (has_permission('budget.edit', project_id));
+
+CREATE TRIGGER update_project_budgets_updated_at
+  BEFORE UPDATE ON project_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
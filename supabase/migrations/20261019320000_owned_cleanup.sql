@@ -0,0 +1,24 @@
+/*
+  # Uploaders only remove their own storage objects
+
+  1. Security
+    - Users with `file.delete` on the project can remove any of its objects
+    - Users with only `file.upload` can remove objects they uploaded themselves
+      (cleaning up after a failed upload), not every object in the project
+*/
+
+DROP POLICY IF EXISTS "File managers can remove project files" ON storage.objects;
+
+CREATE POLICY "File managers can remove project files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id IN ('project-files', 'files') AND (
+      has_permission('file.delete', storage_object_project_id(bucket_id, name)) OR
+      (
+        owner = auth.uid() AND
+        has_permission('file.upload', storage_object_project_id(bucket_id, name))
+      )
+    )
+  );
@@ -0,0 +1,78 @@
+/*
+  # Brochure page approval and lock rights enforced in the database
+
+  1. Triggers
+    - `enforce_brochure_page_rights()` runs before every insert, update and delete
+      on `brochure_pages`, so the `brochure.edit` policy no longer lets anyone with
+      edit rights approve, lock or rewrite locked pages through the API:
+      - changing `approval_status` (or inserting a page that is not `pending`)
+        needs `brochure.approve`
+      - changing `is_locked`, `locked_by`, `locked_by_name` or `locked_at` (or
+        inserting a locked page) needs `brochure.lock`
+      - changing the content of, or deleting, a locked page needs
+        `brochure.editLocked`; deleting a whole brochure is not blocked by its
+        locked pages
+    - Writes made without a signed-in user (service role, SQL) are not restricted
+*/
+
+CREATE OR REPLACE FUNCTION enforce_brochure_page_rights()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM brochure_projects
+  WHERE id = CASE WHEN TG_OP = 'INSERT' THEN NEW.project_id ELSE OLD.project_id END;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.approval_status <> 'pending' AND NOT has_permission('brochure.approve', v_project_id) THEN
+      RAISE EXCEPTION 'You do not have permission to approve brochure pages' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NEW.is_locked AND NOT has_permission('brochure.lock', v_project_id) THEN
+      RAISE EXCEPTION 'You do not have permission to lock brochure pages' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Pages removed along with their brochure no longer find it and are let through
+    IF OLD.is_locked AND v_project_id IS NOT NULL AND NOT has_permission('brochure.editLocked', v_project_id) THEN
+      RAISE EXCEPTION 'This page is locked' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.approval_status IS DISTINCT FROM OLD.approval_status
+    AND NOT has_permission('brochure.approve', v_project_id) THEN
+    RAISE EXCEPTION 'You do not have permission to approve brochure pages' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.is_locked, NEW.locked_by, NEW.locked_by_name, NEW.locked_at)
+    IS DISTINCT FROM (OLD.is_locked, OLD.locked_by, OLD.locked_by_name, OLD.locked_at)
+    AND NOT has_permission('brochure.lock', v_project_id) THEN
+    RAISE EXCEPTION 'You do not have permission to lock brochure pages' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.is_locked
+    AND (NEW.content, NEW.page_number, NEW.project_id) IS DISTINCT FROM (OLD.content, OLD.page_number, OLD.project_id)
+    AND NOT has_permission('brochure.editLocked', v_project_id) THEN
+    RAISE EXCEPTION 'This page is locked' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_brochure_page_rights_before_write ON brochure_pages;
+CREATE TRIGGER enforce_brochure_page_rights_before_write
+  BEFORE INSERT OR UPDATE OR DELETE ON brochure_pages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_brochure_page_rights();
@@ -0,0 +1,11 @@
+/*
+  # Append-only stage approval history
+
+  1. Security
+    - Drop the `project.edit` FOR ALL policy on `stage_approvals`, which let
+      project editors rewrite or delete past decisions
+    - Decisions are recorded through the `stage.approve` INSERT policy and read
+      through the `project.view` SELECT policy; no policy allows UPDATE or DELETE
+*/
+
+DROP POLICY IF EXISTS "Project editors can manage stage approvals" ON stage_approvals;
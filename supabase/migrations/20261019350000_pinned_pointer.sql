@@ -0,0 +1,70 @@
+/*
+  # Narrow file updates by uploaders
+
+  1. Triggers
+    - `restrict_file_update()` runs before every update on `files` sent through the
+      API:
+      - `project_id`, `download_count`, `last_downloaded` and `last_downloaded_by`
+        cannot be changed; the counters are kept by `record_file_download()`
+      - callers without `file.editMetadata` (uploaders such as employees) may only
+        re-point the file at a version (`current_version` and the url, bucket,
+        path, size, type, hash, uploader and timestamp it mirrors) and move it
+        between folders and stages. Archiving, renaming and other metadata stay
+        with `file.editMetadata`
+      - a changed version pointer must match a `file_versions` row of the file
+        (same version number, bucket, path and size)
+    - Updates made by database functions (such as the download counter trigger)
+      and by the service role are not restricted
+*/
+
+CREATE OR REPLACE FUNCTION restrict_file_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Statements sent through the API run as `authenticated`; SECURITY DEFINER
+  -- functions and the service role run as other roles
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR (NEW.download_count, NEW.last_downloaded, NEW.last_downloaded_by)
+      IS DISTINCT FROM (OLD.download_count, OLD.last_downloaded, OLD.last_downloaded_by) THEN
+    RAISE EXCEPTION 'A file''s project and download counters cannot be changed' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT has_permission('file.editMetadata', OLD.project_id)
+    AND (to_jsonb(NEW) - ARRAY[
+      'current_version', 'file_url', 'storage_bucket', 'storage_path', 'size', 'file_type',
+      'content_sha256', 'uploaded_by', 'uploader_name', 'timestamp', 'folder_id', 'stage_id'
+    ]) IS DISTINCT FROM (to_jsonb(OLD) - ARRAY[
+      'current_version', 'file_url', 'storage_bucket', 'storage_path', 'size', 'file_type',
+      'content_sha256', 'uploaded_by', 'uploader_name', 'timestamp', 'folder_id', 'stage_id'
+    ]) THEN
+    RAISE EXCEPTION 'You may only add, restore or move versions of this file' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.current_version, NEW.storage_bucket, NEW.storage_path, NEW.size)
+    IS DISTINCT FROM (OLD.current_version, OLD.storage_bucket, OLD.storage_path, OLD.size)
+    AND NOT EXISTS (
+      SELECT 1 FROM file_versions
+      WHERE file_versions.file_id = NEW.id
+      AND file_versions.version_number = NEW.current_version
+      AND file_versions.storage_bucket = NEW.storage_bucket
+      AND file_versions.storage_path = NEW.storage_path
+      AND file_versions.size = NEW.size
+    ) THEN
+    RAISE EXCEPTION 'A file can only point at one of its recorded versions' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restrict_file_update_before_update ON files;
+CREATE TRIGGER restrict_file_update_before_update
+  BEFORE UPDATE ON files
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_file_update();
@@ -0,0 +1,24 @@
+/*
+  # File versions stay inside their project's storage
+
+  1. Security
+    - The `file_versions` INSERT policy also requires the version's object to lie
+      under the file's own project prefix (`storage_object_project_id` of its
+      bucket and path), so a version cannot point at another project's object
+*/
+
+DROP POLICY IF EXISTS "File uploaders can add file versions" ON file_versions;
+
+CREATE POLICY "File uploaders can add file versions"
+  ON file_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM files
+      WHERE files.id = file_versions.file_id
+      AND has_permission('file.upload', files.project_id)
+      AND storage_object_project_id(file_versions.storage_bucket, file_versions.storage_path) = files.project_id
+    )
+  );
@@ -0,0 +1,135 @@
+/*
+  # Storage quotas enforced on storage objects
+
+  1. Functions
+    - `project_object_bytes(project_id)` sums the `metadata.size` of the project's
+      objects in `storage.objects` (both the `project-files` and the legacy `files`
+      layout). Each object is counted once however many versions link to it, and
+      objects without a file row count too
+    - `project_stored_bytes(project_id)` returns the same for users who can view
+      the project, so `project_storage_usage` reports what the quotas measure
+    - `storage_quota_error()` measures usage with `project_object_bytes()`
+
+  2. Triggers
+    - `enforce_object_storage_quota()` runs before an object is written to
+      `storage.objects` (including when its metadata and size are filled in after
+      the upload) and rejects it if the added bytes break the project or client
+      quota. Objects uploaded without a `file_versions` row are therefore counted
+      and limited as well
+    - The `file_versions` quota trigger is dropped: it trusted the client-supplied
+      `size` and skipped rows that reuse an existing path. Linked uploads add no
+      object and so use no quota
+*/
+
+CREATE OR REPLACE FUNCTION project_object_bytes(p_project_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum((metadata->>'size')::bigint), 0)::bigint
+  FROM storage.objects
+  WHERE (bucket_id = 'project-files' AND name LIKE p_project_id::text || '/%')
+  OR (bucket_id = 'files' AND name LIKE 'projects/' || p_project_id::text || '/%');
+$$;
+
+REVOKE EXECUTE ON FUNCTION project_object_bytes(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION project_stored_bytes(p_project_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN has_permission('project.view', p_project_id) OR has_permission('storage.manage', p_project_id)
+    THEN project_object_bytes(p_project_id)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION storage_quota_error(p_project_id uuid, p_bytes bigint)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_quota bigint;
+  v_used bigint;
+BEGIN
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'project' AND target_id = p_project_id;
+
+  IF v_quota IS NOT NULL THEN
+    v_used := project_object_bytes(p_project_id);
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the project storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  -- Client quotas cover every project of the client, including ones the uploader can't see
+  SELECT client_id INTO v_client_id FROM projects WHERE id = p_project_id;
+  SELECT quota_bytes INTO v_quota
+  FROM storage_quotas
+  WHERE scope = 'client' AND target_id = v_client_id;
+
+  IF v_quota IS NOT NULL THEN
+    SELECT COALESCE(sum(project_object_bytes(id)), 0) INTO v_used
+    FROM projects
+    WHERE client_id = v_client_id;
+
+    IF v_used + p_bytes > v_quota THEN
+      RETURN format('This upload would exceed the client storage quota (%s of %s used)', pg_size_pretty(v_used), pg_size_pretty(v_quota));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_object_storage_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id uuid;
+  v_added bigint;
+  v_error text;
+BEGIN
+  v_project_id := storage_object_project_id(NEW.bucket_id, NEW.name);
+  IF v_project_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only the growth counts when an object of the same project is rewritten
+  v_added := COALESCE((NEW.metadata->>'size')::bigint, 0);
+  IF TG_OP = 'UPDATE' AND storage_object_project_id(OLD.bucket_id, OLD.name) = v_project_id THEN
+    v_added := v_added - COALESCE((OLD.metadata->>'size')::bigint, 0);
+  END IF;
+
+  IF v_added > 0 THEN
+    v_error := storage_quota_error(v_project_id, v_added);
+    IF v_error IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_error USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_object_storage_quota_before_write ON storage.objects;
+CREATE TRIGGER enforce_object_storage_quota_before_write
+  BEFORE INSERT OR UPDATE OF bucket_id, name, metadata ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_object_storage_quota();
+
+DROP TRIGGER IF EXISTS enforce_storage_quota_before_insert ON file_versions;
+DROP FUNCTION IF EXISTS enforce_storage_quota();
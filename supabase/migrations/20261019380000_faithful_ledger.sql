@@ -0,0 +1,228 @@
+/*
+  # Record audit events from database triggers
+
+  1. Changes
+    - Add `record_audit_event()`, an AFTER row trigger that appends an `audit_events` entry
+      in the same transaction as the change it describes
+    - Attach it to every audited table, so entries are written whether the change comes
+      from the app or straight through the API
+    - Stage creation and file downloads are now logged as `stage.created` and `file.downloaded`
+    - Changes made by other triggers or by cascades are not logged separately; the entry
+      for the statement that caused them covers them
+    - Changes made with the service role (edge functions, scheduled jobs) are skipped,
+      since those functions record their own entries
+
+  2. Trigger arguments
+    - Entity type written to `audit_events.entity_type`
+    - Comma-separated columns whose changes alone are not worth an entry
+    - Comma-separated columns whose changes are logged without their values
+
+  3. Security
+    - Clients may now only append the events that are not table changes
+      (`brochure.exported` and `file.integrity_failed`)
+*/
+
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type text := TG_ARGV[0];
+  v_ignored text[] := string_to_array(COALESCE(TG_ARGV[1], ''), ',') || ARRAY['updated_at'];
+  v_hidden text[] := string_to_array(COALESCE(TG_ARGV[2], ''), ',');
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_entity_id uuid := (v_row->>'id')::uuid;
+  v_project_id uuid := (v_row->>'project_id')::uuid;
+  v_verb text := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END;
+  v_changes jsonb := '{}';
+  v_details jsonb;
+  v_column text;
+  v_actor profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_column IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_column <> ALL (v_ignored) AND v_new->v_column IS DISTINCT FROM v_old->v_column THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_column,
+          CASE WHEN v_column = ANY (v_hidden) THEN to_jsonb('changed'::text)
+               ELSE jsonb_build_object('from', v_old->v_column, 'to', v_new->v_column) END
+        );
+      END IF;
+    END LOOP;
+
+    IF v_changes = '{}' THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Name the record so entries stay readable after it is deleted
+  v_details := jsonb_strip_nulls(jsonb_build_object(
+    'title', v_row->'title',
+    'name', v_row->'name',
+    'filename', COALESCE(v_row->'filename', v_row->'file_name'),
+    'invoice_number', v_row->'invoice_number',
+    'label', v_row->'label',
+    'page_number', v_row->'page_number'
+  ));
+
+  CASE TG_TABLE_NAME
+    WHEN 'projects' THEN
+      v_project_id := v_entity_id;
+    WHEN 'project_budgets' THEN
+      v_entity_id := v_project_id;
+      v_verb := 'updated';
+      v_changes := jsonb_build_object('budget', jsonb_build_object('from', v_old->'budget', 'to', v_new->'budget'));
+    WHEN 'stages' THEN
+      IF TG_OP = 'UPDATE' AND v_changes ? 'progress_percentage' THEN
+        v_verb := 'progress_updated';
+      END IF;
+    WHEN 'stage_approvals' THEN
+      IF TG_OP <> 'INSERT' THEN
+        RETURN NULL;
+      END IF;
+      v_entity_id := (v_row->>'stage_id')::uuid;
+      v_verb := v_row->>'status';
+      v_details := jsonb_strip_nulls(jsonb_build_object('comment', v_row->'comment'));
+    WHEN 'files' THEN
+      IF TG_OP = 'INSERT' THEN
+        v_verb := 'uploaded';
+      ELSIF v_changes ? 'current_version' THEN
+        v_verb := CASE WHEN (v_new->>'current_version')::int > (v_old->>'current_version')::int
+                       THEN 'version_uploaded' ELSE 'version_restored' END;
+      ELSIF v_changes ? 'is_archived' THEN
+        v_verb := CASE WHEN (v_new->>'is_archived')::boolean THEN 'archived' ELSE 'unarchived' END;
+      ELSIF v_changes ? 'folder_id' THEN
+        v_verb := 'moved';
+      END IF;
+    WHEN 'folders' THEN
+      IF v_changes ? 'name' THEN
+        v_verb := 'renamed';
+      ELSIF v_changes ? 'parent_id' THEN
+        v_verb := 'moved';
+      END IF;
+    WHEN 'comment_tasks' THEN
+      v_details := v_details || jsonb_build_object('kind', 'task');
+      IF v_changes ? 'status' THEN
+        v_verb := 'status_changed';
+      END IF;
+    WHEN 'global_comments' THEN
+      v_details := v_details || jsonb_build_object('kind', 'project');
+    WHEN 'page_comments' THEN
+      -- Lock, unlock and approval notes are covered by the brochure page entries
+      IF v_row->>'action_type' <> 'comment' THEN
+        RETURN NULL;
+      END IF;
+      SELECT bp.project_id INTO v_project_id
+      FROM brochure_pages p
+      JOIN brochure_projects bp ON bp.id = p.project_id
+      WHERE p.id = (v_row->>'page_id')::uuid;
+      v_details := v_details || jsonb_build_object('kind', 'page', 'page_id', v_row->'page_id');
+      IF v_changes ? 'marked_done' AND (v_new->>'marked_done')::boolean THEN
+        v_verb := 'resolved';
+      END IF;
+    WHEN 'brochure_pages' THEN
+      SELECT project_id INTO v_project_id
+      FROM brochure_projects
+      WHERE id = (v_row->>'project_id')::uuid;
+      v_details := v_details || jsonb_build_object('brochure_id', v_row->'project_id');
+      IF v_changes ? 'approval_status' THEN
+        v_verb := v_new->>'approval_status';
+      ELSIF v_changes ? 'is_locked' THEN
+        v_verb := CASE WHEN (v_new->>'is_locked')::boolean THEN 'locked' ELSE 'unlocked' END;
+      END IF;
+    WHEN 'meetings' THEN
+      IF TG_OP = 'INSERT' THEN
+        v_verb := 'scheduled';
+      END IF;
+    WHEN 'share_links' THEN
+      IF v_changes ? 'revoked_at' AND v_new->>'revoked_at' IS NOT NULL THEN
+        v_verb := 'revoked';
+      END IF;
+    WHEN 'storage_quotas' THEN
+      v_entity_type := CASE WHEN v_row->>'scope' = 'project' THEN 'project' ELSE 'user' END;
+      v_entity_id := (v_row->>'target_id')::uuid;
+      v_project_id := CASE WHEN v_row->>'scope' = 'project' THEN v_entity_id END;
+      v_verb := 'quota_updated';
+      v_changes := jsonb_build_object('quota_bytes', jsonb_build_object('from', v_old->'quota_bytes', 'to', v_new->'quota_bytes'));
+    WHEN 'download_history' THEN
+      IF TG_OP <> 'INSERT' THEN
+        RETURN NULL;
+      END IF;
+      v_entity_id := (v_row->>'file_id')::uuid;
+      v_verb := 'downloaded';
+    ELSE
+      NULL;
+  END CASE;
+
+  SELECT * INTO v_actor FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO audit_events (actor_id, actor_name, actor_role, action, entity_type, entity_id, project_id, details)
+  VALUES (
+    auth.uid(),
+    COALESCE(v_actor.full_name, ''),
+    COALESCE(v_actor.role, ''),
+    v_entity_type || '.' || v_verb,
+    v_entity_type,
+    v_entity_id,
+    v_project_id,
+    v_details || v_changes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  audited record;
+BEGIN
+  FOR audited IN
+    SELECT * FROM (VALUES
+      ('projects', 'project', '', ''),
+      ('project_budgets', 'project', '', ''),
+      ('stages', 'stage', '', ''),
+      ('stage_approvals', 'stage', '', ''),
+      ('files', 'file', '', ''),
+      ('folders', 'folder', '', ''),
+      ('comment_tasks', 'comment', '', ''),
+      ('global_comments', 'comment', '', ''),
+      ('page_comments', 'comment', '', ''),
+      ('meetings', 'meeting', '', ''),
+      ('tasks', 'task', '', ''),
+      ('brochure_projects', 'brochure', '', ''),
+      ('brochure_pages', 'brochure_page', 'locked_by,locked_by_name,locked_at', 'content'),
+      ('share_links', 'share_link', '', 'token,password_hash'),
+      ('storage_quotas', 'project', 'updated_by', ''),
+      ('retention_rules', 'retention_rule', 'last_run_at', ''),
+      ('leads', 'lead', '', ''),
+      ('invoices', 'invoice', '', ''),
+      ('download_history', 'file', '', '')
+    ) AS t(table_name, entity_type, ignored_columns, hidden_columns)
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%s ON public.%I', audited.table_name, audited.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%s AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION record_audit_event(%L, %L, %L)',
+      audited.table_name, audited.table_name, audited.entity_type, audited.ignored_columns, audited.hidden_columns
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Users can record their own actions" ON audit_events;
+
+CREATE POLICY "Users can record their own actions"
+  ON audit_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actor_id = auth.uid() AND
+    actor_role = (SELECT role FROM profiles WHERE profiles.id = auth.uid()) AND
+    action IN ('brochure.exported', 'file.integrity_failed')
+  );
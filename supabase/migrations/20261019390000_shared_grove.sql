@@ -0,0 +1,23 @@
+/*
+  # Publish folders to realtime
+
+  1. Realtime
+    - Add `folders` to the `supabase_realtime` publication (skipped if already there),
+      so folder creates, renames, moves and deletes reach other users
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'folders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.folders;
+  END IF;
+END $$;
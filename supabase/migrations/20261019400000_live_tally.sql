@@ -0,0 +1,23 @@
+/*
+  # Publish download history to realtime
+
+  1. Realtime
+    - Add `download_history` to the `supabase_realtime` publication (skipped if
+      already there), so live history and analytics reach other viewers
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'download_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.download_history;
+  END IF;
+END $$;